@@ -4,6 +4,8 @@ import { validateEnvironment } from "./config/envValidator";
 import { config } from "./config/environments";
 import { createIndexes } from "./config/databaseIndexes";
 import sessionCleanupService from "./services/sessionCleanupService";
+import contextWindowService from "./services/contextWindowService";
+import generationJobService from "./services/generationJobService";
 import User from "./models/user";
 import cookieParser from 'cookie-parser';
 import cors from "cors";
@@ -26,10 +28,13 @@ import {
   FileCacheData, 
   UploadResponse, 
   CacheStatsResponse,
-  AuthenticatedRequest 
+  AuthenticatedRequest,
+  DetectedLanguage
 } from "./types";
 import openaiService from "./services/openaiService";
-import { fileContentCache } from "./controllers/testGenerationController";
+import openApiService from "./services/openApiService";
+import { fileContentCache, fileLanguageCache, openApiSpecCache } from "./controllers/testGenerationController";
+import { detectLanguage } from "./utils/language";
 
 // Validate environment variables before starting the app
 validateEnvironment();
@@ -52,7 +57,11 @@ const upload = createMulterConfig({
 // CORS configuration
 app.use(cors({
     origin: config.cors.origins,
-    credentials: config.cors.credentials
+    credentials: config.cors.credentials,
+    // Last-Event-ID lets a dropped generation stream resume where it left off
+    allowedHeaders: ['Content-Type', 'Authorization', 'Cache-Control', 'Last-Event-ID', 'X-Session-Id'],
+    // Lets the frontend read the file name of exported downloads
+    exposedHeaders: ['Content-Disposition']
 }));
 
 // JSON parsing middleware that only parses for POST/PUT/PATCH requests
@@ -157,6 +166,7 @@ app.post("/upload", upload.array("files", 10), createFileValidator(), handleMult
 
       // Extract content for test generation (both text files and images)
       let extractedContent = '';
+      let language: DetectedLanguage | undefined;
       try {
         extractedContent = await openaiService.extractTextFromFile(
           file.buffer, 
@@ -169,12 +179,38 @@ app.post("/upload", upload.array("files", 10), createFileValidator(), handleMult
         if (fileId) {
           fileContentCache.set(fileId, extractedContent);
         }
+
+        // Remember the document's language so generation can tell the model what it reads
+        language = detectLanguage(extractedContent);
+        if (language && fileId) {
+          fileLanguageCache.set(fileId, language);
+          fileCache.set(filename, { ...fileCache.get(filename)!, language });
+          console.log(`🌐 Detected ${language.code} (${Math.round(language.confidence * 100)}%) in ${file.originalname}`);
+        }
       } catch (contentError) {
         console.warn(`⚠️ Failed to extract content from ${file.originalname}:`, contentError);
         extractedContent = `[Content extraction failed for ${file.originalname}]`;
       }
 
       const fileId = filename.split('.')[0];
+
+      // Keep the parsed spec of OpenAPI / Swagger files for endpoint-based test generation
+      let openApi: UploadedFile['openApi'];
+      if (['json', 'yaml', 'yml'].includes(ext)) {
+        const spec = openApiService.parseDocument(file.buffer.toString('utf-8'));
+        if (spec && fileId) {
+          const summary = openApiService.getSpecSummary(spec);
+          openApiSpecCache.set(fileId, summary);
+          openApi = {
+            version: summary.version,
+            title: summary.title,
+            apiVersion: summary.apiVersion,
+            operations: summary.operations.length
+          };
+          console.log(`📘 Detected ${summary.version} spec "${summary.title}" with ${summary.operations.length} operations in ${file.originalname}`);
+        }
+      }
+
       const fileInfo: UploadedFile = {
         id: fileId || filename,
         filename: filename,
@@ -184,7 +220,9 @@ app.post("/upload", upload.array("files", 10), createFileValidator(), handleMult
         mimetype: file.mimetype,
         url: `/file/${filename}`,
         uploadedAt: new Date().toISOString(),
-        extractedContent: extractedContent // Add extracted content to file info
+        extractedContent: extractedContent, // Add extracted content to file info
+        ...(openApi ? { openApi } : {}),
+        ...(language ? { language } : {})
       };
 
       fileInfos.push(fileInfo);
@@ -453,6 +491,17 @@ connectDB()
     
     // Start session cleanup cron job
     sessionCleanupService.startCronJob();
+
+    // Start context window retention cleanup
+    contextWindowService.startCleanupJob();
+
+    // Pick up generation jobs interrupted by the last shutdown, and later ones whose server went away
+    try {
+      await generationJobService.resumeInterruptedJobs();
+    } catch (error) {
+      console.warn("⚠️ Failed to resume generation jobs:", error);
+    }
+    generationJobService.startRecoveryJob();
     
     app.listen(config.port, () => {
       console.log(`🚀 Server is running on port ${config.port}`);
@@ -112,6 +112,45 @@ const options: swaggerJsdoc.Options = {
               description: 'Test case priority',
               example: 'P1',
             },
+            quality: {
+              type: 'object',
+              description: 'Rule-based quality check: placeholder text, missing preconditions, unnumbered or duplicate steps, unverifiable expected results',
+              properties: {
+                score: { type: 'integer', minimum: 0, maximum: 100, example: 85 },
+                grade: { type: 'string', enum: ['good', 'fair', 'poor'], example: 'good' },
+                issues: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      rule: {
+                        type: 'string',
+                        enum: ['placeholder_text', 'missing_precondition', 'unnumbered_steps', 'unverifiable_expected_result', 'duplicate_steps'],
+                      },
+                      field: { type: 'string', enum: ['summary', 'precondition', 'steps', 'expectedResult'] },
+                      severity: { type: 'string', enum: ['error', 'warning'] },
+                      message: { type: 'string' },
+                    },
+                  },
+                },
+                refined: { type: 'boolean', description: 'Rewritten by auto-refine because the original scored low' },
+              },
+            },
+            risk: {
+              type: 'object',
+              description: 'Why the test case has its priority, when a risk profile was applied',
+              properties: {
+                area: { type: 'string', example: 'Checkout' },
+                score: { type: 'integer', minimum: 0, maximum: 100, example: 76 },
+                riskPriority: { type: 'string', enum: ['P1', 'P2', 'P3'] },
+                modelPriority: { type: 'string', enum: ['P1', 'P2', 'P3'] },
+                mode: { type: 'string', enum: ['override', 'calibrate'] },
+                rationale: {
+                  type: 'string',
+                  example: 'Checkout: business impact 5/5, usage frequency 4/5, change frequency 3/5, defect history 3/5 → risk score 76 (P1); model\'s P2 overridden to P1.',
+                },
+              },
+            },
           },
         },
         UploadedFile: {
@@ -158,6 +197,22 @@ const options: swaggerJsdoc.Options = {
               format: 'date-time',
               description: 'Upload timestamp',
             },
+            language: {
+              type: 'object',
+              description: 'Language detected in the extracted content; missing when the text is too short to tell',
+              properties: {
+                code: {
+                  type: 'string',
+                  enum: ['en', 'de', 'es', 'fr', 'it', 'pt', 'nl', 'ja', 'zh', 'ko'],
+                  example: 'de',
+                },
+                confidence: {
+                  type: 'number',
+                  description: 'Share of the matched function words (or CJK characters) that belong to this language, 0-1',
+                  example: 0.82,
+                },
+              },
+            },
           },
         },
         ApiResponse: {
@@ -9,6 +9,7 @@ import {
   removePermissionFromAdmin,
   resetAdminPermissions,
   getAdminUser,
+  updateUserTeams,
   getAvailablePermissions,
   getDefaultPermissionsForRole
 } from '../utils/adminUserManager';
@@ -364,6 +365,73 @@ export const getAdminUserController = async (req: Request, res: Response): Promi
   }
 };
 
+/**
+ * Update User Teams
+ * Sets the teams a regular user belongs to, for sharing prompt templates
+ */
+export const updateUserTeamsController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { userId } = req.params;
+    const { teams } = req.body;
+    const adminUser = req.user as any;
+
+    if (!userId) {
+      res.status(400).json({
+        success: false,
+        error: 'Missing required parameter',
+        message: 'userId is required'
+      });
+      return;
+    }
+
+    if (!Array.isArray(teams) || teams.some(team => typeof team !== 'string' || team.length > 100)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid teams',
+        message: 'teams must be an array of team names'
+      });
+      return;
+    }
+
+    const result = await updateUserTeams(userId, teams);
+
+    if (result.success) {
+      await logAdminAction({
+        adminId: adminUser._id?.toString() || '',
+        adminEmail: adminUser.emailId,
+        action: AdminAuditActions.UPDATE_USER.action,
+        resource: AdminAuditActions.UPDATE_USER.resource,
+        details: {
+          targetUserId: userId,
+          teams: result.user?.teams
+        }
+      });
+
+      res.json({
+        success: true,
+        message: 'User teams updated successfully',
+        data: {
+          user: result.user,
+          updatedBy: adminUser.emailId
+        }
+      });
+    } else {
+      res.status(404).json({
+        success: false,
+        error: result.error,
+        message: 'Failed to update user teams'
+      });
+    }
+  } catch (error) {
+    console.error('❌ Update user teams error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      message: 'Failed to update user teams'
+    });
+  }
+};
+
 /**
  * Add Permission to Admin User
  * Only superadmin can add permissions
@@ -1,5 +1,11 @@
 import { Request, Response } from 'express';
 import openaiTokenService from '../services/openaiTokenService';
+import generationJobService from '../services/generationJobService';
+import modelPolicyService from '../services/modelPolicyService';
+import provenanceService from '../services/provenanceService';
+import { CustomError } from '../middlewares/errorHandler';
+import { GenerationJobStatus } from '../types/generationJob';
+import { ProvenanceOperation, ProvenanceStatus } from '../types/provenance';
 
 export class OpenAIAdminController {
     /**
@@ -17,11 +23,14 @@ export class OpenAIAdminController {
                 filter.endDate = new Date(endDate as string);
             }
 
-            const stats = await openaiTokenService.getAdminStats(filter.startDate, filter.endDate);
+            const [stats, generationJobs] = await Promise.all([
+                openaiTokenService.getAdminStats(filter.startDate, filter.endDate),
+                generationJobService.getStats()
+            ]);
             
             res.json({
                 success: true,
-                data: stats,
+                data: { ...stats, generationJobs },
                 message: 'OpenAI usage statistics retrieved successfully'
             });
         } catch (error) {
@@ -129,4 +138,254 @@ export class OpenAIAdminController {
             });
         }
     }
+
+    /**
+     * List generation jobs of all users
+     * GET /admin/openai/jobs
+     */
+    static async getGenerationJobs(req: Request, res: Response): Promise<void> {
+        try {
+            const { status, userId, page = 1, limit = 20 } = req.query;
+
+            const jobs = await generationJobService.listJobs({
+                status: status as GenerationJobStatus | undefined,
+                userId: userId as string | undefined,
+                page: Number(page),
+                limit: Number(limit)
+            });
+
+            res.json({
+                success: true,
+                data: jobs,
+                message: 'Generation jobs retrieved successfully'
+            });
+        } catch (error) {
+            console.error('❌ Generation jobs error:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Failed to get generation jobs',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    /**
+     * Cancel any user's generation job
+     * POST /admin/openai/jobs/:jobId/cancel
+     */
+    static async cancelGenerationJob(req: Request, res: Response): Promise<void> {
+        try {
+            const { jobId } = req.params;
+
+            const job = await generationJobService.getJob(jobId || '');
+            if (!job) {
+                res.status(404).json({
+                    success: false,
+                    error: 'Generation job not found'
+                });
+                return;
+            }
+
+            if (generationJobService.isFinished(job.status)) {
+                res.status(409).json({
+                    success: false,
+                    error: `Generation job is already ${job.status}`
+                });
+                return;
+            }
+
+            const cancelled = await generationJobService.cancelJob(job.id);
+
+            res.json({
+                success: true,
+                data: cancelled,
+                message: `Cancellation requested for generation job ${jobId}`
+            });
+        } catch (error) {
+            console.error('❌ Cancel generation job error:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Failed to cancel generation job',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    /**
+     * List the model allow-list with per-role limits
+     * GET /admin/openai/models
+     */
+    static async getModelPolicies(req: Request, res: Response): Promise<void> {
+        try {
+            const policies = await modelPolicyService.listPolicies();
+
+            res.json({
+                success: true,
+                data: policies,
+                message: 'Model policies retrieved successfully'
+            });
+        } catch (error) {
+            console.error('❌ Model policies error:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Failed to get model policies',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    /**
+     * Add a model to the allow-list or replace its limits
+     * PUT /admin/openai/models
+     */
+    static async saveModelPolicy(req: Request, res: Response): Promise<void> {
+        try {
+            const policy = await modelPolicyService.upsertPolicy(req.body, req.user?.emailId);
+
+            res.json({
+                success: true,
+                data: policy,
+                message: `Model policy for ${policy.provider}/${policy.model} saved`
+            });
+        } catch (error) {
+            console.error('❌ Save model policy error:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Failed to save model policy',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    /**
+     * Remove a model from the allow-list
+     * DELETE /admin/openai/models/:policyId
+     */
+    static async deleteModelPolicy(req: Request, res: Response): Promise<void> {
+        try {
+            const { policyId } = req.params;
+
+            const deleted = await modelPolicyService.deletePolicy(policyId || '');
+            if (!deleted) {
+                res.status(404).json({
+                    success: false,
+                    error: 'Model policy not found'
+                });
+                return;
+            }
+
+            res.json({
+                success: true,
+                message: `Model policy ${policyId} deleted`
+            });
+        } catch (error) {
+            console.error('❌ Delete model policy error:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Failed to delete model policy',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    /**
+     * List generation provenance records, newest first
+     * GET /admin/openai/provenance
+     */
+    static async getProvenanceRecords(req: Request, res: Response): Promise<void> {
+        try {
+            const { userId, operation, status, model, page = 1, limit = 20 } = req.query;
+
+            const records = await provenanceService.listRecords({
+                userId: userId as string | undefined,
+                operation: operation as ProvenanceOperation | undefined,
+                status: status as ProvenanceStatus | undefined,
+                model: model as string | undefined,
+                page: Number(page),
+                limit: Number(limit)
+            });
+
+            res.json({
+                success: true,
+                data: records,
+                message: 'Provenance records retrieved successfully'
+            });
+        } catch (error) {
+            console.error('❌ Provenance records error:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Failed to get provenance records',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    /**
+     * Get a provenance record with its prompts, raw model replies and test cases
+     * GET /admin/openai/provenance/:recordId
+     */
+    static async getProvenanceRecord(req: Request, res: Response): Promise<void> {
+        try {
+            const { recordId } = req.params;
+
+            const record = await provenanceService.getRecord(recordId || '');
+            if (!record) {
+                res.status(404).json({
+                    success: false,
+                    error: 'Provenance record not found'
+                });
+                return;
+            }
+
+            res.json({
+                success: true,
+                data: record,
+                message: 'Provenance record retrieved successfully'
+            });
+        } catch (error) {
+            console.error('❌ Provenance record error:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Failed to get provenance record',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    /**
+     * Send a recorded generation to a model again and compare the results
+     * POST /admin/openai/provenance/:recordId/replay
+     */
+    static async replayProvenanceRecord(req: Request, res: Response): Promise<void> {
+        try {
+            const { recordId } = req.params;
+
+            const result = await provenanceService.replay(recordId || '', req.body || {}, {
+                userId: req.user?._id?.toString(),
+                userEmail: req.user?.emailId
+            });
+
+            res.json({
+                success: true,
+                data: result,
+                message: `Provenance record ${recordId} replayed with ${result.record.provider}/${result.record.model}`
+            });
+        } catch (error) {
+            if (error instanceof CustomError) {
+                res.status(error.statusCode).json({
+                    success: false,
+                    error: error.message,
+                    code: error.code
+                });
+                return;
+            }
+
+            console.error('❌ Replay provenance record error:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Failed to replay provenance record',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
 }
@@ -0,0 +1,123 @@
+import { Response } from 'express';
+import promptTemplateService from '../services/promptTemplateService';
+import { CustomError } from '../middlewares/errorHandler';
+import { AuthenticatedRequest } from '../types';
+import { TemplateUser } from '../types/promptTemplate';
+
+// The signed-in user as seen by the prompt template library
+export const getTemplateUser = (req: AuthenticatedRequest): TemplateUser | undefined => {
+  if (!req.user) return undefined;
+  return {
+    userId: String(req.user._id || req.user.id),
+    userEmail: req.user.emailId,
+    teams: req.user.teams || []
+  };
+};
+
+// Template errors carry their status (404, 403, 400); anything else is a 500
+const handleTemplateError = (error: unknown, message: string, res: Response): void => {
+  if (error instanceof CustomError) {
+    res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+      code: error.code
+    });
+    return;
+  }
+
+  console.error(`❌ ${message}:`, error);
+  res.status(500).json({
+    success: false,
+    error: message
+  });
+};
+
+/**
+ * List the built-in presets, the user's own templates and those shared with their teams
+ */
+export const listPromptTemplates = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const templates = await promptTemplateService.listTemplates(getTemplateUser(req));
+
+    res.json({
+      success: true,
+      templates
+    });
+  } catch (error) {
+    handleTemplateError(error, 'Failed to list prompt templates', res);
+  }
+};
+
+export const getPromptTemplate = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const template = await promptTemplateService.getTemplate(req.params.templateId || '', getTemplateUser(req));
+
+    res.json({
+      success: true,
+      template
+    });
+  } catch (error) {
+    handleTemplateError(error, 'Failed to get prompt template', res);
+  }
+};
+
+export const createPromptTemplate = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const template = await promptTemplateService.createTemplate(req.body, getTemplateUser(req)!);
+
+    res.status(201).json({
+      success: true,
+      template,
+      message: `Prompt template "${template.name}" created`
+    });
+  } catch (error) {
+    handleTemplateError(error, 'Failed to create prompt template', res);
+  }
+};
+
+export const updatePromptTemplate = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const template = await promptTemplateService.updateTemplate(req.params.templateId || '', req.body, getTemplateUser(req)!);
+
+    res.json({
+      success: true,
+      template,
+      message: `Prompt template "${template.name}" updated`
+    });
+  } catch (error) {
+    handleTemplateError(error, 'Failed to update prompt template', res);
+  }
+};
+
+export const deletePromptTemplate = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    await promptTemplateService.deleteTemplate(req.params.templateId || '', getTemplateUser(req)!);
+
+    res.json({
+      success: true,
+      message: 'Prompt template deleted'
+    });
+  } catch (error) {
+    handleTemplateError(error, 'Failed to delete prompt template', res);
+  }
+};
+
+/**
+ * Preview the prompt a template produces with the given variable values
+ */
+export const renderPromptTemplate = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { template, prompt } = await promptTemplateService.renderRequest(
+      { templateId: req.params.templateId || '', variables: req.body?.variables },
+      getTemplateUser(req)
+    );
+
+    res.json({
+      success: true,
+      templateId: template.id,
+      prompt
+    });
+  } catch (error) {
+    handleTemplateError(error, 'Failed to render prompt template', res);
+  }
+};
@@ -1,11 +1,44 @@
 import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
 import openaiService from '../services/openaiService';
 import contextWindowService from '../services/contextWindowService';
 import cacheService from '../services/cacheService';
 import { AuthenticatedRequest } from '../types';
-import { ContextWindowRequest } from '../types/contextWindow';
+import { ContextWindowRequest, TestCaseContext } from '../types/contextWindow';
 import { trackOpenAIUsage, recordOpenAIUsage } from '../middlewares/openaiTokenTracking';
-import { OpenAIUsageData } from '../services/openaiTokenService';
+import openaiTokenService, { OpenAIUsageData } from '../services/openaiTokenService';
+import { LLMUsage } from '../types/llm';
+import { TestCaseSource } from '../types/document';
+import { CustomError, ModelOutputError, ModelPolicyError } from '../middlewares/errorHandler';
+import testCaseRefinementService from '../services/testCaseRefinementService';
+import deduplicationService, { DedupeMode, DuplicateMatch } from '../services/deduplicationService';
+import { GherkinScenario, TestCaseFormat } from '../types/gherkin';
+import { formatFeatureFile } from '../utils/gherkin';
+import { createZipArchive } from '../utils/zipArchive';
+import automationScriptService, { AutomationFramework } from '../services/automationScriptService';
+import openApiService from '../services/openApiService';
+import requirementService from '../services/requirementService';
+import testDataService from '../services/testDataService';
+import generationJobService from '../services/generationJobService';
+import streamReplayService from '../services/streamReplayService';
+import modelPolicyService from '../services/modelPolicyService';
+import promptTemplateService from '../services/promptTemplateService';
+import provenanceService, { ProvenanceRecording } from '../services/provenanceService';
+import riskPrioritizationService from '../services/riskPrioritizationService';
+import { getTemplateUser } from './promptTemplateController';
+import { ApiSpecSummary, ApiTestCategory } from '../types/openapi';
+import { TraceableTestCase } from '../types/requirement';
+import { FieldDefinition, TestDataOptions, TestDataPreset, TestDataTable } from '../types/testData';
+import { GenerationJob, GenerationJobStatus } from '../types/generationJob';
+import { GenerationOverrides } from '../types/modelPolicy';
+import { ProvenanceFile, ProvenanceOperation } from '../types/provenance';
+import { TestCaseQuality } from '../types/quality';
+import { RiskProfile, TestCaseRisk } from '../types/risk';
+import { DetectedLanguage, LanguageCode } from '../types/language';
+import { LANGUAGES, LANGUAGE_CODES, detectLanguage, isSupportedLanguage } from '../utils/language';
+import { swaggerSpec } from '../config/swagger';
+import { getEnvVar } from '../config/envValidator';
+import { commonSchemas } from '../middlewares/validation';
 
 interface TestGenerationRequest {
   prompt: string;
@@ -13,6 +46,19 @@ interface TestGenerationRequest {
   count?: number;
   offset?: number;
   requestId?: string;
+  provider?: string;
+  existingSummaries?: string[];
+  dedupe?: DedupeMode;
+  format?: TestCaseFormat;
+  async?: boolean; // queue a generation job instead of waiting for the result
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  templateId?: string; // prompt template rendered with `variables`, used before any prompt text
+  variables?: Record<string, string>;
+  autoRefine?: boolean; // rewrite test cases the quality linter scores low
+  riskProfile?: RiskProfile; // feature area risk factors that set the priorities
+  language?: LanguageCode; // language the test cases are written in, English when not given
 }
 
 interface TestCase {
@@ -22,6 +68,12 @@ interface TestCase {
   steps: string;
   expectedResult: string;
   priority: 'P1' | 'P2' | 'P3';
+  source?: TestCaseSource | undefined;
+  gherkin?: GherkinScenario | undefined;
+  duplicateOf?: DuplicateMatch;
+  provenanceId?: string | undefined;
+  quality?: TestCaseQuality | undefined;
+  risk?: TestCaseRisk | undefined;
 }
 
 interface TestGenerationResponse {
@@ -29,6 +81,8 @@ interface TestGenerationResponse {
   testCases: TestCase[];
   totalGenerated: number;
   hasMore: boolean;
+  duplicates?: number;
+  provenanceId?: string;
   message?: string;
   error?: string;
   usage?: {
@@ -41,14 +95,23 @@ interface TestGenerationResponse {
 // In-memory storage for file content (in production, use database)
 export const fileContentCache = new Map<string, string>();
 
+// Parsed OpenAPI / Swagger specs of uploaded files, keyed by file ID
+export const openApiSpecCache = new Map<string, ApiSpecSummary>();
+
+// Languages detected in the extracted content of uploaded files, keyed by file ID
+export const fileLanguageCache = new Map<string, DetectedLanguage>();
+
 // In-memory storage for user request tracking (in production, use database)
 const userRequestCache = new Map<string, number[]>();
 
-// Daily token usage tracking to prevent excessive usage
-const dailyTokenUsage = new Map<string, { date: string; tokens: number }>();
+// Roughly 50,000 tokens per day per user for GPT-4o-mini
+const DAILY_TOKEN_LIMIT = 50000;
 
-// In-memory cache for request deduplication
-const requestCache = new Map<string, { timestamp: number; processing: boolean }>();
+// In-memory cache for request deduplication; cancelled requests may be retried right away
+const requestCache = new Map<string, { timestamp: number; processing: boolean; cancelled?: boolean }>();
+
+// Interval between SSE comment lines that keep proxies from closing idle streams
+const SSE_HEARTBEAT_MS = parseInt(getEnvVar('SSE_HEARTBEAT_MS', '15000'));
 
 // Helper function for request deduplication
 const handleRequestDeduplication = (requestId: string, res: Response): boolean => {
@@ -70,7 +133,7 @@ const handleRequestDeduplication = (requestId: string, res: Response): boolean =
       return true;
     }
     
-    if (now - existingRequest.timestamp < 5000) {
+    if (!existingRequest.cancelled && now - existingRequest.timestamp < 5000) {
       console.log(`⚠️ Recent duplicate request detected: ${requestId}`);
       res.status(409).json({
         success: false,
@@ -95,6 +158,225 @@ const handleError = (error: unknown, message: string, res: Response, statusCode:
   });
 };
 
+const TEST_CASE_FORMATS: TestCaseFormat[] = ['standard', 'gherkin'];
+
+// Map a context window service error message to an HTTP status
+const getContextErrorStatus = (error?: string): number => {
+  if (error?.startsWith('Unauthorized')) return 403;
+  if (error?.includes('not found')) return 404;
+  if (error?.includes('changed since')) return 409;
+  return 400;
+};
+
+// Drop (merge) or mark (flag) test cases that repeat already generated ones
+const applyDeduplication = <T extends TestCase>(
+  testCases: T[],
+  existingSummaries: string[],
+  mode: DedupeMode
+): { testCases: T[]; duplicates: number } => {
+  const { unique, duplicates } = deduplicationService.partition(testCases, existingSummaries);
+
+  if (duplicates.length > 0) {
+    console.log(`🔁 ${duplicates.length} duplicate test cases ${mode === 'flag' ? 'flagged' : 'merged'}`);
+  }
+
+  if (mode === 'merge') {
+    return { testCases: unique, duplicates: duplicates.length };
+  }
+
+  return {
+    testCases: testCases.map(testCase => {
+      const duplicate = duplicates.find(d => d.testCase === testCase);
+      return duplicate ? { ...testCase, duplicateOf: duplicate.duplicateOf } : testCase;
+    }),
+    duplicates: duplicates.length
+  };
+};
+
+// Summaries the user already has for this session: sent by the client on
+// "load more" plus whatever is in the session cache
+const getExistingSummaries = (req: AuthenticatedRequest, offset: number, clientSummaries: string[] = []): string[] => {
+  const userId = req.user?._id;
+  const sessionId = req.headers['x-session-id'] as string || 'default';
+  const cachedSummaries = userId && offset > 0
+    ? cacheService.loadTestCases(userId as string, sessionId).map(testCase => testCase.summary)
+    : [];
+
+  return [...clientSummaries, ...cachedSummaries].filter(summary => typeof summary === 'string');
+};
+
+// Check the model and parameter overrides of a generation request against the
+// allow-list for the user's role; sends the error response and returns null if not allowed
+const resolveGenerationOverrides = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  provider: string | undefined,
+  { model, temperature, maxTokens }: GenerationOverrides
+): Promise<GenerationOverrides | null> => {
+  if ((model !== undefined && (typeof model !== 'string' || !model.trim())) ||
+      (temperature !== undefined && (typeof temperature !== 'number' || !Number.isFinite(temperature))) ||
+      (maxTokens !== undefined && (!Number.isInteger(maxTokens) || maxTokens < 1))) {
+    res.status(400).json({
+      success: false,
+      error: 'model must be a model name, temperature a number and maxTokens a positive integer'
+    });
+    return null;
+  }
+
+  try {
+    return await modelPolicyService.resolveOverrides(req.user?.role || 'user', provider, { model: model?.trim(), temperature, maxTokens });
+  } catch (error) {
+    if (!(error instanceof ModelPolicyError)) throw error;
+    res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+      code: error.code
+    });
+    return null;
+  }
+};
+
+// Risk profile of a generation request, validated like PUT .../risk-profile;
+// sends the error response and returns null when it is invalid
+const resolveRiskProfile = (res: Response, riskProfile: unknown): RiskProfile | undefined | null => {
+  if (riskProfile === undefined) return undefined;
+
+  const { error, value } = commonSchemas.riskProfile.validate(riskProfile, { stripUnknown: true, convert: true });
+  if (error) {
+    res.status(400).json({
+      success: false,
+      error: `Invalid riskProfile: ${error.message}`,
+      code: 'INVALID_RISK_PROFILE'
+    });
+    return null;
+  }
+
+  return value;
+};
+
+// Target language of a generation request; sends the error response and
+// returns null when the language is not supported
+const resolveLanguage = (res: Response, language: unknown): LanguageCode | undefined | null => {
+  if (language === undefined) return undefined;
+  if (isSupportedLanguage(language)) return language;
+
+  res.status(400).json({
+    success: false,
+    error: `Language must be one of: ${LANGUAGE_CODES.join(', ')}`,
+    code: 'UNSUPPORTED_LANGUAGE'
+  });
+  return null;
+};
+
+// Languages detected in the uploaded files a generation uses
+const getSourceLanguages = (fileIds: string[]): LanguageCode[] =>
+  Array.from(new Set(fileIds.flatMap(fileId => {
+    const detected = fileLanguageCache.get(fileId);
+    return detected ? [detected.code] : [];
+  })));
+
+// Prompt of a generation request: the referenced template rendered with its
+// variables, followed by any prompt text; sends the error response and returns null on failure
+const resolvePrompt = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  { prompt, templateId, variables }: { prompt?: string | undefined; templateId?: string | undefined; variables?: Record<string, string> | undefined }
+): Promise<string | null> => {
+  if (!templateId) return prompt ?? '';
+
+  try {
+    const rendered = await promptTemplateService.renderRequest({ templateId, variables }, getTemplateUser(req));
+    return prompt?.trim() ? `${rendered.prompt}\n${prompt.trim()}` : rendered.prompt;
+  } catch (error) {
+    if (!(error instanceof CustomError)) throw error;
+    res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+      code: error.code
+    });
+    return null;
+  }
+};
+
+// Content hashes of the uploaded files a generation uses
+const describeGenerationFiles = (fileIds: string[]): ProvenanceFile[] =>
+  provenanceService.describeFiles(fileIds.map(fileId => ({ fileId, content: fileContentCache.get(fileId) })));
+
+// Start the provenance record of a generation; its test cases link to it through provenanceId
+const startProvenance = (
+  req: AuthenticatedRequest,
+  operation: ProvenanceOperation,
+  { provider, prompt, fileIds, format, count, offset, templateId, overrides }: {
+    provider: string | undefined;
+    prompt: string;
+    fileIds: string[];
+    format: TestCaseFormat;
+    count: number;
+    offset: number;
+    templateId: string | undefined;
+    overrides: GenerationOverrides;
+  }
+): ProvenanceRecording => provenanceService.start({
+  operation,
+  ...(req.user ? { userId: String(req.user._id || req.user.id), userEmail: req.user.emailId } : {}),
+  provider,
+  parameters: { format, count, offset, temperature: overrides.temperature, maxTokens: overrides.maxTokens, templateId },
+  prompt,
+  files: describeGenerationFiles(fileIds)
+});
+
+// Tokens the user has used today against the daily limit, from the recorded usage of every
+// generation (including background jobs). Anonymous requests are not recorded, so they count as 0.
+const getDailyTokensUsed = async (userId: unknown): Promise<number> => {
+  if (!userId) return 0;
+
+  const startOfDay = new Date();
+  startOfDay.setHours(0, 0, 0, 0);
+  return openaiTokenService.getUserTokensSince(String(userId), startOfDay);
+};
+
+// Record token usage for admin monitoring without blocking the response
+const recordGenerationUsage = (
+  req: AuthenticatedRequest,
+  provider: string | undefined,
+  modelName: string,
+  usage: LLMUsage,
+  operation: string = 'test_generation'
+): void => {
+  try {
+    if (!req.user) return;
+
+    const promptTokens = usage.prompt_tokens || 0;
+    const completionTokens = usage.completion_tokens || 0;
+    const totalTokens = usage.total_tokens || 0;
+
+    // Calculate cost using the pricing of the provider that served the request
+    const cost = openaiService.calculateCost(provider, modelName, usage);
+
+    const usageData: OpenAIUsageData = {
+      userId: req.user._id || req.user.id,
+      userEmail: req.user.emailId || 'unknown@example.com',
+      modelName,
+      promptTokens,
+      completionTokens,
+      totalTokens,
+      cost,
+      operation
+    };
+
+    // Record usage asynchronously
+    setImmediate(async () => {
+      try {
+        await recordOpenAIUsage(usageData);
+      } catch (error) {
+        console.error('❌ Failed to record OpenAI usage:', error);
+      }
+    });
+  } catch (error) {
+    console.error('❌ OpenAI tracking error:', error);
+  }
+};
+
 // Cleanup old requests every 5 minutes
 setInterval(() => {
   const now = Date.now();
@@ -107,15 +389,128 @@ setInterval(() => {
   }
 }, 5 * 60 * 1000);
 
+// CORS headers come from the cors middleware, which answers credentialed requests with the caller's origin
+const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  'Connection': 'keep-alive'
+};
+
+// Send a buffered stream to the client, starting after the event it last received.
+// Dropping the connection leaves the generation running for the replay window.
+const attachEventStream = (res: Response, streamId: string, afterSequence: number): void => {
+  res.writeHead(200, SSE_HEADERS);
+
+  // Comment lines are ignored by EventSource but keep the connection from looking idle
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), SSE_HEARTBEAT_MS);
+
+  const unsubscribe = streamReplayService.subscribe(streamId, afterSequence, event => {
+    if (!event) {
+      clearInterval(heartbeat);
+      res.end();
+      return;
+    }
+    res.write(`id: ${event.id}\ndata: ${JSON.stringify(event.data)}\n\n`);
+  });
+
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    if (!res.writableEnded) {
+      console.log(`🔌 Client disconnected from stream ${streamId}, keeping it for a reconnect`);
+    }
+    unsubscribe();
+  });
+};
+
+// Reconnect to a streaming generation and replay the events sent after Last-Event-ID
+const resumeGenerationStream = (req: AuthenticatedRequest, res: Response, lastEventId: string): void => {
+  const position = streamReplayService.parseEventId(lastEventId);
+
+  if (!position || !streamReplayService.has(position.streamId)) {
+    res.status(410).json({
+      success: false,
+      error: 'The stream is no longer available, please generate the test cases again'
+    });
+    return;
+  }
+
+  const ownerId = streamReplayService.getOwner(position.streamId);
+  if (ownerId && ownerId !== req.user?._id?.toString()) {
+    res.status(403).json({
+      success: false,
+      error: 'Unauthorized to resume this stream'
+    });
+    return;
+  }
+
+  console.log(`🔁 Client reconnected to stream ${position.streamId} after event ${position.sequence}`);
+  attachEventStream(res, position.streamId, position.sequence);
+};
+
   /**
- * Generate test cases with streaming (one by one)
+ * Generate test cases with streaming (one by one). Every event carries an ID;
+ * a request with a Last-Event-ID header resumes the stream it belongs to.
  */
 export const generateTestCasesStreaming = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const lastEventId = req.headers['last-event-id'];
+  if (typeof lastEventId === 'string' && lastEventId) {
+    resumeGenerationStream(req, res, lastEventId);
+    return;
+  }
+
   let requestId: string | undefined;
+  let streamId: string | undefined;
   
   try {
-    const { prompt, fileIds = [], count = 10, offset = 0, requestId: reqId }: TestGenerationRequest = req.body;
+    const { prompt: promptText, templateId, variables, fileIds = [], count = 10, offset = 0, requestId: reqId, provider, existingSummaries: clientSummaries, dedupe = 'merge', format = 'standard', autoRefine = false, riskProfile: riskInput, language: languageInput, model, temperature, maxTokens }: TestGenerationRequest = req.body;
     requestId = reqId;
+    const userId = req.user?._id;
+
+    // Validate everything before the request is marked as processing, so a rejected request can be retried
+    const prompt = await resolvePrompt(req, res, { prompt: promptText, templateId, variables });
+    if (prompt === null) return;
+
+    const overrides = await resolveGenerationOverrides(req, res, provider, { model, temperature, maxTokens });
+    if (!overrides) return;
+
+    const riskProfile = resolveRiskProfile(res, riskInput);
+    if (riskProfile === null) return;
+
+    const language = resolveLanguage(res, languageInput);
+    if (language === null) return;
+
+    if (!prompt || prompt.trim().length === 0) {
+      res.status(400).json({
+        success: false,
+        error: 'Prompt is required for test case generation'
+      });
+      return;
+    }
+
+    if (count < 1 || count > 50) {
+      res.status(400).json({
+        success: false,
+        error: 'Count must be between 1 and 50'
+      });
+      return;
+    }
+
+    if (!TEST_CASE_FORMATS.includes(format)) {
+      res.status(400).json({
+        success: false,
+        error: `Format must be one of: ${TEST_CASE_FORMATS.join(', ')}`
+      });
+      return;
+    }
+
+    // Daily token usage limit
+    if (await getDailyTokensUsed(userId) > DAILY_TOKEN_LIMIT) {
+      res.status(429).json({
+        success: false,
+        error: 'Daily token limit exceeded. Please try again tomorrow.'
+      });
+      return;
+    }
 
     // Request deduplication - prevent duplicate requests
     if (requestId && handleRequestDeduplication(requestId, res)) {
@@ -126,8 +521,24 @@ export const generateTestCasesStreaming = async (req: AuthenticatedRequest, res:
       requestCache.set(requestId, { timestamp: Date.now(), processing: true });
     }
 
+    // Stop generating once the client has gone and did not reconnect in time
+    const abortController = new AbortController();
+    // Generated here, never taken from the client: for anonymous streams the ID is what proves the right to resume
+    const eventStreamId = uuidv4();
+    const openEventStream = (): void => {
+      streamId = eventStreamId;
+      streamReplayService.open(eventStreamId, () => {
+        console.log(`🔌 No reconnect to stream ${eventStreamId}, aborting streaming generation`);
+        abortController.abort();
+        if (requestId) {
+          requestCache.set(requestId, { timestamp: Date.now(), processing: false, cancelled: true });
+        }
+      }, req.user?._id?.toString());
+      attachEventStream(res, eventStreamId, 0);
+    };
+    const send = (data: object): void => streamReplayService.push(eventStreamId, data);
+
     // Rate limiting check
-    const userId = req.user?._id;
     if (userId) {
       const userRequestKey = `test_gen_${userId}`;
       const now = Date.now();
@@ -141,78 +552,58 @@ export const generateTestCasesStreaming = async (req: AuthenticatedRequest, res:
     const cacheSessionId = req.headers['x-session-id'] as string || 'default';
     let cachedTestCases: TestCase[] = [];
     
-    if (userId && offset === 0) {
+    // Cached cases may come from another model, so requests with overrides always generate
+    if (userId && offset === 0 && Object.keys(overrides).length === 0) {
       // Only load cache for initial generation (offset = 0)
       cachedTestCases = cacheService.loadTestCases(userId as string, cacheSessionId);
+      // Cached cases are only reused for the output format they were generated in
+      if (cachedTestCases.some(testCase => Boolean(testCase.gherkin) !== (format === 'gherkin'))) {
+        cachedTestCases = [];
+      }
+      // ...and for the language they were written in
+      const cachedLanguage = detectLanguage(cachedTestCases.map(testCase => `${testCase.summary}\n${testCase.steps}`).join('\n'));
+      if (cachedLanguage && cachedLanguage.code !== (language || 'en')) {
+        cachedTestCases = [];
+      }
+      // Risk priorities are deterministic, so cached cases are re-prioritized rather than regenerated
+      if (riskProfile) {
+        cachedTestCases = cachedTestCases.map(testCase => ({ ...testCase, ...riskPrioritizationService.prioritize(testCase, riskProfile) }));
+      }
       if (cachedTestCases.length > 0) {
         console.log(`📂 Found ${cachedTestCases.length} cached test cases for user ${userId}`);
         
         // Send cached test cases first
-        res.writeHead(200, {
-          'Content-Type': 'text/event-stream',
-          'Cache-Control': 'no-cache',
-          'Connection': 'keep-alive',
-          'Access-Control-Allow-Origin': '*',
-          'Access-Control-Allow-Headers': 'Cache-Control'
-        });
+        openEventStream();
 
         // Send cached test cases
         for (let i = 0; i < cachedTestCases.length; i++) {
+          if (abortController.signal.aborted) return;
           const testCase = cachedTestCases[i];
-          res.write(`data: ${JSON.stringify({
+          send({
             type: 'testCase',
             testCase: testCase,
             index: i,
             isCached: true
-          })}\n\n`);
+          });
           
           // Small delay for streaming effect
           await new Promise(resolve => setTimeout(resolve, 100));
         }
 
         // Send completion event for cached results
-        res.write(`data: ${JSON.stringify({
+        send({
           type: 'complete',
           totalGenerated: cachedTestCases.length,
           hasMore: cachedTestCases.length >= count,
           message: `Loaded ${cachedTestCases.length} cached test cases`,
           isCached: true
-        })}\n\n`);
+        });
 
-        res.end();
+        streamReplayService.finish(eventStreamId);
         return;
       }
     }
 
-    if (!prompt || prompt.trim().length === 0) {
-      res.status(400).json({
-        success: false,
-        error: 'Prompt is required for test case generation'
-      });
-      return;
-    }
-
-    if (count < 1 || count > 50) {
-      res.status(400).json({
-        success: false,
-        error: 'Count must be between 1 and 50'
-      });
-      return;
-    }
-
-    // Daily token usage limit (roughly 50,000 tokens per day per user for GPT-4o-mini)
-    const today = new Date().toDateString();
-    const userTokenKey = `tokens_${userId}`;
-    const userTokenUsage = dailyTokenUsage.get(userTokenKey);
-    
-    if (userTokenUsage && userTokenUsage.date === today && userTokenUsage.tokens > 50000) {
-      res.status(429).json({
-        success: false,
-        error: 'Daily token limit exceeded. Please try again tomorrow.'
-      });
-      return;
-    }
-
     console.log(`🚀 Test generation request: ${fileIds.length} files, count: ${count}`);
 
     // Process file content if files are provided
@@ -222,57 +613,107 @@ export const generateTestCasesStreaming = async (req: AuthenticatedRequest, res:
     }
 
     // Set up Server-Sent Events
-    res.writeHead(200, {
-      'Content-Type': 'text/event-stream',
-      'Cache-Control': 'no-cache',
-      'Connection': 'keep-alive',
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Headers': 'Cache-Control'
-    });
+    openEventStream();
 
     // Send initial connection event
-    res.write(`data: ${JSON.stringify({
+    send({
       type: 'connection',
       message: 'Connected to streaming test generation'
-    })}\n\n`);
-
-    // Generate all test cases in ONE API call (saves 90% tokens!)
-    // Supports 1-50 test cases including sub-test cases
-    const result = await openaiService.generateTestCases({
-      prompt: prompt.trim(),
-      fileContent: fileContent || '',
-      count,
-      offset
     });
 
-    if (!result.success) {
-      res.write(`data: ${JSON.stringify({
+    // Stream from the model and emit each test case as soon as its JSON
+    // object is complete (single API call covers 1-50 test cases)
+    const allTestCases: TestCase[] = [];
+    const existingSummaries = getExistingSummaries(req, offset, clientSummaries);
+    const seenSummaries = [...existingSummaries];
+    let duplicates = 0;
+    let completion: { totalGenerated: number; hasMore: boolean; model: string; usage: LLMUsage } | undefined;
+    const provenance = startProvenance(req, 'stream', { provider, prompt: prompt.trim(), fileIds, format, count, offset, templateId, overrides });
+
+    try {
+      for await (const event of openaiService.generateTestCasesStream({
+        prompt: prompt.trim(),
+        fileContent: fileContent || '',
+        count,
+        offset,
+        provider,
+        existingSummaries,
+        format,
+        autoRefine,
+        riskProfile,
+        language,
+        sourceLanguages: getSourceLanguages(fileIds),
+        ...overrides,
+        signal: abortController.signal,
+        onExchange: provenance.onExchange
+      })) {
+        if (event.type === 'cancelled') {
+          // Bill only what the model produced before the client left
+          recordGenerationUsage(req, event.provider, event.model, event.usage);
+          provenance.finish({ status: 'cancelled', testCases: allTestCases, model: event.model, usage: event.usage });
+          console.log(`🛑 Streaming generation cancelled after ${allTestCases.length} test cases (${event.usage.total_tokens} tokens)`);
+          return;
+        }
+
+        if (event.type === 'testCase') {
+          // Nothing more is sent or cached once the client is gone
+          if (abortController.signal.aborted) continue;
+
+          // Check each case against everything the user already has before it is sent or cached
+          const duplicateOf = deduplicationService.findDuplicate(event.testCase.summary, seenSummaries);
+          if (duplicateOf) {
+            duplicates++;
+            if (dedupe === 'merge') {
+              console.log(`🔁 Skipping duplicate test case: ${event.testCase.summary}`);
+              continue;
+            }
+          } else {
+            seenSummaries.push(event.testCase.summary);
+          }
+
+          const testCase: TestCase = {
+            ...event.testCase,
+            id: offset + allTestCases.length + 1,
+            ...(duplicateOf ? { duplicateOf } : {}),
+            provenanceId: provenance.id
+          };
+          allTestCases.push(testCase);
+
+          send({
+            type: 'testCase',
+            testCase,
+            index: allTestCases.length,
+            total: count
+          });
+
+          console.log(`✅ Generated test case ${allTestCases.length}/${count}: ${testCase.summary}`);
+        } else {
+          completion = event;
+          recordGenerationUsage(req, event.provider, event.model, event.usage);
+        }
+      }
+    } catch (streamError) {
+      provenance.finish({
+        status: abortController.signal.aborted ? 'cancelled' : 'failed',
+        testCases: allTestCases,
+        error: streamError instanceof Error ? streamError.message : String(streamError)
+      });
+      if (abortController.signal.aborted) return;
+      console.error('❌ Model stream failed:', streamError);
+
+      if (requestId) {
+        requestCache.set(requestId, { timestamp: Date.now(), processing: false });
+      }
+
+      send({
         type: 'error',
-        error: result.error || 'Failed to generate test cases'
-      })}\n\n`);
-      res.end();
+        error: streamError instanceof Error ? streamError.message : 'Failed to generate test cases',
+        ...(streamError instanceof ModelOutputError ? { code: streamError.code } : {})
+      });
+      streamReplayService.finish(eventStreamId);
       return;
     }
 
-    // Stream the results one by one for UI effect (but generated in single call)
-    const allTestCases = result.testCases;
-    for (let i = 0; i < allTestCases.length; i++) {
-      const testCase = allTestCases[i];
-      
-      // Send individual test case
-      res.write(`data: ${JSON.stringify({
-        type: 'testCase',
-        testCase: testCase,
-        index: i + 1,
-        total: allTestCases.length
-      })}\n\n`);
-
-      console.log(`✅ Generated test case ${i + 1}/${allTestCases.length}: ${testCase?.summary || 'Unknown'}`);
-      
-      // Small delay for streaming effect
-      await new Promise(resolve => setTimeout(resolve, 200));
-    }
-
     // Save test cases to cache
     const cacheUserId = req.user?._id as string;
     const saveSessionId = req.headers['x-session-id'] as string || 'default';
@@ -280,34 +721,44 @@ export const generateTestCasesStreaming = async (req: AuthenticatedRequest, res:
       cacheService.saveTestCases(cacheUserId, saveSessionId, allTestCases);
     }
 
+    provenance.finish({ status: 'completed', testCases: allTestCases, model: completion?.model, usage: completion?.usage });
+
     // Send completion event
-    res.write(`data: ${JSON.stringify({
+    send({
       type: 'complete',
       totalGenerated: allTestCases.length,
-      hasMore: allTestCases.length >= count,
+      hasMore: completion?.hasMore ?? allTestCases.length >= count,
+      duplicates,
+      provenanceId: provenance.id,
       message: `Successfully generated ${allTestCases.length} test cases`
-    })}\n\n`);
+    });
 
     // Mark request as completed
     if (requestId) {
       requestCache.set(requestId, { timestamp: Date.now(), processing: false });
     }
 
-    res.end();
+    streamReplayService.finish(eventStreamId);
 
   } catch (error) {
     console.error('❌ Streaming test generation error:', error);
     
-    // Mark request as completed (even on error)
-    if (requestId) {
+    // Mark request as completed (even on error); an abandoned stream has already marked it cancelled
+    if (requestId && !requestCache.get(requestId)?.cancelled) {
       requestCache.set(requestId, { timestamp: Date.now(), processing: false });
     }
     
-    res.write(`data: ${JSON.stringify({
+    const errorEvent = {
       type: 'error',
       error: 'Internal server error during test case generation'
-    })}\n\n`);
-    res.end();
+    };
+    if (streamId) {
+      streamReplayService.push(streamId, errorEvent);
+      streamReplayService.finish(streamId);
+    } else if (!res.headersSent) {
+      res.write(`data: ${JSON.stringify(errorEvent)}\n\n`);
+      res.end();
+    }
   }
 };
 
@@ -318,8 +769,65 @@ export const generateTestCases = async (req: AuthenticatedRequest, res: Response
   let requestId: string | undefined;
   
   try {
-    const { prompt, fileIds = [], count = 10, offset = 0, requestId: reqId }: TestGenerationRequest = req.body;
+    const { prompt: promptText, templateId, variables, fileIds = [], count = 10, offset = 0, requestId: reqId, provider, existingSummaries: clientSummaries, dedupe = 'merge', format = 'standard', async: runAsync = false, autoRefine = false, riskProfile: riskInput, language: languageInput, model, temperature, maxTokens }: TestGenerationRequest = req.body;
     requestId = reqId;
+    const userId = req.user?._id;
+
+    // Validate everything before the request is marked as processing, so a rejected request can be retried
+    const prompt = await resolvePrompt(req, res, { prompt: promptText, templateId, variables });
+    if (prompt === null) return;
+
+    if (!prompt || prompt.trim().length === 0) {
+      res.status(400).json({
+        success: false,
+        error: 'Prompt is required for test case generation'
+      });
+      return;
+    }
+
+    if (count < 1 || count > 50) {
+      res.status(400).json({
+        success: false,
+        error: 'Count must be between 1 and 50'
+      });
+      return;
+    }
+
+    if (!TEST_CASE_FORMATS.includes(format)) {
+      res.status(400).json({
+        success: false,
+        error: `Format must be one of: ${TEST_CASE_FORMATS.join(', ')}`
+      });
+      return;
+    }
+
+    const overrides = await resolveGenerationOverrides(req, res, provider, { model, temperature, maxTokens });
+    if (!overrides) return;
+
+    const riskProfile = resolveRiskProfile(res, riskInput);
+    if (riskProfile === null) return;
+
+    const language = resolveLanguage(res, languageInput);
+    if (language === null) return;
+
+    // A job keeps running after the request ends, so its usage has to be charged to someone
+    if (runAsync === true) {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Sign in to run generation as a background job'
+        });
+        return;
+      }
+
+      if (await getDailyTokensUsed(req.user._id) > DAILY_TOKEN_LIMIT) {
+        res.status(429).json({
+          success: false,
+          error: 'Daily token limit exceeded. Please try again tomorrow.'
+        });
+        return;
+      }
+    }
 
     // Request deduplication - prevent duplicate requests
     if (requestId && handleRequestDeduplication(requestId, res)) {
@@ -331,7 +839,6 @@ export const generateTestCases = async (req: AuthenticatedRequest, res: Response
     }
 
     // Rate limiting check - prevent too many requests from same user
-    const userId = req.user?._id;
     if (userId) {
       const userRequestKey = `test_gen_${userId}`;
       const now = Date.now();
@@ -345,83 +852,79 @@ export const generateTestCases = async (req: AuthenticatedRequest, res: Response
       userRequestCache.set(userRequestKey, recentRequests);
     }
 
-    if (!prompt || prompt.trim().length === 0) {
-      res.status(400).json({
-        success: false,
-        error: 'Prompt is required for test case generation'
-      });
-      return;
-    }
-
-    if (count < 1 || count > 50) {
-      res.status(400).json({
-        success: false,
-        error: 'Count must be between 1 and 50'
-      });
-      return;
-    }
-
-
     // Process file content if files are provided
     let fileContent = '';
     if (fileIds.length > 0) {
       fileContent = await processFileContent(fileIds);
     }
 
+    const existingSummaries = getExistingSummaries(req, offset, clientSummaries);
+    const sourceLanguages = getSourceLanguages(fileIds);
+
+    // Long generations can run as a job that is polled instead of holding the connection open
+    if (runAsync === true && req.user) {
+      const job = await generationJobService.createJob(
+        { prompt: prompt.trim(), fileIds, fileContent, count, offset, provider, format, dedupe, existingSummaries, autoRefine, riskProfile, language, sourceLanguages, ...overrides, files: describeGenerationFiles(fileIds), templateId },
+        { userId: (req.user._id || req.user.id) as string, userEmail: req.user.emailId }
+      );
+
+      if (requestId) {
+        requestCache.set(requestId, { timestamp: Date.now(), processing: false });
+      }
+
+      res.status(202).json({
+        success: true,
+        jobId: job.id,
+        status: job.status,
+        message: 'Generation job queued'
+      });
+      return;
+    }
+
     // Generate test cases using OpenAI
+    const provenance = startProvenance(req, 'generate', { provider, prompt: prompt.trim(), fileIds, format, count, offset, templateId, overrides });
     const result = await openaiService.generateTestCases({
       prompt: prompt.trim(),
       fileContent: fileContent || '',
       count,
-      offset
+      offset,
+      provider,
+      existingSummaries,
+      format,
+      autoRefine,
+      riskProfile,
+      language,
+      sourceLanguages,
+      ...overrides,
+      onExchange: provenance.onExchange
+    });
+    result.testCases = result.testCases.map(testCase => ({ ...testCase, provenanceId: provenance.id }));
+    provenance.finish({
+      status: result.success ? 'completed' : 'failed',
+      testCases: result.testCases,
+      model: result.model,
+      usage: result.usage,
+      error: result.error
     });
 
     if (!result.success) {
-      res.status(500).json({
+      res.status(result.errorCode === 'INVALID_MODEL_OUTPUT' ? 502 : 500).json({
         success: false,
-        error: result.error || 'Failed to generate test cases'
+        error: result.error || 'Failed to generate test cases',
+        ...(result.errorCode ? { code: result.errorCode } : {})
       });
       return;
     }
 
     // Track OpenAI token usage for admin monitoring
-    try {
-      if (result.usage && req.user) {
-        const promptTokens = result.usage.prompt_tokens || 0;
-        const completionTokens = result.usage.completion_tokens || 0;
-        const totalTokens = result.usage.total_tokens || 0;
-        
-        // Calculate cost using OpenAI GPT-4o-mini pricing
-        const costPerInputToken = 0.00000015;   // $0.15 per 1M tokens
-        const costPerOutputToken = 0.0000006;   // $0.60 per 1M tokens
-        const cost = (promptTokens * costPerInputToken) + (completionTokens * costPerOutputToken);
-
-        const usageData: OpenAIUsageData = {
-          userId: req.user._id || req.user.id,
-          userEmail: req.user.emailId || 'unknown@example.com',
-          modelName: 'gpt-4o-mini',
-          promptTokens,
-          completionTokens,
-          totalTokens,
-          cost,
-          operation: 'test_generation'
-        };
-
-        // Record usage asynchronously
-        setImmediate(async () => {
-          try {
-            await recordOpenAIUsage(usageData);
-          } catch (error) {
-            console.error('❌ Failed to record OpenAI usage:', error);
-          }
-        });
-      }
-    } catch (error) {
-      console.error('❌ OpenAI tracking error:', error);
+    if (result.usage) {
+      recordGenerationUsage(req, result.provider, result.model || 'gpt-4o-mini', result.usage);
     }
 
+    const deduplicated = applyDeduplication(result.testCases, existingSummaries, dedupe);
+
     // Sort test cases by priority (P1 first, then P2, then P3)
-    const sortedTestCases = result.testCases.sort((a, b) => {
+    const sortedTestCases = deduplicated.testCases.sort((a, b) => {
       const priorityOrder = { 'P1': 1, 'P2': 2, 'P3': 3 };
       return priorityOrder[a.priority] - priorityOrder[b.priority];
     });
@@ -429,9 +932,11 @@ export const generateTestCases = async (req: AuthenticatedRequest, res: Response
     const response: TestGenerationResponse = {
       success: true,
       testCases: sortedTestCases,
-      totalGenerated: result.totalGenerated,
+      totalGenerated: sortedTestCases.length,
       hasMore: result.hasMore,
-      message: `Successfully generated ${result.totalGenerated} test cases`
+      duplicates: deduplicated.duplicates,
+      provenanceId: provenance.id,
+      message: `Successfully generated ${sortedTestCases.length} test cases`
     };
 
     // Mark request as completed
@@ -456,6 +961,237 @@ export const generateTestCases = async (req: AuthenticatedRequest, res: Response
   }
 };
 
+/**
+ * Estimate the tokens and cost of a generation before running it
+ */
+export const estimateGeneration = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { prompt: promptText, templateId, variables, fileIds, count, offset, provider, existingSummaries: clientSummaries, format, language, model, temperature, maxTokens } = req.body;
+
+    const prompt = await resolvePrompt(req, res, { prompt: promptText, templateId, variables });
+    if (prompt === null) return;
+
+    if (!prompt.trim()) {
+      res.status(400).json({
+        success: false,
+        error: 'Prompt or templateId is required'
+      });
+      return;
+    }
+
+    const overrides = await resolveGenerationOverrides(req, res, provider, { model, temperature, maxTokens });
+    if (!overrides) return;
+
+    // Same context as POST /generate, so the estimate covers exactly what would be sent
+    const fileContent = fileIds.length > 0 ? await processFileContent(fileIds) : '';
+    const existingSummaries = getExistingSummaries(req, offset, clientSummaries);
+
+    const estimate = openaiService.estimateGeneration({
+      prompt,
+      fileContent,
+      count,
+      offset,
+      provider,
+      existingSummaries,
+      format,
+      language,
+      sourceLanguages: getSourceLanguages(fileIds),
+      ...overrides
+    });
+
+    const used = await getDailyTokensUsed(req.user?._id);
+    const remaining = Math.max(0, DAILY_TOKEN_LIMIT - used);
+
+    res.json({
+      success: true,
+      estimate,
+      dailyLimit: {
+        limit: DAILY_TOKEN_LIMIT,
+        used,
+        remaining,
+        exceeded: estimate.totalTokens.max > remaining
+      }
+    });
+  } catch (error) {
+    handleError(error, 'Failed to estimate generation', res);
+  }
+};
+
+/**
+ * Models the user's role may select, with the limits that apply to them
+ */
+export const getAvailableModels = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const provider = typeof req.query.provider === 'string' ? req.query.provider : undefined;
+    const models = await modelPolicyService.getAvailableModels(req.user?.role || 'user', provider);
+
+    res.json({
+      success: true,
+      models
+    });
+  } catch (error) {
+    handleError(error, 'Failed to get available models', res);
+  }
+};
+
+const GENERATION_JOB_STATUSES: GenerationJobStatus[] = ['queued', 'running', 'completed', 'failed', 'cancelled'];
+
+// Load a generation job the caller may see; jobs of anonymous requests are
+// only reachable through their unguessable ID
+const findAccessibleJob = async (req: AuthenticatedRequest, res: Response): Promise<GenerationJob | null> => {
+  const { jobId } = req.params;
+  const job = jobId ? await generationJobService.getJob(jobId) : null;
+
+  if (!job) {
+    res.status(404).json({
+      success: false,
+      error: 'Generation job not found'
+    });
+    return null;
+  }
+
+  const userId = req.user?._id;
+  if (job.userId && job.userId !== userId?.toString()) {
+    res.status(403).json({
+      success: false,
+      error: 'Unauthorized to access this generation job'
+    });
+    return null;
+  }
+
+  return job;
+};
+
+/**
+ * Get the status and progress of a generation job
+ */
+export const getGenerationJob = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const job = await findAccessibleJob(req, res);
+    if (!job) return;
+
+    res.json({
+      success: true,
+      job
+    });
+  } catch (error) {
+    handleError(error, 'Error getting generation job', res);
+  }
+};
+
+/**
+ * Get the test cases a generation job has produced so far. With `after`,
+ * only the ones generated since the previous poll are returned.
+ */
+export const getGenerationJobResults = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const after = req.query.after === undefined ? 0 : Number(req.query.after);
+    if (!Number.isInteger(after) || after < 0) {
+      res.status(400).json({
+        success: false,
+        error: 'after must be a non-negative integer'
+      });
+      return;
+    }
+
+    const job = await findAccessibleJob(req, res);
+    if (!job) return;
+
+    const results = await generationJobService.getResults(job.id, after);
+    if (!results) {
+      res.status(404).json({
+        success: false,
+        error: 'Generation job not found'
+      });
+      return;
+    }
+
+    const finished = generationJobService.isFinished(results.job.status);
+    res.json({
+      success: true,
+      jobId: results.job.id,
+      status: results.job.status,
+      progress: results.job.progress,
+      testCases: results.testCases,
+      totalGenerated: results.job.progress.generated,
+      next: after + results.testCases.length,
+      finished,
+      hasMore: results.job.hasMore,
+      duplicates: results.job.duplicates,
+      ...(results.job.error ? { error: results.job.error } : {})
+    });
+  } catch (error) {
+    handleError(error, 'Error getting generation job results', res);
+  }
+};
+
+/**
+ * Cancel a generation job, aborting its model request if it is running
+ */
+export const cancelGenerationJob = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const job = await findAccessibleJob(req, res);
+    if (!job) return;
+
+    if (generationJobService.isFinished(job.status)) {
+      res.status(409).json({
+        success: false,
+        error: `Generation job is already ${job.status}`
+      });
+      return;
+    }
+
+    const cancelled = await generationJobService.cancelJob(job.id);
+
+    res.json({
+      success: true,
+      job: cancelled,
+      message: cancelled?.status === 'cancelled' ? 'Generation job cancelled' : 'Cancellation requested'
+    });
+  } catch (error) {
+    handleError(error, 'Error cancelling generation job', res);
+  }
+};
+
+/**
+ * List the generation jobs of the signed-in user
+ */
+export const getUserGenerationJobs = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User authentication required'
+      });
+      return;
+    }
+
+    const status = req.query.status as GenerationJobStatus | undefined;
+    if (status !== undefined && !GENERATION_JOB_STATUSES.includes(status)) {
+      res.status(400).json({
+        success: false,
+        error: `Status must be one of: ${GENERATION_JOB_STATUSES.join(', ')}`
+      });
+      return;
+    }
+
+    const result = await generationJobService.listJobs({
+      userId: userId.toString(),
+      status,
+      page: Number(req.query.page) || 1,
+      limit: Number(req.query.limit) || 20
+    });
+
+    res.json({
+      success: true,
+      ...result
+    });
+  } catch (error) {
+    handleError(error, 'Error listing generation jobs', res);
+  }
+};
+
 /**
  * Process file content from uploaded files
  */
@@ -496,12 +1232,18 @@ export const storeFileContent = async (req: Request, res: Response): Promise<voi
 
     // Store content in cache
     fileContentCache.set(fileId, content);
-    
+    const language = detectLanguage(content);
+    if (language) {
+      fileLanguageCache.set(fileId, language);
+    } else {
+      fileLanguageCache.delete(fileId);
+    }
 
     res.json({
       success: true,
       message: 'File content stored successfully',
-      fileId
+      fileId,
+      ...(language ? { language } : {})
     });
 
   } catch (error) {
@@ -526,10 +1268,13 @@ export const getFileContent = async (req: Request, res: Response): Promise<void>
       return;
     }
 
+    const language = fileLanguageCache.get(fileId || '');
+
     res.json({
       success: true,
       content,
-      fileId
+      fileId,
+      ...(language ? { language } : {})
     });
 
   } catch (error) {
@@ -544,6 +1289,8 @@ export const clearFileContent = async (req: Request, res: Response): Promise<voi
   try {
     const clearedCount = fileContentCache.size;
     fileContentCache.clear();
+    openApiSpecCache.clear();
+    fileLanguageCache.clear();
     
 
     res.json({
@@ -586,12 +1333,23 @@ export const getFileContentStats = async (req: Request, res: Response): Promise<
 export const generateTestCasesWithContext = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { 
-      prompt, 
+      prompt: promptText, 
+      templateId,
+      variables,
       fileIds = [], 
       count = 10, 
       parentTestCaseId, 
       contextWindowId, 
-      sessionId 
+      sessionId,
+      provider,
+      dedupe = 'merge',
+      format = 'standard',
+      autoRefine = false,
+      riskProfile: riskInput,
+      language: languageInput,
+      model,
+      temperature,
+      maxTokens
     }: ContextWindowRequest = req.body;
 
     const userId = req.user?._id;
@@ -606,6 +1364,34 @@ export const generateTestCasesWithContext = async (req: AuthenticatedRequest, re
     // Type guard to ensure userId is string
     const userIdString: string = userId as string;
 
+    if (!TEST_CASE_FORMATS.includes(format)) {
+      res.status(400).json({
+        success: false,
+        error: `Format must be one of: ${TEST_CASE_FORMATS.join(', ')}`
+      });
+      return;
+    }
+
+    const prompt = await resolvePrompt(req, res, { prompt: promptText, templateId, variables });
+    if (prompt === null) return;
+
+    const overrides = await resolveGenerationOverrides(req, res, provider, { model, temperature, maxTokens });
+    if (!overrides) return;
+
+    const riskProfile = resolveRiskProfile(res, riskInput);
+    if (riskProfile === null) return;
+
+    const language = resolveLanguage(res, languageInput);
+    if (language === null) return;
+
+    // Only the owner may read a window's requirements and add test cases to it
+    if (contextWindowId) {
+      const owned = await contextWindowService.getOwnedContextWindow(contextWindowId, userIdString);
+      if (!owned.success) {
+        res.status(getContextErrorStatus(owned.error)).json(owned);
+        return;
+      }
+    }
 
     // Process file content if files are provided
     let fileContent = '';
@@ -619,7 +1405,7 @@ export const generateTestCasesWithContext = async (req: AuthenticatedRequest, re
       const contextResult = await contextWindowService.createContextWindow(
         userIdString,
         sessionId || `session_${Date.now()}`,
-        { prompt, fileIds: fileIds || [], count: count || 10 }
+        { prompt, fileIds: fileIds || [], count: count || 10, ...(riskProfile ? { riskProfile } : {}), ...(language ? { language } : {}) }
       );
       
       if (!contextResult.success) {
@@ -631,49 +1417,113 @@ export const generateTestCasesWithContext = async (req: AuthenticatedRequest, re
       }
       
       currentContextWindowId = contextResult.contextWindow?.id;
+    } else if (riskProfile) {
+      // A window has one risk profile, so a new one also re-prioritizes the test cases it already has
+      const reprioritized = await contextWindowService.reprioritizeTestCases(currentContextWindowId, riskProfile, userIdString);
+      if (!reprioritized.success) {
+        res.status(getContextErrorStatus(reprioritized.error)).json(reprioritized);
+        return;
+      }
+    }
+
+    // Requirements of attached documents are stored with the window so sub-tests can link to them too
+    const requirements = fileContent
+      ? requirementService.extract(fileContent)
+      : await requirementService.getForContextWindow(currentContextWindowId!);
+    if (fileContent) {
+      await requirementService.saveForContextWindow(currentContextWindowId!, userIdString, fileIds || [], requirements);
     }
 
     // Build optimized prompt with context (shorter to save tokens)
     let enhancedPrompt = prompt;
     if (parentTestCaseId && currentContextWindowId) {
-      const parentContext = await contextWindowService.getTestCasesByParent(
+      const parentPath = await contextWindowService.getAncestorPath(
         currentContextWindowId,
-        parentTestCaseId
+        parentTestCaseId,
+        userIdString
       );
       
-      if (parentContext.success && parentContext.testCases) {
-        const parentTestCase = parentContext.testCases[0];
-        if (parentTestCase) {
-          // Shorter prompt to save tokens
-          enhancedPrompt = `Sub-tests for: ${parentTestCase.summary}
+      if (!parentPath.success || !parentPath.testCases) {
+        res.status(404).json({
+          success: false,
+          error: parentPath.error || 'Parent test case not found'
+        });
+        return;
+      }
+
+      const parentTestCase = parentPath.testCases[parentPath.testCases.length - 1];
+      if (parentTestCase) {
+        // Ancestor summaries keep deeper levels anchored to the original feature
+        const ancestors = parentPath.testCases.slice(0, -1).map(tc => tc.summary);
+
+        // Shorter prompt to save tokens
+        enhancedPrompt = `${ancestors.length > 0 ? `Path: ${ancestors.join(' > ')}\n` : ''}Sub-tests for: ${parentTestCase.summary}
 Steps: ${parentTestCase.steps}
 Expected: ${parentTestCase.expectedResult}
 Generate ${count} detailed sub-test cases.`;
-        }
       }
     }
 
+    // Siblings already under the same parent are what new cases must not repeat
+    const currentContext = await contextWindowService.getContextWindow(currentContextWindowId!);
+    const existingSummaries = (currentContext.contextWindow?.testCases || [])
+      .filter(tc => (tc.parentId || undefined) === (parentTestCaseId || undefined))
+      .map(tc => tc.summary);
+
     // Generate test cases using OpenAI
+    const provenance = startProvenance(req, 'context', { provider, prompt: enhancedPrompt.trim(), fileIds, format, count, offset: 0, templateId, overrides });
     const result = await openaiService.generateTestCases({
       prompt: enhancedPrompt.trim(),
       fileContent: fileContent || '',
       count,
-      offset: 0
+      offset: 0,
+      provider,
+      existingSummaries,
+      format,
+      requirements,
+      autoRefine,
+      riskProfile: riskProfile ?? currentContext.contextWindow?.riskProfile,
+      language: language ?? currentContext.contextWindow?.language,
+      sourceLanguages: getSourceLanguages(fileIds),
+      ...overrides,
+      onExchange: provenance.onExchange
+    });
+    result.testCases = result.testCases.map(testCase => ({ ...testCase, provenanceId: provenance.id }));
+    provenance.finish({
+      status: result.success ? 'completed' : 'failed',
+      testCases: result.testCases,
+      model: result.model,
+      usage: result.usage,
+      error: result.error
     });
 
     if (!result.success) {
-      res.status(500).json({
+      res.status(result.errorCode === 'INVALID_MODEL_OUTPUT' ? 502 : 500).json({
         success: false,
-        error: result.error || 'Failed to generate test cases'
+        error: result.error || 'Failed to generate test cases',
+        ...(result.errorCode ? { code: result.errorCode } : {})
       });
       return;
     }
 
+    if (result.usage) {
+      recordGenerationUsage(req, result.provider, result.model || 'unknown', result.usage);
+    }
+
+    const deduplicated = applyDeduplication(result.testCases, existingSummaries, dedupe);
+
     // Add test cases to context window
     const contextResult = await contextWindowService.addTestCasesToContext(
       currentContextWindowId!,
-      result.testCases,
-      parentTestCaseId
+      deduplicated.testCases,
+      parentTestCaseId,
+      {
+        type: 'model',
+        userId: userIdString,
+        provider: result.provider || 'unknown',
+        model: result.model || 'unknown',
+        prompt: enhancedPrompt.trim()
+      }
     );
 
     if (!contextResult.success) {
@@ -688,17 +1538,20 @@ Generate ${count} detailed sub-test cases.`;
     const updatedContext = await contextWindowService.getContextWindow(currentContextWindowId!);
     
     
-    // Get statistics
+    // Get statistics and navigation focused on the parent that was expanded
     const stats = await contextWindowService.getContextWindowStats(currentContextWindowId!);
+    const navigation = await contextWindowService.getNavigation(currentContextWindowId!, parentTestCaseId);
 
     res.json({
       success: true,
-      testCases: result.testCases,
+      testCases: contextResult.testCases || deduplicated.testCases,
       contextWindow: updatedContext.contextWindow,
       stats,
-      totalGenerated: result.totalGenerated,
+      navigation,
+      totalGenerated: deduplicated.testCases.length,
       hasMore: result.hasMore,
-      message: `Successfully generated ${result.totalGenerated} test cases with context`
+      duplicates: deduplicated.duplicates,
+      message: `Successfully generated ${deduplicated.testCases.length} test cases with context`
     });
 
   } catch (error) {
@@ -716,6 +1569,7 @@ Generate ${count} detailed sub-test cases.`;
 export const getContextWindow = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { contextWindowId } = req.params;
+    const { testCaseId } = req.query;
     const userId = req.user?._id;
 
     if (!userId) {
@@ -734,19 +1588,24 @@ export const getContextWindow = async (req: AuthenticatedRequest, res: Response)
       return;
     }
 
-    const result = await contextWindowService.getContextWindow(contextWindowId);
+    const result = await contextWindowService.getOwnedContextWindow(contextWindowId, userId as string);
     
     if (!result.success) {
-      res.status(404).json(result);
+      res.status(getContextErrorStatus(result.error)).json(result);
       return;
     }
 
-    // Get stats
+    // Get stats and navigation (focused on ?testCaseId= when given)
     const stats = await contextWindowService.getContextWindowStats(contextWindowId);
+    const navigation = await contextWindowService.getNavigation(
+      contextWindowId,
+      typeof testCaseId === 'string' ? testCaseId : undefined
+    );
 
     res.json({
       ...result,
-      stats
+      stats,
+      navigation
     });
 
   } catch (error) {
@@ -773,8 +1632,13 @@ export const getUserContextWindows = async (req: AuthenticatedRequest, res: Resp
       return;
     }
 
+    const { page = 1, limit = 20 } = req.query;
+
     const userIdString: string = userId as string;
-    const result = await contextWindowService.getUserContextWindows(userIdString);
+    const result = await contextWindowService.getUserContextWindows(userIdString, {
+      page: parseInt(page as string) || 1,
+      limit: parseInt(limit as string) || 20
+    });
     res.json(result);
 
   } catch (error) {
@@ -811,7 +1675,12 @@ export const getTestCasesByParent = async (req: AuthenticatedRequest, res: Respo
       return;
     }
 
-    const result = await contextWindowService.getTestCasesByParent(contextWindowId, parentTestCaseId);
+    const result = await contextWindowService.getTestCasesByParent(contextWindowId, parentTestCaseId, userId as string);
+    if (!result.success) {
+      res.status(getContextErrorStatus(result.error)).json(result);
+      return;
+    }
+
     res.json(result);
 
   } catch (error) {
@@ -823,6 +1692,1334 @@ export const getTestCasesByParent = async (req: AuthenticatedRequest, res: Respo
   }
 };
 
+/**
+ * Get the ancestor path (root first) of a test case
+ */
+export const getTestCaseAncestors = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { contextWindowId, testCaseId } = req.params;
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User authentication required'
+      });
+      return;
+    }
+
+    if (!contextWindowId || !testCaseId) {
+      res.status(400).json({
+        success: false,
+        error: 'Context window ID and test case ID are required'
+      });
+      return;
+    }
+
+    const result = await contextWindowService.getAncestorPath(contextWindowId, testCaseId, userId as string);
+    res.status(result.success ? 200 : getContextErrorStatus(result.error)).json(result);
+
+  } catch (error) {
+    console.error('❌ Error getting test case ancestors:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get test case ancestors'
+    });
+  }
+};
+
+/**
+ * Get a test case with all of its descendants
+ */
+export const getTestCaseSubtree = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { contextWindowId, testCaseId } = req.params;
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User authentication required'
+      });
+      return;
+    }
+
+    if (!contextWindowId || !testCaseId) {
+      res.status(400).json({
+        success: false,
+        error: 'Context window ID and test case ID are required'
+      });
+      return;
+    }
+
+    const result = await contextWindowService.getSubtree(contextWindowId, testCaseId, userId as string);
+    res.status(result.success ? 200 : getContextErrorStatus(result.error)).json(result);
+
+  } catch (error) {
+    console.error('❌ Error getting test case subtree:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get test case subtree'
+    });
+  }
+};
+
+/**
+ * Move a test case under a new parent (or to the root with parentId: null)
+ */
+export const moveTestCase = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { contextWindowId, testCaseId } = req.params;
+    const { parentId } = req.body;
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User authentication required'
+      });
+      return;
+    }
+
+    if (!contextWindowId || !testCaseId) {
+      res.status(400).json({
+        success: false,
+        error: 'Context window ID and test case ID are required'
+      });
+      return;
+    }
+
+    if (parentId !== null && typeof parentId !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'parentId must be a test case ID or null'
+      });
+      return;
+    }
+
+    const userIdString: string = userId as string;
+    const result = await contextWindowService.moveTestCase(contextWindowId, testCaseId, parentId, userIdString);
+
+    if (!result.success) {
+      res.status(getContextErrorStatus(result.error)).json(result);
+      return;
+    }
+
+    const stats = await contextWindowService.getContextWindowStats(contextWindowId);
+    res.json({
+      ...result,
+      stats
+    });
+
+  } catch (error) {
+    console.error('❌ Error moving test case:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to move test case'
+    });
+  }
+};
+
+/**
+ * Update a single test case in a context window
+ */
+export const updateTestCase = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { contextWindowId, testCaseId } = req.params;
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User authentication required'
+      });
+      return;
+    }
+
+    if (!contextWindowId || !testCaseId) {
+      res.status(400).json({
+        success: false,
+        error: 'Context window ID and test case ID are required'
+      });
+      return;
+    }
+
+    const userIdString: string = userId as string;
+    const result = await contextWindowService.updateTestCase(contextWindowId, testCaseId, req.body, userIdString);
+    res.status(result.success ? 200 : getContextErrorStatus(result.error)).json(result);
+
+  } catch (error) {
+    console.error('❌ Error updating test case:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update test case'
+    });
+  }
+};
+
+/**
+ * Update priority and tags of several test cases at once
+ */
+export const bulkUpdateTestCases = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { contextWindowId } = req.params;
+    const { testCaseIds, ...updates } = req.body;
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User authentication required'
+      });
+      return;
+    }
+
+    if (!contextWindowId) {
+      res.status(400).json({
+        success: false,
+        error: 'Context window ID is required'
+      });
+      return;
+    }
+
+    const userIdString: string = userId as string;
+    const result = await contextWindowService.bulkUpdateTestCases(contextWindowId, testCaseIds, updates, userIdString);
+    res.status(result.success ? 200 : getContextErrorStatus(result.error)).json(result);
+
+  } catch (error) {
+    console.error('❌ Error bulk updating test cases:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update test cases'
+    });
+  }
+};
+
+/**
+ * Set the order of the children of a parent test case (or of the root test cases)
+ */
+export const reorderTestCases = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { contextWindowId } = req.params;
+    const { parentId, orderedIds } = req.body;
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User authentication required'
+      });
+      return;
+    }
+
+    if (!contextWindowId) {
+      res.status(400).json({
+        success: false,
+        error: 'Context window ID is required'
+      });
+      return;
+    }
+
+    const userIdString: string = userId as string;
+    const result = await contextWindowService.reorderTestCases(contextWindowId, parentId, orderedIds, userIdString);
+    res.status(result.success ? 200 : getContextErrorStatus(result.error)).json(result);
+
+  } catch (error) {
+    console.error('❌ Error reordering test cases:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to reorder test cases'
+    });
+  }
+};
+
+/**
+ * Replace the risk profile of a context window and re-prioritize all of its test cases
+ */
+export const updateRiskProfile = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { contextWindowId } = req.params;
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User authentication required'
+      });
+      return;
+    }
+
+    if (!contextWindowId) {
+      res.status(400).json({
+        success: false,
+        error: 'Context window ID is required'
+      });
+      return;
+    }
+
+    const userIdString: string = userId as string;
+    const result = await contextWindowService.reprioritizeTestCases(contextWindowId, req.body, userIdString);
+    res.status(result.success ? 200 : getContextErrorStatus(result.error)).json(result);
+
+  } catch (error) {
+    console.error('❌ Error updating risk profile:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update risk profile'
+    });
+  }
+};
+
+/**
+ * Translate a test suite into another language, keeping ids, hierarchy and
+ * priorities. Sent test cases are returned translated; a context window is
+ * translated in place and keeps the language for its later generations.
+ */
+export const translateTestCases = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { testCases, contextWindowId, targetLanguage, sourceLanguage, provider } = req.body;
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User authentication required'
+      });
+      return;
+    }
+
+    if (await getDailyTokensUsed(userId) > DAILY_TOKEN_LIMIT) {
+      res.status(429).json({
+        success: false,
+        error: 'Daily token limit exceeded. Please try again tomorrow.'
+      });
+      return;
+    }
+
+    const userIdString: string = userId as string;
+    let suite = testCases;
+
+    if (contextWindowId) {
+      const contextWindow = await contextWindowService.getContextWindow(contextWindowId);
+
+      if (!contextWindow.success || !contextWindow.contextWindow) {
+        res.status(404).json(contextWindow);
+        return;
+      }
+
+      if (contextWindow.contextWindow.userId !== userIdString.toString()) {
+        res.status(403).json({
+          success: false,
+          error: 'Unauthorized to modify this context window'
+        });
+        return;
+      }
+
+      suite = contextWindow.contextWindow.testCases;
+      if (suite.length === 0) {
+        res.status(400).json({
+          success: false,
+          error: 'Context window has no test cases to translate'
+        });
+        return;
+      }
+    }
+
+    const result = await openaiService.translateTestCases({ testCases: suite, targetLanguage, sourceLanguage, provider });
+
+    if (!result.success) {
+      res.status(result.errorCode === 'INVALID_MODEL_OUTPUT' ? 502 : 500).json({
+        success: false,
+        error: result.error || 'Failed to translate test cases',
+        ...(result.errorCode ? { code: result.errorCode } : {})
+      });
+      return;
+    }
+
+    if (result.usage) {
+      recordGenerationUsage(req, result.provider, result.model || 'unknown', result.usage, 'test_translation');
+    }
+
+    const { untranslatedIds } = result;
+    const message = `Translated ${suite.length - untranslatedIds.length} of ${suite.length} test cases into ${LANGUAGES[targetLanguage as LanguageCode].name}`;
+
+    if (!contextWindowId) {
+      res.json({
+        success: true,
+        testCases: result.testCases,
+        untranslatedIds,
+        message
+      });
+      return;
+    }
+
+    const untranslated = new Set(untranslatedIds);
+    const applied = await contextWindowService.applyTranslation(
+      contextWindowId,
+      // The suite came from the context window, so these are its test cases
+      (result.testCases as TestCaseContext[]).filter(testCase => !untranslated.has(testCase.id)),
+      targetLanguage,
+      userIdString,
+      {
+        type: 'model',
+        userId: userIdString,
+        provider: result.provider || 'unknown',
+        model: result.model || 'unknown',
+        prompt: `Translate into ${LANGUAGES[targetLanguage as LanguageCode].name}`
+      }
+    );
+
+    if (!applied.success) {
+      res.status(getContextErrorStatus(applied.error)).json(applied);
+      return;
+    }
+
+    res.json({
+      success: true,
+      testCases: applied.testCases,
+      contextWindow: applied.contextWindow,
+      untranslatedIds,
+      message
+    });
+
+  } catch (error) {
+    console.error('❌ Error translating test cases:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to translate test cases'
+    });
+  }
+};
+
+/**
+ * Delete a single test case (?children=promote|cascade, default promote)
+ */
+export const deleteTestCase = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { contextWindowId, testCaseId } = req.params;
+    const { children = 'promote' } = req.query;
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User authentication required'
+      });
+      return;
+    }
+
+    if (!contextWindowId || !testCaseId) {
+      res.status(400).json({
+        success: false,
+        error: 'Context window ID and test case ID are required'
+      });
+      return;
+    }
+
+    if (children !== 'promote' && children !== 'cascade') {
+      res.status(400).json({
+        success: false,
+        error: 'children must be either promote or cascade'
+      });
+      return;
+    }
+
+    const userIdString: string = userId as string;
+    const result = await contextWindowService.deleteTestCase(contextWindowId, testCaseId, userIdString, children);
+
+    if (!result.success) {
+      res.status(getContextErrorStatus(result.error)).json(result);
+      return;
+    }
+
+    const stats = await contextWindowService.getContextWindowStats(contextWindowId);
+    res.json({
+      ...result,
+      stats
+    });
+
+  } catch (error) {
+    console.error('❌ Error deleting test case:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete test case'
+    });
+  }
+};
+
+/**
+ * List the revision history of a test case
+ */
+export const getTestCaseRevisions = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { contextWindowId, testCaseId } = req.params;
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User authentication required'
+      });
+      return;
+    }
+
+    if (!contextWindowId || !testCaseId) {
+      res.status(400).json({
+        success: false,
+        error: 'Context window ID and test case ID are required'
+      });
+      return;
+    }
+
+    const result = await contextWindowService.getTestCaseRevisions(contextWindowId, testCaseId, userId as string);
+    res.status(result.success ? 200 : getContextErrorStatus(result.error)).json(result);
+
+  } catch (error) {
+    console.error('❌ Error getting test case revisions:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get test case revisions'
+    });
+  }
+};
+
+/**
+ * Compare two revisions of a test case (?from=1&to=3)
+ */
+export const compareTestCaseRevisions = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { contextWindowId, testCaseId } = req.params;
+    const fromRevision = parseInt(req.query.from as string);
+    const toRevision = parseInt(req.query.to as string);
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User authentication required'
+      });
+      return;
+    }
+
+    if (!contextWindowId || !testCaseId) {
+      res.status(400).json({
+        success: false,
+        error: 'Context window ID and test case ID are required'
+      });
+      return;
+    }
+
+    if (isNaN(fromRevision) || isNaN(toRevision)) {
+      res.status(400).json({
+        success: false,
+        error: 'from and to revision numbers are required'
+      });
+      return;
+    }
+
+    const result = await contextWindowService.compareTestCaseRevisions(contextWindowId, testCaseId, fromRevision, toRevision, userId as string);
+    res.status(result.success ? 200 : getContextErrorStatus(result.error)).json(result);
+
+  } catch (error) {
+    console.error('❌ Error comparing test case revisions:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to compare test case revisions'
+    });
+  }
+};
+
+/**
+ * Restore a test case to an earlier revision
+ */
+export const restoreTestCaseRevision = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { contextWindowId, testCaseId, revision } = req.params;
+    const revisionNumber = parseInt(revision as string);
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User authentication required'
+      });
+      return;
+    }
+
+    if (!contextWindowId || !testCaseId || isNaN(revisionNumber)) {
+      res.status(400).json({
+        success: false,
+        error: 'Context window ID, test case ID and revision number are required'
+      });
+      return;
+    }
+
+    const userIdString: string = userId as string;
+    const result = await contextWindowService.restoreTestCaseRevision(contextWindowId, testCaseId, revisionNumber, userIdString);
+    res.status(result.success ? 200 : getContextErrorStatus(result.error)).json(result);
+
+  } catch (error) {
+    console.error('❌ Error restoring test case revision:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to restore test case revision'
+    });
+  }
+};
+
+/**
+ * Ask the model for a refined version of a single test case. The proposal
+ * is returned for review and only applied once it is accepted.
+ */
+export const refineTestCase = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { contextWindowId, testCaseId } = req.params;
+    const { instruction, provider } = req.body;
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User authentication required'
+      });
+      return;
+    }
+
+    if (!contextWindowId || !testCaseId) {
+      res.status(400).json({
+        success: false,
+        error: 'Context window ID and test case ID are required'
+      });
+      return;
+    }
+
+    const userIdString: string = userId as string;
+    const contextWindow = await contextWindowService.getContextWindow(contextWindowId);
+
+    if (!contextWindow.success || !contextWindow.contextWindow) {
+      res.status(404).json(contextWindow);
+      return;
+    }
+
+    if (contextWindow.contextWindow.userId !== userIdString.toString()) {
+      res.status(403).json({
+        success: false,
+        error: 'Unauthorized to modify this context window'
+      });
+      return;
+    }
+
+    const path = await contextWindowService.getAncestorPath(contextWindowId, testCaseId, userIdString);
+    const testCase = path.testCases?.[path.testCases.length - 1];
+
+    if (!path.success || !testCase) {
+      res.status(404).json(path);
+      return;
+    }
+
+    const original = {
+      summary: testCase.summary,
+      precondition: testCase.precondition,
+      steps: testCase.steps,
+      expectedResult: testCase.expectedResult,
+      priority: testCase.priority
+    };
+
+    const result = await openaiService.refineTestCase({
+      testCase: original,
+      instruction,
+      rootPrompt: contextWindow.contextWindow.rootPrompt,
+      ancestors: path.testCases!.slice(0, -1).map(tc => tc.summary),
+      provider
+    });
+
+    if (!result.success || !result.testCase) {
+      res.status(result.errorCode === 'INVALID_MODEL_OUTPUT' ? 502 : 500).json({
+        success: false,
+        error: result.error || 'Failed to refine test case',
+        ...(result.errorCode ? { code: result.errorCode } : {})
+      });
+      return;
+    }
+
+    if (result.usage) {
+      recordGenerationUsage(req, result.provider, result.model || 'unknown', result.usage, 'test_refinement');
+    }
+
+    const proposal = await testCaseRefinementService.createProposal({
+      contextWindowId,
+      testCaseId,
+      userId: userIdString.toString(),
+      instruction,
+      original,
+      proposed: result.testCase,
+      provider: result.provider || 'unknown',
+      model: result.model || 'unknown'
+    });
+
+    res.json({
+      success: true,
+      proposal,
+      message: 'Refinement proposed, accept or reject it to continue'
+    });
+
+  } catch (error) {
+    console.error('❌ Error refining test case:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to refine test case'
+    });
+  }
+};
+
+/**
+ * Apply a refinement proposal through the regular test case update path
+ */
+export const acceptRefinement = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { contextWindowId, proposalId } = req.params;
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User authentication required'
+      });
+      return;
+    }
+
+    const userIdString: string = userId as string;
+    const proposal = proposalId ? await testCaseRefinementService.getProposal(proposalId) : null;
+
+    if (!proposal || proposal.contextWindowId !== contextWindowId) {
+      res.status(404).json({
+        success: false,
+        error: 'Refinement proposal not found or expired'
+      });
+      return;
+    }
+
+    if (proposal.userId !== userIdString.toString()) {
+      res.status(403).json({
+        success: false,
+        error: 'Unauthorized to accept this refinement'
+      });
+      return;
+    }
+
+    // Refuse to overwrite edits made after the proposal was generated
+    const path = await contextWindowService.getAncestorPath(proposal.contextWindowId, proposal.testCaseId, userIdString);
+    const current = path.testCases?.[path.testCases.length - 1];
+
+    if (!current) {
+      await testCaseRefinementService.removeProposal(proposal.id);
+      res.status(404).json({
+        success: false,
+        error: 'Test case not found'
+      });
+      return;
+    }
+
+    if (!testCaseRefinementService.isCurrent(proposal, current)) {
+      res.status(409).json({
+        success: false,
+        error: 'Test case changed since the refinement was proposed, refine it again'
+      });
+      return;
+    }
+
+    const result = await contextWindowService.updateTestCase(
+      proposal.contextWindowId,
+      proposal.testCaseId,
+      proposal.proposed,
+      userIdString,
+      {
+        type: 'model',
+        userId: proposal.userId,
+        provider: proposal.provider,
+        model: proposal.model,
+        prompt: proposal.instruction
+      }
+    );
+
+    if (!result.success) {
+      res.status(getContextErrorStatus(result.error)).json(result);
+      return;
+    }
+
+    await testCaseRefinementService.removeProposal(proposal.id);
+    res.json({
+      ...result,
+      message: 'Refinement accepted'
+    });
+
+  } catch (error) {
+    console.error('❌ Error accepting refinement:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to accept refinement'
+    });
+  }
+};
+
+/**
+ * Discard a refinement proposal
+ */
+export const rejectRefinement = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { contextWindowId, proposalId } = req.params;
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User authentication required'
+      });
+      return;
+    }
+
+    const userIdString: string = userId as string;
+    const proposal = proposalId ? await testCaseRefinementService.getProposal(proposalId) : null;
+
+    if (!proposal || proposal.contextWindowId !== contextWindowId) {
+      res.status(404).json({
+        success: false,
+        error: 'Refinement proposal not found or expired'
+      });
+      return;
+    }
+
+    if (proposal.userId !== userIdString.toString()) {
+      res.status(403).json({
+        success: false,
+        error: 'Unauthorized to reject this refinement'
+      });
+      return;
+    }
+
+    await testCaseRefinementService.removeProposal(proposal.id);
+    res.json({
+      success: true,
+      message: 'Refinement rejected'
+    });
+
+  } catch (error) {
+    console.error('❌ Error rejecting refinement:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to reject refinement'
+    });
+  }
+};
+
+// Send test cases as a downloadable .feature file
+const sendFeatureFile = (res: Response, testCases: Parameters<typeof formatFeatureFile>[0], featureName?: string): void => {
+  const content = formatFeatureFile(testCases, featureName);
+  const feature = content.split('\n')[0]!.replace(/^Feature:\s*/, '');
+  const fileName = feature.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').substring(0, 60) || 'test-cases';
+
+  res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}.feature"`);
+  res.send(content);
+};
+
+/**
+ * Export test cases as a Gherkin .feature file. Test cases generated in the
+ * Gherkin format keep their scenarios, others are converted from their steps.
+ */
+export const exportFeatureFile = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { testCases, featureName } = req.body;
+    sendFeatureFile(res, testCases, featureName);
+  } catch (error) {
+    handleError(error, 'Failed to export feature file', res);
+  }
+};
+
+/**
+ * Generate Playwright, Cypress or Jest+Supertest skeleton files for test
+ * cases, returned as a zip download (or as JSON with output: 'json')
+ */
+export const exportAutomationScripts = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { testCases, framework, output }: { testCases: Parameters<typeof automationScriptService.generate>[0]; framework: AutomationFramework; output: 'zip' | 'json' } = req.body;
+    const files = automationScriptService.generate(testCases, framework);
+
+    console.log(`🧪 Generated ${files.length} ${framework} files for ${testCases.length} test cases`);
+
+    if (output === 'json') {
+      res.json({
+        success: true,
+        framework,
+        files
+      });
+      return;
+    }
+
+    const archive = createZipArchive(files.map(file => ({ name: `${framework}-tests/${file.path}`, content: file.content })));
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${framework}-tests.zip"`);
+    res.send(archive);
+  } catch (error) {
+    handleError(error, 'Failed to generate automation scripts', res);
+  }
+};
+
+/**
+ * Generate positive, negative, auth and boundary test cases for every
+ * endpoint of an OpenAPI 3 / Swagger 2 spec: an uploaded file, a spec
+ * sent in the body (JSON object, JSON or YAML text) or this API's own spec
+ */
+export const generateOpenApiTestCases = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { fileId, spec, source, categories, operations, maxPerEndpoint }: {
+      fileId?: string;
+      spec?: Record<string, unknown> | string;
+      source?: 'self';
+      categories?: ApiTestCategory[];
+      operations?: string[];
+      maxPerEndpoint?: number;
+    } = req.body;
+
+    let summary: ApiSpecSummary | undefined;
+    if (fileId) {
+      summary = openApiSpecCache.get(fileId);
+      if (!summary) {
+        res.status(404).json({
+          success: false,
+          error: 'No OpenAPI or Swagger spec found for this file ID'
+        });
+        return;
+      }
+    } else {
+      const document = source === 'self'
+        ? swaggerSpec
+        : typeof spec === 'string' ? openApiService.parseDocument(spec) : spec;
+
+      if (!openApiService.isSpecDocument(document)) {
+        res.status(400).json({
+          success: false,
+          error: 'Spec must be an OpenAPI 3.x or Swagger 2.0 document with paths'
+        });
+        return;
+      }
+      summary = openApiService.getSpecSummary(document);
+    }
+
+    const endpoints = openApiService.generateTestSuites(summary, { categories, operations, maxPerEndpoint });
+    const totalGenerated = endpoints.reduce((total, endpoint) => total + endpoint.testCases.length, 0);
+
+    console.log(`📘 Generated ${totalGenerated} API test cases for ${endpoints.length} endpoints of "${summary.title}"`);
+
+    res.json({
+      success: true,
+      api: {
+        title: summary.title,
+        version: summary.version,
+        apiVersion: summary.apiVersion
+      },
+      endpoints,
+      totalGenerated
+    });
+  } catch (error) {
+    handleError(error, 'Failed to generate test cases from the OpenAPI spec', res);
+  }
+};
+
+/**
+ * Export the test cases of a context window (optionally ?testCaseIds=a,b)
+ * as a .feature file, parents before their sub-tests
+ */
+export const exportContextWindowFeature = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { contextWindowId } = req.params;
+    const { testCaseIds, featureName } = req.query;
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User authentication required'
+      });
+      return;
+    }
+
+    if (!contextWindowId) {
+      res.status(400).json({
+        success: false,
+        error: 'Context window ID is required'
+      });
+      return;
+    }
+
+    const result = await contextWindowService.getContextWindow(contextWindowId);
+    if (!result.success || !result.contextWindow) {
+      res.status(404).json(result);
+      return;
+    }
+
+    if (result.contextWindow.userId !== (userId as string).toString()) {
+      res.status(403).json({
+        success: false,
+        error: 'Unauthorized access to context window'
+      });
+      return;
+    }
+
+    const selectedIds = typeof testCaseIds === 'string' && testCaseIds.trim()
+      ? new Set(testCaseIds.split(',').map(id => id.trim()))
+      : null;
+    const testCases = result.contextWindow.testCases
+      .filter(tc => !selectedIds || selectedIds.has(tc.id))
+      .sort((a, b) => a.level - b.level || a.order - b.order);
+
+    if (testCases.length === 0) {
+      res.status(404).json({
+        success: false,
+        error: 'No test cases found to export'
+      });
+      return;
+    }
+
+    sendFeatureFile(res, testCases, typeof featureName === 'string' && featureName.trim() ? featureName.trim() : undefined);
+  } catch (error) {
+    handleError(error, 'Failed to export context window feature file', res);
+  }
+};
+
+/**
+ * Requirement coverage of test cases generated from uploaded files: the
+ * requirements found in the files, the test cases linked to each and the
+ * requirements that have no tests
+ */
+export const getTraceabilityMatrix = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { fileIds, testCases }: { fileIds: string[]; testCases: TraceableTestCase[] } = req.body;
+
+    const fileContent = await processFileContent(fileIds);
+    if (!fileContent) {
+      res.status(404).json({
+        success: false,
+        error: 'No content found for the given files'
+      });
+      return;
+    }
+
+    const requirements = requirementService.extract(fileContent);
+
+    res.json({
+      success: true,
+      ...requirementService.buildMatrix(requirements, testCases)
+    });
+  } catch (error) {
+    handleError(error, 'Failed to build traceability matrix', res);
+  }
+};
+
+/**
+ * Requirement coverage of a context window, using the requirements stored
+ * when its documents were attached
+ */
+export const getContextWindowTraceability = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { contextWindowId } = req.params;
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User authentication required'
+      });
+      return;
+    }
+
+    if (!contextWindowId) {
+      res.status(400).json({
+        success: false,
+        error: 'Context window ID is required'
+      });
+      return;
+    }
+
+    const result = await contextWindowService.getContextWindow(contextWindowId);
+    if (!result.success || !result.contextWindow) {
+      res.status(404).json(result);
+      return;
+    }
+
+    if (result.contextWindow.userId !== (userId as string).toString()) {
+      res.status(403).json({
+        success: false,
+        error: 'Unauthorized access to context window'
+      });
+      return;
+    }
+
+    const requirements = await requirementService.getForContextWindow(contextWindowId);
+    const testCases = [...result.contextWindow.testCases].sort((a, b) => a.level - b.level || a.order - b.order);
+
+    res.json({
+      success: true,
+      ...requirementService.buildMatrix(requirements, testCases)
+    });
+  } catch (error) {
+    handleError(error, 'Failed to build context window traceability matrix', res);
+  }
+};
+
+/**
+ * Field definitions for test data: explicit fields first, then presets, then
+ * fields found in uploaded files. OpenAPI specs contribute their request
+ * schemas, other files the field rules written in their text.
+ */
+const resolveTestDataFields = async ({ fields = [], presets = [], fileIds = [] }: {
+  fields?: FieldDefinition[];
+  presets?: TestDataPreset[];
+  fileIds?: string[];
+}): Promise<FieldDefinition[]> => {
+  const specFields = fileIds.flatMap(fileId => {
+    const spec = openApiSpecCache.get(fileId);
+    return spec ? testDataService.fieldsFromSpec(spec) : [];
+  });
+  const textFileIds = fileIds.filter(fileId => !openApiSpecCache.has(fileId));
+  const textContent = textFileIds.length > 0 ? await processFileContent(textFileIds) : '';
+
+  const candidates: FieldDefinition[] = [
+    ...fields.map(field => ({ ...field, source: 'explicit' as const })),
+    ...presets.flatMap(preset => testDataService.presetFields(preset)),
+    ...specFields,
+    ...(textContent ? testDataService.inferFields(textContent) : [])
+  ];
+
+  const names = new Set<string>();
+  return candidates.filter(field => {
+    if (names.has(field.name)) return false;
+    names.add(field.name);
+    return true;
+  });
+};
+
+const testCaseText = (testCase: { summary: string; precondition?: string; steps?: string; expectedResult?: string }): string =>
+  [testCase.summary, testCase.precondition, testCase.steps, testCase.expectedResult].filter(Boolean).join('\n');
+
+const sendTestDataFile = (res: Response, table: TestDataTable, format: 'csv' | 'json', name: string): void => {
+  const fileName = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').substring(0, 60) || 'test-data';
+
+  if (format === 'json') {
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}.json"`);
+    res.send(testDataService.toJsonFixture(table));
+    return;
+  }
+
+  res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}.csv"`);
+  res.send(testDataService.toCsv(table));
+};
+
+/**
+ * Boundary values, equivalence classes and pairwise combinations for input
+ * fields given explicitly, taken from presets or found in uploaded files.
+ * Test cases sent along get a data table for the fields they mention.
+ */
+export const generateTestData = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { techniques, maxRows, testCases = [] } = req.body;
+    const fields = await resolveTestDataFields(req.body);
+
+    if (fields.length === 0) {
+      res.status(404).json({
+        success: false,
+        error: 'No field definitions found in the request or the given files'
+      });
+      return;
+    }
+
+    const options: TestDataOptions = { techniques, maxRows };
+    const dataSet = testDataService.generate(fields, options);
+
+    const testCaseData = (testCases as Array<{ id?: string | number; summary: string; precondition?: string; steps?: string; expectedResult?: string }>)
+      .flatMap(testCase => {
+        const mentioned = testDataService.fieldsForTestCase(dataSet.fields, testCaseText(testCase));
+        return mentioned.length > 0 ? [{ id: testCase.id, testData: testDataService.generate(mentioned, options).table }] : [];
+      });
+
+    res.json({
+      success: true,
+      ...dataSet,
+      testCases: testCaseData
+    });
+  } catch (error) {
+    handleError(error, 'Failed to generate test data', res);
+  }
+};
+
+/**
+ * Export a data table, given or generated from field definitions, as a CSV
+ * or JSON fixture file
+ */
+export const exportTestData = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { table, techniques, maxRows, format } = req.body;
+
+    if (table) {
+      sendTestDataFile(res, table, format, 'test-data');
+      return;
+    }
+
+    const fields = await resolveTestDataFields(req.body);
+    if (fields.length === 0) {
+      res.status(404).json({
+        success: false,
+        error: 'No field definitions found in the request or the given files'
+      });
+      return;
+    }
+
+    sendTestDataFile(res, testDataService.generate(fields, { techniques, maxRows }).table, format, 'test-data');
+  } catch (error) {
+    handleError(error, 'Failed to export test data', res);
+  }
+};
+
+/**
+ * Generate a data table for one test case of a context window and attach
+ * it. Without explicit fields or presets, the fields come from the window's
+ * documents and only those the test case mentions are used.
+ */
+export const attachTestCaseTestData = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { contextWindowId, testCaseId } = req.params;
+    const { fields, presets, techniques, maxRows } = req.body;
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User authentication required'
+      });
+      return;
+    }
+
+    if (!contextWindowId || !testCaseId) {
+      res.status(400).json({
+        success: false,
+        error: 'Context window ID and test case ID are required'
+      });
+      return;
+    }
+
+    const result = await contextWindowService.getContextWindow(contextWindowId);
+    if (!result.success || !result.contextWindow) {
+      res.status(404).json(result);
+      return;
+    }
+
+    if (result.contextWindow.userId !== (userId as string).toString()) {
+      res.status(403).json({
+        success: false,
+        error: 'Unauthorized access to context window'
+      });
+      return;
+    }
+
+    const testCase = result.contextWindow.testCases.find(tc => tc.id === testCaseId);
+    if (!testCase) {
+      res.status(404).json({
+        success: false,
+        error: 'Test case not found'
+      });
+      return;
+    }
+
+    const testDataFields = fields || presets
+      ? await resolveTestDataFields({ fields, presets })
+      : testDataService.fieldsForTestCase(await resolveTestDataFields({ fileIds: result.contextWindow.fileIds }), testCaseText(testCase));
+
+    if (testDataFields.length === 0) {
+      res.status(404).json({
+        success: false,
+        error: 'No field definitions found for this test case'
+      });
+      return;
+    }
+
+    const testData = testDataService.generate(testDataFields, { techniques, maxRows }).table;
+    const updated = await contextWindowService.setTestCaseTestData(contextWindowId, testCaseId, testData, (userId as string).toString());
+
+    if (!updated.success) {
+      res.status(400).json(updated);
+      return;
+    }
+
+    res.json(updated);
+  } catch (error) {
+    handleError(error, 'Failed to attach test data', res);
+  }
+};
+
+/**
+ * Download the data table attached to a test case as CSV or JSON
+ */
+export const exportTestCaseTestData = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { contextWindowId, testCaseId } = req.params;
+    const { format } = req.query;
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User authentication required'
+      });
+      return;
+    }
+
+    if (!contextWindowId || !testCaseId) {
+      res.status(400).json({
+        success: false,
+        error: 'Context window ID and test case ID are required'
+      });
+      return;
+    }
+
+    if (format !== undefined && format !== 'csv' && format !== 'json') {
+      res.status(400).json({
+        success: false,
+        error: 'Format must be csv or json'
+      });
+      return;
+    }
+
+    const result = await contextWindowService.getContextWindow(contextWindowId);
+    if (!result.success || !result.contextWindow) {
+      res.status(404).json(result);
+      return;
+    }
+
+    if (result.contextWindow.userId !== (userId as string).toString()) {
+      res.status(403).json({
+        success: false,
+        error: 'Unauthorized access to context window'
+      });
+      return;
+    }
+
+    const testCase = result.contextWindow.testCases.find(tc => tc.id === testCaseId);
+    if (!testCase?.testData) {
+      res.status(404).json({
+        success: false,
+        error: 'No test data attached to this test case'
+      });
+      return;
+    }
+
+    sendTestDataFile(res, testCase.testData, format || 'csv', `test-data-${testCase.summary}`);
+  } catch (error) {
+    handleError(error, 'Failed to export test case test data', res);
+  }
+};
+
 /**
  * Delete context window
  */
@@ -290,6 +290,46 @@ export const AdminAuditActions = {
     tags: ['api', 'access']
   },
 
+  CANCEL_GENERATION_JOB: {
+    action: 'cancel_generation_job',
+    resource: 'generation_jobs',
+    severity: 'medium' as const,
+    category: 'api_usage' as const,
+    tags: ['generation', 'job', 'cancel']
+  },
+
+  UPDATE_MODEL_POLICY: {
+    action: 'update_model_policy',
+    resource: 'model_policies',
+    severity: 'high' as const,
+    category: 'system_config' as const,
+    tags: ['model', 'allow-list', 'config']
+  },
+
+  DELETE_MODEL_POLICY: {
+    action: 'delete_model_policy',
+    resource: 'model_policies',
+    severity: 'high' as const,
+    category: 'system_config' as const,
+    tags: ['model', 'allow-list', 'delete']
+  },
+
+  VIEW_GENERATION_PROVENANCE: {
+    action: 'view_generation_provenance',
+    resource: 'generation_provenance',
+    severity: 'medium' as const,
+    category: 'data_access' as const,
+    tags: ['generation', 'provenance', 'prompt', 'view']
+  },
+
+  REPLAY_GENERATION: {
+    action: 'replay_generation',
+    resource: 'generation_provenance',
+    severity: 'medium' as const,
+    category: 'api_usage' as const,
+    tags: ['generation', 'provenance', 'replay']
+  },
+
   // Admin management actions
   CREATE_ADMIN: {
     action: 'create_admin',
@@ -67,4 +67,28 @@ const userAuth = async (req: any, res: Response, next: NextFunction): Promise<vo
   }
 }
 
-export { userAuth };
+// For routes that also serve anonymous callers: attaches the user when a
+// valid token cookie is present and otherwise continues without one
+const optionalAuth = async (req: any, res: Response, next: NextFunction): Promise<void> => {
+  const token = req.cookies?.token;
+  const jwtSecret = process.env.JWT_SECRET;
+  if (!token || !jwtSecret) {
+    next();
+    return;
+  }
+
+  try {
+    const { userId } = jwt.verify(token, jwtSecret) as JwtPayload;
+    const user = await User.findById(userId);
+    if (user) {
+      req.user = user;
+      (req as any).userId = userId;
+      (req as any).userEmail = user.emailId;
+    }
+  } catch (error: any) {
+    // An expired or invalid token is treated like no token at all
+  }
+  next();
+};
+
+export { userAuth, optionalAuth };
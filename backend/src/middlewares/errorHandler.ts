@@ -28,6 +28,33 @@ export class CustomError extends Error implements AppError {
   }
 }
 
+/**
+ * Raised when the model's reply cannot be turned into valid test cases,
+ * even after the repair attempts. Carries the raw output for debugging.
+ */
+export class ModelOutputError extends CustomError {
+  public rawOutput: string;
+  public validationErrors: string[];
+
+  constructor(message: string, rawOutput: string, validationErrors: string[] = []) {
+    super(message, 502, 'INVALID_MODEL_OUTPUT');
+    this.name = 'ModelOutputError';
+    this.rawOutput = rawOutput;
+    this.validationErrors = validationErrors;
+  }
+}
+
+/**
+ * Raised when a generation request selects a model or parameters the
+ * allow-list does not permit for the user's role
+ */
+export class ModelPolicyError extends CustomError {
+  constructor(message: string, statusCode: number = 403, code: string = 'MODEL_NOT_ALLOWED') {
+    super(message, statusCode, code);
+    this.name = 'ModelPolicyError';
+  }
+}
+
 export const createError = (
   message: string,
   statusCode: number = 500,
@@ -10,6 +10,23 @@ interface FileValidationOptions {
   allowedExtensions?: string[];
 }
 
+// OpenAPI / Swagger specs are accepted on top of the configured types;
+// browsers report YAML under several names, or as octet-stream
+const SPEC_EXTENSIONS = ['json', 'yaml', 'yml'];
+const SPEC_MIME_TYPES = [
+  'application/json',
+  'application/yaml',
+  'application/x-yaml',
+  'text/yaml',
+  'text/x-yaml',
+  'application/octet-stream',
+];
+
+const isAllowedType = (file: { originalname: string; mimetype: string }, allowedTypes: string[]): boolean => {
+  if (allowedTypes.length === 0 || allowedTypes.includes(file.mimetype)) return true;
+  return SPEC_EXTENSIONS.includes(getFileExtension(file.originalname)) && SPEC_MIME_TYPES.includes(file.mimetype);
+};
+
 class FileValidationError extends Error {
   constructor(message: string, public code: string) {
     super(message);
@@ -84,7 +101,7 @@ const validateFile = (
   }
 
   // Check MIME type
-  if (allowedTypes.length > 0 && !allowedTypes.includes(file.mimetype)) {
+  if (!isAllowedType(file, allowedTypes)) {
     errors.push(`File "${file.originalname}" has an unsupported type: ${file.mimetype}`);
   }
 
@@ -150,7 +167,7 @@ export const createMulterConfig = (options: FileValidationOptions = {}) => {
     },
     fileFilter: (req, file, cb) => {
       // Check MIME type
-      if (allowedTypes.length > 0 && !allowedTypes.includes(file.mimetype)) {
+      if (!isAllowedType(file, allowedTypes)) {
         const error = new FileValidationError(
           `File type ${file.mimetype} is not allowed`,
           'INVALID_FILE_TYPE'
@@ -164,7 +181,8 @@ export const createMulterConfig = (options: FileValidationOptions = {}) => {
         'jpg', 'jpeg', 'png', 'gif', 'webp', 'svg',
         'pdf', 'doc', 'docx', 'txt',
         'xls', 'xlsx', 'ppt', 'pptx',
-        'zip', 'rar'
+        'zip', 'rar',
+        ...SPEC_EXTENSIONS
       ];
 
       if (!allowedExtensions.includes(extension)) {
@@ -1,6 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
 import { logger } from './logging';
+import { LANGUAGE_CODES } from '../utils/language';
+import { isSafePattern, MAX_PATTERN_LENGTH } from '../utils/regexSafety';
+import { isLLMProviderName, isLLMProviderSelectable } from '../services/llm';
 
 interface ValidationError {
   field: string;
@@ -112,6 +115,125 @@ class ValidationMiddleware {
   }
 }
 
+// Test case as sent back by the client for exports
+const exportTestCaseSchema = Joi.object({
+  id: Joi.alternatives().try(Joi.number(), Joi.string()),
+  summary: Joi.string().trim().min(1).required(),
+  precondition: Joi.string().allow('').default(''),
+  steps: Joi.string().allow('').default(''),
+  expectedResult: Joi.string().allow('').default(''),
+  priority: Joi.string().uppercase().valid('P1', 'P2', 'P3'),
+  gherkin: Joi.object({
+    feature: Joi.string().required(),
+    name: Joi.string().required(),
+    type: Joi.string().valid('Scenario', 'Scenario Outline').required(),
+    tags: Joi.array().items(Joi.string()).default([]),
+    steps: Joi.array().items(Joi.object({
+      keyword: Joi.string().valid('Given', 'When', 'Then', 'And', 'But').required(),
+      text: Joi.string().required(),
+    })).min(1).required(),
+    examples: Joi.object({
+      headers: Joi.array().items(Joi.string()).min(1).required(),
+      rows: Joi.array().items(Joi.array().items(Joi.string().allow(''))).required(),
+    }),
+  }),
+});
+
+// A test case to translate; every other field (parentId, level, risk, ...) is passed through unchanged
+const translatableTestCaseSchema = exportTestCaseSchema.keys({
+  id: Joi.alternatives().try(Joi.number(), Joi.string()).required(),
+  priority: Joi.string().uppercase().valid('P1', 'P2', 'P3').required(),
+}).unknown(true);
+
+// The fixture provider is only accepted where it is enabled (tests, configured fixtures).
+// Checked in one custom rule because Joi skips custom rules for values listed in valid()
+const providerSchema = Joi.string().custom((value, helpers) => {
+  if (!isLLMProviderName(value)) return helpers.error('provider.unknown');
+  return isLLMProviderSelectable(value) ? value : helpers.error('provider.unavailable');
+}).messages({
+  'provider.unknown': 'Provider must be one of: openai, azure, anthropic, local, fixture',
+  'provider.unavailable': 'Provider {#value} is not available in this environment',
+});
+
+// Summaries of test cases generated earlier, which new ones must not repeat
+const existingSummariesSchema = Joi.array().items(Joi.string().max(500)).max(500).messages({
+  'array.max': 'Cannot send more than 500 existing summaries',
+});
+
+const languageSchema = Joi.string().valid(...LANGUAGE_CODES).messages({
+  'any.only': `Language must be one of: ${LANGUAGE_CODES.join(', ')}`,
+});
+
+// Input field constraints for test data generation
+const fieldDefinitionSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).required(),
+  type: Joi.string().valid('string', 'email', 'integer', 'number', 'date', 'boolean', 'enum').default('string'),
+  required: Joi.boolean(),
+  minLength: Joi.number().integer().min(0).max(10000),
+  maxLength: Joi.number().integer().min(0).max(10000),
+  min: Joi.alternatives().try(Joi.number(), Joi.string().isoDate()),
+  max: Joi.alternatives().try(Joi.number(), Joi.string().isoDate()),
+  pattern: Joi.string().max(MAX_PATTERN_LENGTH).custom((value, helpers) => {
+    try {
+      new RegExp(value);
+    } catch {
+      return helpers.error('any.invalid');
+    }
+    return isSafePattern(value) ? value : helpers.error('string.unsafePattern');
+  }).messages({
+    'any.invalid': 'pattern must be a valid regular expression',
+    'string.unsafePattern': 'pattern must not repeat a group that itself repeats or alternates, or use backreferences',
+  }),
+  enum: Joi.array().items(Joi.string()).min(1).max(100).when('type', { is: 'enum', then: Joi.required() }),
+  forbidden: Joi.array().items(Joi.string().min(1)).max(100),
+  description: Joi.string().max(500),
+});
+
+const testDataOptions = {
+  fields: Joi.array().items(fieldDefinitionSchema).min(1).max(20),
+  presets: Joi.array().items(Joi.string().valid('password', 'signup')).unique().min(1),
+  techniques: Joi.array().items(Joi.string().valid('boundary', 'equivalence', 'pairwise')).unique().min(1),
+  maxRows: Joi.number().integer().min(1).max(1000),
+};
+
+const testDataTableSchema = Joi.object({
+  fields: Joi.array().items(Joi.string()).min(1).max(50).required(),
+  rows: Joi.array().items(Joi.object({
+    technique: Joi.string().valid('boundary', 'equivalence', 'pairwise').required(),
+    valid: Joi.boolean().required(),
+    description: Joi.string().allow('').required(),
+    values: Joi.object().unknown(true).required(),
+  })).max(5000).required(),
+});
+
+const riskFactor = Joi.number().integer().min(1).max(5).required();
+
+// Feature area risk factors that set test case priorities
+const riskProfileSchema = Joi.object({
+  areas: Joi.array().items(Joi.object({
+    name: Joi.string().trim().min(1).max(100).required(),
+    keywords: Joi.array().items(Joi.string().trim().min(1).max(100)).max(50).unique().default([]),
+    businessImpact: riskFactor,
+    usageFrequency: riskFactor,
+    changeFrequency: riskFactor,
+    defectHistory: riskFactor,
+  })).min(1).max(50).unique('name', { ignoreUndefined: true }).required().messages({
+    'array.min': 'At least one feature area is required',
+    'array.unique': 'Feature area names must be unique',
+  }),
+  mode: Joi.string().valid('override', 'calibrate').default('override'),
+});
+
+// A {{placeholder}} of a prompt template
+const templateVariableSchema = Joi.object({
+  name: Joi.string().pattern(/^[A-Za-z][A-Za-z0-9_]*$/).max(50).required().messages({
+    'string.pattern.base': 'Variable names must start with a letter and contain only letters, digits and underscores',
+  }),
+  label: Joi.string().trim().max(100),
+  required: Joi.boolean().default(false),
+  defaultValue: Joi.string().trim().max(500).allow(''),
+});
+
 // Common validation schemas
 export const commonSchemas = {
   // User schemas
@@ -229,6 +351,219 @@ export const commonSchemas = {
     'any.required': 'ID is required',
   }),
 
+  // Context window test case edits
+  testCaseUpdate: Joi.object({
+    summary: Joi.string().trim().min(5).max(500),
+    precondition: Joi.string().trim().allow('').max(5000),
+    steps: Joi.string().trim().min(1).max(10000),
+    expectedResult: Joi.string().trim().min(1).max(5000),
+    priority: Joi.string().uppercase().valid('P1', 'P2', 'P3').messages({
+      'any.only': 'Priority must be P1, P2 or P3',
+    }),
+    tags: Joi.array().items(Joi.string().trim().min(1).max(50)).max(20).unique(),
+    requirementIds: Joi.array().items(Joi.string().trim().min(1).max(50)).max(100).unique(),
+  }).min(1).messages({
+    'object.min': 'At least one field must be provided',
+  }),
+
+  testCaseBulkUpdate: Joi.object({
+    testCaseIds: Joi.array().items(Joi.string()).min(1).max(500).unique().required().messages({
+      'array.min': 'At least one test case ID is required',
+      'any.required': 'testCaseIds is required',
+    }),
+    priority: Joi.string().uppercase().valid('P1', 'P2', 'P3').messages({
+      'any.only': 'Priority must be P1, P2 or P3',
+    }),
+    tags: Joi.array().items(Joi.string().trim().min(1).max(50)).max(20).unique(),
+    addTags: Joi.array().items(Joi.string().trim().min(1).max(50)).max(20).unique(),
+    removeTags: Joi.array().items(Joi.string().trim().min(1).max(50)).max(20).unique(),
+  }).or('priority', 'tags', 'addTags', 'removeTags').messages({
+    'object.missing': 'Provide priority, tags, addTags or removeTags',
+  }),
+
+  testCaseReorder: Joi.object({
+    parentId: Joi.string().allow(null).default(null),
+    orderedIds: Joi.array().items(Joi.string()).min(1).unique().required().messages({
+      'any.required': 'orderedIds is required',
+    }),
+  }),
+
+  testCaseRefine: Joi.object({
+    instruction: Joi.string().trim().min(3).max(1000).required().messages({
+      'string.min': 'Instruction must be at least 3 characters long',
+      'any.required': 'Instruction is required',
+    }),
+    provider: providerSchema,
+  }),
+
+  // Generation request fields the controller does not check itself; the rest are passed through
+  generationRequest: Joi.object({
+    existingSummaries: existingSummariesSchema,
+    dedupe: Joi.string().valid('merge', 'flag').messages({
+      'any.only': 'dedupe must be one of: merge, flag',
+    }),
+  }).unknown(true),
+
+  // Pre-flight token and cost estimate for a generation request
+  generationEstimate: Joi.object({
+    prompt: Joi.string().trim().max(10000).allow(''),
+    templateId: Joi.string().trim().max(100),
+    variables: Joi.object().pattern(Joi.string(), Joi.string().allow('').max(500)),
+    fileIds: Joi.array().items(Joi.string().trim()).max(10).default([]),
+    count: Joi.number().integer().min(1).max(50).default(10),
+    offset: Joi.number().integer().min(0).default(0),
+    provider: providerSchema,
+    existingSummaries: existingSummariesSchema.default([]),
+    format: Joi.string().valid('standard', 'gherkin').default('standard'),
+    language: languageSchema,
+    model: Joi.string().trim().min(1).max(100),
+    temperature: Joi.number().min(0).max(2),
+    maxTokens: Joi.number().integer().min(1),
+  }).or('prompt', 'templateId').messages({
+    'object.missing': 'Prompt or templateId is required',
+  }),
+
+  riskProfile: riskProfileSchema,
+
+  language: languageSchema,
+
+  // Translation of a test suite: the test cases themselves or a context window translated in place
+  testCaseTranslation: Joi.object({
+    targetLanguage: languageSchema.required().messages({
+      'any.required': 'targetLanguage is required',
+    }),
+    sourceLanguage: languageSchema,
+    testCases: Joi.array().items(translatableTestCaseSchema).min(1).max(200).messages({
+      'array.min': 'At least one test case is required',
+    }),
+    contextWindowId: Joi.string().trim().min(1),
+    provider: providerSchema,
+  }).xor('testCases', 'contextWindowId').messages({
+    'object.missing': 'Provide testCases or contextWindowId',
+    'object.xor': 'Provide either testCases or contextWindowId, not both',
+  }),
+
+  // Prompt template library
+  promptTemplate: Joi.object({
+    name: Joi.string().trim().min(1).max(100).required().messages({
+      'any.required': 'Template name is required',
+    }),
+    description: Joi.string().trim().max(500).allow(''),
+    body: Joi.string().trim().min(1).max(5000).required().messages({
+      'any.required': 'Template body is required',
+    }),
+    variables: Joi.array().items(templateVariableSchema).max(20).unique('name'),
+    scope: Joi.string().valid('private', 'team').default('private'),
+    teamId: Joi.string().trim().max(100),
+  }),
+
+  promptTemplateUpdate: Joi.object({
+    name: Joi.string().trim().min(1).max(100),
+    description: Joi.string().trim().max(500).allow(''),
+    body: Joi.string().trim().min(1).max(5000),
+    variables: Joi.array().items(templateVariableSchema).max(20).unique('name'),
+    scope: Joi.string().valid('private', 'team'),
+    teamId: Joi.string().trim().max(100),
+  }).min(1),
+
+  promptTemplateRender: Joi.object({
+    variables: Joi.object().pattern(Joi.string(), Joi.string().allow('').max(500)).default({}),
+  }),
+
+  // Admin allow-list entry for a model and the limits of each role
+  modelPolicy: Joi.object({
+    provider: providerSchema.required(),
+    model: Joi.string().trim().min(1).max(100).required().messages({
+      'any.required': 'Model is required',
+    }),
+    enabled: Joi.boolean().default(true),
+    description: Joi.string().trim().max(500).allow(''),
+    roleLimits: Joi.array().items(Joi.object({
+      role: Joi.string().valid('user', 'admin', 'superadmin').required(),
+      maxTokens: Joi.number().integer().min(1).max(128000).required(),
+      minTemperature: Joi.number().min(0).max(2).default(0),
+      maxTemperature: Joi.number().min(Joi.ref('minTemperature')).max(2).default(1),
+    })).unique('role').default([]).messages({
+      'array.unique': 'Each role may only have one limit',
+    }),
+  }),
+
+  // Admin replay of a generation provenance record, optionally against another model
+  provenanceReplay: Joi.object({
+    provider: providerSchema,
+    model: Joi.string().trim().min(1).max(100),
+    temperature: Joi.number().min(0).max(2),
+    maxTokens: Joi.number().integer().min(1).max(128000),
+  }),
+
+  // .feature export of generated test cases
+  featureExport: Joi.object({
+    featureName: Joi.string().trim().min(1).max(200),
+    testCases: Joi.array().items(exportTestCaseSchema).min(1).max(500).required().messages({
+      'array.min': 'At least one test case is required',
+      'any.required': 'testCases is required',
+    }),
+  }),
+
+  // Automation script skeletons for generated test cases
+  automationExport: Joi.object({
+    framework: Joi.string().valid('playwright', 'cypress', 'jest-supertest').required().messages({
+      'any.only': 'Framework must be playwright, cypress or jest-supertest',
+      'any.required': 'Framework is required',
+    }),
+    output: Joi.string().valid('zip', 'json').default('zip'),
+    testCases: Joi.array().items(exportTestCaseSchema).min(1).max(100).required().messages({
+      'array.min': 'At least one test case is required',
+      'any.required': 'testCases is required',
+    }),
+  }),
+
+  // Requirement coverage of generated test cases
+  traceabilityMatrix: Joi.object({
+    fileIds: Joi.array().items(Joi.string().trim()).min(1).max(10).required().messages({
+      'array.min': 'At least one file ID is required',
+      'any.required': 'fileIds is required',
+    }),
+    testCases: Joi.array().items(Joi.object({
+      id: Joi.alternatives().try(Joi.number(), Joi.string()).required(),
+      summary: Joi.string().trim().min(1).required(),
+      requirementIds: Joi.array().items(Joi.string().trim().min(1)).default([]),
+    }).unknown(true)).max(500).default([]),
+  }),
+
+  // Test cases from an OpenAPI / Swagger spec
+  openApiTestCases: Joi.object({
+    fileId: Joi.string().trim(),
+    spec: Joi.alternatives().try(Joi.object().unknown(true), Joi.string().max(5 * 1024 * 1024)),
+    source: Joi.string().valid('self'),
+    categories: Joi.array().items(Joi.string().valid('positive', 'negative', 'auth', 'boundary')).unique().min(1),
+    operations: Joi.array().items(Joi.string().trim().max(300)).max(200),
+    maxPerEndpoint: Joi.number().integer().min(1).max(50),
+  }).xor('fileId', 'spec', 'source').messages({
+    'object.missing': 'One of fileId, spec or source is required',
+    'object.xor': 'Provide only one of fileId, spec or source',
+  }),
+
+  // Boundary, equivalence and pairwise test data
+  testData: Joi.object({
+    ...testDataOptions,
+    fileIds: Joi.array().items(Joi.string().trim()).min(1).max(10),
+    testCases: Joi.array().items(exportTestCaseSchema).max(100),
+  }).or('fields', 'presets', 'fileIds').messages({
+    'object.missing': 'One of fields, presets or fileIds is required',
+  }),
+
+  testDataExport: Joi.object({
+    ...testDataOptions,
+    fileIds: Joi.array().items(Joi.string().trim()).min(1).max(10),
+    table: testDataTableSchema,
+    format: Joi.string().valid('csv', 'json').default('csv'),
+  }).or('fields', 'presets', 'fileIds', 'table').messages({
+    'object.missing': 'One of fields, presets, fileIds or table is required',
+  }),
+
+  testCaseTestData: Joi.object(testDataOptions),
+
   // Pagination
   pagination: Joi.object({
     page: Joi.number().integer().min(1).default(1).messages({
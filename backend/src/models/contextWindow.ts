@@ -0,0 +1,253 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { GherkinScenario } from "../types/gherkin";
+import { TestDataTable } from "../types/testData";
+import { RiskProfile, TestCaseRisk } from "../types/risk";
+import { LanguageCode } from "../types/language";
+import { LANGUAGE_CODES } from "../utils/language";
+
+export interface ITestCaseContext {
+    id: string;
+    summary: string;
+    precondition: string;
+    steps: string;
+    expectedResult: string;
+    priority: 'P1' | 'P2' | 'P3';
+    parentId?: string | undefined;
+    level: number;
+    order: number;
+    tags: string[];
+    requirementIds: string[];
+    source?: {
+        chunkId: string;
+        chunkTitle: string;
+        fileId?: string;
+    };
+    gherkin?: GherkinScenario | undefined;
+    testData?: TestDataTable | undefined;
+    provenanceId?: string | undefined;
+    risk?: TestCaseRisk | undefined;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface IContextWindow extends Document<string> {
+    _id: string;
+    userId: mongoose.Types.ObjectId;
+    sessionId: string;
+    name: string;
+    description?: string;
+    rootPrompt: string;
+    fileIds: string[];
+    testCases: ITestCaseContext[];
+    riskProfile?: RiskProfile | undefined;
+    language?: LanguageCode | undefined;
+    currentLevel: number;
+    maxLevel: number;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const testCaseSourceSchema = new Schema({
+    chunkId: { type: String, required: true },
+    chunkTitle: { type: String, required: true },
+    fileId: { type: String }
+}, { _id: false });
+
+const gherkinStepSchema = new Schema({
+    keyword: { type: String, enum: ['Given', 'When', 'Then', 'And', 'But'], required: true },
+    text: { type: String, required: true }
+}, { _id: false });
+
+const gherkinScenarioSchema = new Schema({
+    feature: { type: String, required: true },
+    name: { type: String, required: true },
+    type: { type: String, enum: ['Scenario', 'Scenario Outline'], required: true },
+    tags: { type: [String], default: [] },
+    steps: { type: [gherkinStepSchema], default: [] },
+    examples: {
+        type: new Schema({
+            headers: { type: [String], default: [] },
+            rows: { type: [[String]], default: [] }
+        }, { _id: false })
+    }
+}, { _id: false });
+
+const testDataRowSchema = new Schema({
+    technique: { type: String, enum: ['boundary', 'equivalence', 'pairwise'], required: true },
+    valid: { type: Boolean, required: true },
+    description: { type: String, default: '' },
+    // Field values keep their types (strings, numbers, booleans) and omitted fields are left out
+    values: { type: Schema.Types.Mixed, default: {} }
+}, { _id: false, minimize: false });
+
+const testDataTableSchema = new Schema({
+    fields: { type: [String], default: [] },
+    rows: { type: [testDataRowSchema], default: [] }
+}, { _id: false });
+
+const riskFactor = { type: Number, required: true, min: 1, max: 5 };
+
+const riskProfileSchema = new Schema({
+    areas: {
+        type: [new Schema({
+            name: { type: String, required: true },
+            keywords: { type: [String], default: [] },
+            businessImpact: riskFactor,
+            usageFrequency: riskFactor,
+            changeFrequency: riskFactor,
+            defectHistory: riskFactor
+        }, { _id: false })],
+        default: []
+    },
+    mode: { type: String, enum: ['override', 'calibrate'], default: 'override' }
+}, { _id: false });
+
+const testCaseRiskSchema = new Schema({
+    area: { type: String },
+    score: { type: Number, min: 0, max: 100 },
+    riskPriority: { type: String, enum: ['P1', 'P2', 'P3'] },
+    modelPriority: { type: String, enum: ['P1', 'P2', 'P3'], required: true },
+    mode: { type: String, enum: ['override', 'calibrate'], required: true },
+    rationale: { type: String, required: true }
+}, { _id: false });
+
+// Test cases keep their own UUID in `id`, so the subdocument _id and id virtual are disabled
+const testCaseContextSchema = new Schema<ITestCaseContext>({
+    id: {
+        type: String,
+        required: true
+    },
+    summary: {
+        type: String,
+        required: true
+    },
+    precondition: {
+        type: String,
+        default: ''
+    },
+    steps: {
+        type: String,
+        default: ''
+    },
+    expectedResult: {
+        type: String,
+        default: ''
+    },
+    priority: {
+        type: String,
+        enum: ['P1', 'P2', 'P3'],
+        required: true
+    },
+    parentId: {
+        type: String
+    },
+    level: {
+        type: Number,
+        default: 0,
+        min: 0
+    },
+    order: {
+        type: Number,
+        default: 0,
+        min: 0
+    },
+    tags: {
+        type: [String],
+        default: []
+    },
+    requirementIds: {
+        type: [String],
+        default: []
+    },
+    source: {
+        type: testCaseSourceSchema
+    },
+    gherkin: {
+        type: gherkinScenarioSchema
+    },
+    testData: {
+        type: testDataTableSchema
+    },
+    // Generation provenance record the test case was produced by
+    provenanceId: {
+        type: String
+    },
+    // Why the test case has its priority, when a risk profile was applied
+    risk: {
+        type: testCaseRiskSchema
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now
+    },
+    updatedAt: {
+        type: Date,
+        default: Date.now
+    }
+}, { _id: false, id: false });
+
+const contextWindowSchema = new Schema<IContextWindow>({
+    // Context windows are addressed by UUID in the API, so it is used as the _id
+    _id: {
+        type: String,
+        required: true
+    },
+    userId: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    sessionId: {
+        type: String,
+        required: true
+    },
+    name: {
+        type: String,
+        required: true,
+        trim: true
+    },
+    description: {
+        type: String
+    },
+    rootPrompt: {
+        type: String,
+        required: true
+    },
+    fileIds: {
+        type: [String],
+        default: []
+    },
+    testCases: {
+        type: [testCaseContextSchema],
+        default: []
+    },
+    // Feature area risk factors that set the priorities of the window's test cases
+    riskProfile: {
+        type: riskProfileSchema
+    },
+    // Language the window's test cases are written in
+    language: {
+        type: String,
+        enum: LANGUAGE_CODES
+    },
+    currentLevel: {
+        type: Number,
+        default: 0,
+        min: 0
+    },
+    maxLevel: {
+        type: Number,
+        default: 0,
+        min: 0
+    }
+}, {
+    timestamps: true,
+    collection: 'context_windows'
+});
+
+// Indexes for efficient querying
+contextWindowSchema.index({ userId: 1, updatedAt: -1 });
+contextWindowSchema.index({ updatedAt: 1 });
+contextWindowSchema.index({ 'testCases.id': 1 });
+
+export default mongoose.model<IContextWindow>("ContextWindow", contextWindowSchema);
@@ -0,0 +1,144 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { GenerationJobRequest, GenerationJobStatus, GenerationJobTestCase } from "../types/generationJob";
+import { LLMUsage } from "../types/llm";
+import { LANGUAGE_CODES } from "../utils/language";
+
+export interface IGenerationJob extends Document<string> {
+    _id: string;
+    userId?: mongoose.Types.ObjectId;
+    userEmail?: string;
+    status: GenerationJobStatus;
+    request: GenerationJobRequest;
+    testCases: GenerationJobTestCase[];
+    duplicates: number;
+    hasMore: boolean;
+    provider?: string;
+    modelName?: string;
+    usage?: LLMUsage;
+    error?: string;
+    cancelRequested: boolean;
+    attempts: number;
+    ownerInstance?: string;
+    heartbeatAt?: Date;
+    startedAt?: Date;
+    finishedAt?: Date;
+    expiresAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const generationJobSchema = new Schema<IGenerationJob>({
+    // Jobs are addressed by UUID in the API, so it is used as the _id
+    _id: {
+        type: String,
+        required: true
+    },
+    userId: {
+        type: Schema.Types.ObjectId,
+        ref: 'User'
+    },
+    userEmail: {
+        type: String
+    },
+    status: {
+        type: String,
+        enum: ['queued', 'running', 'completed', 'failed', 'cancelled'],
+        default: 'queued',
+        index: true
+    },
+    request: {
+        prompt: { type: String, required: true },
+        fileIds: { type: [String], default: [] },
+        fileContent: { type: String, default: '' },
+        count: { type: Number, required: true, min: 1 },
+        offset: { type: Number, default: 0, min: 0 },
+        provider: { type: String },
+        format: { type: String, enum: ['standard', 'gherkin'], default: 'standard' },
+        dedupe: { type: String, enum: ['merge', 'flag'], default: 'merge' },
+        existingSummaries: { type: [String], default: [] },
+        model: { type: String },
+        temperature: { type: Number },
+        maxTokens: { type: Number },
+        files: [{
+            _id: false,
+            fileId: { type: String, required: true },
+            sha256: { type: String },
+            size: { type: Number, default: 0 }
+        }],
+        templateId: { type: String },
+        autoRefine: { type: Boolean, default: false },
+        // Validated when the job was created
+        riskProfile: { type: Schema.Types.Mixed },
+        language: { type: String, enum: LANGUAGE_CODES },
+        sourceLanguages: { type: [String], default: [] }
+    },
+    // Test cases are appended as the model produces them, so partial results survive a restart
+    testCases: {
+        type: Schema.Types.Mixed,
+        default: []
+    },
+    duplicates: {
+        type: Number,
+        default: 0,
+        min: 0
+    },
+    hasMore: {
+        type: Boolean,
+        default: false
+    },
+    provider: {
+        type: String
+    },
+    modelName: {
+        type: String
+    },
+    usage: {
+        type: new Schema({
+            prompt_tokens: { type: Number, default: 0 },
+            completion_tokens: { type: Number, default: 0 },
+            total_tokens: { type: Number, default: 0 }
+        }, { _id: false })
+    },
+    error: {
+        type: String
+    },
+    cancelRequested: {
+        type: Boolean,
+        default: false
+    },
+    // How many times the job was started; jobs interrupted by a restart are resumed
+    attempts: {
+        type: Number,
+        default: 0,
+        min: 0
+    },
+    // Server instance running the job; it refreshes heartbeatAt while it works on it
+    ownerInstance: {
+        type: String
+    },
+    heartbeatAt: {
+        type: Date
+    },
+    startedAt: {
+        type: Date
+    },
+    finishedAt: {
+        type: Date
+    },
+    expiresAt: {
+        type: Date
+    }
+}, {
+    timestamps: true,
+    collection: 'generation_jobs'
+});
+
+// Indexes for efficient querying
+generationJobSchema.index({ userId: 1, createdAt: -1 });
+generationJobSchema.index({ status: 1, createdAt: -1 });
+generationJobSchema.index({ status: 1, heartbeatAt: 1 });
+
+// Finished jobs are removed once their retention period has passed
+generationJobSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0, name: 'generation_jobs_ttl' });
+
+export default mongoose.model<IGenerationJob>("GenerationJob", generationJobSchema);
@@ -0,0 +1,152 @@
+import mongoose, { Document, Schema } from "mongoose";
+import {
+    ProvenanceExchange,
+    ProvenanceFile,
+    ProvenanceOperation,
+    ProvenanceParameters,
+    ProvenanceStatus
+} from "../types/provenance";
+import { LLMUsage } from "../types/llm";
+
+export interface IGenerationProvenance extends Document {
+    operation: ProvenanceOperation;
+    status: ProvenanceStatus;
+    userId?: mongoose.Types.ObjectId;
+    userEmail?: string;
+    provider: string;
+    modelName?: string;
+    parameters: ProvenanceParameters;
+    prompt: string;
+    files: ProvenanceFile[];
+    exchanges: ProvenanceExchange[];
+    testCases: Record<string, unknown>[];
+    usage?: LLMUsage;
+    latencyMs: number;
+    error?: string;
+    replayOf?: mongoose.Types.ObjectId;
+    expiresAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const usageSchema = new Schema({
+    prompt_tokens: { type: Number, default: 0 },
+    completion_tokens: { type: Number, default: 0 },
+    total_tokens: { type: Number, default: 0 }
+}, { _id: false });
+
+const exchangeSchema = new Schema({
+    kind: {
+        type: String,
+        enum: ['generation', 'repair'],
+        required: true
+    },
+    messages: [{
+        _id: false,
+        role: { type: String, enum: ['system', 'user', 'assistant'], required: true },
+        content: { type: String, default: '' }
+    }],
+    response: {
+        type: String,
+        default: ''
+    },
+    model: {
+        type: String
+    },
+    usage: {
+        type: usageSchema
+    },
+    latencyMs: {
+        type: Number,
+        default: 0
+    },
+    error: {
+        type: String
+    }
+}, { _id: false });
+
+const generationProvenanceSchema = new Schema<IGenerationProvenance>({
+    operation: {
+        type: String,
+        enum: ['generate', 'stream', 'job', 'context', 'replay'],
+        required: true
+    },
+    status: {
+        type: String,
+        enum: ['completed', 'failed', 'cancelled'],
+        required: true,
+        index: true
+    },
+    userId: {
+        type: Schema.Types.ObjectId,
+        ref: 'User'
+    },
+    userEmail: {
+        type: String
+    },
+    provider: {
+        type: String,
+        required: true
+    },
+    modelName: {
+        type: String
+    },
+    parameters: {
+        format: { type: String, enum: ['standard', 'gherkin'], default: 'standard' },
+        count: { type: Number, required: true },
+        offset: { type: Number, default: 0 },
+        temperature: { type: Number },
+        maxTokens: { type: Number },
+        templateId: { type: String }
+    },
+    prompt: {
+        type: String,
+        default: ''
+    },
+    files: [{
+        _id: false,
+        fileId: { type: String, required: true },
+        sha256: { type: String },
+        size: { type: Number, default: 0 }
+    }],
+    // Every model request in order, including repairs and one per document chunk
+    exchanges: {
+        type: [exchangeSchema],
+        default: []
+    },
+    testCases: {
+        type: Schema.Types.Mixed,
+        default: []
+    },
+    usage: {
+        type: usageSchema
+    },
+    latencyMs: {
+        type: Number,
+        default: 0
+    },
+    error: {
+        type: String
+    },
+    // Set on records created by an admin replay, pointing at the record replayed
+    replayOf: {
+        type: Schema.Types.ObjectId,
+        ref: 'GenerationProvenance',
+        index: true
+    },
+    expiresAt: {
+        type: Date
+    }
+}, {
+    timestamps: true,
+    collection: 'generation_provenance'
+});
+
+// Indexes for efficient querying
+generationProvenanceSchema.index({ userId: 1, createdAt: -1 });
+generationProvenanceSchema.index({ modelName: 1, createdAt: -1 });
+
+// Records are removed once their retention period has passed
+generationProvenanceSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0, name: 'generation_provenance_ttl' });
+
+export default mongoose.model<IGenerationProvenance>("GenerationProvenance", generationProvenanceSchema);
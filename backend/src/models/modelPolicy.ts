@@ -0,0 +1,55 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { LLMProviderName } from "../types/llm";
+import { ModelRoleLimit } from "../types/modelPolicy";
+
+export interface IModelPolicy extends Document {
+    provider: LLMProviderName;
+    modelName: string;
+    enabled: boolean;
+    description?: string;
+    roleLimits: ModelRoleLimit[];
+    updatedBy?: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const modelPolicySchema = new Schema<IModelPolicy>({
+    provider: {
+        type: String,
+        enum: ['openai', 'azure', 'anthropic', 'local', 'fixture'],
+        required: true
+    },
+    modelName: {
+        type: String,
+        required: true,
+        trim: true
+    },
+    enabled: {
+        type: Boolean,
+        default: true
+    },
+    description: {
+        type: String,
+        trim: true
+    },
+    roleLimits: {
+        type: [new Schema({
+            role: { type: String, enum: ['user', 'admin', 'superadmin'], required: true },
+            maxTokens: { type: Number, required: true, min: 1 },
+            minTemperature: { type: Number, default: 0, min: 0, max: 2 },
+            maxTemperature: { type: Number, default: 1, min: 0, max: 2 }
+        }, { _id: false })],
+        default: []
+    },
+    updatedBy: {
+        type: String
+    }
+}, {
+    timestamps: true,
+    collection: 'model_policies'
+});
+
+// One allow-list entry per model of a provider
+modelPolicySchema.index({ provider: 1, modelName: 1 }, { unique: true });
+
+export default mongoose.model<IModelPolicy>("ModelPolicy", modelPolicySchema);
@@ -0,0 +1,70 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { PromptTemplateVariable } from "../types/promptTemplate";
+
+export interface IPromptTemplate extends Document {
+    name: string;
+    description?: string;
+    body: string;
+    variables: PromptTemplateVariable[];
+    scope: 'private' | 'team';
+    teamId?: string;
+    ownerId: mongoose.Types.ObjectId;
+    ownerEmail?: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const promptTemplateSchema = new Schema<IPromptTemplate>({
+    name: {
+        type: String,
+        required: true,
+        trim: true,
+        maxlength: 100
+    },
+    description: {
+        type: String,
+        trim: true,
+        maxlength: 500
+    },
+    body: {
+        type: String,
+        required: true,
+        maxlength: 5000
+    },
+    variables: {
+        type: [new Schema({
+            name: { type: String, required: true },
+            label: { type: String },
+            required: { type: Boolean, default: false },
+            defaultValue: { type: String }
+        }, { _id: false })],
+        default: []
+    },
+    // Built-in presets live in code, so stored templates are private or shared with a team
+    scope: {
+        type: String,
+        enum: ['private', 'team'],
+        default: 'private'
+    },
+    teamId: {
+        type: String,
+        trim: true
+    },
+    ownerId: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    ownerEmail: {
+        type: String
+    }
+}, {
+    timestamps: true,
+    collection: 'prompt_templates'
+});
+
+// Indexes for efficient querying
+promptTemplateSchema.index({ ownerId: 1, name: 1 });
+promptTemplateSchema.index({ scope: 1, teamId: 1 });
+
+export default mongoose.model<IPromptTemplate>("PromptTemplate", promptTemplateSchema);
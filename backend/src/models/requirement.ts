@@ -0,0 +1,55 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { RequirementType } from "../types/requirement";
+
+export interface IRequirement extends Document {
+    contextWindowId: string;
+    userId: mongoose.Types.ObjectId;
+    requirementId: string;
+    type: RequirementType;
+    text: string;
+    section?: string;
+    fileId?: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const requirementSchema = new Schema<IRequirement>({
+    contextWindowId: {
+        type: String,
+        required: true,
+        index: true
+    },
+    userId: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    requirementId: {
+        type: String,
+        required: true,
+        trim: true
+    },
+    type: {
+        type: String,
+        enum: ['requirement', 'user_story'],
+        required: true
+    },
+    text: {
+        type: String,
+        required: true
+    },
+    section: {
+        type: String
+    },
+    fileId: {
+        type: String
+    }
+}, {
+    timestamps: true,
+    collection: 'requirements'
+});
+
+// One entry per requirement ID within each document of a context window
+requirementSchema.index({ contextWindowId: 1, fileId: 1, requirementId: 1 }, { unique: true });
+
+export default mongoose.model<IRequirement>("Requirement", requirementSchema);
@@ -0,0 +1,86 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { FieldChange, RefinableFields } from "../types/contextWindow";
+
+export interface ITestCaseRefinementProposal extends Document<string> {
+    _id: string;
+    contextWindowId: string;
+    testCaseId: string;
+    userId: string;
+    instruction: string;
+    original: RefinableFields;
+    proposed: RefinableFields;
+    changes: FieldChange[];
+    provider: string;
+    modelName: string;
+    createdAt: Date;
+    expiresAt: Date;
+}
+
+const refinableFieldsSchema = new Schema<RefinableFields>({
+    summary: { type: String, default: '' },
+    precondition: { type: String, default: '' },
+    steps: { type: String, default: '' },
+    expectedResult: { type: String, default: '' },
+    priority: { type: String, enum: ['P1', 'P2', 'P3'], required: true }
+}, { _id: false });
+
+const testCaseRefinementProposalSchema = new Schema<ITestCaseRefinementProposal>({
+    // Proposals are addressed by UUID in the API, so it is used as the _id
+    _id: {
+        type: String,
+        required: true
+    },
+    contextWindowId: {
+        type: String,
+        required: true
+    },
+    testCaseId: {
+        type: String,
+        required: true
+    },
+    userId: {
+        type: String,
+        required: true
+    },
+    instruction: {
+        type: String,
+        required: true
+    },
+    original: {
+        type: refinableFieldsSchema,
+        required: true
+    },
+    proposed: {
+        type: refinableFieldsSchema,
+        required: true
+    },
+    changes: {
+        type: [{
+            _id: false,
+            field: { type: String, required: true },
+            from: { type: Schema.Types.Mixed },
+            to: { type: Schema.Types.Mixed }
+        }],
+        default: []
+    },
+    provider: {
+        type: String,
+        required: true
+    },
+    modelName: {
+        type: String,
+        required: true
+    },
+    expiresAt: {
+        type: Date,
+        required: true
+    }
+}, {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: 'test_case_refinement_proposals'
+});
+
+// Proposals nobody accepted or rejected are removed once they expire
+testCaseRefinementProposalSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0, name: 'test_case_refinement_proposals_ttl' });
+
+export default mongoose.model<ITestCaseRefinementProposal>("TestCaseRefinementProposal", testCaseRefinementProposalSchema);
@@ -0,0 +1,67 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { FieldChange, RevisionAction, RevisionAuthor, TestCaseSnapshot } from "../types/contextWindow";
+
+export interface ITestCaseRevision extends Document {
+    contextWindowId: string;
+    testCaseId: string;
+    revision: number;
+    action: RevisionAction;
+    author: RevisionAuthor;
+    snapshot: TestCaseSnapshot;
+    changes: FieldChange[];
+    createdAt: Date;
+}
+
+const testCaseRevisionSchema = new Schema<ITestCaseRevision>({
+    contextWindowId: {
+        type: String,
+        required: true,
+        index: true
+    },
+    testCaseId: {
+        type: String,
+        required: true
+    },
+    revision: {
+        type: Number,
+        required: true,
+        min: 1
+    },
+    action: {
+        type: String,
+        enum: ['create', 'update', 'move', 'reorder', 'delete', 'restore'],
+        required: true
+    },
+    author: {
+        type: {
+            type: String,
+            enum: ['user', 'model'],
+            required: true
+        },
+        userId: { type: String },
+        provider: { type: String },
+        model: { type: String },
+        prompt: { type: String }
+    },
+    snapshot: {
+        type: Schema.Types.Mixed,
+        required: true
+    },
+    changes: {
+        type: [{
+            _id: false,
+            field: { type: String, required: true },
+            from: { type: Schema.Types.Mixed },
+            to: { type: Schema.Types.Mixed }
+        }],
+        default: []
+    }
+}, {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: 'test_case_revisions'
+});
+
+// Indexes for efficient querying
+testCaseRevisionSchema.index({ contextWindowId: 1, testCaseId: 1, revision: -1 }, { unique: true });
+
+export default mongoose.model<ITestCaseRevision>("TestCaseRevision", testCaseRevisionSchema);
@@ -99,6 +99,8 @@ export interface IUser extends Document {
     isAdmin: boolean;
     permissions: string[];
     lastAdminAction?: Date;
+    // Teams the user belongs to, e.g. for shared prompt templates
+    teams: string[];
     // Methods
     getJWT(): string;
     validatePassword(passwordInputByUser: string): Promise<boolean>;
@@ -337,6 +339,10 @@ const userSchema = new Schema<IUser>({
         type: [String],
         default: []
     },
+    teams: {
+        type: [String],
+        default: []
+    },
     lastAdminAction: {
         type: Date
     }
@@ -7,6 +7,7 @@ import {
   updateAdminPermissionsController,
   removeAdminAccessController,
   getAdminUserController,
+  updateUserTeamsController,
   addPermissionController,
   removePermissionController,
   resetPermissionsController,
@@ -117,6 +118,50 @@ adminUsersRouter.put('/:userId/permissions', enhancedAuth, superAdminAuth, updat
  */
 adminUsersRouter.delete('/:userId', enhancedAuth, superAdminAuth, removeAdminAccessController);
 
+/**
+ * @swagger
+ * /admin/users/{userId}/teams:
+ *   put:
+ *     summary: Set the teams a user belongs to
+ *     description: Team members can see and use prompt templates shared with their teams
+ *     tags: [Admin - Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - teams
+ *             properties:
+ *               teams:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Teams updated
+ *       400:
+ *         description: Invalid teams
+ *       404:
+ *         description: User not found
+ */
+/**
+ * Update User Teams
+ * PUT /admin/users/:userId/teams
+ * Requires: admin role
+ * Body: { teams: string[] }
+ */
+adminUsersRouter.put('/:userId/teams', enhancedAuth, adminAuth, updateUserTeamsController);
+
 // ==================== PERMISSION MANAGEMENT ROUTES ====================
 
 /**
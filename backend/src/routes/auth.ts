@@ -34,6 +34,7 @@ import {
  *   post:
  *     summary: Register a new user
  *     tags: [Authentication]
+ *     security: []
  *     requestBody:
  *       required: true
  *       content:
@@ -77,6 +78,7 @@ authRouter.post("/signup", signup);
  *   post:
  *     summary: Authenticate user and get access token
  *     tags: [Authentication]
+ *     security: []
  *     requestBody:
  *       required: true
  *       content:
@@ -1,7 +1,8 @@
 import express from 'express';
 import { OpenAIAdminController } from '../controllers/openaiAdminController';
 import { enhancedAuth, adminAuth, adminAuthWithPermissions } from '../middlewares/enhancedAuth';
-import { AdminAuditActions } from '../middlewares/adminAuditLogger';
+import { adminAuditLogger, AdminAuditActions } from '../middlewares/adminAuditLogger';
+import ValidationMiddleware, { commonSchemas } from '../middlewares/validation';
 
 const router = express.Router();
 
@@ -160,4 +161,323 @@ router.get('/user/:userId/history',
   OpenAIAdminController.getUserHistory
 );
 
+/**
+ * @swagger
+ * /admin/openai/jobs:
+ *   get:
+ *     summary: List asynchronous test generation jobs of all users
+ *     tags: [Admin - OpenAI]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [queued, running, completed, failed, cancelled]
+ *         description: Only jobs in this state
+ *       - in: query
+ *         name: userId
+ *         schema:
+ *           type: string
+ *         description: Only jobs of this user
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *         description: Page number
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *         description: Number of jobs per page
+ *     responses:
+ *       200:
+ *         description: Generation jobs retrieved successfully
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/jobs', 
+  enhancedAuth, 
+  adminAuthWithPermissions(['view_analytics', 'view_tokens']),
+  OpenAIAdminController.getGenerationJobs
+);
+
+/**
+ * @swagger
+ * /admin/openai/jobs/{jobId}/cancel:
+ *   post:
+ *     summary: Cancel a test generation job and abort its model request
+ *     tags: [Admin - OpenAI]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Generation job ID
+ *     responses:
+ *       200:
+ *         description: Cancellation requested
+ *       404:
+ *         description: Job not found
+ *       409:
+ *         description: Job has already finished
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/jobs/:jobId/cancel', 
+  enhancedAuth, 
+  adminAuthWithPermissions(['manage_system']),
+  adminAuditLogger(AdminAuditActions.CANCEL_GENERATION_JOB),
+  OpenAIAdminController.cancelGenerationJob
+);
+
+/**
+ * @swagger
+ * /admin/openai/models:
+ *   get:
+ *     summary: List the model allow-list with per-role limits
+ *     tags: [Admin - OpenAI]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Model policies retrieved successfully
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/models', 
+  enhancedAuth, 
+  adminAuthWithPermissions(['view_analytics', 'view_tokens']),
+  OpenAIAdminController.getModelPolicies
+);
+
+/**
+ * @swagger
+ * /admin/openai/models:
+ *   put:
+ *     summary: Add a model to the allow-list or replace its per-role limits
+ *     description: Users can only select models, temperatures and max tokens allowed for their role. A role without an entry in roleLimits cannot select the model.
+ *     tags: [Admin - OpenAI]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - provider
+ *               - model
+ *             properties:
+ *               provider:
+ *                 type: string
+ *                 enum: [openai, azure, anthropic, local, fixture]
+ *               model:
+ *                 type: string
+ *               enabled:
+ *                 type: boolean
+ *                 default: true
+ *               description:
+ *                 type: string
+ *               roleLimits:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - role
+ *                     - maxTokens
+ *                   properties:
+ *                     role:
+ *                       type: string
+ *                       enum: [user, admin, superadmin]
+ *                     maxTokens:
+ *                       type: integer
+ *                     minTemperature:
+ *                       type: number
+ *                       default: 0
+ *                     maxTemperature:
+ *                       type: number
+ *                       default: 1
+ *     responses:
+ *       200:
+ *         description: Model policy saved
+ *       400:
+ *         description: Invalid policy
+ *       500:
+ *         description: Internal server error
+ */
+router.put('/models', 
+  enhancedAuth, 
+  adminAuthWithPermissions(['manage_system']),
+  ValidationMiddleware.validateBody(commonSchemas.modelPolicy),
+  adminAuditLogger(AdminAuditActions.UPDATE_MODEL_POLICY),
+  OpenAIAdminController.saveModelPolicy
+);
+
+/**
+ * @swagger
+ * /admin/openai/models/{policyId}:
+ *   delete:
+ *     summary: Remove a model from the allow-list
+ *     tags: [Admin - OpenAI]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: policyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Model policy deleted
+ *       404:
+ *         description: Model policy not found
+ *       500:
+ *         description: Internal server error
+ */
+router.delete('/models/:policyId', 
+  enhancedAuth, 
+  adminAuthWithPermissions(['manage_system']),
+  adminAuditLogger(AdminAuditActions.DELETE_MODEL_POLICY),
+  OpenAIAdminController.deleteModelPolicy
+);
+
+/**
+ * @swagger
+ * /admin/openai/provenance:
+ *   get:
+ *     summary: List generation provenance records
+ *     description: One record per generation, without prompts, raw replies and test cases (see /provenance/{recordId})
+ *     tags: [Admin - OpenAI]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: userId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: operation
+ *         schema:
+ *           type: string
+ *           enum: [generate, stream, job, context, replay]
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [completed, failed, cancelled]
+ *       - in: query
+ *         name: model
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Provenance records retrieved successfully
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/provenance', 
+  enhancedAuth, 
+  adminAuthWithPermissions(['view_analytics', 'view_tokens']),
+  OpenAIAdminController.getProvenanceRecords
+);
+
+/**
+ * @swagger
+ * /admin/openai/provenance/{recordId}:
+ *   get:
+ *     summary: Get a generation provenance record
+ *     description: The system and user prompts of every model request, file IDs and hashes, model parameters, raw model replies, parsed test cases, latency and usage. Test cases link to their record through provenanceId.
+ *     tags: [Admin - OpenAI]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: recordId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Provenance record retrieved successfully
+ *       404:
+ *         description: Record not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/provenance/:recordId', 
+  enhancedAuth, 
+  adminAuthWithPermissions(['view_analytics', 'view_tokens']),
+  adminAuditLogger(AdminAuditActions.VIEW_GENERATION_PROVENANCE),
+  OpenAIAdminController.getProvenanceRecord
+);
+
+/**
+ * @swagger
+ * /admin/openai/provenance/{recordId}/replay:
+ *   post:
+ *     summary: Replay a generation against another model and compare
+ *     description: Sends the recorded model requests again (repairs are redone, not replayed) with the given provider, model and parameters, stores the replay as a new record with replayOf set, and compares test case count, summaries, usage, cost and latency with the original.
+ *     tags: [Admin - OpenAI]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: recordId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               provider:
+ *                 type: string
+ *                 enum: [openai, azure, anthropic, local, fixture]
+ *                 description: Defaults to the provider of the original generation
+ *               model:
+ *                 type: string
+ *                 description: Defaults to the provider's default model
+ *               temperature:
+ *                 type: number
+ *               maxTokens:
+ *                 type: integer
+ *     responses:
+ *       200:
+ *         description: Replay record and comparison with the original
+ *       400:
+ *         description: Invalid request or the record made no model requests
+ *       404:
+ *         description: Record not found
+ *       502:
+ *         description: The replay failed
+ */
+router.post('/provenance/:recordId/replay', 
+  enhancedAuth, 
+  adminAuthWithPermissions(['manage_system']),
+  ValidationMiddleware.validateBody(commonSchemas.provenanceReplay),
+  adminAuditLogger(AdminAuditActions.REPLAY_GENERATION),
+  OpenAIAdminController.replayProvenanceRecord
+);
+
 export default router;
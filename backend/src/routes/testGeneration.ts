@@ -1,19 +1,59 @@
 import express from 'express';
-import { userAuth } from '../middlewares/authmiddleware';
+import { optionalAuth, userAuth } from '../middlewares/authmiddleware';
 import { apiLimiter } from '../middlewares/rateLimiting';
+import ValidationMiddleware, { commonSchemas } from '../middlewares/validation';
 import {
   generateTestCases,
   generateTestCasesStreaming,
+  estimateGeneration,
+  getAvailableModels,
+  getGenerationJob,
+  getGenerationJobResults,
+  cancelGenerationJob,
+  getUserGenerationJobs,
   generateTestCasesWithContext,
   getContextWindow,
   getUserContextWindows,
   getTestCasesByParent,
+  getTestCaseAncestors,
+  getTestCaseSubtree,
+  moveTestCase,
+  updateTestCase,
+  bulkUpdateTestCases,
+  reorderTestCases,
+  updateRiskProfile,
+  translateTestCases,
+  deleteTestCase,
+  getTestCaseRevisions,
+  compareTestCaseRevisions,
+  restoreTestCaseRevision,
+  refineTestCase,
+  acceptRefinement,
+  rejectRefinement,
+  exportFeatureFile,
+  exportAutomationScripts,
+  generateOpenApiTestCases,
+  exportContextWindowFeature,
+  getTraceabilityMatrix,
+  getContextWindowTraceability,
+  generateTestData,
+  exportTestData,
+  attachTestCaseTestData,
+  exportTestCaseTestData,
   deleteContextWindow,
   storeFileContent,
   getFileContent,
   clearFileContent,
   getFileContentStats
 } from '../controllers/testGenerationController';
+import {
+  listPromptTemplates,
+  getPromptTemplate,
+  createPromptTemplate,
+  updatePromptTemplate,
+  deletePromptTemplate,
+  renderPromptTemplate
+} from '../controllers/promptTemplateController';
 
 const router = express.Router();
 
@@ -62,16 +102,315 @@ router.get('/test', (req, res) => {
  *               prompt:
  *                 type: string
  *                 description: Custom prompt for test case generation
+ *               templateId:
+ *                 type: string
+ *                 description: Prompt template to start from (see /templates); prompt is appended to the rendered template
+ *               variables:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: string
+ *                 description: Values for the template's variables, e.g. feature, persona, platform, testType
+ *               provider:
+ *                 type: string
+ *                 enum: [openai, azure, anthropic, local, fixture]
+ *                 description: LLM provider override (defaults to LLM_PROVIDER)
+ *               existingSummaries:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   maxLength: 500
+ *                 maxItems: 500
+ *                 description: Summaries already generated in this session, so new cases don't repeat them
+ *               dedupe:
+ *                 type: string
+ *                 enum: [merge, flag]
+ *                 default: merge
+ *                 description: Drop near-duplicate cases (merge) or return them with duplicateOf set (flag)
+ *               format:
+ *                 type: string
+ *                 enum: [standard, gherkin]
+ *                 default: standard
+ *                 description: Output format. gherkin adds a structured Feature/Scenario/Given/When/Then scenario to each test case, using Scenario Outline with Examples for data-driven cases
+ *               async:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Queue a generation job and return its ID right away instead of waiting for the test cases. Requires a signed-in user
+ *               autoRefine:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Send test cases that score below QUALITY_AUTO_REFINE_THRESHOLD back to the model with their quality issues; a rewrite is kept only if it scores higher
+ *               riskProfile:
+ *                 $ref: '#/components/schemas/RiskProfile'
+ *               language:
+ *                 type: string
+ *                 enum: [en, de, es, fr, it, pt, nl, ja, zh, ko]
+ *                 default: en
+ *                 description: Language the test cases are written in. JSON keys, priorities and Gherkin keywords stay in English; the languages detected in the uploaded files are passed to the model as the source languages
+ *               model:
+ *                 type: string
+ *                 description: Model override; must be on the allow-list for the caller's role (see /models)
+ *               temperature:
+ *                 type: number
+ *                 description: Temperature override within the role's range for the model
+ *               maxTokens:
+ *                 type: integer
+ *                 description: Completion token limit override, at most the role's maxTokens for the model
  *     responses:
  *       200:
- *         description: Test cases generated successfully
+ *         description: Test cases generated successfully; the response and each test case carry the provenanceId of the generation's record, and each test case its quality score and issues
+ *       202:
+ *         description: Generation job queued (async requests); poll /jobs/{jobId} for progress
  *       400:
  *         description: Invalid request
+ *       403:
+ *         description: The selected model is not allowed for the caller's role
  *       500:
  *         description: Generation failed
  */
 // Test case generation routes (authentication optional for testing)
-router.post('/generate', generateTestCases as any);
+router.post('/generate', optionalAuth, ValidationMiddleware.validateBody(commonSchemas.generationRequest), generateTestCases as any);
+
+/**
+ * @swagger
+ * /api/test-generation/estimate:
+ *   post:
+ *     summary: Estimate tokens and cost of a generation before running it
+ *     description: Builds the same messages as /generate (files, prompt, count, chunking) without calling the model. Prompt tokens are counted with the model's tokenizer; completion tokens and cost are projected as a range from the number of test cases requested.
+ *     tags: [Test Generation]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             description: Either prompt or templateId is required
+ *             properties:
+ *               prompt:
+ *                 type: string
+ *               templateId:
+ *                 type: string
+ *                 description: Prompt template to start from (see /templates); prompt is appended to the rendered template
+ *               variables:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: string
+ *                 description: Values for the template's variables, e.g. feature, persona, platform, testType
+ *               fileIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               count:
+ *                 type: integer
+ *                 default: 10
+ *               offset:
+ *                 type: integer
+ *                 default: 0
+ *               provider:
+ *                 type: string
+ *                 enum: [openai, azure, anthropic, local, fixture]
+ *               existingSummaries:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   maxLength: 500
+ *                 maxItems: 500
+ *               format:
+ *                 type: string
+ *                 enum: [standard, gherkin]
+ *                 default: standard
+ *               language:
+ *                 type: string
+ *                 enum: [en, de, es, fr, it, pt, nl, ja, zh, ko]
+ *                 default: en
+ *               model:
+ *                 type: string
+ *                 description: Model override, priced and tokenized instead of the default model
+ *               temperature:
+ *                 type: number
+ *               maxTokens:
+ *                 type: integer
+ *                 description: Caps the projected completion tokens per model request
+ *     responses:
+ *       200:
+ *         description: Estimate with promptTokens, completionTokens, totalTokens and cost ranges ({min, max}), the number of chunks covered and skipped, and the user's remaining daily token allowance
+ *       400:
+ *         description: Invalid request
+ */
+router.post('/estimate', optionalAuth, ValidationMiddleware.validateBody(commonSchemas.generationEstimate), estimateGeneration as any);
+
+/**
+ * @swagger
+ * /api/test-generation/models:
+ *   get:
+ *     summary: List the models the caller's role may select
+ *     description: Enabled allow-list entries that have limits for the caller's role (user when not signed in). The model, temperature and maxTokens of /generate, /generate-streaming, /generate-with-context and /estimate must stay within these limits.
+ *     tags: [Test Generation]
+ *     parameters:
+ *       - in: query
+ *         name: provider
+ *         schema:
+ *           type: string
+ *           enum: [openai, azure, anthropic, local, fixture]
+ *         description: Provider whose models to list (defaults to LLM_PROVIDER)
+ *     responses:
+ *       200:
+ *         description: Available models with maxTokens and temperature range
+ */
+router.get('/models', optionalAuth, getAvailableModels as any);
+
+/**
+ * @swagger
+ * /api/test-generation/templates:
+ *   get:
+ *     summary: List prompt templates
+ *     description: Built-in presets (functional, negative, security, accessibility, performance) plus, when signed in, the caller's own templates and those shared with their teams
+ *     tags: [Test Generation]
+ *     responses:
+ *       200:
+ *         description: Prompt templates with their variables
+ *   post:
+ *     summary: Create a prompt template
+ *     tags: [Test Generation]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - body
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               body:
+ *                 type: string
+ *                 description: Prompt text with {{variable}} placeholders, e.g. {{feature}}, {{persona}}, {{platform}}, {{testType}}
+ *               variables:
+ *                 type: array
+ *                 description: Labels, defaults and whether each placeholder is required; undeclared placeholders become required variables
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     name:
+ *                       type: string
+ *                     label:
+ *                       type: string
+ *                     required:
+ *                       type: boolean
+ *                     defaultValue:
+ *                       type: string
+ *               scope:
+ *                 type: string
+ *                 enum: [private, team]
+ *                 default: private
+ *               teamId:
+ *                 type: string
+ *                 description: Team to share with (scope team); the caller must be a member
+ *     responses:
+ *       201:
+ *         description: Template created
+ *       400:
+ *         description: Invalid template
+ *       403:
+ *         description: Not a member of the team
+ */
+router.get('/templates', optionalAuth, listPromptTemplates as any);
+router.post('/templates', userAuth, ValidationMiddleware.validateBody(commonSchemas.promptTemplate), createPromptTemplate as any);
+
+/**
+ * @swagger
+ * /api/test-generation/templates/{templateId}:
+ *   get:
+ *     summary: Get a prompt template
+ *     tags: [Test Generation]
+ *     parameters:
+ *       - in: path
+ *         name: templateId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The template
+ *       404:
+ *         description: Template not found or not visible to the caller
+ *   put:
+ *     summary: Update a prompt template (owner only)
+ *     tags: [Test Generation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: templateId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Template updated
+ *       403:
+ *         description: Preset or template owned by someone else
+ *       404:
+ *         description: Template not found
+ *   delete:
+ *     summary: Delete a prompt template (owner only)
+ *     tags: [Test Generation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: templateId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Template deleted
+ *       403:
+ *         description: Preset or template owned by someone else
+ *       404:
+ *         description: Template not found
+ */
+router.get('/templates/:templateId', optionalAuth, getPromptTemplate as any);
+router.put('/templates/:templateId', userAuth, ValidationMiddleware.validateBody(commonSchemas.promptTemplateUpdate), updatePromptTemplate as any);
+router.delete('/templates/:templateId', userAuth, deletePromptTemplate as any);
+
+/**
+ * @swagger
+ * /api/test-generation/templates/{templateId}/render:
+ *   post:
+ *     summary: Preview the prompt a template produces
+ *     tags: [Test Generation]
+ *     parameters:
+ *       - in: path
+ *         name: templateId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               variables:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: The rendered prompt
+ *       400:
+ *         description: A required variable has no value
+ *       404:
+ *         description: Template not found
+ */
+router.post('/templates/:templateId/render', optionalAuth, ValidationMiddleware.validateBody(commonSchemas.promptTemplateRender), renderPromptTemplate as any);
 
 /**
  * @swagger
@@ -103,6 +442,53 @@ router.post('/generate', generateTestCases as any);
  *               prompt:
  *                 type: string
  *                 description: Custom prompt for test case generation
+ *               templateId:
+ *                 type: string
+ *                 description: Prompt template to start from (see /templates); prompt is appended to the rendered template
+ *               variables:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: string
+ *                 description: Values for the template's variables, e.g. feature, persona, platform, testType
+ *               provider:
+ *                 type: string
+ *                 enum: [openai, azure, anthropic, local, fixture]
+ *                 description: LLM provider override (defaults to LLM_PROVIDER)
+ *               existingSummaries:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   maxLength: 500
+ *                 maxItems: 500
+ *                 description: Summaries already generated in this session, so new cases don't repeat them
+ *               dedupe:
+ *                 type: string
+ *                 enum: [merge, flag]
+ *                 default: merge
+ *                 description: Drop near-duplicate cases (merge) or return them with duplicateOf set (flag)
+ *               format:
+ *                 type: string
+ *                 enum: [standard, gherkin]
+ *                 default: standard
+ *                 description: Output format. gherkin adds a structured Feature/Scenario/Given/When/Then scenario to each test case, using Scenario Outline with Examples for data-driven cases
+ *               model:
+ *                 type: string
+ *                 description: Model override; must be on the allow-list for the caller's role (see /models)
+ *               temperature:
+ *                 type: number
+ *               maxTokens:
+ *                 type: integer
+ *               autoRefine:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Rewrite low-scoring test cases before they are sent
+ *               riskProfile:
+ *                 $ref: '#/components/schemas/RiskProfile'
+ *               language:
+ *                 type: string
+ *                 enum: [en, de, es, fr, it, pt, nl, ja, zh, ko]
+ *                 default: en
+ *                 description: Language the test cases are written in
  *     responses:
  *       200:
  *         description: Streaming test case generation
@@ -111,13 +497,584 @@ router.post('/generate', generateTestCases as any);
  *             schema:
  *               type: string
  */
-router.post('/generate-streaming', generateTestCasesStreaming as any);
+router.post('/generate-streaming', optionalAuth, ValidationMiddleware.validateBody(commonSchemas.generationRequest), generateTestCasesStreaming as any);
 
+/**
+ * @swagger
+ * /api/test-generation/jobs/{jobId}:
+ *   get:
+ *     summary: Get the status and progress of a generation job
+ *     tags: [Test Generation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Job status (queued, running, completed, failed or cancelled) with generated and requested counts
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: The job belongs to another user
+ *       404:
+ *         description: Job not found
+ */
+router.get('/jobs/:jobId', userAuth, getGenerationJob as any);
+
+/**
+ * @swagger
+ * /api/test-generation/jobs/{jobId}/results:
+ *   get:
+ *     summary: Get the test cases a generation job has produced so far
+ *     tags: [Test Generation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: after
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           default: 0
+ *         description: Skip this many test cases; pass the previous response's next value to fetch only new ones
+ *     responses:
+ *       200:
+ *         description: Partial or final test cases in generation order
+ *       400:
+ *         description: Invalid after value
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: The job belongs to another user
+ *       404:
+ *         description: Job not found
+ */
+router.get('/jobs/:jobId/results', userAuth, getGenerationJobResults as any);
+
+/**
+ * @swagger
+ * /api/test-generation/jobs/{jobId}/cancel:
+ *   post:
+ *     summary: Cancel a generation job and abort its model request
+ *     tags: [Test Generation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Job cancelled, or cancellation requested while the model request is being aborted
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: The job belongs to another user
+ *       404:
+ *         description: Job not found
+ *       409:
+ *         description: Job has already finished
+ */
+router.post('/jobs/:jobId/cancel', userAuth, cancelGenerationJob as any);
+
+/**
+ * @swagger
+ * /api/test-generation/jobs:
+ *   get:
+ *     summary: List the signed-in user's generation jobs
+ *     tags: [Test Generation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [queued, running, completed, failed, cancelled]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Jobs, newest first
+ *       401:
+ *         description: Authentication required
+ */
+router.get('/jobs', userAuth, getUserGenerationJobs as any);
+
+/**
+ * @swagger
+ * /api/test-generation/export/feature:
+ *   post:
+ *     summary: Export test cases as a Gherkin .feature file
+ *     tags: [Test Generation]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - testCases
+ *             properties:
+ *               featureName:
+ *                 type: string
+ *                 description: Feature title (defaults to the feature of the first Gherkin test case)
+ *               testCases:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                 description: Test cases as returned by /generate; those without a gherkin scenario are converted from their steps
+ *     responses:
+ *       200:
+ *         description: The .feature file
+ *         content:
+ *           text/plain:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Invalid request
+ */
+router.post('/export/feature', ValidationMiddleware.validateBody(commonSchemas.featureExport), exportFeatureFile);
+
+/**
+ * @swagger
+ * /api/test-generation/export/automation:
+ *   post:
+ *     summary: Generate automation script skeletons from test cases
+ *     tags: [Test Generation]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - framework
+ *               - testCases
+ *             properties:
+ *               framework:
+ *                 type: string
+ *                 enum: [playwright, cypress, jest-supertest]
+ *               output:
+ *                 type: string
+ *                 enum: [zip, json]
+ *                 default: zip
+ *                 description: Download a zip archive or return the files as JSON
+ *               testCases:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                 description: Test cases as returned by /generate
+ *     responses:
+ *       200:
+ *         description: One spec per test case with step comments, placeholder selectors or requests and assertions from expectedResult, plus config and README
+ *         content:
+ *           application/zip:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Invalid request
+ */
+router.post('/export/automation', ValidationMiddleware.validateBody(commonSchemas.automationExport), exportAutomationScripts);
+
+/**
+ * @swagger
+ * /api/test-generation/traceability:
+ *   post:
+ *     summary: Requirement coverage matrix for test cases generated from uploaded files
+ *     tags: [Test Generation]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - fileIds
+ *             properties:
+ *               fileIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Uploaded files to extract numbered requirements and user stories from
+ *               testCases:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       oneOf:
+ *                         - type: integer
+ *                         - type: string
+ *                     summary:
+ *                       type: string
+ *                     requirementIds:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *     responses:
+ *       200:
+ *         description: Test cases per requirement, requirements without tests, test cases without requirements and the coverage percentage
+ *       401:
+ *         description: User authentication required
+ *       404:
+ *         description: No content found for the files
+ */
+router.post('/traceability', userAuth, ValidationMiddleware.validateBody(commonSchemas.traceabilityMatrix), getTraceabilityMatrix);
+
+/**
+ * @swagger
+ * /api/test-generation/openapi/test-cases:
+ *   post:
+ *     summary: Generate API test cases from an OpenAPI 3 or Swagger 2 spec
+ *     tags: [Test Generation]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               fileId:
+ *                 type: string
+ *                 description: ID of an uploaded .json, .yaml or .yml spec
+ *               spec:
+ *                 oneOf:
+ *                   - type: object
+ *                   - type: string
+ *                 description: The spec as an object, or as JSON or YAML text
+ *               source:
+ *                 type: string
+ *                 enum: [self]
+ *                 description: Use the spec of this API
+ *               categories:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [positive, negative, auth, boundary]
+ *                 description: Categories to generate (all by default)
+ *               operations:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Limit to operations given as "GET /users/{id}" or operationId
+ *               maxPerEndpoint:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 50
+ *     responses:
+ *       200:
+ *         description: Test cases grouped by endpoint, each with an example request and the expected status and body
+ *       400:
+ *         description: Invalid request or not an OpenAPI / Swagger document
+ *       404:
+ *         description: No spec found for the file ID
+ */
+router.post('/openapi/test-cases', ValidationMiddleware.validateBody(commonSchemas.openApiTestCases), generateOpenApiTestCases);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     TestDataField:
+ *       type: object
+ *       required:
+ *         - name
+ *       properties:
+ *         name:
+ *           type: string
+ *         type:
+ *           type: string
+ *           enum: [string, email, integer, number, date, boolean, enum]
+ *           default: string
+ *         required:
+ *           type: boolean
+ *         minLength:
+ *           type: integer
+ *         maxLength:
+ *           type: integer
+ *         min:
+ *           oneOf:
+ *             - type: number
+ *             - type: string
+ *               format: date
+ *         max:
+ *           oneOf:
+ *             - type: number
+ *             - type: string
+ *               format: date
+ *         pattern:
+ *           type: string
+ *           description: Regular expression valid values match
+ *         enum:
+ *           type: array
+ *           items:
+ *             type: string
+ *         forbidden:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: Values that must be rejected even when they meet the other rules
+ *     RiskProfile:
+ *       type: object
+ *       description: Feature area risk factors (1-5) that set test case priorities. Each test case is matched to the area whose name or keywords it mentions most; the weighted factors give a 0-100 risk score (P1 from 70, P2 from 40), which replaces (override) or moves the model's priority one level towards it (calibrate). The rationale is stored in each test case's risk field.
+ *       required:
+ *         - areas
+ *       properties:
+ *         areas:
+ *           type: array
+ *           items:
+ *             type: object
+ *             required: [name, businessImpact, usageFrequency, changeFrequency, defectHistory]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Checkout
+ *               keywords:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: [payment, cart, order]
+ *               businessImpact:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 5
+ *               usageFrequency:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 5
+ *               changeFrequency:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 5
+ *               defectHistory:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 5
+ *         mode:
+ *           type: string
+ *           enum: [override, calibrate]
+ *           default: override
+ */
+
+/**
+ * @swagger
+ * /api/test-generation/test-data:
+ *   post:
+ *     summary: Generate boundary, equivalence-class and pairwise test data for input fields
+ *     tags: [Test Generation]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               fields:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/TestDataField'
+ *               presets:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [password, signup]
+ *                 description: Field rules this application enforces at sign-up
+ *               fileIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Uploaded files to infer field rules from (OpenAPI specs contribute their request schemas)
+ *               techniques:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [boundary, equivalence, pairwise]
+ *               maxRows:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 1000
+ *               testCases:
+ *                 type: array
+ *                 description: Test cases to build a data table for, from the fields each one mentions
+ *                 items:
+ *                   type: object
+ *     responses:
+ *       200:
+ *         description: The field definitions, the values chosen per field and a data table with one row per case
+ *       404:
+ *         description: No field definitions found
+ */
+router.post('/test-data', ValidationMiddleware.validateBody(commonSchemas.testData), generateTestData);
+
+/**
+ * @swagger
+ * /api/test-generation/test-data/export:
+ *   post:
+ *     summary: Export test data as a CSV or JSON fixture
+ *     tags: [Test Generation]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               table:
+ *                 type: object
+ *                 description: A data table returned earlier; generated from fields, presets or fileIds when left out
+ *               fields:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/TestDataField'
+ *               presets:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [password, signup]
+ *               fileIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               format:
+ *                 type: string
+ *                 enum: [csv, json]
+ *                 default: csv
+ *     responses:
+ *       200:
+ *         description: CSV with one row per case, or JSON with valid and invalid records
+ *       404:
+ *         description: No field definitions found
+ */
+router.post('/test-data/export', ValidationMiddleware.validateBody(commonSchemas.testDataExport), exportTestData);
+
+/**
+ * @swagger
+ * /api/test-generation/context-window/{contextWindowId}/risk-profile:
+ *   put:
+ *     summary: Replace a context window's risk profile and re-prioritize its test cases
+ *     description: Every test case is re-prioritized from the priority the model proposed, so the result does not depend on earlier profiles. Priorities set by hand afterwards clear the test case's risk rationale. Later /generate-with-context calls on the window use this profile unless they send their own.
+ *     tags: [Test Generation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: contextWindowId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RiskProfile'
+ *     responses:
+ *       200:
+ *         description: All test cases of the window with their new priority and risk rationale
+ *       400:
+ *         description: Invalid risk profile
+ *       403:
+ *         description: Not the owner of the context window
+ *       404:
+ *         description: Context window not found
+ */
+
+/**
+ * @swagger
+ * /api/test-generation/translate:
+ *   post:
+ *     summary: Translate a test suite into another language
+ *     description: Only the text is translated (summary, precondition, steps and expected result, or the feature, scenario and step texts of Gherkin test cases). Ids, hierarchy, priorities, requirement links, tags and Gherkin keywords are kept. Send either the test cases, which are returned translated, or a contextWindowId to translate the window in place; the window then keeps the language for later generations. Test cases the model did not translate are listed in untranslatedIds and left unchanged.
+ *     tags: [Test Generation]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - targetLanguage
+ *             properties:
+ *               targetLanguage:
+ *                 type: string
+ *                 enum: [en, de, es, fr, it, pt, nl, ja, zh, ko]
+ *               sourceLanguage:
+ *                 type: string
+ *                 enum: [en, de, es, fr, it, pt, nl, ja, zh, ko]
+ *                 description: Language of the test cases, recognized by the model when not given
+ *               testCases:
+ *                 type: array
+ *                 maxItems: 200
+ *                 items:
+ *                   $ref: '#/components/schemas/TestCase'
+ *               contextWindowId:
+ *                 type: string
+ *               provider:
+ *                 type: string
+ *                 enum: [openai, azure, anthropic, local, fixture]
+ *     responses:
+ *       200:
+ *         description: The translated test cases with untranslatedIds, plus the updated context window when one was translated
+ *       400:
+ *         description: Invalid request or unsupported language
+ *       403:
+ *         description: Not the owner of the context window
+ *       404:
+ *         description: Context window not found
+ *       429:
+ *         description: Daily token limit exceeded
+ *       502:
+ *         description: The model's replies could not be used
+ */
 // Context window routes (require authentication)
 router.post('/generate-with-context', userAuth, generateTestCasesWithContext as any);
 router.get('/context-windows', userAuth, getUserContextWindows as any);
 router.get('/context-window/:contextWindowId', userAuth, getContextWindow as any);
 router.get('/context-window/:contextWindowId/parent/:parentTestCaseId', userAuth, getTestCasesByParent as any);
+router.get('/context-window/:contextWindowId/test-case/:testCaseId/ancestors', userAuth, getTestCaseAncestors as any);
+router.get('/context-window/:contextWindowId/test-case/:testCaseId/subtree', userAuth, getTestCaseSubtree as any);
+router.patch('/context-window/:contextWindowId/test-case/:testCaseId/move', userAuth, moveTestCase as any);
+router.patch('/context-window/:contextWindowId/test-cases', userAuth, ValidationMiddleware.validateBody(commonSchemas.testCaseBulkUpdate), bulkUpdateTestCases as any);
+router.put('/context-window/:contextWindowId/test-cases/order', userAuth, ValidationMiddleware.validateBody(commonSchemas.testCaseReorder), reorderTestCases as any);
+router.put('/context-window/:contextWindowId/risk-profile', userAuth, ValidationMiddleware.validateBody(commonSchemas.riskProfile), updateRiskProfile as any);
+router.post('/translate', userAuth, ValidationMiddleware.validateBody(commonSchemas.testCaseTranslation), translateTestCases as any);
+router.patch('/context-window/:contextWindowId/test-case/:testCaseId', userAuth, ValidationMiddleware.validateBody(commonSchemas.testCaseUpdate), updateTestCase as any);
+router.delete('/context-window/:contextWindowId/test-case/:testCaseId', userAuth, deleteTestCase as any);
+router.get('/context-window/:contextWindowId/test-case/:testCaseId/revisions', userAuth, getTestCaseRevisions as any);
+router.get('/context-window/:contextWindowId/test-case/:testCaseId/revisions/compare', userAuth, compareTestCaseRevisions as any);
+router.post('/context-window/:contextWindowId/test-case/:testCaseId/revisions/:revision/restore', userAuth, restoreTestCaseRevision as any);
+router.post('/context-window/:contextWindowId/test-case/:testCaseId/refine', userAuth, ValidationMiddleware.validateBody(commonSchemas.testCaseRefine), refineTestCase as any);
+router.post('/context-window/:contextWindowId/refinements/:proposalId/accept', userAuth, acceptRefinement as any);
+router.post('/context-window/:contextWindowId/refinements/:proposalId/reject', userAuth, rejectRefinement as any);
+router.get('/context-window/:contextWindowId/export/feature', userAuth, exportContextWindowFeature as any);
+router.get('/context-window/:contextWindowId/traceability', userAuth, getContextWindowTraceability as any);
+router.post('/context-window/:contextWindowId/test-case/:testCaseId/test-data', userAuth, ValidationMiddleware.validateBody(commonSchemas.testCaseTestData), attachTestCaseTestData as any);
+router.get('/context-window/:contextWindowId/test-case/:testCaseId/test-data/export', userAuth, exportTestCaseTestData as any);
 router.delete('/context-window/:contextWindowId', userAuth, deleteContextWindow as any);
 
 // File content management routes
@@ -0,0 +1,325 @@
+import { GherkinScenario } from "../types/gherkin";
+import { testCaseToGherkin } from "../utils/gherkin";
+
+export type AutomationFramework = "playwright" | "cypress" | "jest-supertest";
+
+export const AUTOMATION_FRAMEWORKS: AutomationFramework[] = ["playwright", "cypress", "jest-supertest"];
+
+export interface AutomationFile {
+  path: string;
+  content: string;
+}
+
+interface AutomationTestCase {
+  id?: number | string | undefined;
+  summary: string;
+  precondition: string;
+  steps: string;
+  expectedResult: string;
+  priority?: "P1" | "P2" | "P3" | undefined;
+  gherkin?: GherkinScenario | undefined;
+}
+
+// The parts of a test case a skeleton is built from
+interface ScriptOutline {
+  title: string;
+  preconditions: string[];
+  actions: string[];
+  expectations: string[];
+}
+
+interface HttpCall {
+  method: "get" | "post" | "put" | "patch" | "delete";
+  path: string;
+}
+
+const NAVIGATE = /\b(open|navigate|go to|visit|load|browse)\b/i;
+const CLICK = /\b(click|press|tap|select|choose|submit|check|toggle)\b/i;
+const FILL = /\b(enter|type|fill|input|provide|set)\b/i;
+const HTTP_CALL = /\b(GET|POST|PUT|PATCH|DELETE)\s+(\/[^\s"'`,;]*)/i;
+const STATUS_CODE = /\b([1-5]\d{2})\b/;
+const QUOTED = /["“']([^"”']{1,80})["”']/;
+
+class AutomationScriptService {
+  /**
+   * Build runnable skeleton files for the test cases: one spec per test
+   * case plus the framework config and a README listing the placeholders
+   */
+  generate(testCases: AutomationTestCase[], framework: AutomationFramework): AutomationFile[] {
+    const specs = testCases.map((testCase, index) => {
+      const outline = this.toOutline(testCase);
+      const fileName = `${String(testCase.id ?? index + 1).replace(/[^a-zA-Z0-9-]/g, "").substring(0, 12) || index + 1}-${this.slugify(outline.title)}`;
+
+      switch (framework) {
+        case "playwright":
+          return { path: `tests/${fileName}.spec.ts`, content: this.playwrightSpec(outline, testCase.priority) };
+        case "cypress":
+          return { path: `cypress/e2e/${fileName}.cy.ts`, content: this.cypressSpec(outline, testCase.priority) };
+        case "jest-supertest":
+          return { path: `tests/${fileName}.test.ts`, content: this.supertestSpec(outline, testCase.priority) };
+      }
+    });
+
+    return [...specs, ...this.supportFiles(framework, specs.length)];
+  }
+
+  /**
+   * Split a test case into preconditions, actions and expectations. Gherkin
+   * scenarios map Given/When/Then directly; standard test cases use their
+   * precondition, numbered steps and expected result.
+   */
+  private toOutline(testCase: AutomationTestCase): ScriptOutline {
+    const scenario = testCaseToGherkin(testCase, testCase.summary);
+    const outline: ScriptOutline = { title: testCase.summary, preconditions: [], actions: [], expectations: [] };
+    let current: "Given" | "When" | "Then" = "Given";
+
+    for (const step of scenario.steps) {
+      if (step.keyword !== "And" && step.keyword !== "But") current = step.keyword;
+      const target = current === "Given" ? outline.preconditions : current === "When" ? outline.actions : outline.expectations;
+      target.push(step.text);
+    }
+
+    return outline;
+  }
+
+  private playwrightSpec(outline: ScriptOutline, priority?: string): string {
+    const body: string[] = [];
+
+    outline.actions.forEach((action, index) => {
+      body.push(`    // Step ${index + 1}: ${this.comment(action)}`);
+      body.push(`    ${this.playwrightAction(action)}`);
+    });
+    body.push("");
+    outline.expectations.forEach(expectation => {
+      body.push(`    // Expected: ${this.comment(expectation)}`);
+      const text = expectation.match(QUOTED)?.[1];
+      body.push(text
+        ? `    await expect(page.locator('${this.selector(expectation)}')).toContainText(${this.literal(text)});`
+        : `    await expect(page.locator('${this.selector(expectation)}')).toBeVisible();`);
+    });
+
+    return `import { test, expect } from '@playwright/test';
+
+test.describe(${this.literal(outline.title)}, () => {
+${this.preconditionBlock(outline, "  test.beforeEach(async ({ page }) => {", "  });")}  test(${this.literal(this.testTitle(outline.title, priority))}, async ({ page }) => {
+${body.join("\n")}
+  });
+});
+`;
+  }
+
+  private cypressSpec(outline: ScriptOutline, priority?: string): string {
+    const body: string[] = [];
+
+    outline.actions.forEach((action, index) => {
+      body.push(`    // Step ${index + 1}: ${this.comment(action)}`);
+      body.push(`    ${this.cypressAction(action)}`);
+    });
+    body.push("");
+    outline.expectations.forEach(expectation => {
+      body.push(`    // Expected: ${this.comment(expectation)}`);
+      const text = expectation.match(QUOTED)?.[1];
+      body.push(text
+        ? `    cy.get('${this.selector(expectation)}').should('contain', ${this.literal(text)});`
+        : `    cy.get('${this.selector(expectation)}').should('be.visible');`);
+    });
+
+    return `describe(${this.literal(outline.title)}, () => {
+${this.preconditionBlock(outline, "  beforeEach(() => {", "  });")}  it(${this.literal(this.testTitle(outline.title, priority))}, () => {
+${body.join("\n")}
+  });
+});
+`;
+  }
+
+  private supertestSpec(outline: ScriptOutline, priority?: string): string {
+    const body: string[] = [];
+    let hasCall = false;
+
+    outline.actions.forEach((action, index) => {
+      body.push(`    // Step ${index + 1}: ${this.comment(action)}`);
+      const call = this.httpCall(action);
+      if (!call) {
+        body.push("    // TODO: prepare request data for this step");
+        return;
+      }
+      hasCall = true;
+      body.push(...this.supertestCall(call));
+    });
+
+    if (!hasCall) {
+      body.push("    // TODO: call the endpoint under test");
+      body.push(...this.supertestCall({ method: "get", path: "/TODO" }));
+    }
+    body.push("");
+
+    const expectedStatus = outline.expectations.map(e => e.match(STATUS_CODE)?.[1]).find(Boolean);
+    body.push(expectedStatus
+      ? `    expect(response.status).toBe(${expectedStatus});`
+      : "    expect(response.status).toBe(200); // TODO: confirm the expected status");
+    outline.expectations.forEach(expectation => {
+      body.push(`    // Expected: ${this.comment(expectation)}`);
+      const text = expectation.match(QUOTED)?.[1];
+      if (text) body.push(`    expect(JSON.stringify(response.body)).toContain(${this.literal(text)});`);
+    });
+    body.push("    expect(response.body).toBeDefined(); // TODO: assert on the response body");
+
+    return `import request from 'supertest';
+
+const BASE_URL = process.env.API_BASE_URL || 'http://localhost:5000';
+
+describe(${this.literal(outline.title)}, () => {
+${this.preconditionBlock(outline, "  beforeAll(async () => {", "  });")}  it(${this.literal(this.testTitle(outline.title, priority))}, async () => {
+    let response!: request.Response;
+
+${body.join("\n")}
+  });
+});
+`;
+  }
+
+  private playwrightAction(action: string): string {
+    const selector = this.selector(action);
+    const value = action.match(QUOTED)?.[1];
+
+    if (NAVIGATE.test(action)) return `await page.goto('${this.urlPath(action)}');`;
+    if (FILL.test(action)) return `await page.fill('${selector}', ${this.literal(value || "TODO")});`;
+    if (CLICK.test(action)) return `await page.click('${selector}');`;
+    return "// TODO: implement this step";
+  }
+
+  private cypressAction(action: string): string {
+    const selector = this.selector(action);
+    const value = action.match(QUOTED)?.[1];
+
+    if (NAVIGATE.test(action)) return `cy.visit('${this.urlPath(action)}');`;
+    if (FILL.test(action)) return `cy.get('${selector}').type(${this.literal(value || "TODO")});`;
+    if (CLICK.test(action)) return `cy.get('${selector}').click();`;
+    return "// TODO: implement this step";
+  }
+
+  private supertestCall(call: HttpCall): string[] {
+    const sendsBody = call.method === "post" || call.method === "put" || call.method === "patch";
+    return [
+      `    response = await request(BASE_URL)`,
+      `      .${call.method}('${call.path}')${sendsBody ? "" : ";"}`,
+      ...(sendsBody ? ["      .send({ /* TODO: request body */ });"] : []),
+    ];
+  }
+
+  private httpCall(action: string): HttpCall | null {
+    const match = action.match(HTTP_CALL);
+    if (!match) return null;
+    return { method: match[1]!.toLowerCase() as HttpCall["method"], path: match[2]! };
+  }
+
+  private preconditionBlock(outline: ScriptOutline, open: string, close: string): string {
+    if (outline.preconditions.length === 0) return "";
+    const lines = outline.preconditions.map(precondition => `    // Precondition: ${this.comment(precondition)}`);
+    return `${open}\n${lines.join("\n")}\n    // TODO: set up the preconditions\n${close}\n\n`;
+  }
+
+  private supportFiles(framework: AutomationFramework, specCount: number): AutomationFile[] {
+    const readme = (install: string, run: string, placeholders: string) => ({
+      path: "README.md",
+      content: `# Generated ${framework} skeletons
+
+${specCount} test file(s) generated from test cases. Each step of a test case is a comment followed by a placeholder action; expected results become assertions.
+
+## Setup
+
+\`\`\`bash
+${install}
+\`\`\`
+
+## Run
+
+\`\`\`bash
+${run}
+\`\`\`
+
+## Before running
+
+${placeholders}
+- Replace every \`TODO\` with the real value or implementation
+`,
+    });
+
+    switch (framework) {
+      case "playwright":
+        return [
+          {
+            path: "playwright.config.ts",
+            content: `import { defineConfig } from '@playwright/test';
+
+export default defineConfig({
+  testDir: './tests',
+  use: {
+    baseURL: process.env.BASE_URL || 'http://localhost:3000',
+  },
+});
+`,
+          },
+          readme("npm install -D @playwright/test\nnpx playwright install", "npx playwright test", "- Replace the `[data-testid=\"TODO-...\"]` selectors with the application's selectors\n- Set `BASE_URL` to the application under test"),
+        ];
+      case "cypress":
+        return [
+          {
+            path: "cypress.config.ts",
+            content: `import { defineConfig } from 'cypress';
+
+export default defineConfig({
+  e2e: {
+    baseUrl: process.env.BASE_URL || 'http://localhost:3000',
+    supportFile: false,
+  },
+});
+`,
+          },
+          readme("npm install -D cypress typescript", "npx cypress run", "- Replace the `[data-testid=\"TODO-...\"]` selectors with the application's selectors\n- Set `BASE_URL` to the application under test"),
+        ];
+      case "jest-supertest":
+        return [
+          {
+            path: "jest.config.js",
+            content: `module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  testMatch: ['**/tests/**/*.test.ts'],
+};
+`,
+          },
+          readme("npm install -D jest ts-jest typescript supertest @types/jest @types/supertest", "npx jest", "- Replace `/TODO` paths with the API endpoints under test\n- Set `API_BASE_URL` to the API under test"),
+        ];
+    }
+  }
+
+  /**
+   * Placeholder data-testid selector named after the step
+   */
+  private selector(text: string): string {
+    return `[data-testid="TODO-${this.slugify(text).substring(0, 40)}"]`;
+  }
+
+  private urlPath(text: string): string {
+    return text.match(/(\/[a-zA-Z0-9\-_/]*)/)?.[1] || "/";
+  }
+
+  private testTitle(title: string, priority?: string): string {
+    return priority ? `[${priority}] ${title}` : title;
+  }
+
+  private slugify(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").substring(0, 60) || "test-case";
+  }
+
+  private comment(text: string): string {
+    return text.replace(/\s*\n\s*/g, " ").replace(/\*\//g, "* /");
+  }
+
+  private literal(text: string): string {
+    return `'${text.replace(/\\/g, "\\\\").replace(/'/g, "\\'").replace(/\n/g, "\\n")}'`;
+  }
+}
+
+export default new AutomationScriptService();
@@ -1,11 +1,34 @@
 import { v4 as uuidv4 } from 'uuid';
+import cron from 'node-cron';
+import { HydratedDocument } from 'mongoose';
+import ContextWindowModel, { IContextWindow, ITestCaseContext } from '../models/contextWindow';
+import { getEnvVar } from '../config/envValidator';
+import testCaseRevisionService from './testCaseRevisionService';
+import requirementService from './requirementService';
+import qualityLinterService from './qualityLinterService';
+import riskPrioritizationService from './riskPrioritizationService';
 import { 
   ContextWindow, 
   TestCaseContext, 
   ContextWindowRequest, 
   ContextWindowResponse,
-  ContextWindowStats
+  ContextWindowStats,
+  ContextWindowListOptions,
+  ContextNavigation,
+  TestCaseUpdate,
+  TestCaseBulkUpdate,
+  TestCaseTranslation,
+  TestCaseSnapshot,
+  RevisionAction,
+  RevisionAuthor
 } from '../types/contextWindow';
+import { TestCaseSource } from '../types/document';
+import { GherkinScenario } from '../types/gherkin';
+import { TestDataTable } from '../types/testData';
+import { TestCaseQuality } from '../types/quality';
+import { RiskProfile, TestCaseRisk } from '../types/risk';
+import { LanguageCode } from '../types/language';
+import { LANGUAGES } from '../utils/language';
 // Define TestCase interface locally to avoid circular dependency
 interface TestCase {
   id: number;
@@ -14,11 +37,20 @@ interface TestCase {
   steps: string;
   expectedResult: string;
   priority: 'P1' | 'P2' | 'P3';
+  source?: TestCaseSource | undefined;
+  gherkin?: GherkinScenario | undefined;
+  requirementIds?: string[] | undefined;
+  provenanceId?: string | undefined;
+  quality?: TestCaseQuality | undefined;
+  risk?: TestCaseRisk | undefined;
 }
 
 class ContextWindowService {
-  private contextWindows: Map<string, ContextWindow> = new Map();
-  private userSessions: Map<string, string[]> = new Map(); // userId -> contextWindowIds
+  private retentionDays: number;
+
+  constructor() {
+    this.retentionDays = parseInt(getEnvVar('CONTEXT_WINDOW_RETENTION_DAYS', '30'));
+  }
 
   /**
    * Create a new context window
@@ -29,9 +61,8 @@ class ContextWindowService {
     request: ContextWindowRequest
   ): Promise<ContextWindowResponse> {
     try {
-      const contextWindowId = uuidv4();
-      const contextWindow: ContextWindow = {
-        id: contextWindowId,
+      const document = await ContextWindowModel.create({
+        _id: uuidv4(),
         userId,
         sessionId,
         name: 'Test Session ' + new Date().toLocaleDateString(),
@@ -39,20 +70,13 @@ class ContextWindowService {
         rootPrompt: request.prompt,
         fileIds: request.fileIds || [],
         testCases: [],
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
-
-      this.contextWindows.set(contextWindowId, contextWindow);
-      
-      // Track user sessions
-      const userSessions = this.userSessions.get(userId) || [];
-      userSessions.push(contextWindowId);
-      this.userSessions.set(userId, userSessions);
+        ...(request.riskProfile ? { riskProfile: request.riskProfile } : {}),
+        ...(request.language ? { language: request.language } : {})
+      });
 
       return {
         success: true,
-        contextWindow,
+        contextWindow: this.toContextWindow(document),
         message: 'Context window created successfully'
       };
     } catch (error) {
@@ -69,9 +93,9 @@ class ContextWindowService {
    */
   async getContextWindow(contextWindowId: string): Promise<ContextWindowResponse> {
     try {
-      const contextWindow = this.contextWindows.get(contextWindowId);
+      const document = await ContextWindowModel.findById(contextWindowId);
       
-      if (!contextWindow) {
+      if (!document) {
         return {
           success: false,
           error: 'Context window not found'
@@ -80,7 +104,29 @@ class ContextWindowService {
 
       return {
         success: true,
-        contextWindow,
+        contextWindow: this.toContextWindow(document),
+        message: 'Context window retrieved successfully'
+      };
+    } catch (error) {
+      console.error('❌ Error getting context window:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get context window'
+      };
+    }
+  }
+
+  /**
+   * Get a context window by ID if it belongs to the user
+   */
+  async getOwnedContextWindow(contextWindowId: string, userId: string): Promise<ContextWindowResponse> {
+    try {
+      const { document, error } = await this.findOwnedContextWindow(contextWindowId, userId);
+      if (error) return error;
+
+      return {
+        success: true,
+        contextWindow: this.toContextWindow(document),
         message: 'Context window retrieved successfully'
       };
     } catch (error) {
@@ -93,20 +139,37 @@ class ContextWindowService {
   }
 
   /**
-   * Get all context windows for a user
+   * Get context windows for a user, most recently updated first
    */
-  async getUserContextWindows(userId: string): Promise<ContextWindowResponse> {
+  async getUserContextWindows(
+    userId: string,
+    options: ContextWindowListOptions = {}
+  ): Promise<ContextWindowResponse> {
     try {
-      const userSessionIds = this.userSessions.get(userId) || [];
-      const userContextWindows = userSessionIds
-        .map(id => this.contextWindows.get(id))
-        .filter((window): window is ContextWindow => window !== undefined)
-        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+      const page = Math.max(1, options.page || 1);
+      const limit = Math.min(100, Math.max(1, options.limit || 20));
+      const filter = { userId };
+
+      const [documents, total] = await Promise.all([
+        ContextWindowModel.find(filter)
+          .sort({ updatedAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+        ContextWindowModel.countDocuments(filter)
+      ]);
+
+      const userContextWindows = documents.map(document => this.toContextWindow(document));
 
       return {
         success: true,
         contextWindow: userContextWindows as any, // Type assertion for array
-        message: 'Found ' + userContextWindows.length + ' context windows'
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        },
+        message: 'Found ' + total + ' context windows'
       };
     } catch (error) {
       console.error('❌ Error getting user context windows:', error);
@@ -123,20 +186,38 @@ class ContextWindowService {
   async addTestCasesToContext(
     contextWindowId: string,
     testCases: TestCase[],
-    parentTestCaseId?: string
+    parentTestCaseId: string | undefined,
+    author: RevisionAuthor
   ): Promise<ContextWindowResponse> {
     try {
-      const contextWindow = this.contextWindows.get(contextWindowId);
-      
-      if (!contextWindow) {
+      const existing = await ContextWindowModel.findById(contextWindowId).select('testCases.id testCases.level testCases.parentId');
+
+      if (!existing) {
         return {
           success: false,
           error: 'Context window not found'
         };
       }
 
+      // Sub-tests sit one level below their parent
+      let level = 0;
+      if (parentTestCaseId) {
+        const parent = existing.testCases.find(tc => tc.id === parentTestCaseId);
+        if (!parent) {
+          return {
+            success: false,
+            error: 'Parent test case not found'
+          };
+        }
+
+        level = parent.level + 1;
+      }
+
+      // New test cases go after their existing siblings
+      const siblingCount = existing.testCases.filter(tc => this.isChildOf(tc, parentTestCaseId)).length;
+
       // Convert TestCase to TestCaseContext
-      const contextTestCases: TestCaseContext[] = testCases.map(testCase => ({
+      const contextTestCases: TestCaseContext[] = testCases.map((testCase, index) => ({
         id: uuidv4(),
         summary: testCase.summary,
         precondition: testCase.precondition,
@@ -144,18 +225,47 @@ class ContextWindowService {
         expectedResult: testCase.expectedResult,
         priority: testCase.priority,
         parentId: parentTestCaseId,
+        source: testCase.source,
+        gherkin: testCase.gherkin,
+        level,
+        order: siblingCount + index,
+        tags: [],
+        requirementIds: testCase.requirementIds || [],
+        ...(testCase.provenanceId ? { provenanceId: testCase.provenanceId } : {}),
+        ...(testCase.risk ? { risk: testCase.risk } : {}),
         createdAt: new Date(),
         updatedAt: new Date()
       }));
 
-      // Add test cases to context window
-      contextWindow.testCases.push(...contextTestCases);
+      // Append atomically so concurrent generations on one window don't overwrite each other
+      const document = await ContextWindowModel.findByIdAndUpdate(
+        contextWindowId,
+        {
+          $push: { testCases: { $each: contextTestCases } },
+          $max: { maxLevel: level },
+          $set: { currentLevel: level }
+        },
+        { new: true }
+      );
       
-      contextWindow.updatedAt = new Date();
+      if (!document) {
+        return {
+          success: false,
+          error: 'Context window not found'
+        };
+      }
+
+      await this.recordRevisions(
+        contextWindowId,
+        new Map(),
+        testCaseRevisionService.snapshotAll(contextTestCases),
+        'create',
+        author
+      );
 
       return {
         success: true,
-        contextWindow,
+        contextWindow: this.toContextWindow(document),
         testCases: contextTestCases,
         message: 'Added ' + contextTestCases.length + ' test cases to context window'
       };
@@ -174,19 +284,14 @@ class ContextWindowService {
    */
   async getTestCasesByParent(
     contextWindowId: string,
-    parentTestCaseId: string
+    parentTestCaseId: string,
+    userId: string
   ): Promise<ContextWindowResponse> {
     try {
-      const contextWindow = this.contextWindows.get(contextWindowId);
-      
-      if (!contextWindow) {
-        return {
-          success: false,
-          error: 'Context window not found'
-        };
-      }
+      const { document, error } = await this.findOwnedContextWindow(contextWindowId, userId);
+      if (error) return error;
 
-      const childTestCases = contextWindow.testCases.filter(tc => tc.parentId === parentTestCaseId);
+      const childTestCases = this.toContextWindow(document).testCases.filter(tc => tc.parentId === parentTestCaseId);
 
       return {
         success: true,
@@ -203,25 +308,710 @@ class ContextWindowService {
   }
 
 
+  /**
+   * Get the path from the root test case down to (and including) a test case
+   */
+  async getAncestorPath(contextWindowId: string, testCaseId: string, userId: string): Promise<ContextWindowResponse> {
+    try {
+      const { document, error } = await this.findOwnedContextWindow(contextWindowId, userId);
+      if (error) return error;
+
+      const path = this.buildAncestorPath(this.toContextWindow(document).testCases, testCaseId);
+      if (path.length === 0) {
+        return {
+          success: false,
+          error: 'Test case not found'
+        };
+      }
+
+      return {
+        success: true,
+        testCases: path,
+        message: 'Found ' + path.length + ' test cases in path'
+      };
+    } catch (error) {
+      console.error('❌ Error getting ancestor path:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get ancestor path'
+      };
+    }
+  }
+
+  /**
+   * Get a test case with all of its descendants, parents before children
+   */
+  async getSubtree(contextWindowId: string, testCaseId: string, userId: string): Promise<ContextWindowResponse> {
+    try {
+      const { document, error } = await this.findOwnedContextWindow(contextWindowId, userId);
+      if (error) return error;
+
+      const subtree = this.collectSubtree(this.toContextWindow(document).testCases, testCaseId);
+      if (subtree.length === 0) {
+        return {
+          success: false,
+          error: 'Test case not found'
+        };
+      }
+
+      return {
+        success: true,
+        testCases: subtree,
+        message: 'Found ' + subtree.length + ' test cases in subtree'
+      };
+    } catch (error) {
+      console.error('❌ Error getting subtree:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get subtree'
+      };
+    }
+  }
+
+  /**
+   * Move a test case (and its subtree) under a new parent, or to the root
+   * when newParentId is null. Levels of the moved subtree are recalculated.
+   */
+  async moveTestCase(
+    contextWindowId: string,
+    testCaseId: string,
+    newParentId: string | null,
+    userId: string,
+    author: RevisionAuthor = { type: 'user', userId }
+  ): Promise<ContextWindowResponse> {
+    try {
+      const { document, error } = await this.findOwnedContextWindow(contextWindowId, userId);
+      if (!document) return error;
+
+      const testCase = document.testCases.find(tc => tc.id === testCaseId);
+      if (!testCase) {
+        return {
+          success: false,
+          error: 'Test case not found'
+        };
+      }
+
+      let newLevel = 0;
+      if (newParentId) {
+        const newParent = document.testCases.find(tc => tc.id === newParentId);
+        if (!newParent) {
+          return {
+            success: false,
+            error: 'Parent test case not found'
+          };
+        }
+
+        // A test case cannot become a descendant of itself
+        const subtreeIds = this.collectSubtree(document.testCases, testCaseId).map(tc => tc.id);
+        if (subtreeIds.includes(newParentId)) {
+          return {
+            success: false,
+            error: 'Cannot move a test case under itself or one of its sub-tests'
+          };
+        }
+
+        newLevel = newParent.level + 1;
+      }
+
+      const before = testCaseRevisionService.snapshotAll(document.testCases);
+      const levelShift = newLevel - testCase.level;
+      const movedIds = new Set(this.collectSubtree(document.testCases, testCaseId).map(tc => tc.id));
+      const now = new Date();
+
+      document.testCases.forEach(tc => {
+        if (movedIds.has(tc.id)) {
+          tc.level += levelShift;
+          tc.updatedAt = now;
+        }
+      });
+
+      const oldParentId = testCase.parentId;
+      testCase.order = document.testCases.filter(tc => tc.id !== testCaseId && this.isChildOf(tc, newParentId || undefined)).length;
+      testCase.parentId = newParentId || undefined;
+
+      this.renumberSiblings(document.testCases, oldParentId);
+      this.syncLevels(document);
+      await document.save();
+      await this.recordRevisions(contextWindowId, before, testCaseRevisionService.snapshotAll(document.testCases), 'move', author);
+
+      const contextWindow = this.toContextWindow(document);
+
+      return {
+        success: true,
+        contextWindow,
+        testCases: contextWindow.testCases.filter(tc => movedIds.has(tc.id)),
+        message: 'Moved ' + movedIds.size + ' test cases'
+      };
+    } catch (error) {
+      console.error('❌ Error moving test case:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to move test case'
+      };
+    }
+  }
+
+  /**
+   * Update the editable fields of a single test case
+   */
+  async updateTestCase(
+    contextWindowId: string,
+    testCaseId: string,
+    updates: TestCaseUpdate,
+    userId: string,
+    author: RevisionAuthor = { type: 'user', userId }
+  ): Promise<ContextWindowResponse> {
+    try {
+      const { document, error } = await this.findOwnedContextWindow(contextWindowId, userId);
+      if (!document) return error;
+
+      const testCase = document.testCases.find(tc => tc.id === testCaseId);
+      if (!testCase) {
+        return {
+          success: false,
+          error: 'Test case not found'
+        };
+      }
+
+      const before = testCaseRevisionService.snapshotAll(document.testCases);
+      this.applyUpdate(testCase, updates);
+      await document.save();
+      await this.recordRevisions(contextWindowId, before, testCaseRevisionService.snapshotAll(document.testCases), 'update', author);
+
+      const updated = this.toContextWindow(document).testCases.find(tc => tc.id === testCaseId)!;
+
+      return {
+        success: true,
+        testCases: [updated],
+        message: 'Test case updated successfully'
+      };
+    } catch (error) {
+      console.error('❌ Error updating test case:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update test case'
+      };
+    }
+  }
+
+  /**
+   * Attach a test data table to a test case, replacing the previous one.
+   * Test data is not part of the revision history.
+   */
+  async setTestCaseTestData(
+    contextWindowId: string,
+    testCaseId: string,
+    testData: TestDataTable,
+    userId: string
+  ): Promise<ContextWindowResponse> {
+    try {
+      const { document, error } = await this.findOwnedContextWindow(contextWindowId, userId);
+      if (!document) return error;
+
+      const testCase = document.testCases.find(tc => tc.id === testCaseId);
+      if (!testCase) {
+        return {
+          success: false,
+          error: 'Test case not found'
+        };
+      }
+
+      testCase.testData = testData;
+      testCase.updatedAt = new Date();
+      document.markModified('testCases');
+      await document.save();
+
+      const updated = this.toContextWindow(document).testCases.find(tc => tc.id === testCaseId)!;
+
+      return {
+        success: true,
+        testCases: [updated],
+        message: 'Test data attached to test case'
+      };
+    } catch (error) {
+      console.error('❌ Error attaching test data:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to attach test data'
+      };
+    }
+  }
+
+  /**
+   * Apply the same priority and/or tag changes to several test cases
+   */
+  async bulkUpdateTestCases(
+    contextWindowId: string,
+    testCaseIds: string[],
+    updates: TestCaseBulkUpdate,
+    userId: string,
+    author: RevisionAuthor = { type: 'user', userId }
+  ): Promise<ContextWindowResponse> {
+    try {
+      const { document, error } = await this.findOwnedContextWindow(contextWindowId, userId);
+      if (!document) return error;
+
+      const ids = new Set(testCaseIds);
+      const targets = document.testCases.filter(tc => ids.has(tc.id));
+      const missing = testCaseIds.filter(id => !targets.some(tc => tc.id === id));
+
+      if (missing.length > 0) {
+        return {
+          success: false,
+          error: 'Test cases not found: ' + missing.join(', ')
+        };
+      }
+
+      const before = testCaseRevisionService.snapshotAll(document.testCases);
+      targets.forEach(testCase => {
+        const tags = new Set(updates.tags ?? testCase.tags ?? []);
+        updates.addTags?.forEach(tag => tags.add(tag));
+        updates.removeTags?.forEach(tag => tags.delete(tag));
+
+        this.applyUpdate(testCase, {
+          ...(updates.priority ? { priority: updates.priority } : {}),
+          tags: Array.from(tags)
+        });
+      });
+      await document.save();
+      await this.recordRevisions(contextWindowId, before, testCaseRevisionService.snapshotAll(document.testCases), 'update', author);
+
+      const contextWindow = this.toContextWindow(document);
+
+      return {
+        success: true,
+        testCases: contextWindow.testCases.filter(tc => ids.has(tc.id)),
+        message: 'Updated ' + targets.length + ' test cases'
+      };
+    } catch (error) {
+      console.error('❌ Error bulk updating test cases:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update test cases'
+      };
+    }
+  }
+
+  /**
+   * Save a new risk profile on a context window and re-prioritize all of its
+   * test cases with it. Each test case starts again from the model's priority.
+   */
+  async reprioritizeTestCases(
+    contextWindowId: string,
+    riskProfile: RiskProfile,
+    userId: string,
+    author: RevisionAuthor = { type: 'user', userId }
+  ): Promise<ContextWindowResponse> {
+    try {
+      const { document, error } = await this.findOwnedContextWindow(contextWindowId, userId);
+      if (!document) return error;
+
+      const before = testCaseRevisionService.snapshotAll(document.testCases);
+      let changed = 0;
+      document.testCases.forEach(testCase => {
+        const { priority, risk } = riskPrioritizationService.prioritize(testCase, riskProfile);
+        if (priority !== testCase.priority) {
+          testCase.priority = priority;
+          testCase.updatedAt = new Date();
+          changed++;
+        }
+        testCase.risk = risk;
+      });
+      document.riskProfile = riskProfile;
+      document.markModified('testCases');
+      await document.save();
+      await this.recordRevisions(contextWindowId, before, testCaseRevisionService.snapshotAll(document.testCases), 'update', author);
+
+      const contextWindow = this.toContextWindow(document);
+
+      return {
+        success: true,
+        contextWindow,
+        testCases: contextWindow.testCases,
+        message: `Re-prioritized ${document.testCases.length} test cases, ${changed} changed priority`
+      };
+    } catch (error) {
+      console.error('❌ Error re-prioritizing test cases:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to re-prioritize test cases'
+      };
+    }
+  }
+
+  /**
+   * Replace the text of a context window's test cases with their
+   * translation and record the window's new language. Ids, hierarchy and
+   * priorities stay as they are.
+   */
+  async applyTranslation(
+    contextWindowId: string,
+    translations: TestCaseTranslation[],
+    language: LanguageCode,
+    userId: string,
+    author: RevisionAuthor = { type: 'user', userId }
+  ): Promise<ContextWindowResponse> {
+    try {
+      const { document, error } = await this.findOwnedContextWindow(contextWindowId, userId);
+      if (!document) return error;
+
+      const byId = new Map(translations.map(translation => [translation.id, translation]));
+      const before = testCaseRevisionService.snapshotAll(document.testCases);
+      const now = new Date();
+      let translated = 0;
+      document.testCases.forEach(testCase => {
+        const translation = byId.get(testCase.id);
+        if (!translation) return;
+
+        testCase.summary = translation.summary;
+        testCase.precondition = translation.precondition;
+        testCase.steps = translation.steps;
+        testCase.expectedResult = translation.expectedResult;
+        if (testCase.gherkin && translation.gherkin) testCase.gherkin = translation.gherkin;
+        testCase.updatedAt = now;
+        translated++;
+      });
+      document.language = language;
+      document.markModified('testCases');
+      await document.save();
+      await this.recordRevisions(contextWindowId, before, testCaseRevisionService.snapshotAll(document.testCases), 'update', author);
+
+      const contextWindow = this.toContextWindow(document);
+
+      return {
+        success: true,
+        contextWindow,
+        testCases: contextWindow.testCases,
+        message: `Translated ${translated} test cases into ${LANGUAGES[language].name}`
+      };
+    } catch (error) {
+      console.error('❌ Error applying translation:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to apply translation'
+      };
+    }
+  }
+
+  /**
+   * Set the order of the children of a parent (or of the root test cases
+   * when parentId is null). orderedIds must list every child exactly once.
+   */
+  async reorderTestCases(
+    contextWindowId: string,
+    parentId: string | null,
+    orderedIds: string[],
+    userId: string,
+    author: RevisionAuthor = { type: 'user', userId }
+  ): Promise<ContextWindowResponse> {
+    try {
+      const { document, error } = await this.findOwnedContextWindow(contextWindowId, userId);
+      if (!document) return error;
+
+      const siblings = document.testCases.filter(tc => this.isChildOf(tc, parentId || undefined));
+      const siblingIds = new Set(siblings.map(tc => tc.id));
+
+      if (orderedIds.length !== siblings.length || new Set(orderedIds).size !== orderedIds.length || !orderedIds.every(id => siblingIds.has(id))) {
+        return {
+          success: false,
+          error: 'orderedIds must contain every child of the parent exactly once'
+        };
+      }
+
+      const before = testCaseRevisionService.snapshotAll(document.testCases);
+      const now = new Date();
+      siblings.forEach(testCase => {
+        const order = orderedIds.indexOf(testCase.id);
+        if (testCase.order !== order) {
+          testCase.order = order;
+          testCase.updatedAt = now;
+        }
+      });
+      await document.save();
+      await this.recordRevisions(contextWindowId, before, testCaseRevisionService.snapshotAll(document.testCases), 'reorder', author);
+
+      const reordered = this.toContextWindow(document).testCases
+        .filter(tc => siblingIds.has(tc.id))
+        .sort((a, b) => a.order - b.order);
+
+      return {
+        success: true,
+        testCases: reordered,
+        message: 'Reordered ' + reordered.length + ' test cases'
+      };
+    } catch (error) {
+      console.error('❌ Error reordering test cases:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to reorder test cases'
+      };
+    }
+  }
+
+  /**
+   * Delete a single test case. Its children are either promoted to the
+   * deleted test case's parent ('promote') or deleted with it ('cascade').
+   */
+  async deleteTestCase(
+    contextWindowId: string,
+    testCaseId: string,
+    userId: string,
+    children: 'promote' | 'cascade' = 'promote',
+    author: RevisionAuthor = { type: 'user', userId }
+  ): Promise<ContextWindowResponse> {
+    try {
+      const { document, error } = await this.findOwnedContextWindow(contextWindowId, userId);
+      if (!document) return error;
+
+      const testCase = document.testCases.find(tc => tc.id === testCaseId);
+      if (!testCase) {
+        return {
+          success: false,
+          error: 'Test case not found'
+        };
+      }
+
+      const before = testCaseRevisionService.snapshotAll(document.testCases);
+      const parentId = testCase.parentId;
+      const subtree = this.collectSubtree(document.testCases, testCaseId);
+      const removedIds = children === 'cascade'
+        ? new Set(subtree.map(tc => tc.id))
+        : new Set([testCaseId]);
+
+      if (children === 'promote') {
+        const now = new Date();
+        const childCount = subtree.filter(tc => tc.parentId === testCaseId).length;
+
+        // Direct children take the deleted test case's place among its siblings
+        document.testCases.forEach(tc => {
+          if (tc.id !== testCaseId && this.isChildOf(tc, parentId) && tc.order > testCase.order) {
+            tc.order += childCount;
+          }
+        });
+
+        subtree.slice(1).forEach(descendant => {
+          if (descendant.parentId === testCaseId) {
+            descendant.parentId = parentId;
+            descendant.order = testCase.order + descendant.order;
+          }
+          descendant.level -= 1;
+          descendant.updatedAt = now;
+        });
+      }
+
+      document.testCases = document.testCases.filter(tc => !removedIds.has(tc.id));
+      this.renumberSiblings(document.testCases, parentId);
+      this.syncLevels(document);
+      await document.save();
+      await this.recordRevisions(contextWindowId, before, testCaseRevisionService.snapshotAll(document.testCases), 'move', author);
+
+      return {
+        success: true,
+        contextWindow: this.toContextWindow(document),
+        message: 'Deleted ' + removedIds.size + ' test cases'
+      };
+    } catch (error) {
+      console.error('❌ Error deleting test case:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to delete test case'
+      };
+    }
+  }
+
+  /**
+   * List the revision history of a test case, newest first
+   */
+  async getTestCaseRevisions(contextWindowId: string, testCaseId: string, userId: string): Promise<ContextWindowResponse> {
+    try {
+      const { error } = await this.findOwnedContextWindow(contextWindowId, userId);
+      if (error) return error;
+
+      const revisions = await testCaseRevisionService.listRevisions(contextWindowId, testCaseId);
+
+      if (revisions.length === 0) {
+        return {
+          success: false,
+          error: 'Test case not found'
+        };
+      }
+
+      return {
+        success: true,
+        revisions,
+        message: 'Found ' + revisions.length + ' revisions'
+      };
+    } catch (error) {
+      console.error('❌ Error getting test case revisions:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get test case revisions'
+      };
+    }
+  }
+
+  /**
+   * Field-level diff between two revisions of a test case
+   */
+  async compareTestCaseRevisions(
+    contextWindowId: string,
+    testCaseId: string,
+    fromRevision: number,
+    toRevision: number,
+    userId: string
+  ): Promise<ContextWindowResponse> {
+    try {
+      const { error } = await this.findOwnedContextWindow(contextWindowId, userId);
+      if (error) return error;
+
+      const [from, to] = await Promise.all([
+        testCaseRevisionService.getRevision(contextWindowId, testCaseId, fromRevision),
+        testCaseRevisionService.getRevision(contextWindowId, testCaseId, toRevision)
+      ]);
+
+      if (!from || !to) {
+        return {
+          success: false,
+          error: 'Revision not found'
+        };
+      }
+
+      return {
+        success: true,
+        revisions: [from, to],
+        changes: testCaseRevisionService.diff(from.snapshot, to.snapshot),
+        message: 'Compared revision ' + fromRevision + ' with revision ' + toRevision
+      };
+    } catch (error) {
+      console.error('❌ Error comparing test case revisions:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to compare test case revisions'
+      };
+    }
+  }
+
+  /**
+   * Restore the content of a test case from an earlier revision. Its
+   * position in the tree is left unchanged; use moveTestCase for that.
+   */
+  async restoreTestCaseRevision(
+    contextWindowId: string,
+    testCaseId: string,
+    revision: number,
+    userId: string
+  ): Promise<ContextWindowResponse> {
+    try {
+      const { document, error } = await this.findOwnedContextWindow(contextWindowId, userId);
+      if (!document) return error;
+
+      const testCase = document.testCases.find(tc => tc.id === testCaseId);
+      if (!testCase) {
+        return {
+          success: false,
+          error: 'Test case not found'
+        };
+      }
+
+      const target = await testCaseRevisionService.getRevision(contextWindowId, testCaseId, revision);
+      if (!target) {
+        return {
+          success: false,
+          error: 'Revision not found'
+        };
+      }
+
+      const before = testCaseRevisionService.snapshotAll(document.testCases);
+      this.applyUpdate(testCase, {
+        summary: target.snapshot.summary,
+        precondition: target.snapshot.precondition,
+        steps: target.snapshot.steps,
+        expectedResult: target.snapshot.expectedResult,
+        priority: target.snapshot.priority,
+        tags: target.snapshot.tags,
+        requirementIds: target.snapshot.requirementIds || []
+      });
+      await document.save();
+      await this.recordRevisions(
+        contextWindowId,
+        before,
+        testCaseRevisionService.snapshotAll(document.testCases),
+        'restore',
+        { type: 'user', userId }
+      );
+
+      const restored = this.toContextWindow(document).testCases.find(tc => tc.id === testCaseId)!;
+
+      return {
+        success: true,
+        testCases: [restored],
+        message: 'Restored test case to revision ' + revision
+      };
+    } catch (error) {
+      console.error('❌ Error restoring test case revision:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to restore test case revision'
+      };
+    }
+  }
+
+  /**
+   * Get navigation state, focused on a test case when one is given
+   */
+  async getNavigation(contextWindowId: string, focusTestCaseId?: string): Promise<ContextNavigation> {
+    const document = await ContextWindowModel.findById(contextWindowId);
+
+    if (!document) {
+      throw new Error('Context window not found');
+    }
+
+    const contextWindow = this.toContextWindow(document);
+    const path = focusTestCaseId ? this.buildAncestorPath(contextWindow.testCases, focusTestCaseId) : [];
+    const focused = path[path.length - 1];
+    const currentLevel = focused ? focused.level : contextWindow.currentLevel;
+
+    return {
+      currentLevel,
+      maxLevel: contextWindow.maxLevel,
+      canGoBack: currentLevel > 0,
+      canGoForward: currentLevel < contextWindow.maxLevel,
+      breadcrumb: path.map(tc => ({
+        level: tc.level,
+        testCaseId: tc.id,
+        summary: tc.summary
+      }))
+    };
+  }
+
   /**
    * Get context window statistics
    */
   async getContextWindowStats(contextWindowId: string): Promise<ContextWindowStats> {
-    const contextWindow = this.contextWindows.get(contextWindowId);
+    const document = await ContextWindowModel.findById(contextWindowId).select('testCases.priority testCases.level');
     
-    if (!contextWindow) {
+    if (!document) {
       throw new Error('Context window not found');
     }
 
     const testCasesByPriority: Record<string, number> = {};
+    const testCasesByLevel: Record<number, number> = {};
 
-    contextWindow.testCases.forEach(tc => {
+    document.testCases.forEach(tc => {
       testCasesByPriority[tc.priority] = (testCasesByPriority[tc.priority] || 0) + 1;
+      testCasesByLevel[tc.level] = (testCasesByLevel[tc.level] || 0) + 1;
     });
 
+    const levelsCount = Object.keys(testCasesByLevel).length;
+
     return {
-      totalTestCases: contextWindow.testCases.length,
-      testCasesByPriority
+      totalTestCases: document.testCases.length,
+      levelsCount,
+      testCasesByLevel,
+      testCasesByPriority,
+      averageTestCasesPerLevel: levelsCount > 0
+        ? Math.round((document.testCases.length / levelsCount) * 100) / 100
+        : 0
     };
   }
 
@@ -230,28 +1020,25 @@ class ContextWindowService {
    */
   async deleteContextWindow(contextWindowId: string, userId: string): Promise<ContextWindowResponse> {
     try {
-      const contextWindow = this.contextWindows.get(contextWindowId);
+      const document = await ContextWindowModel.findById(contextWindowId).select('userId');
       
-      if (!contextWindow) {
+      if (!document) {
         return {
           success: false,
           error: 'Context window not found'
         };
       }
 
-      if (contextWindow.userId !== userId) {
+      if (document.userId.toString() !== userId.toString()) {
         return {
           success: false,
           error: 'Unauthorized to delete this context window'
         };
       }
 
-      this.contextWindows.delete(contextWindowId);
-      
-      // Remove from user sessions
-      const userSessions = this.userSessions.get(userId) || [];
-      const updatedSessions = userSessions.filter(id => id !== contextWindowId);
-      this.userSessions.set(userId, updatedSessions);
+      await ContextWindowModel.deleteOne({ _id: contextWindowId });
+      await testCaseRevisionService.deleteForContextWindows([contextWindowId]);
+      await requirementService.deleteForContextWindows([contextWindowId]);
 
       return {
         success: true,
@@ -267,23 +1054,251 @@ class ContextWindowService {
   }
 
   /**
-   * Clean up old context windows (older than 24 hours)
+   * Delete context windows not updated within the retention period
+   * (CONTEXT_WINDOW_RETENTION_DAYS, 0 keeps them forever)
+   */
+  async cleanupOldContextWindows(): Promise<number> {
+    if (this.retentionDays <= 0) {
+      return 0;
+    }
+
+    const cutoff = new Date(Date.now() - this.retentionDays * 24 * 60 * 60 * 1000);
+    const expired = await ContextWindowModel.find({ updatedAt: { $lt: cutoff } }).select('_id');
+    const expiredIds = expired.map(document => document._id);
+
+    const result = await ContextWindowModel.deleteMany({ _id: { $in: expiredIds } });
+    await testCaseRevisionService.deleteForContextWindows(expiredIds);
+    await requirementService.deleteForContextWindows(expiredIds);
+
+    if (result.deletedCount > 0) {
+      console.log(`🧹 Removed ${result.deletedCount} context windows older than ${this.retentionDays} days`);
+    }
+
+    return result.deletedCount;
+  }
+
+  /**
+   * Schedule the retention cleanup (CONTEXT_WINDOW_CLEANUP_CRON, daily by default)
    */
-  cleanupOldContextWindows(): void {
-    const now = new Date();
-    const twentyFourHoursAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-
-    for (const [id, contextWindow] of this.contextWindows.entries()) {
-      if (contextWindow.createdAt < twentyFourHoursAgo) {
-        this.contextWindows.delete(id);
-        
-        // Remove from user sessions
-        const userSessions = this.userSessions.get(contextWindow.userId) || [];
-        const updatedSessions = userSessions.filter(sessionId => sessionId !== id);
-        this.userSessions.set(contextWindow.userId, updatedSessions);
+  startCleanupJob(): void {
+    const cronExpression = getEnvVar('CONTEXT_WINDOW_CLEANUP_CRON', '0 3 * * *');
+
+    console.log(`⏰ Starting context window cleanup cron job: ${cronExpression}`);
+
+    cron.schedule(cronExpression, async () => {
+      try {
+        await this.cleanupOldContextWindows();
+      } catch (error) {
+        console.error('❌ Context window cleanup failed:', error);
       }
+    });
+  }
+
+  private async findOwnedContextWindow(
+    contextWindowId: string,
+    userId: string
+  ): Promise<{ document: HydratedDocument<IContextWindow>; error?: never } | { document?: never; error: ContextWindowResponse }> {
+    const document = await ContextWindowModel.findById(contextWindowId);
+
+    if (!document) {
+      return { error: { success: false, error: 'Context window not found' } };
+    }
+
+    if (document.userId.toString() !== userId.toString()) {
+      return { error: { success: false, error: 'Unauthorized to access this context window' } };
     }
+
+    return { document };
+  }
+
+  /**
+   * Record revisions for the test cases that changed. History is written
+   * after the change is saved, so a failure here is logged, not returned.
+   */
+  private async recordRevisions(
+    contextWindowId: string,
+    before: Map<string, TestCaseSnapshot>,
+    after: Map<string, TestCaseSnapshot>,
+    action: RevisionAction,
+    author: RevisionAuthor
+  ): Promise<void> {
+    try {
+      await testCaseRevisionService.recordChanges(contextWindowId, before, after, action, author);
+    } catch (error) {
+      console.error('❌ Error recording test case revisions:', error);
+    }
+  }
+
+  private applyUpdate(testCase: ITestCaseContext, updates: TestCaseUpdate): void {
+    // Structured Gherkin steps no longer match once the text fields are edited by hand
+    const contentChanged = (['summary', 'precondition', 'steps', 'expectedResult'] as const)
+      .some(field => updates[field] !== undefined && updates[field] !== testCase[field]);
+    if (testCase.gherkin && contentChanged) {
+      testCase.gherkin = undefined;
+    }
+
+    if (updates.summary !== undefined) testCase.summary = updates.summary;
+    if (updates.precondition !== undefined) testCase.precondition = updates.precondition;
+    if (updates.steps !== undefined) testCase.steps = updates.steps;
+    if (updates.expectedResult !== undefined) testCase.expectedResult = updates.expectedResult;
+    // A priority set by hand is no longer explained by the risk rationale
+    if (updates.priority !== undefined && updates.priority !== testCase.priority) testCase.risk = undefined;
+    if (updates.priority !== undefined) testCase.priority = updates.priority;
+    if (updates.tags !== undefined) testCase.tags = updates.tags;
+    if (updates.requirementIds !== undefined) testCase.requirementIds = updates.requirementIds;
+    testCase.updatedAt = new Date();
+  }
+
+  private isChildOf(testCase: { parentId?: string | undefined }, parentId: string | undefined): boolean {
+    return (testCase.parentId || undefined) === (parentId || undefined);
+  }
+
+  /**
+   * Close gaps in the order of a parent's children after one was moved away or deleted
+   */
+  private renumberSiblings(testCases: ITestCaseContext[], parentId: string | undefined): void {
+    testCases
+      .filter(tc => this.isChildOf(tc, parentId))
+      .sort((a, b) => a.order - b.order)
+      .forEach((tc, index) => {
+        tc.order = index;
+      });
+  }
+
+  private syncLevels(document: IContextWindow): void {
+    document.maxLevel = document.testCases.reduce((max, tc) => Math.max(max, tc.level), 0);
+    document.currentLevel = Math.min(document.currentLevel, document.maxLevel);
+  }
+
+  private buildAncestorPath(testCases: TestCaseContext[], testCaseId: string): TestCaseContext[] {
+    const byId = new Map(testCases.map(tc => [tc.id, tc]));
+    const path: TestCaseContext[] = [];
+    let current = byId.get(testCaseId);
+
+    // Guard against corrupt parent links forming a cycle
+    while (current && path.length <= testCases.length) {
+      path.unshift(current);
+      current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+
+    return path;
+  }
+
+  private collectSubtree<T extends { id: string; parentId?: string | undefined }>(testCases: T[], testCaseId: string): T[] {
+    const root = testCases.find(tc => tc.id === testCaseId);
+    if (!root) return [];
+
+    const subtree: T[] = [root];
+    const visited = new Set([root.id]);
+
+    for (let i = 0; i < subtree.length; i++) {
+      const parentId = subtree[i]!.id;
+      testCases.forEach(tc => {
+        if (tc.parentId === parentId && !visited.has(tc.id)) {
+          visited.add(tc.id);
+          subtree.push(tc);
+        }
+      });
+    }
+
+    return subtree;
+  }
+
+  private toContextWindow(document: IContextWindow): ContextWindow {
+    const contextWindow: ContextWindow = {
+      id: document._id,
+      userId: document.userId.toString(),
+      sessionId: document.sessionId,
+      name: document.name,
+      rootPrompt: document.rootPrompt,
+      fileIds: [...document.fileIds],
+      testCases: document.testCases.map(testCase => ({
+        id: testCase.id,
+        summary: testCase.summary,
+        precondition: testCase.precondition,
+        steps: testCase.steps,
+        expectedResult: testCase.expectedResult,
+        priority: testCase.priority,
+        parentId: testCase.parentId,
+        source: testCase.source
+          ? { chunkId: testCase.source.chunkId, chunkTitle: testCase.source.chunkTitle, fileId: testCase.source.fileId }
+          : undefined,
+        gherkin: testCase.gherkin ? this.toGherkinScenario(testCase.gherkin) : undefined,
+        level: testCase.level || 0,
+        order: testCase.order || 0,
+        tags: [...(testCase.tags || [])],
+        requirementIds: [...(testCase.requirementIds || [])],
+        testData: testCase.testData ? this.toTestDataTable(testCase.testData) : undefined,
+        provenanceId: testCase.provenanceId,
+        quality: qualityLinterService.lint(testCase),
+        risk: testCase.risk ? this.toTestCaseRisk(testCase.risk) : undefined,
+        createdAt: testCase.createdAt,
+        updatedAt: testCase.updatedAt
+      })),
+      riskProfile: document.riskProfile ? this.toRiskProfile(document.riskProfile) : undefined,
+      language: document.language,
+      currentLevel: document.currentLevel || 0,
+      maxLevel: document.maxLevel || 0,
+      createdAt: document.createdAt,
+      updatedAt: document.updatedAt
+    };
+
+    if (document.description) {
+      contextWindow.description = document.description;
+    }
+
+    return contextWindow;
+  }
+
+  private toRiskProfile(riskProfile: RiskProfile): RiskProfile {
+    return {
+      areas: riskProfile.areas.map(area => ({
+        name: area.name,
+        keywords: [...(area.keywords || [])],
+        businessImpact: area.businessImpact,
+        usageFrequency: area.usageFrequency,
+        changeFrequency: area.changeFrequency,
+        defectHistory: area.defectHistory
+      })),
+      mode: riskProfile.mode
+    };
+  }
+
+  private toTestCaseRisk(risk: TestCaseRisk): TestCaseRisk {
+    return {
+      area: risk.area,
+      score: risk.score,
+      riskPriority: risk.riskPriority,
+      modelPriority: risk.modelPriority,
+      mode: risk.mode,
+      rationale: risk.rationale
+    };
+  }
+
+  private toGherkinScenario(gherkin: GherkinScenario): GherkinScenario {
+    return {
+      feature: gherkin.feature,
+      name: gherkin.name,
+      type: gherkin.type,
+      tags: [...(gherkin.tags || [])],
+      steps: gherkin.steps.map(step => ({ keyword: step.keyword, text: step.text })),
+      examples: gherkin.examples
+        ? { headers: [...gherkin.examples.headers], rows: gherkin.examples.rows.map(row => [...row]) }
+        : undefined
+    };
+  }
+
+  private toTestDataTable(testData: TestDataTable): TestDataTable {
+    return {
+      fields: [...testData.fields],
+      rows: testData.rows.map(row => ({
+        technique: row.technique,
+        valid: row.valid,
+        description: row.description,
+        values: { ...(row.values || {}) }
+      }))
+    };
   }
 }
 
-export default new ContextWindowService();
\ No newline at end of file
+export default new ContextWindowService();
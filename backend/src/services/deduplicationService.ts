@@ -0,0 +1,90 @@
+import { getEnvVar } from "../config/envValidator";
+import { jaccardSimilarity } from "../utils/textSimilarity";
+
+export type DedupeMode = "merge" | "flag";
+
+export interface DuplicateMatch {
+  summary: string;
+  similarity: number;
+}
+
+export interface DuplicatePartition<T> {
+  unique: T[];
+  duplicates: Array<{ testCase: T; duplicateOf: DuplicateMatch }>;
+}
+
+const MAX_DIGEST_SUMMARY_LENGTH = 80;
+
+class DeduplicationService {
+  private threshold: number;
+  private maxDigestEntries: number;
+
+  constructor() {
+    this.threshold = parseFloat(getEnvVar("DUPLICATE_SIMILARITY_THRESHOLD", "0.8"));
+    this.maxDigestEntries = parseInt(getEnvVar("SUMMARY_DIGEST_MAX_ENTRIES", "30"));
+  }
+
+  /**
+   * Token-based similarity between two summaries (0 to 1)
+   */
+  similarity(a: string, b: string): number {
+    return jaccardSimilarity(a, b);
+  }
+
+  /**
+   * Most similar existing summary at or above the duplicate threshold
+   */
+  findDuplicate(summary: string, existingSummaries: string[]): DuplicateMatch | null {
+    let best: DuplicateMatch | null = null;
+
+    for (const existing of existingSummaries) {
+      const similarity = this.similarity(existing, summary);
+      if (similarity >= this.threshold && (!best || similarity > best.similarity)) {
+        best = { summary: existing, similarity: Math.round(similarity * 100) / 100 };
+      }
+    }
+
+    return best;
+  }
+
+  isDuplicate(summary: string, existingSummaries: string[]): boolean {
+    return this.findDuplicate(summary, existingSummaries) !== null;
+  }
+
+  /**
+   * Split new test cases into unique ones and duplicates of either an
+   * existing summary or an earlier test case in the same batch
+   */
+  partition<T extends { summary: string }>(testCases: T[], existingSummaries: string[]): DuplicatePartition<T> {
+    const seen = [...existingSummaries];
+    const result: DuplicatePartition<T> = { unique: [], duplicates: [] };
+
+    for (const testCase of testCases) {
+      const duplicateOf = this.findDuplicate(testCase.summary, seen);
+
+      if (duplicateOf) {
+        result.duplicates.push({ testCase, duplicateOf });
+      } else {
+        result.unique.push(testCase);
+        seen.push(testCase.summary);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Compact list of already generated summaries for the prompt, newest
+   * last and capped so long sessions don't blow up the prompt
+   */
+  buildDigest(summaries: string[]): string {
+    const recent = Array.from(new Set(summaries.map(summary => summary.trim()).filter(Boolean)))
+      .slice(-this.maxDigestEntries);
+
+    return recent
+      .map(summary => `- ${summary.length > MAX_DIGEST_SUMMARY_LENGTH ? summary.substring(0, MAX_DIGEST_SUMMARY_LENGTH) + "..." : summary}`)
+      .join("\n");
+  }
+}
+
+export default new DeduplicationService();
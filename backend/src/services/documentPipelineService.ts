@@ -0,0 +1,212 @@
+import { getEnvVar } from "../config/envValidator";
+import { DocumentChunk, DocumentSection, TestCaseSource } from "../types/document";
+import deduplicationService from "./deduplicationService";
+
+interface RankableTestCase {
+  summary: string;
+  priority: "P1" | "P2" | "P3";
+  source?: TestCaseSource | undefined;
+}
+
+// Markers written by extractTextFromFile and processFileContent
+const FILE_MARKER = /^--- File: (.+) ---$/;
+const PAGE_MARKER = /^=== Page (\d+) ===$/;
+const SHEET_MARKER = /^=== Sheet: (.+) ===$/;
+
+// Headings found in extracted specs: markdown, numbered ("3.2 Login") and short ALL CAPS lines
+const MARKDOWN_HEADING = /^#{1,6}\s+(.+)$/;
+const NUMBERED_HEADING = /^(\d+(\.\d+)*\.?)\s+[A-Z][^.!?]{2,80}$/;
+const CAPS_HEADING = /^[A-Z][A-Z0-9 &\-/]{3,60}$/;
+
+const PRIORITY_ORDER = { P1: 1, P2: 2, P3: 3 };
+
+class DocumentPipelineService {
+  private maxChunkTokens: number;
+
+  constructor() {
+    this.maxChunkTokens = parseInt(getEnvVar("DOCUMENT_CHUNK_TOKENS", "1500"));
+  }
+
+  /**
+   * Rough token estimate (~4 characters per token)
+   */
+  estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+
+  /**
+   * Whether a document is too large to send in a single generation call
+   */
+  needsChunking(text: string): boolean {
+    return this.estimateTokens(text) > this.maxChunkTokens;
+  }
+
+  /**
+   * Split extracted document text into chunks that respect file, page,
+   * sheet and heading boundaries and stay within the chunk token limit
+   */
+  splitDocument(text: string): DocumentChunk[] {
+    const chunks: DocumentChunk[] = [];
+
+    for (const file of this.splitByFile(text)) {
+      const sections = this.splitIntoSections(file.content);
+      let current: DocumentSection | null = null;
+
+      const flush = () => {
+        if (current && current.content.trim().length > 0) {
+          const index = chunks.length;
+          chunks.push({
+            id: `chunk-${index + 1}`,
+            fileId: file.fileId,
+            title: current.title,
+            index,
+            content: current.content.trim(),
+            tokenEstimate: this.estimateTokens(current.content),
+          });
+        }
+        current = null;
+      };
+
+      for (const section of sections) {
+        for (const piece of this.splitOversizedSection(section)) {
+          const combined: string = current ? `${current.content}\n\n${piece.content}` : piece.content;
+
+          if (current && this.estimateTokens(combined) <= this.maxChunkTokens) {
+            current.content = combined;
+          } else {
+            flush();
+            current = { title: piece.title, content: piece.content };
+          }
+        }
+      }
+
+      flush();
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Merge test cases generated per chunk: drop near-duplicate summaries
+   * (keeping the higher priority one), then rank by priority and document
+   * order and cut the result to the requested count
+   */
+  mergeTestCases<T extends RankableTestCase>(batches: T[][], count: number): T[] {
+    const merged: T[] = [];
+
+    for (const batch of batches) {
+      for (const testCase of batch) {
+        const match = deduplicationService.findDuplicate(testCase.summary, merged.map(existing => existing.summary));
+        const duplicateIndex = match ? merged.findIndex(existing => existing.summary === match.summary) : -1;
+
+        if (duplicateIndex === -1) {
+          merged.push(testCase);
+        } else if (PRIORITY_ORDER[testCase.priority] < PRIORITY_ORDER[merged[duplicateIndex]!.priority]) {
+          merged[duplicateIndex] = testCase;
+        }
+      }
+    }
+
+    // Array.prototype.sort is stable, so document order is kept within a priority
+    return merged
+      .sort((a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority])
+      .slice(0, count);
+  }
+
+  private splitByFile(text: string): Array<{ fileId?: string | undefined; content: string }> {
+    const files: Array<{ fileId?: string | undefined; content: string }> = [];
+    let current: { fileId?: string | undefined; content: string } = { content: "" };
+
+    for (const line of text.split("\n")) {
+      const fileMatch = line.trim().match(FILE_MARKER);
+      if (fileMatch) {
+        if (current.content.trim()) files.push(current);
+        current = { fileId: fileMatch[1], content: "" };
+        continue;
+      }
+      current.content += `${line}\n`;
+    }
+
+    if (current.content.trim()) files.push(current);
+    return files;
+  }
+
+  private splitIntoSections(text: string): DocumentSection[] {
+    const sections: DocumentSection[] = [];
+    let current: DocumentSection = { title: "Introduction", content: "" };
+
+    for (const line of text.split("\n")) {
+      const trimmed = line.trim();
+      const title = this.matchSectionTitle(trimmed);
+
+      if (title) {
+        if (current.content.trim()) sections.push(current);
+        current = { title, content: "" };
+        // Keep headings in the text, page and sheet markers are only structure
+        if (!PAGE_MARKER.test(trimmed) && !SHEET_MARKER.test(trimmed)) {
+          current.content = `${line}\n`;
+        }
+        continue;
+      }
+
+      current.content += `${line}\n`;
+    }
+
+    if (current.content.trim()) sections.push(current);
+    return sections;
+  }
+
+  private matchSectionTitle(line: string): string | null {
+    const page = line.match(PAGE_MARKER);
+    if (page) return `Page ${page[1]}`;
+
+    const sheet = line.match(SHEET_MARKER);
+    if (sheet) return `Sheet ${sheet[1]}`;
+
+    const markdown = line.match(MARKDOWN_HEADING);
+    if (markdown) return markdown[1]!.trim();
+
+    if (NUMBERED_HEADING.test(line) || CAPS_HEADING.test(line)) return line;
+
+    return null;
+  }
+
+  /**
+   * Break a section that alone exceeds the chunk limit at paragraph
+   * boundaries, hard-cutting paragraphs that are still too long
+   */
+  private splitOversizedSection(section: DocumentSection): DocumentSection[] {
+    if (this.estimateTokens(section.content) <= this.maxChunkTokens) {
+      return [section];
+    }
+
+    const maxChars = this.maxChunkTokens * 4;
+    const pieces: DocumentSection[] = [];
+    let buffer = "";
+
+    const pushPiece = (content: string) => {
+      pieces.push({ title: `${section.title} (part ${pieces.length + 1})`, content });
+    };
+
+    for (const paragraph of section.content.split(/\n\s*\n/)) {
+      if (buffer && buffer.length + paragraph.length + 2 > maxChars) {
+        pushPiece(buffer);
+        buffer = "";
+      }
+
+      if (paragraph.length > maxChars) {
+        for (let i = 0; i < paragraph.length; i += maxChars) {
+          pushPiece(paragraph.substring(i, i + maxChars));
+        }
+        continue;
+      }
+
+      buffer = buffer ? `${buffer}\n\n${paragraph}` : paragraph;
+    }
+
+    if (buffer.trim()) pushPiece(buffer);
+    return pieces;
+  }
+}
+
+export default new DocumentPipelineService();
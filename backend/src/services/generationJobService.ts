@@ -0,0 +1,481 @@
+import { v4 as uuidv4 } from 'uuid';
+import GenerationJobModel, { IGenerationJob } from '../models/generationJob';
+import { getEnvVar } from '../config/envValidator';
+import openaiService from './openaiService';
+import openaiTokenService from './openaiTokenService';
+import deduplicationService from './deduplicationService';
+import provenanceService, { ProvenanceRecording } from './provenanceService';
+import {
+  GenerationJob,
+  GenerationJobListOptions,
+  GenerationJobRequest,
+  GenerationJobStats,
+  GenerationJobStatus,
+  GenerationJobTestCase
+} from '../types/generationJob';
+import { LLMUsage } from '../types/llm';
+
+interface JobOwner {
+  userId?: string | undefined;
+  userEmail?: string | undefined;
+}
+
+const FINISHED_STATUSES: GenerationJobStatus[] = ['completed', 'failed', 'cancelled'];
+
+// A job interrupted by this many restarts is failed instead of resumed again
+const MAX_ATTEMPTS = 3;
+// A running job whose owner missed this many heartbeats is considered abandoned
+const MISSED_HEARTBEATS = 4;
+
+class GenerationJobService {
+  private retentionDays: number;
+  private heartbeatMs: number;
+  // Identifies this process as the owner of the jobs it runs
+  readonly instanceId = uuidv4();
+  // Abort controllers of the jobs running in this process, keyed by job ID
+  private runningJobs = new Map<string, AbortController>();
+
+  constructor() {
+    this.retentionDays = parseInt(getEnvVar('GENERATION_JOB_RETENTION_DAYS', '7'));
+    this.heartbeatMs = parseInt(getEnvVar('GENERATION_JOB_HEARTBEAT_MS', '15000'));
+  }
+
+  /**
+   * Queue a generation job and start it in the background
+   */
+  async createJob(request: GenerationJobRequest, owner: JobOwner = {}): Promise<GenerationJob> {
+    const document = await GenerationJobModel.create({
+      _id: uuidv4(),
+      ...(owner.userId ? { userId: owner.userId, userEmail: owner.userEmail } : {}),
+      status: 'queued',
+      request
+    });
+
+    console.log(`📋 Generation job ${document._id} queued (${request.count} test cases)`);
+    this.start(document._id);
+
+    return this.toGenerationJob(document);
+  }
+
+  async getJob(jobId: string): Promise<GenerationJob | null> {
+    const document = await GenerationJobModel.findById(jobId).select('-request.fileContent -request.existingSummaries');
+    return document ? this.toGenerationJob(document) : null;
+  }
+
+  /**
+   * Test cases generated so far, starting after the first `after` of them
+   */
+  async getResults(jobId: string, after: number = 0): Promise<{ job: GenerationJob; testCases: GenerationJobTestCase[] } | null> {
+    const document = await GenerationJobModel.findById(jobId).select('-request.fileContent -request.existingSummaries');
+    if (!document) return null;
+
+    return {
+      job: this.toGenerationJob(document),
+      testCases: document.testCases.slice(after)
+    };
+  }
+
+  async listJobs(options: GenerationJobListOptions = {}): Promise<{
+    jobs: GenerationJob[];
+    total: number;
+    page: number;
+    totalPages: number;
+  }> {
+    const page = Math.max(1, options.page || 1);
+    const limit = Math.min(100, Math.max(1, options.limit || 20));
+    const query: Record<string, unknown> = {};
+
+    if (options.userId) query.userId = options.userId;
+    if (options.status) query.status = options.status;
+
+    const [documents, total] = await Promise.all([
+      GenerationJobModel.find(query)
+        .select('-request.fileContent -request.existingSummaries')
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      GenerationJobModel.countDocuments(query)
+    ]);
+
+    return {
+      jobs: documents.map(document => this.toGenerationJob(document)),
+      total,
+      page,
+      totalPages: Math.ceil(total / limit)
+    };
+  }
+
+  /**
+   * Cancel a job. Queued jobs are cancelled right away; running jobs have
+   * their model request aborted and are marked cancelled once it has stopped.
+   */
+  async cancelJob(jobId: string): Promise<GenerationJob | null> {
+    const queued = await GenerationJobModel.findOneAndUpdate(
+      { _id: jobId, status: 'queued' },
+      { $set: { cancelRequested: true, ...this.finishedFields('cancelled') } },
+      { new: true }
+    );
+
+    if (!queued) {
+      await GenerationJobModel.updateOne({ _id: jobId, status: 'running' }, { $set: { cancelRequested: true } });
+      this.runningJobs.get(jobId)?.abort();
+    }
+
+    console.log(`🛑 Cancellation requested for generation job ${jobId}`);
+    return this.getJob(jobId);
+  }
+
+  /**
+   * Job counts per status and tokens spent, for the admin dashboard
+   */
+  async getStats(): Promise<GenerationJobStats> {
+    const result: Array<{ _id: GenerationJobStatus; count: number; totalTokens: number }> = await GenerationJobModel.aggregate([
+      {
+        $group: {
+          _id: '$status',
+          count: { $sum: 1 },
+          totalTokens: { $sum: { $ifNull: ['$usage.total_tokens', 0] } }
+        }
+      }
+    ]);
+
+    const byStatus: Record<GenerationJobStatus, number> = { queued: 0, running: 0, completed: 0, failed: 0, cancelled: 0 };
+    let totalTokens = 0;
+    for (const group of result) {
+      byStatus[group._id] = group.count;
+      totalTokens += group.totalTokens;
+    }
+
+    return {
+      total: Object.values(byStatus).reduce((sum, count) => sum + count, 0),
+      byStatus,
+      active: byStatus.queued + byStatus.running,
+      totalTokens
+    };
+  }
+
+  /**
+   * Restart jobs whose server stopped while they were queued or running.
+   * Only jobs without a recent heartbeat are taken over, so jobs that other
+   * live instances are working on are left alone. Resumed jobs continue
+   * after the test cases they had already produced.
+   */
+  async resumeInterruptedJobs(): Promise<number> {
+    const abandoned = this.abandonedFilter();
+
+    // Cancelled while the server was down, or interrupted too often to try again
+    await GenerationJobModel.updateMany(
+      { ...abandoned, cancelRequested: true },
+      { $set: this.finishedFields('cancelled') }
+    );
+    await GenerationJobModel.updateMany(
+      { ...abandoned, attempts: { $gte: MAX_ATTEMPTS } },
+      { $set: { ...this.finishedFields('failed'), error: `Job was interrupted ${MAX_ATTEMPTS} times` } }
+    );
+
+    const interrupted = await GenerationJobModel.find(abandoned).select('_id');
+    let resumed = 0;
+
+    for (const document of interrupted) {
+      // Re-check per job in case another instance took it over in the meantime
+      const reclaimed = await GenerationJobModel.updateOne(
+        { _id: document._id, ...abandoned },
+        { $set: { status: 'queued' }, $unset: { ownerInstance: '', heartbeatAt: '' } }
+      );
+      if (reclaimed.modifiedCount === 0) continue;
+
+      this.start(document._id);
+      resumed++;
+    }
+
+    if (resumed > 0) {
+      console.log(`🔁 Resuming ${resumed} interrupted generation jobs`);
+    }
+    return resumed;
+  }
+
+  /**
+   * Look for abandoned jobs now and then, so jobs of an instance that went
+   * away are picked up without waiting for a restart
+   */
+  startRecoveryJob(): void {
+    const intervalMs = this.heartbeatMs * MISSED_HEARTBEATS;
+    console.log(`⏰ Checking for abandoned generation jobs every ${intervalMs / 1000}s`);
+
+    setInterval(() => {
+      this.resumeInterruptedJobs().catch(error => {
+        console.error('❌ Generation job recovery failed:', error);
+      });
+    }, intervalMs).unref();
+  }
+
+  isFinished(status: GenerationJobStatus): boolean {
+    return FINISHED_STATUSES.includes(status);
+  }
+
+  // Queued jobs nobody has touched lately and running jobs whose owner stopped sending heartbeats
+  private abandonedFilter(): Record<string, unknown> {
+    const cutoff = new Date(Date.now() - this.heartbeatMs * MISSED_HEARTBEATS);
+    return {
+      $or: [
+        { status: 'queued', updatedAt: { $lt: cutoff } },
+        { status: 'running', $or: [{ heartbeatAt: { $lt: cutoff } }, { heartbeatAt: { $exists: false } }] }
+      ]
+    };
+  }
+
+  private start(jobId: string): void {
+    setImmediate(() => {
+      this.run(jobId).catch(error => {
+        console.error(`❌ Generation job ${jobId} crashed:`, error);
+      });
+    });
+  }
+
+  /**
+   * Stream test cases from the model into the job document, one update per
+   * test case so progress and partial results can be polled
+   */
+  private async run(jobId: string): Promise<void> {
+    // Claim the job; it may have been cancelled before it got here
+    const job = await GenerationJobModel.findOneAndUpdate(
+      { _id: jobId, status: 'queued' },
+      { $set: { status: 'running', startedAt: new Date(), ownerInstance: this.instanceId, heartbeatAt: new Date() }, $inc: { attempts: 1 } },
+      { new: true }
+    );
+    if (!job) return;
+
+    const { request } = job;
+    const controller = new AbortController();
+    this.runningJobs.set(jobId, controller);
+
+    // Keep the claim alive. Stop working on the job once it was cancelled through
+    // another instance or another instance took it over.
+    let handedOver = false;
+    const heartbeat = setInterval(() => {
+      GenerationJobModel.updateOne(
+        { _id: jobId, status: 'running', ownerInstance: this.instanceId, cancelRequested: false },
+        { $set: { heartbeatAt: new Date() } }
+      ).then(async result => {
+        if (result.matchedCount > 0 || controller.signal.aborted) return;
+
+        const cancelled = await GenerationJobModel.exists({ _id: jobId, ownerInstance: this.instanceId, cancelRequested: true });
+        handedOver = !cancelled;
+        controller.abort();
+      }).catch(error => {
+        console.error(`❌ Heartbeat of generation job ${jobId} failed:`, error);
+      });
+    }, this.heartbeatMs);
+
+    // A resumed job only asks for what it is still missing
+    let generated = job.testCases.length;
+    let duplicates = job.duplicates;
+    let consumed: Pick<IGenerationJob, 'provider' | 'modelName' | 'usage'> = {};
+    const recorded: GenerationJobTestCase[] = [];
+    let provenance: ProvenanceRecording | undefined;
+    const seenSummaries = [
+      ...request.existingSummaries,
+      ...job.testCases.filter(testCase => !testCase.duplicateOf).map(testCase => testCase.summary)
+    ];
+
+    try {
+      if (generated >= request.count) {
+        await this.finish(jobId, 'completed', { hasMore: true });
+        return;
+      }
+
+      console.log(`🚀 Generation job ${jobId} started (attempt ${job.attempts})`);
+
+      // Each attempt is recorded separately; a resumed job only generates what was missing
+      provenance = provenanceService.start({
+        operation: 'job',
+        ...(job.userId ? { userId: job.userId.toString(), userEmail: job.userEmail } : {}),
+        provider: request.provider,
+        parameters: {
+          format: request.format,
+          count: request.count - generated,
+          offset: request.offset + generated,
+          temperature: request.temperature,
+          maxTokens: request.maxTokens,
+          templateId: request.templateId
+        },
+        prompt: request.prompt,
+        files: request.files || []
+      });
+
+      for await (const event of openaiService.generateTestCasesStream({
+        prompt: request.prompt,
+        fileContent: request.fileContent,
+        count: request.count - generated,
+        offset: request.offset + generated,
+        provider: request.provider,
+        existingSummaries: seenSummaries,
+        format: request.format,
+        model: request.model,
+        temperature: request.temperature,
+        maxTokens: request.maxTokens,
+        autoRefine: request.autoRefine,
+        riskProfile: request.riskProfile,
+        language: request.language,
+        sourceLanguages: request.sourceLanguages,
+        signal: controller.signal,
+        onExchange: provenance.onExchange
+      })) {
+        if (event.type === 'complete') {
+          provenance.finish({ status: 'completed', testCases: recorded, model: event.model, usage: event.usage });
+          await this.finish(jobId, 'completed', {
+            duplicates,
+            hasMore: event.hasMore,
+            provider: event.provider,
+            modelName: event.model,
+            usage: event.usage
+          });
+          this.recordUsage(job, event.provider, event.model, event.usage);
+          continue;
+        }
+
+        if (event.type === 'cancelled') {
+          // Only the tokens consumed before the abort are recorded
+          consumed = { provider: event.provider, modelName: event.model, usage: event.usage };
+          this.recordUsage(job, event.provider, event.model, event.usage);
+          provenance.finish({ status: 'cancelled', testCases: recorded, model: event.model, usage: event.usage });
+          continue;
+        }
+
+        if (controller.signal.aborted) continue;
+
+        const duplicateOf = deduplicationService.findDuplicate(event.testCase.summary, seenSummaries);
+        if (duplicateOf) {
+          duplicates++;
+          if (request.dedupe === 'merge') continue;
+        } else {
+          seenSummaries.push(event.testCase.summary);
+        }
+
+        const testCase: GenerationJobTestCase = {
+          ...event.testCase,
+          id: request.offset + generated + 1,
+          ...(duplicateOf ? { duplicateOf } : {}),
+          provenanceId: provenance.id
+        };
+
+        // The cancelRequested condition also picks up a cancel made through another server
+        const updated = await GenerationJobModel.updateOne(
+          { _id: jobId, cancelRequested: false, ownerInstance: this.instanceId },
+          { $push: { testCases: testCase }, $set: { duplicates, heartbeatAt: new Date() } }
+        );
+        if (updated.matchedCount === 0) {
+          controller.abort();
+          continue;
+        }
+        recorded.push(testCase);
+        generated++;
+      }
+
+      if (handedOver) {
+        console.log(`↪️ Generation job ${jobId} was taken over by another instance`);
+      } else if (controller.signal.aborted) {
+        await this.finish(jobId, 'cancelled', { duplicates, ...consumed });
+        console.log(`🛑 Generation job ${jobId} cancelled after ${generated} test cases`);
+      } else {
+        console.log(`✅ Generation job ${jobId} completed with ${generated} test cases`);
+      }
+    } catch (error) {
+      if (handedOver) {
+        provenance?.finish({ status: 'cancelled', testCases: recorded, error: 'Job was taken over by another instance' });
+        console.log(`↪️ Generation job ${jobId} was taken over by another instance`);
+      } else if (controller.signal.aborted) {
+        provenance?.finish({ status: 'cancelled', testCases: recorded, error: error instanceof Error ? error.message : String(error) });
+        await this.finish(jobId, 'cancelled', { duplicates, ...consumed });
+        console.log(`🛑 Generation job ${jobId} cancelled after ${generated} test cases`);
+      } else {
+        console.error(`❌ Generation job ${jobId} failed:`, error);
+        provenance?.finish({ status: 'failed', testCases: recorded, error: error instanceof Error ? error.message : String(error) });
+        await this.finish(jobId, 'failed', {
+          duplicates,
+          error: error instanceof Error ? error.message : 'Failed to generate test cases'
+        });
+      }
+    } finally {
+      clearInterval(heartbeat);
+      this.runningJobs.delete(jobId);
+    }
+  }
+
+  private async finish(
+    jobId: string,
+    status: GenerationJobStatus,
+    fields: Partial<Pick<IGenerationJob, 'hasMore' | 'provider' | 'modelName' | 'usage' | 'error' | 'duplicates'>>
+  ): Promise<void> {
+    // Only the owner finishes a job; an instance that lost it must not overwrite the new owner's work
+    await GenerationJobModel.updateOne(
+      { _id: jobId, ownerInstance: this.instanceId },
+      { $set: { ...fields, ...this.finishedFields(status) } }
+    );
+  }
+
+  private finishedFields(status: GenerationJobStatus): { status: GenerationJobStatus; finishedAt: Date; expiresAt?: Date } {
+    const now = new Date();
+    return {
+      status,
+      finishedAt: now,
+      // A retention of 0 keeps finished jobs forever
+      ...(this.retentionDays > 0 ? { expiresAt: new Date(now.getTime() + this.retentionDays * 24 * 60 * 60 * 1000) } : {})
+    };
+  }
+
+  // Record token usage for admin monitoring; anonymous jobs are not tracked
+  private recordUsage(job: IGenerationJob, provider: string, modelName: string, usage: LLMUsage): void {
+    if (!job.userId) return;
+
+    openaiTokenService.recordUsage({
+      userId: job.userId.toString(),
+      userEmail: job.userEmail || 'unknown@example.com',
+      modelName,
+      promptTokens: usage.prompt_tokens || 0,
+      completionTokens: usage.completion_tokens || 0,
+      totalTokens: usage.total_tokens || 0,
+      cost: openaiService.calculateCost(provider, modelName, usage),
+      operation: 'test_generation_job'
+    }).catch(error => {
+      console.error('❌ Failed to record OpenAI usage:', error);
+    });
+  }
+
+  private toGenerationJob(document: IGenerationJob): GenerationJob {
+    const generated = document.testCases.length;
+    const requested = document.request.count;
+
+    return {
+      id: document._id,
+      userId: document.userId?.toString(),
+      status: document.status,
+      prompt: document.request.prompt,
+      format: document.request.format,
+      progress: {
+        generated,
+        requested,
+        percent: document.status === 'completed' ? 100 : Math.min(99, Math.round((generated / requested) * 100))
+      },
+      hasMore: document.hasMore,
+      duplicates: document.duplicates,
+      provider: document.provider,
+      model: document.modelName,
+      usage: document.usage
+        ? {
+          prompt_tokens: document.usage.prompt_tokens,
+          completion_tokens: document.usage.completion_tokens,
+          total_tokens: document.usage.total_tokens
+        }
+        : undefined,
+      error: document.error,
+      cancelRequested: document.cancelRequested,
+      attempts: document.attempts,
+      createdAt: document.createdAt,
+      startedAt: document.startedAt,
+      finishedAt: document.finishedAt
+    };
+  }
+}
+
+export default new GenerationJobService();
@@ -0,0 +1,176 @@
+import { getEnvVar } from "../../config/envValidator";
+import {
+  LLMProvider,
+  LLMGenerateRequest,
+  LLMGenerateResult,
+  LLMStreamChunk,
+  LLMPricing,
+  LLMUsage,
+} from "../../types/llm";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+// USD per token, taken from the public Anthropic price list. Model IDs carry
+// a release date ("claude-sonnet-4-20250514"), so they are matched by prefix.
+const ANTHROPIC_PRICING: Array<{ prefix: string; input: number; output: number }> = [
+  { prefix: "claude-opus-4", input: 0.000015, output: 0.000075 },
+  { prefix: "claude-sonnet-4", input: 0.000003, output: 0.000015 },
+  { prefix: "claude-3-7-sonnet", input: 0.000003, output: 0.000015 },
+  { prefix: "claude-3-5-sonnet", input: 0.000003, output: 0.000015 },
+  { prefix: "claude-3-5-haiku", input: 0.0000008, output: 0.000004 },
+  { prefix: "claude-3-haiku", input: 0.00000025, output: 0.00000125 },
+];
+
+const DEFAULT_PRICING = ANTHROPIC_PRICING[1]!;
+
+/**
+ * Provider for the Anthropic Messages API
+ */
+class AnthropicProvider implements LLMProvider {
+  readonly name = "anthropic" as const;
+  private baseUrl: string;
+  private apiKey: string;
+  private model: string;
+  private maxTokens: number;
+
+  constructor() {
+    this.baseUrl = getEnvVar("ANTHROPIC_BASE_URL", "https://api.anthropic.com").replace(/\/+$/, "");
+    this.apiKey = getEnvVar("ANTHROPIC_API_KEY");
+    this.model = getEnvVar("ANTHROPIC_MODEL", "claude-sonnet-4-20250514");
+    this.maxTokens = parseInt(getEnvVar("OPENAI_MAX_TOKENS", "2000"));
+  }
+
+  getDefaultModel(): string {
+    return this.model;
+  }
+
+  async generate(request: LLMGenerateRequest): Promise<LLMGenerateResult> {
+    const model = request.model || this.model;
+    const response = await this.post(request, model, false);
+    const data: any = await response.json();
+
+    return {
+      content: (data.content || [])
+        .filter((block: any) => block.type === "text")
+        .map((block: any) => block.text)
+        .join(""),
+      model: data.model || model,
+      usage: this.normalizeUsage(data.usage),
+    };
+  }
+
+  /**
+   * Stream a message. Prompt tokens arrive with message_start and the
+   * completion tokens with the final message_delta.
+   */
+  async *stream(request: LLMGenerateRequest): AsyncIterable<LLMStreamChunk> {
+    const model = request.model || this.model;
+    const response = await this.post(request, model, true);
+
+    if (!response.body) {
+      throw new Error("Anthropic returned an empty stream");
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let streamModel = model;
+    let promptTokens = 0;
+
+    for await (const value of response.body as unknown as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith("data:")) continue;
+
+        const event = JSON.parse(trimmed.slice(5).trim());
+
+        if (event.type === "message_start") {
+          streamModel = event.message?.model || streamModel;
+          promptTokens = event.message?.usage?.input_tokens || 0;
+        } else if (event.type === "content_block_delta" && event.delta?.type === "text_delta") {
+          yield { delta: event.delta.text || "", model: streamModel };
+        } else if (event.type === "message_delta" && event.usage) {
+          yield {
+            delta: "",
+            model: streamModel,
+            usage: this.normalizeUsage({ input_tokens: promptTokens, ...event.usage }),
+          };
+        } else if (event.type === "error") {
+          throw new Error(`Anthropic stream failed: ${event.error?.message || "unknown error"}`);
+        } else if (event.type === "message_stop") {
+          return;
+        }
+      }
+    }
+  }
+
+  /**
+   * Anthropic publishes no tokenizer, so this is an estimate
+   */
+  countTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+
+  getPricing(model: string): LLMPricing {
+    const pricing = ANTHROPIC_PRICING.find(entry => model.startsWith(entry.prefix)) || DEFAULT_PRICING;
+    return {
+      inputCostPerToken: pricing.input,
+      outputCostPerToken: pricing.output,
+      currency: "USD",
+    };
+  }
+
+  private async post(request: LLMGenerateRequest, model: string, stream: boolean): Promise<Response> {
+    // System messages go in their own field; the API has no structured output
+    // mode, so the JSON schema is spelled out there instead
+    const system = request.messages
+      .filter(message => message.role === "system")
+      .map(message => message.content);
+    if (request.responseFormat) {
+      system.push(`Reply with JSON only, matching this JSON schema:\n${JSON.stringify(request.responseFormat.schema)}`);
+    }
+
+    const response = await fetch(`${this.baseUrl}/v1/messages`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": this.apiKey,
+        "anthropic-version": ANTHROPIC_VERSION,
+      },
+      signal: request.signal ?? null,
+      body: JSON.stringify({
+        model,
+        max_tokens: request.maxTokens || this.maxTokens,
+        // Anthropic accepts 0-1 where OpenAI accepts 0-2
+        temperature: Math.min(request.temperature ?? 0.7, 1),
+        ...(system.length > 0 ? { system: system.join("\n\n") } : {}),
+        messages: request.messages
+          .filter(message => message.role !== "system")
+          .map(message => ({ role: message.role, content: message.content })),
+        stream,
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(`Anthropic request failed (${response.status}): ${body.substring(0, 200)}`);
+    }
+
+    return response;
+  }
+
+  private normalizeUsage(usage: any): LLMUsage {
+    const promptTokens = usage?.input_tokens || 0;
+    const completionTokens = usage?.output_tokens || 0;
+    return {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+    };
+  }
+}
+
+export default AnthropicProvider;
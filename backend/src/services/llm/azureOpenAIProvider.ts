@@ -0,0 +1,30 @@
+import { AzureOpenAI } from "openai";
+import { getEnvVar } from "../../config/envValidator";
+import { LLMProviderName } from "../../types/llm";
+import OpenAIProvider from "./openaiProvider";
+
+/**
+ * Provider for Azure OpenAI. Requests name a deployment instead of a model,
+ * so AZURE_OPENAI_DEPLOYMENT is the default and a per-request model override
+ * picks another deployment. Deployments named after an OpenAI model are
+ * priced and tokenized like that model.
+ */
+class AzureOpenAIProvider extends OpenAIProvider {
+  override readonly name: LLMProviderName = "azure";
+
+  constructor() {
+    const deployment = getEnvVar("AZURE_OPENAI_DEPLOYMENT", "gpt-4o-mini");
+
+    super(
+      new AzureOpenAI({
+        endpoint: getEnvVar("AZURE_OPENAI_ENDPOINT"),
+        apiKey: getEnvVar("AZURE_OPENAI_API_KEY"),
+        // Structured outputs and streamed usage need 2024-10-21 or later
+        apiVersion: getEnvVar("AZURE_OPENAI_API_VERSION", "2024-10-21"),
+      }),
+      deployment
+    );
+  }
+}
+
+export default AzureOpenAIProvider;
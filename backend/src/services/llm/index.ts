@@ -0,0 +1,61 @@
+import { getEnvVar } from "../../config/envValidator";
+import { LLMProvider, LLMProviderName } from "../../types/llm";
+import OpenAIProvider from "./openaiProvider";
+import AzureOpenAIProvider from "./azureOpenAIProvider";
+import AnthropicProvider from "./anthropicProvider";
+import LocalHttpProvider from "./localHttpProvider";
+import FixtureProvider from "./fixtureProvider";
+
+const PROVIDER_FACTORIES: Record<LLMProviderName, () => LLMProvider> = {
+  openai: () => new OpenAIProvider(),
+  azure: () => new AzureOpenAIProvider(),
+  anthropic: () => new AnthropicProvider(),
+  local: () => new LocalHttpProvider(),
+  fixture: () => new FixtureProvider(),
+};
+
+// Providers are created on first use so that e.g. the fixture provider
+// works without an OpenAI API key being configured
+const providerInstances = new Map<LLMProviderName, LLMProvider>();
+
+export const isLLMProviderName = (value: unknown): value is LLMProviderName => {
+  // Own keys only, so "constructor" or "__proto__" are not taken for providers
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(PROVIDER_FACTORIES, value);
+};
+
+/**
+ * Whether a provider may be picked per request. The fixture provider is
+ * for tests only, so it needs NODE_ENV=test, a configured LLM_FIXTURE_PATH
+ * or being the configured default provider.
+ */
+export const isLLMProviderSelectable = (name: LLMProviderName): boolean => {
+  if (name !== "fixture") return true;
+  return getEnvVar("NODE_ENV", "development") === "test"
+    || Boolean(getEnvVar("LLM_FIXTURE_PATH", ""))
+    || getEnvVar("LLM_PROVIDER", "openai") === "fixture";
+};
+
+/**
+ * Resolve the provider for a request, falling back to LLM_PROVIDER
+ */
+export const getLLMProvider = (name?: string): LLMProvider => {
+  const requested = name || getEnvVar("LLM_PROVIDER", "openai");
+
+  if (!isLLMProviderName(requested)) {
+    throw new Error(
+      `Unknown LLM provider "${requested}". Supported providers: ${Object.keys(PROVIDER_FACTORIES).join(", ")}`
+    );
+  }
+
+  if (!isLLMProviderSelectable(requested)) {
+    throw new Error(`LLM provider "${requested}" is not available in this environment`);
+  }
+
+  let provider = providerInstances.get(requested);
+  if (!provider) {
+    provider = PROVIDER_FACTORIES[requested]();
+    providerInstances.set(requested, provider);
+  }
+
+  return provider;
+};
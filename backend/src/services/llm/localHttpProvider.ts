@@ -0,0 +1,134 @@
+import { getEnvVar } from "../../config/envValidator";
+import {
+  LLMProvider,
+  LLMGenerateRequest,
+  LLMGenerateResult,
+  LLMStreamChunk,
+  LLMPricing,
+  LLMUsage,
+} from "../../types/llm";
+
+/**
+ * Provider for self-hosted models exposing an OpenAI-compatible
+ * /chat/completions endpoint (Ollama, vLLM, LM Studio, LocalAI)
+ */
+class LocalHttpProvider implements LLMProvider {
+  readonly name = "local" as const;
+  private baseUrl: string;
+  private apiKey: string;
+  private model: string;
+  private maxTokens: number;
+
+  constructor() {
+    this.baseUrl = getEnvVar("LOCAL_LLM_BASE_URL", "http://localhost:11434/v1").replace(/\/+$/, "");
+    this.apiKey = getEnvVar("LOCAL_LLM_API_KEY", "");
+    this.model = getEnvVar("LOCAL_LLM_MODEL", "llama3.1");
+    this.maxTokens = parseInt(getEnvVar("OPENAI_MAX_TOKENS", "2000"));
+  }
+
+  getDefaultModel(): string {
+    return this.model;
+  }
+
+  async generate(request: LLMGenerateRequest): Promise<LLMGenerateResult> {
+    const model = request.model || this.model;
+    const response = await this.post(request, model, false);
+    const data: any = await response.json();
+
+    return {
+      content: data.choices?.[0]?.message?.content || "",
+      model: data.model || model,
+      usage: this.normalizeUsage(data.usage),
+    };
+  }
+
+  async *stream(request: LLMGenerateRequest): AsyncIterable<LLMStreamChunk> {
+    const model = request.model || this.model;
+    const response = await this.post(request, model, true);
+
+    if (!response.body) {
+      throw new Error("Local LLM returned an empty stream");
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    for await (const value of response.body as unknown as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith("data:")) continue;
+
+        const payload = trimmed.slice(5).trim();
+        if (payload === "[DONE]") return;
+
+        const chunk = JSON.parse(payload);
+        yield {
+          delta: chunk.choices?.[0]?.delta?.content || "",
+          model: chunk.model || model,
+          usage: chunk.usage ? this.normalizeUsage(chunk.usage) : undefined,
+        };
+      }
+    }
+  }
+
+  countTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+
+  /**
+   * Self-hosted models have no per-token cost
+   */
+  getPricing(_model: string): LLMPricing {
+    return { inputCostPerToken: 0, outputCostPerToken: 0, currency: "USD" };
+  }
+
+  private async post(request: LLMGenerateRequest, model: string, stream: boolean): Promise<Response> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.apiKey) {
+      headers["Authorization"] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers,
+      signal: request.signal ?? null,
+      body: JSON.stringify({
+        model,
+        messages: request.messages,
+        max_tokens: request.maxTokens || this.maxTokens,
+        temperature: request.temperature ?? 0.7,
+        stream,
+        // vLLM, LM Studio and recent Ollama versions accept OpenAI-style structured output
+        ...(request.responseFormat
+          ? {
+              response_format: {
+                type: "json_schema",
+                json_schema: { name: request.responseFormat.name, schema: request.responseFormat.schema },
+              },
+            }
+          : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(`Local LLM request failed (${response.status}): ${body.substring(0, 200)}`);
+    }
+
+    return response;
+  }
+
+  private normalizeUsage(usage: any): LLMUsage {
+    return {
+      prompt_tokens: usage?.prompt_tokens || 0,
+      completion_tokens: usage?.completion_tokens || 0,
+      total_tokens: usage?.total_tokens || 0,
+    };
+  }
+}
+
+export default LocalHttpProvider;
@@ -0,0 +1,145 @@
+import OpenAI from "openai";
+import { getEnvVar } from "../../config/envValidator";
+import {
+  LLMProvider,
+  LLMProviderName,
+  LLMGenerateRequest,
+  LLMResponseFormat,
+  LLMGenerateResult,
+  LLMStreamChunk,
+  LLMPricing,
+} from "../../types/llm";
+import { countTextTokens } from "../../utils/tokenizer";
+
+// USD per token, taken from the public OpenAI price list
+const OPENAI_PRICING: Record<string, { input: number; output: number }> = {
+  "gpt-4o-mini": { input: 0.00000015, output: 0.0000006 },
+  "gpt-4o": { input: 0.0000025, output: 0.00001 },
+  "gpt-4.1-mini": { input: 0.0000004, output: 0.0000016 },
+  "gpt-4.1": { input: 0.000002, output: 0.000008 },
+};
+
+const DEFAULT_PRICING = OPENAI_PRICING["gpt-4o-mini"]!;
+
+class OpenAIProvider implements LLMProvider {
+  readonly name: LLMProviderName = "openai";
+  private client: OpenAI;
+  private model: string;
+  private maxTokens: number;
+
+  /**
+   * Subclasses for OpenAI-compatible services (Azure OpenAI) pass their own
+   * client and default model
+   */
+  constructor(client?: OpenAI, model?: string) {
+    this.model = model || getEnvVar("OPENAI_MODEL", "gpt-4o-mini");
+    this.maxTokens = parseInt(getEnvVar("OPENAI_MAX_TOKENS", "2000"));
+
+    if (client) {
+      this.client = client;
+    } else {
+      const apiKey = getEnvVar("OPENAI_API_KEY");
+      const baseURL = getEnvVar("OPENAI_BASE_URL", "");
+      this.client = new OpenAI({
+        apiKey: apiKey,
+        ...(baseURL ? { baseURL } : {}),
+      });
+    }
+  }
+
+  getDefaultModel(): string {
+    return this.model;
+  }
+
+  /**
+   * Run a single blocking chat completion
+   */
+  async generate(request: LLMGenerateRequest): Promise<LLMGenerateResult> {
+    const model = request.model || this.model;
+
+    const completion = await this.client.chat.completions.create({
+      model,
+      messages: request.messages,
+      max_tokens: request.maxTokens || this.maxTokens,
+      temperature: request.temperature ?? 0.7,
+      ...this.buildResponseFormat(request.responseFormat),
+    }, { signal: request.signal });
+
+    return {
+      content: completion.choices[0]?.message?.content || "",
+      model: completion.model || model,
+      usage: {
+        prompt_tokens: completion.usage?.prompt_tokens || 0,
+        completion_tokens: completion.usage?.completion_tokens || 0,
+        total_tokens: completion.usage?.total_tokens || 0,
+      },
+    };
+  }
+
+  /**
+   * Stream a chat completion token by token
+   */
+  async *stream(request: LLMGenerateRequest): AsyncIterable<LLMStreamChunk> {
+    const model = request.model || this.model;
+
+    const stream = await this.client.chat.completions.create({
+      model,
+      messages: request.messages,
+      max_tokens: request.maxTokens || this.maxTokens,
+      temperature: request.temperature ?? 0.7,
+      ...this.buildResponseFormat(request.responseFormat),
+      stream: true,
+      stream_options: { include_usage: true },
+    }, { signal: request.signal });
+
+    for await (const chunk of stream) {
+      yield {
+        delta: chunk.choices[0]?.delta?.content || "",
+        model: chunk.model || model,
+        usage: chunk.usage
+          ? {
+              prompt_tokens: chunk.usage.prompt_tokens,
+              completion_tokens: chunk.usage.completion_tokens,
+              total_tokens: chunk.usage.total_tokens,
+            }
+          : undefined,
+      };
+    }
+  }
+
+  /**
+   * Count tokens with the BPE encoding of the configured model
+   */
+  countTokens(text: string): number {
+    return countTextTokens(text, this.model);
+  }
+
+  /**
+   * Map a JSON schema onto OpenAI structured outputs
+   */
+  private buildResponseFormat(responseFormat?: LLMResponseFormat) {
+    if (!responseFormat) return {};
+
+    return {
+      response_format: {
+        type: "json_schema" as const,
+        json_schema: {
+          name: responseFormat.name,
+          schema: responseFormat.schema,
+          strict: true,
+        },
+      },
+    };
+  }
+
+  getPricing(model: string): LLMPricing {
+    const pricing = OPENAI_PRICING[model] || DEFAULT_PRICING;
+    return {
+      inputCostPerToken: pricing.input,
+      outputCostPerToken: pricing.output,
+      currency: "USD",
+    };
+  }
+}
+
+export default OpenAIProvider;
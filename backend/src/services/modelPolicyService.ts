@@ -0,0 +1,127 @@
+import mongoose from 'mongoose';
+import ModelPolicyModel, { IModelPolicy } from '../models/modelPolicy';
+import { getLLMProvider } from './llm';
+import { ModelPolicyError } from '../middlewares/errorHandler';
+import {
+  AvailableModel,
+  GenerationOverrides,
+  ModelPolicy,
+  ModelPolicyInput,
+  UserRole
+} from '../types/modelPolicy';
+
+class ModelPolicyService {
+  async listPolicies(): Promise<ModelPolicy[]> {
+    const documents = await ModelPolicyModel.find().sort({ provider: 1, modelName: 1 });
+    return documents.map(document => this.toModelPolicy(document));
+  }
+
+  /**
+   * Create the allow-list entry for a model or replace the existing one
+   */
+  async upsertPolicy(input: ModelPolicyInput, updatedBy?: string): Promise<ModelPolicy> {
+    const document = await ModelPolicyModel.findOneAndUpdate(
+      { provider: input.provider, modelName: input.model },
+      {
+        $set: {
+          enabled: input.enabled ?? true,
+          description: input.description,
+          roleLimits: input.roleLimits,
+          updatedBy
+        }
+      },
+      { new: true, upsert: true, runValidators: true }
+    );
+
+    console.log(`🧩 Model policy saved: ${input.provider}/${input.model} (${input.roleLimits.map(limit => limit.role).join(', ') || 'no roles'})`);
+    return this.toModelPolicy(document);
+  }
+
+  async deletePolicy(policyId: string): Promise<boolean> {
+    if (!mongoose.isValidObjectId(policyId)) return false;
+
+    const result = await ModelPolicyModel.deleteOne({ _id: policyId });
+    return result.deletedCount > 0;
+  }
+
+  /**
+   * Enabled models a role may select, with that role's limits
+   */
+  async getAvailableModels(role: UserRole, providerName?: string): Promise<AvailableModel[]> {
+    const provider = getLLMProvider(providerName);
+    const documents = await ModelPolicyModel.find({
+      provider: provider.name,
+      enabled: true,
+      'roleLimits.role': role
+    }).sort({ modelName: 1 });
+
+    return documents.map(document => {
+      const limit = document.roleLimits.find(roleLimit => roleLimit.role === role)!;
+      return {
+        provider: document.provider,
+        model: document.modelName,
+        description: document.description,
+        isDefault: document.modelName === provider.getDefaultModel(),
+        maxTokens: limit.maxTokens,
+        minTemperature: limit.minTemperature,
+        maxTemperature: limit.maxTemperature
+      };
+    });
+  }
+
+  /**
+   * Check per-request overrides against the allow-list entry of the selected
+   * model (the provider's default when none is given) for the user's role.
+   * Requests without overrides are not checked and use the configured defaults.
+   * @throws {ModelPolicyError} If the model or a parameter is not allowed
+   */
+  async resolveOverrides(role: UserRole, providerName: string | undefined, overrides: GenerationOverrides): Promise<GenerationOverrides> {
+    const { temperature, maxTokens } = overrides;
+    if (overrides.model === undefined && temperature === undefined && maxTokens === undefined) {
+      return {};
+    }
+
+    const provider = getLLMProvider(providerName);
+    const model = overrides.model || provider.getDefaultModel();
+    const policy = await ModelPolicyModel.findOne({ provider: provider.name, modelName: model, enabled: true });
+
+    if (!policy) {
+      throw new ModelPolicyError(`Model "${model}" is not on the allow-list of the ${provider.name} provider`);
+    }
+
+    const limit = policy.roleLimits.find(roleLimit => roleLimit.role === role);
+    if (!limit) {
+      throw new ModelPolicyError(`Model "${model}" is not available to the ${role} role`);
+    }
+
+    if (maxTokens !== undefined && maxTokens > limit.maxTokens) {
+      throw new ModelPolicyError(`maxTokens for "${model}" must be at most ${limit.maxTokens}`, 400, 'GENERATION_LIMIT_EXCEEDED');
+    }
+
+    if (temperature !== undefined && (temperature < limit.minTemperature || temperature > limit.maxTemperature)) {
+      throw new ModelPolicyError(
+        `temperature for "${model}" must be between ${limit.minTemperature} and ${limit.maxTemperature}`,
+        400,
+        'GENERATION_LIMIT_EXCEEDED'
+      );
+    }
+
+    return { model, temperature, maxTokens };
+  }
+
+  private toModelPolicy(document: IModelPolicy): ModelPolicy {
+    return {
+      id: String(document._id),
+      provider: document.provider,
+      model: document.modelName,
+      enabled: document.enabled,
+      description: document.description,
+      roleLimits: document.roleLimits,
+      updatedBy: document.updatedBy,
+      createdAt: document.createdAt,
+      updatedAt: document.updatedAt
+    };
+  }
+}
+
+export default new ModelPolicyService();
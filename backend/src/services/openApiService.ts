@@ -0,0 +1,693 @@
+import YAML from "yaml";
+import { getEnvVar } from "../config/envValidator";
+import {
+  ApiEndpointTestSuite,
+  ApiOperation,
+  ApiParameter,
+  ApiResponse,
+  ApiSchema,
+  ApiSecurityScheme,
+  ApiSpecSummary,
+  ApiTestCase,
+  ApiTestCategory,
+  ApiTestRequest,
+  ApiTestSuiteOptions,
+  HttpMethod,
+} from "../types/openapi";
+
+type SpecDocument = Record<string, any>;
+
+type DraftTestCase = Omit<ApiTestCase, "id">;
+
+const HTTP_METHODS: HttpMethod[] = ["get", "post", "put", "patch", "delete", "head", "options"];
+const ALL_CATEGORIES: ApiTestCategory[] = ["positive", "negative", "auth", "boundary"];
+const MAX_REF_DEPTH = 20;
+const MAX_EXAMPLE_DEPTH = 5;
+// Longer strings and arrays are described ("65536 × 'a'") instead of built,
+// so a large or hostile limit in a spec cannot blow up the test cases
+const MAX_LITERAL_LENGTH = 256;
+const MAX_LITERAL_ITEMS = 20;
+
+const STRING_EXAMPLES: Record<string, string> = {
+  email: "user@example.com",
+  date: "2024-01-15",
+  "date-time": "2024-01-15T10:30:00Z",
+  uuid: "3fa85f64-5717-4562-b3fc-2c963f66afa6",
+  uri: "https://example.com/resource",
+  url: "https://example.com/resource",
+  hostname: "example.com",
+  ipv4: "192.168.0.1",
+  password: "P@ssw0rd123",
+  byte: "ZXhhbXBsZQ==",
+  binary: "<binary file>",
+};
+
+class OpenApiService {
+  private maxPerEndpoint: number;
+  // Each $ref is resolved once per document and then shared
+  private resolvedRefs = new WeakMap<SpecDocument, Map<string, unknown>>();
+
+  constructor() {
+    this.maxPerEndpoint = parseInt(getEnvVar("OPENAPI_MAX_TESTS_PER_ENDPOINT", "12"));
+  }
+
+  /**
+   * Parse JSON or YAML text and return it when it is an OpenAPI 3 or
+   * Swagger 2 document
+   */
+  parseDocument(content: string): SpecDocument | null {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      try {
+        parsed = YAML.parse(content);
+      } catch {
+        return null;
+      }
+    }
+
+    return this.isSpecDocument(parsed) ? parsed : null;
+  }
+
+  isSpecDocument(value: unknown): value is SpecDocument {
+    if (!value || typeof value !== "object" || Array.isArray(value)) return false;
+    const document = value as SpecDocument;
+    const isOpenApi3 = typeof document.openapi === "string" && document.openapi.startsWith("3.");
+    const isSwagger2 = String(document.swagger) === "2.0";
+    return (isOpenApi3 || isSwagger2) && typeof document.paths === "object";
+  }
+
+  /**
+   * Normalise a spec into a flat list of operations with every $ref resolved
+   */
+  getSpecSummary(document: SpecDocument): ApiSpecSummary {
+    const isSwagger2 = String(document.swagger) === "2.0";
+    const operations: ApiOperation[] = [];
+
+    for (const [path, rawItem] of Object.entries(document.paths || {})) {
+      const item = this.resolve(document, rawItem) as SpecDocument;
+      if (!item || typeof item !== "object") continue;
+
+      for (const method of HTTP_METHODS) {
+        const operation = item[method];
+        if (!operation) continue;
+
+        operations.push(isSwagger2
+          ? this.toSwagger2Operation(document, path, method, item, operation)
+          : this.toOpenApi3Operation(path, method, item, operation, document));
+      }
+    }
+
+    return {
+      version: isSwagger2 ? "swagger2" : "openapi3",
+      title: document.info?.title || "Untitled API",
+      apiVersion: String(document.info?.version || ""),
+      operations,
+      securitySchemes: this.getSecuritySchemes(document, isSwagger2),
+    };
+  }
+
+  /**
+   * Compact, prompt-friendly description of the operations so model-based
+   * generation works from endpoints instead of raw YAML or JSON
+   */
+  describeSpec(summary: ApiSpecSummary): string {
+    const lines = [`API: ${summary.title}${summary.apiVersion ? ` v${summary.apiVersion}` : ""} (${summary.version === "swagger2" ? "Swagger 2" : "OpenAPI 3"})`];
+
+    for (const operation of summary.operations) {
+      lines.push("");
+      lines.push(`${operation.method.toUpperCase()} ${operation.path}${operation.summary ? ` - ${operation.summary}` : ""}${operation.deprecated ? " (deprecated)" : ""}`);
+      if (operation.security.length > 0) lines.push(`  Auth: ${operation.security.join(" or ")}`);
+      if (operation.parameters.length > 0) {
+        lines.push(`  Parameters: ${operation.parameters.map(p => `${p.name} (${p.in}${p.required ? ", required" : ""}, ${this.describeType(p.schema)})`).join("; ")}`);
+      }
+      if (operation.requestBody) {
+        lines.push(`  Body (${operation.requestBody.contentType}): ${JSON.stringify(this.exampleFor(operation.requestBody.schema))}`);
+      }
+      lines.push(`  Responses: ${operation.responses.map(r => `${r.status}${r.description ? ` ${r.description}` : ""}`).join("; ")}`);
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Build positive, negative, auth and boundary test cases for every
+   * operation, with requests and expected responses filled in from the schemas
+   */
+  generateTestSuites(summary: ApiSpecSummary, options: ApiTestSuiteOptions = {}): ApiEndpointTestSuite[] {
+    const categories = options.categories && options.categories.length > 0 ? options.categories : ALL_CATEGORIES;
+    const maxPerEndpoint = options.maxPerEndpoint || this.maxPerEndpoint;
+    const filters = (options.operations || []).map(filter => filter.trim().toLowerCase());
+    let nextId = 1;
+
+    return summary.operations
+      .filter(operation => filters.length === 0 || filters.some(filter =>
+        filter === `${operation.method} ${operation.path}`.toLowerCase() || filter === operation.operationId?.toLowerCase()
+      ))
+      .map(operation => {
+        const drafts: DraftTestCase[] = [];
+        if (categories.includes("positive")) drafts.push(this.positiveCase(operation, summary));
+        if (categories.includes("auth")) drafts.push(...this.authCases(operation, summary));
+        if (categories.includes("negative")) drafts.push(...this.negativeCases(operation, summary));
+        if (categories.includes("boundary")) drafts.push(...this.boundaryCases(operation, summary));
+
+        return {
+          method: operation.method.toUpperCase(),
+          path: operation.path,
+          operationId: operation.operationId,
+          summary: operation.summary,
+          testCases: drafts.slice(0, maxPerEndpoint).map(draft => ({ id: nextId++, ...draft })),
+        };
+      });
+  }
+
+  /**
+   * Example value for a schema: explicit example, default or enum first,
+   * otherwise a value derived from type, format and constraints
+   */
+  exampleFor(schema: ApiSchema | undefined, depth: number = 0): unknown {
+    if (!schema || depth > MAX_EXAMPLE_DEPTH) return null;
+    if (schema.example !== undefined) return schema.example;
+    if (schema.default !== undefined) return schema.default;
+    if (schema.enum && schema.enum.length > 0) return schema.enum[0];
+
+    if (schema.allOf) {
+      return schema.allOf.reduce<Record<string, unknown>>((merged, part) => {
+        const value = this.exampleFor(part, depth + 1);
+        return value && typeof value === "object" && !Array.isArray(value) ? { ...merged, ...value } : merged;
+      }, {});
+    }
+    const variant = schema.oneOf?.[0] || schema.anyOf?.[0];
+    if (variant) return this.exampleFor(variant, depth + 1);
+
+    switch (this.typeOf(schema)) {
+      case "string": {
+        const base = (schema.format && STRING_EXAMPLES[schema.format]) || "string";
+        const minLength = this.sizeOf(schema.minLength) ?? 0;
+        const maxLength = this.sizeOf(schema.maxLength);
+        if (base.length < minLength) {
+          return minLength > MAX_LITERAL_LENGTH ? this.describeRepeat(minLength, "x") : base.padEnd(minLength, "x");
+        }
+        return maxLength !== undefined ? base.substring(0, maxLength) : base;
+      }
+      case "integer":
+        return this.numberInRange(schema, 1);
+      case "number":
+        return this.numberInRange(schema, 1.5);
+      case "boolean":
+        return true;
+      case "array":
+        return this.repeatItems(Math.max(1, this.sizeOf(schema.minItems) ?? 1), this.exampleFor(schema.items, depth + 1));
+      case "object": {
+        const example: Record<string, unknown> = {};
+        for (const [name, property] of Object.entries(schema.properties || {})) {
+          example[name] = this.exampleFor(property, depth + 1);
+        }
+        return example;
+      }
+      default:
+        return null;
+    }
+  }
+
+  private toOpenApi3Operation(path: string, method: HttpMethod, item: SpecDocument, rawOperation: SpecDocument, document: SpecDocument): ApiOperation {
+    const operation = this.resolve(document, rawOperation) as SpecDocument;
+    const parameters = this.mergeParameters(item.parameters, operation.parameters)
+      .filter(parameter => parameter.in !== "body")
+      .map(parameter => this.toParameter(parameter, parameter.schema || {}));
+
+    let requestBody: ApiOperation["requestBody"];
+    if (operation.requestBody?.content) {
+      const [contentType, media] = this.pickMediaType(operation.requestBody.content);
+      requestBody = {
+        contentType,
+        required: Boolean(operation.requestBody.required),
+        schema: this.withExample(media?.schema || {}, media?.example),
+      };
+    }
+
+    const responses: ApiResponse[] = Object.entries(operation.responses || {}).map(([status, response]: [string, any]) => {
+      const [, media] = response?.content ? this.pickMediaType(response.content) : [undefined, undefined];
+      return {
+        status,
+        description: response?.description || "",
+        schema: media?.schema ? this.withExample(media.schema, media.example) : undefined,
+      };
+    });
+
+    return this.buildOperation(path, method, operation, parameters, requestBody, responses, document);
+  }
+
+  private toSwagger2Operation(document: SpecDocument, path: string, method: HttpMethod, item: SpecDocument, rawOperation: SpecDocument): ApiOperation {
+    const operation = this.resolve(document, rawOperation) as SpecDocument;
+    const allParameters = this.mergeParameters(item.parameters, operation.parameters);
+    const consumes: string[] = operation.consumes || document.consumes || ["application/json"];
+
+    const parameters = allParameters
+      .filter(parameter => parameter.in !== "body" && parameter.in !== "formData")
+      .map(parameter => this.toParameter(parameter, this.swagger2Schema(parameter)));
+
+    let requestBody: ApiOperation["requestBody"];
+    const bodyParameter = allParameters.find(parameter => parameter.in === "body");
+    const formParameters = allParameters.filter(parameter => parameter.in === "formData");
+
+    if (bodyParameter) {
+      requestBody = { contentType: consumes[0] || "application/json", required: Boolean(bodyParameter.required), schema: bodyParameter.schema || {} };
+    } else if (formParameters.length > 0) {
+      requestBody = {
+        contentType: formParameters.some(parameter => parameter.type === "file") ? "multipart/form-data" : "application/x-www-form-urlencoded",
+        required: formParameters.some(parameter => parameter.required),
+        schema: {
+          type: "object",
+          properties: Object.fromEntries(formParameters.map(parameter => [parameter.name, this.swagger2Schema(parameter)])),
+          required: formParameters.filter(parameter => parameter.required).map(parameter => parameter.name),
+        },
+      };
+    }
+
+    const responses: ApiResponse[] = Object.entries(operation.responses || {}).map(([status, response]: [string, any]) => ({
+      status,
+      description: response?.description || "",
+      schema: response?.schema ? this.withExample(response.schema, response.examples?.["application/json"]) : undefined,
+    }));
+
+    return this.buildOperation(path, method, operation, parameters, requestBody, responses, document);
+  }
+
+  private buildOperation(
+    path: string,
+    method: HttpMethod,
+    operation: SpecDocument,
+    parameters: ApiParameter[],
+    requestBody: ApiOperation["requestBody"],
+    responses: ApiResponse[],
+    document: SpecDocument
+  ): ApiOperation {
+    // Operation-level security overrides the global one; an empty list makes the operation public
+    const requirements: Array<Record<string, unknown>> = operation.security ?? document.security ?? [];
+    const security = Array.from(new Set(requirements.flatMap(requirement => Object.keys(requirement || {}))));
+
+    return {
+      method,
+      path,
+      operationId: operation.operationId,
+      summary: operation.summary || operation.description?.split("\n")[0],
+      tags: operation.tags || [],
+      parameters,
+      requestBody,
+      responses,
+      security,
+      deprecated: Boolean(operation.deprecated),
+    };
+  }
+
+  private getSecuritySchemes(document: SpecDocument, isSwagger2: boolean): Record<string, ApiSecurityScheme> {
+    const schemes = (isSwagger2 ? document.securityDefinitions : document.components?.securitySchemes) || {};
+    const result: Record<string, ApiSecurityScheme> = {};
+
+    for (const [name, rawScheme] of Object.entries(schemes)) {
+      const scheme = this.resolve(document, rawScheme) as SpecDocument;
+      result[name] = {
+        type: scheme.type,
+        scheme: scheme.type === "basic" ? "basic" : scheme.scheme,
+        in: scheme.in,
+        name: scheme.name,
+      };
+    }
+
+    return result;
+  }
+
+  private positiveCase(operation: ApiOperation, summary: ApiSpecSummary): DraftTestCase {
+    const request = this.buildRequest(operation, summary);
+    const success = this.successResponse(operation);
+    const preconditions = [
+      ...(operation.security.length > 0 ? [`Valid ${operation.security[0]} credentials are available`] : []),
+      ...operation.parameters.filter(p => p.in === "path").map(p => `A resource with ${p.name} ${JSON.stringify(this.exampleFor(p.schema))} exists`),
+    ];
+
+    return this.draft(operation, "positive", "P1", `valid request returns ${success.status}`, preconditions, request, success.status, success.body);
+  }
+
+  private authCases(operation: ApiOperation, summary: ApiSpecSummary): DraftTestCase[] {
+    if (operation.security.length === 0) return [];
+
+    const cases: DraftTestCase[] = [];
+    const unauthorized = this.documentedStatus(operation, ["401"], "401");
+    const request = this.buildRequest(operation, summary, { withAuth: false });
+    cases.push(this.draft(operation, "auth", "P1", `request without credentials is rejected with ${unauthorized}`, [], request, unauthorized));
+
+    const invalidRequest = this.buildRequest(operation, summary);
+    this.applyAuth(invalidRequest, operation, summary, "invalid-or-expired-token");
+    cases.push(this.draft(operation, "auth", "P1", `request with invalid credentials is rejected with ${unauthorized}`, [], invalidRequest, unauthorized));
+
+    if (operation.responses.some(response => response.status === "403")) {
+      cases.push(this.draft(
+        operation, "auth", "P2", "request from a user without permission is rejected with 403",
+        [`Credentials of a user without access to ${operation.method.toUpperCase()} ${operation.path} are available`],
+        this.buildRequest(operation, summary), "403"
+      ));
+    }
+
+    return cases;
+  }
+
+  private negativeCases(operation: ApiOperation, summary: ApiSpecSummary): DraftTestCase[] {
+    const cases: DraftTestCase[] = [];
+    const badRequest = this.documentedStatus(operation, ["400", "422"], "400");
+    const bodySchema = operation.requestBody?.schema;
+    const body = this.buildRequest(operation, summary).body;
+
+    if (bodySchema && body && typeof body === "object" && !Array.isArray(body)) {
+      const required = bodySchema.required?.find(name => name in body);
+      if (required) {
+        const request = this.buildRequest(operation, summary);
+        delete (request.body as Record<string, unknown>)[required];
+        cases.push(this.draft(operation, "negative", "P2", `missing required field "${required}" is rejected with ${badRequest}`, [], request, badRequest));
+      }
+
+      const typed = Object.entries(bodySchema.properties || {}).find(([, property]) => this.typeOf(property));
+      if (typed) {
+        const [name, property] = typed;
+        const request = this.buildRequest(operation, summary);
+        (request.body as Record<string, unknown>)[name] = this.wrongTypeValue(property);
+        cases.push(this.draft(operation, "negative", "P2", `field "${name}" with the wrong type is rejected with ${badRequest}`, [], request, badRequest));
+      }
+    } else if (operation.requestBody?.required) {
+      const request = this.buildRequest(operation, summary);
+      delete request.body;
+      cases.push(this.draft(operation, "negative", "P2", `missing request body is rejected with ${badRequest}`, [], request, badRequest));
+    }
+
+    const requiredQuery = operation.parameters.find(p => p.in === "query" && p.required);
+    if (requiredQuery) {
+      const request = this.buildRequest(operation, summary);
+      delete request.query[requiredQuery.name];
+      cases.push(this.draft(operation, "negative", "P2", `missing required query parameter "${requiredQuery.name}" is rejected with ${badRequest}`, [], request, badRequest));
+    }
+
+    const pathParameter = operation.parameters.find(p => p.in === "path");
+    if (pathParameter) {
+      const notFound = this.documentedStatus(operation, ["404"], "404");
+      const missingValue = this.typeOf(pathParameter.schema) === "integer" || this.typeOf(pathParameter.schema) === "number" ? 999999999 : "does-not-exist";
+      const request = this.buildRequest(operation, summary, { pathOverrides: { [pathParameter.name]: missingValue } });
+      cases.push(this.draft(operation, "negative", "P2", `unknown ${pathParameter.name} returns ${notFound}`, [], request, notFound));
+    }
+
+    return cases;
+  }
+
+  private boundaryCases(operation: ApiOperation, summary: ApiSpecSummary): DraftTestCase[] {
+    const cases: DraftTestCase[] = [];
+    const success = this.successResponse(operation);
+    const badRequest = this.documentedStatus(operation, ["400", "422"], "400");
+
+    const fields: Array<{ name: string; location: "body" | "query"; schema: ApiSchema }> = [
+      ...Object.entries(operation.requestBody?.schema.properties || {}).map(([name, schema]) => ({ name, location: "body" as const, schema })),
+      ...operation.parameters.filter(p => p.in === "query").map(p => ({ name: p.name, location: "query" as const, schema: p.schema })),
+    ];
+
+    for (const field of fields) {
+      for (const limit of this.limitsOf(field.schema)) {
+        const setValue = (request: ApiTestRequest, value: unknown) => {
+          if (field.location === "query") {
+            request.query[field.name] = value;
+          } else if (request.body && typeof request.body === "object") {
+            (request.body as Record<string, unknown>)[field.name] = value;
+          }
+        };
+
+        const atLimit = this.buildRequest(operation, summary);
+        setValue(atLimit, limit.atLimit);
+        cases.push(this.draft(operation, "boundary", "P3", `${field.name} at ${limit.label} (${limit.description}) is accepted`, [], atLimit, success.status));
+
+        const beyond = this.buildRequest(operation, summary);
+        setValue(beyond, limit.beyond);
+        cases.push(this.draft(operation, "boundary", "P2", `${field.name} beyond ${limit.label} is rejected with ${badRequest}`, [], beyond, badRequest));
+      }
+    }
+
+    return cases;
+  }
+
+  /**
+   * Boundary values for the constraints of a schema: the limit itself and
+   * the first value past it
+   */
+  private limitsOf(schema: ApiSchema): Array<{ label: string; description: string; atLimit: unknown; beyond: unknown }> {
+    const limits: Array<{ label: string; description: string; atLimit: unknown; beyond: unknown }> = [];
+    const type = this.typeOf(schema);
+    const step = type === "integer" ? 1 : 0.01;
+
+    if (type === "string") {
+      const minLength = this.sizeOf(schema.minLength);
+      const maxLength = this.sizeOf(schema.maxLength);
+      if (minLength !== undefined && minLength > 0) {
+        limits.push({ label: "minimum length", description: `${minLength} characters`, atLimit: this.repeatChars(minLength), beyond: this.repeatChars(minLength - 1) });
+      }
+      if (maxLength !== undefined) {
+        limits.push({ label: "maximum length", description: `${maxLength} characters`, atLimit: this.repeatChars(maxLength), beyond: this.repeatChars(maxLength + 1) });
+      }
+    }
+    if (type === "integer" || type === "number") {
+      if (schema.minimum !== undefined) {
+        limits.push({ label: "minimum", description: String(schema.minimum), atLimit: schema.minimum, beyond: Math.round((schema.minimum - step) * 100) / 100 });
+      }
+      if (schema.maximum !== undefined) {
+        limits.push({ label: "maximum", description: String(schema.maximum), atLimit: schema.maximum, beyond: Math.round((schema.maximum + step) * 100) / 100 });
+      }
+    }
+    const maxItems = this.sizeOf(schema.maxItems);
+    if (type === "array" && maxItems !== undefined) {
+      const item = this.exampleFor(schema.items);
+      limits.push({ label: "maximum items", description: `${maxItems} items`, atLimit: this.repeatItems(maxItems, item), beyond: this.repeatItems(maxItems + 1, item) });
+    }
+
+    return limits;
+  }
+
+  private buildRequest(
+    operation: ApiOperation,
+    summary: ApiSpecSummary,
+    options: { withAuth?: boolean; pathOverrides?: Record<string, unknown> } = {}
+  ): ApiTestRequest {
+    const { withAuth = true, pathOverrides = {} } = options;
+    let path = operation.path;
+    const headers: Record<string, string> = {};
+    const query: Record<string, unknown> = {};
+
+    for (const parameter of operation.parameters) {
+      const value = parameter.name in pathOverrides ? pathOverrides[parameter.name] : this.exampleFor(parameter.schema);
+      if (parameter.in === "path") {
+        path = path.replace(`{${parameter.name}}`, encodeURIComponent(String(value)));
+      } else if (parameter.required && parameter.in === "query") {
+        query[parameter.name] = value;
+      } else if (parameter.required && parameter.in === "header") {
+        headers[parameter.name] = String(value);
+      }
+    }
+
+    const request: ApiTestRequest = { method: operation.method.toUpperCase(), path, headers, query };
+
+    if (operation.requestBody) {
+      headers["Content-Type"] = operation.requestBody.contentType;
+      request.body = this.exampleFor(operation.requestBody.schema);
+    }
+
+    if (withAuth) {
+      this.applyAuth(request, operation, summary, "<valid-token>");
+    }
+
+    return request;
+  }
+
+  private applyAuth(request: ApiTestRequest, operation: ApiOperation, summary: ApiSpecSummary, credential: string): void {
+    const name = operation.security[0];
+    const scheme = name ? summary.securitySchemes[name] : undefined;
+    if (!scheme) return;
+
+    if (scheme.type === "apiKey" && scheme.name) {
+      if (scheme.in === "query") request.query[scheme.name] = credential;
+      else if (scheme.in === "cookie") request.headers.Cookie = `${scheme.name}=${credential}`;
+      else request.headers[scheme.name] = credential;
+    } else if (scheme.scheme === "basic") {
+      request.headers.Authorization = `Basic ${credential}`;
+    } else {
+      request.headers.Authorization = `Bearer ${credential}`;
+    }
+  }
+
+  private draft(
+    operation: ApiOperation,
+    category: ApiTestCategory,
+    priority: ApiTestCase["priority"],
+    description: string,
+    preconditions: string[],
+    request: ApiTestRequest,
+    expectedStatus: string,
+    expectedBody?: unknown
+  ): DraftTestCase {
+    const endpoint = `${operation.method.toUpperCase()} ${operation.path}`;
+    const queryString = Object.entries(request.query)
+      .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(typeof value === "object" ? JSON.stringify(value) : String(value))}`)
+      .join("&");
+
+    const steps = [`Send ${request.method} ${request.path}${queryString ? `?${queryString}` : ""}`];
+    if (Object.keys(request.headers).length > 0) steps.push(`Set headers: ${JSON.stringify(request.headers)}`);
+    if (request.body !== undefined) steps.push(`Send body: ${JSON.stringify(request.body)}`);
+    steps.push("Check the response status and body");
+
+    const expectedResult = expectedBody !== undefined && expectedBody !== null
+      ? `Response status is ${expectedStatus} and the body matches: ${JSON.stringify(expectedBody)}`
+      : `Response status is ${expectedStatus}`;
+
+    return {
+      summary: `${endpoint}: ${description}`,
+      precondition: preconditions.length > 0 ? preconditions.join("\n") : "None",
+      steps: steps.map((step, index) => `${index + 1}. ${step}`).join("\n"),
+      expectedResult,
+      priority,
+      api: {
+        operationId: operation.operationId,
+        method: request.method,
+        path: operation.path,
+        category,
+        request,
+        expectedStatus,
+        ...(expectedBody !== undefined && expectedBody !== null ? { expectedBody } : {}),
+      },
+    };
+  }
+
+  private successResponse(operation: ApiOperation): { status: string; body: unknown } {
+    const response = operation.responses.find(r => r.status.startsWith("2"));
+    if (!response) {
+      return { status: operation.method === "post" ? "201" : "200", body: undefined };
+    }
+    return { status: response.status, body: response.schema ? this.exampleFor(response.schema) : undefined };
+  }
+
+  private documentedStatus(operation: ApiOperation, candidates: string[], fallback: string): string {
+    return candidates.find(status => operation.responses.some(response => response.status === status)) || fallback;
+  }
+
+  private wrongTypeValue(schema: ApiSchema): unknown {
+    switch (this.typeOf(schema)) {
+      case "string":
+        return 12345;
+      case "integer":
+      case "number":
+        return "not-a-number";
+      case "boolean":
+        return "not-a-boolean";
+      case "array":
+        return "not-an-array";
+      default:
+        return "not-an-object";
+    }
+  }
+
+  private typeOf(schema: ApiSchema): string | undefined {
+    const type = Array.isArray(schema.type) ? schema.type.find(t => t !== "null") : schema.type;
+    return type || (schema.properties ? "object" : schema.items ? "array" : undefined);
+  }
+
+  private describeType(schema: ApiSchema): string {
+    const type = this.typeOf(schema) || "any";
+    return schema.format ? `${type}/${schema.format}` : type;
+  }
+
+  // Length and item limits from the spec; anything that is not a non-negative integer is ignored
+  private sizeOf(value: unknown): number | undefined {
+    return Number.isSafeInteger(value) && (value as number) >= 0 ? (value as number) : undefined;
+  }
+
+  private describeRepeat(count: number, value: unknown): string {
+    return `<${count} × ${JSON.stringify(value)}>`;
+  }
+
+  private repeatChars(length: number, char: string = "a"): string {
+    return length > MAX_LITERAL_LENGTH ? this.describeRepeat(length, char) : char.repeat(length);
+  }
+
+  private repeatItems(count: number, item: unknown): unknown {
+    return count > MAX_LITERAL_ITEMS ? this.describeRepeat(count, item) : Array.from({ length: count }, () => item);
+  }
+
+  private numberInRange(schema: ApiSchema, fallback: number): number {
+    if (schema.minimum !== undefined) return schema.minimum;
+    if (schema.maximum !== undefined && schema.maximum < fallback) return schema.maximum;
+    return fallback;
+  }
+
+  private toParameter(parameter: SpecDocument, schema: ApiSchema): ApiParameter {
+    return {
+      name: parameter.name,
+      in: parameter.in,
+      required: parameter.in === "path" || Boolean(parameter.required),
+      schema: this.withExample(schema, parameter.example),
+    };
+  }
+
+  // Swagger 2 keeps the type of non-body parameters on the parameter itself
+  private swagger2Schema(parameter: SpecDocument): ApiSchema {
+    const { name: _name, in: _in, required: _required, description: _description, ...schema } = parameter;
+    return schema.type === "file" ? { ...schema, type: "string", format: "binary" } : schema;
+  }
+
+  private withExample(schema: ApiSchema, example: unknown): ApiSchema {
+    return example !== undefined && schema.example === undefined ? { ...schema, example } : schema;
+  }
+
+  private pickMediaType(content: Record<string, any>): [string, any] {
+    const entries = Object.entries(content);
+    return entries.find(([type]) => type.includes("json")) || entries[0] || ["application/json", undefined];
+  }
+
+  // Operation parameters override path item parameters with the same name and location
+  private mergeParameters(pathParameters: SpecDocument[] = [], operationParameters: SpecDocument[] = []): SpecDocument[] {
+    const merged = new Map<string, SpecDocument>();
+    for (const parameter of [...pathParameters, ...operationParameters]) {
+      if (parameter?.name) merged.set(`${parameter.in}:${parameter.name}`, parameter);
+    }
+    return Array.from(merged.values());
+  }
+
+  /**
+   * Deep-resolve local $refs ("#/components/schemas/User"), cutting cycles
+   * so recursive schemas stay finite. Resolved refs are memoized, so a
+   * schema referenced from many places is only expanded once
+   */
+  private resolve(document: SpecDocument, value: unknown, seen: Set<string> = new Set(), depth: number = 0): unknown {
+    if (depth > MAX_REF_DEPTH || value === null || typeof value !== "object") return value;
+    if (Array.isArray(value)) return value.map(item => this.resolve(document, item, seen, depth + 1));
+
+    const ref = (value as SpecDocument).$ref;
+    if (typeof ref === "string") {
+      if (!ref.startsWith("#/") || seen.has(ref)) return {};
+
+      let cache = this.resolvedRefs.get(document);
+      if (!cache) {
+        cache = new Map();
+        this.resolvedRefs.set(document, cache);
+      }
+      if (cache.has(ref)) return cache.get(ref);
+
+      const target = ref
+        .substring(2)
+        .split("/")
+        .map(part => part.replace(/~1/g, "/").replace(/~0/g, "~"))
+        .reduce<any>((node, key) => (node && typeof node === "object" ? node[key] : undefined), document);
+      const resolved = this.resolve(document, target, new Set([...seen, ref]), depth + 1);
+      cache.set(ref, resolved);
+      return resolved;
+    }
+
+    return Object.fromEntries(
+      Object.entries(value as SpecDocument).map(([key, child]) => [key, this.resolve(document, child, seen, depth + 1)])
+    );
+  }
+}
+
+export default new OpenApiService();
@@ -1,5 +1,32 @@
-import OpenAI from "openai";
+import { getLLMProvider } from "./llm";
 import { getEnvVar } from "../config/envValidator";
+import { LLMGenerateResult, LLMMessage, LLMProvider, LLMProviderName, LLMResponseFormat, LLMStreamChunk, LLMUsage } from "../types/llm";
+import { JsonArrayStreamParser } from "../utils/jsonArrayStreamParser";
+import { ModelOutputError } from "../middlewares/errorHandler";
+import documentPipelineService from "./documentPipelineService";
+import deduplicationService from "./deduplicationService";
+import openApiService from "./openApiService";
+import requirementService from "./requirementService";
+import qualityLinterService from "./qualityLinterService";
+import riskPrioritizationService from "./riskPrioritizationService";
+import { DocumentChunk, TestCaseSource } from "../types/document";
+import { GherkinScenario, TestCaseFormat } from "../types/gherkin";
+import { Requirement } from "../types/requirement";
+import { GenerationEstimate } from "../types/estimate";
+import { ProvenanceExchange } from "../types/provenance";
+import { TestCaseQuality } from "../types/quality";
+import { RiskProfile, TestCaseRisk } from "../types/risk";
+import { LanguageCode } from "../types/language";
+import { LANGUAGES, detectLanguage } from "../utils/language";
+import { gherkinToTestCaseFields } from "../utils/gherkin";
+import { countMessageTokens } from "../utils/tokenizer";
+import {
+  GHERKIN_TEST_CASES_JSON_SCHEMA,
+  TEST_CASES_JSON_SCHEMA,
+  ValidatedTestCase,
+  extractTestCaseItems,
+  validateTestCaseItem,
+} from "../utils/testCaseValidation";
 
 interface TestCase {
   id: number;
@@ -8,6 +35,12 @@ interface TestCase {
   steps: string;
   expectedResult: string;
   priority: "P1" | "P2" | "P3";
+  source?: TestCaseSource | undefined;
+  gherkin?: GherkinScenario | undefined;
+  requirementIds?: string[] | undefined;
+  provenanceId?: string | undefined;
+  quality?: TestCaseQuality | undefined;
+  risk?: TestCaseRisk | undefined;
 }
 
 interface TestGenerationRequest {
@@ -17,6 +50,19 @@ interface TestGenerationRequest {
   fileType?: string;
   count?: number;
   offset?: number;
+  provider?: string | undefined;
+  existingSummaries?: string[] | undefined; // already generated, sent to the model as a digest
+  format?: TestCaseFormat | undefined;
+  requirements?: Requirement[] | undefined; // extracted from fileContent when not given
+  signal?: AbortSignal | undefined; // cancels every model request made for this generation
+  model?: string | undefined; // overrides, already checked against the model allow-list
+  temperature?: number | undefined;
+  maxTokens?: number | undefined;
+  onExchange?: ((exchange: ProvenanceExchange) => void) | undefined; // receives every model request and raw reply
+  autoRefine?: boolean | undefined; // rewrite test cases the quality linter scores low
+  riskProfile?: RiskProfile | undefined; // replaces or calibrates the model's priorities
+  language?: LanguageCode | undefined; // language the test cases are written in, English when not given
+  sourceLanguages?: LanguageCode[] | undefined; // languages of the documents, detected from fileContent when not given
 }
 
 interface TestGenerationResponse {
@@ -25,26 +71,149 @@ interface TestGenerationResponse {
   totalGenerated: number;
   hasMore: boolean;
   error?: string;
-  usage?: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
+  errorCode?: string;
+  rawOutput?: string;
+  provider?: LLMProviderName;
+  model?: string;
+  usage?: LLMUsage;
+  chunksProcessed?: number;
+  chunksSkipped?: number;
 }
 
+interface TestCaseRefinementRequest {
+  testCase: Omit<ValidatedTestCase, "id">;
+  instruction: string;
+  rootPrompt?: string | undefined;
+  ancestors?: string[] | undefined; // summaries from the root down to the parent
+  provider?: string | undefined;
+}
+
+interface TestCaseRefinementResponse {
+  success: boolean;
+  testCase?: Omit<ValidatedTestCase, "id">;
+  error?: string;
+  errorCode?: string;
+  rawOutput?: string;
+  provider?: LLMProviderName;
+  model?: string;
+  usage?: LLMUsage;
+}
+
+// Any test case shape; only its text and Gherkin scenario are translated
+interface TranslatableTestCase {
+  id: number | string;
+  summary: string;
+  precondition: string;
+  steps: string;
+  expectedResult: string;
+  priority: "P1" | "P2" | "P3";
+  gherkin?: GherkinScenario | undefined;
+  quality?: TestCaseQuality | undefined;
+}
+
+interface TestCaseTranslationRequest<T extends TranslatableTestCase> {
+  testCases: T[];
+  targetLanguage: LanguageCode;
+  sourceLanguage?: LanguageCode | undefined; // recognized by the model when not given
+  provider?: string | undefined;
+}
+
+interface TestCaseTranslationResponse<T extends TranslatableTestCase> {
+  success: boolean;
+  testCases: T[]; // in request order; untranslated test cases are returned unchanged
+  untranslatedIds: Array<T["id"]>;
+  error?: string;
+  errorCode?: string;
+  rawOutput?: string;
+  provider?: LLMProviderName;
+  model?: string;
+  usage?: LLMUsage;
+}
+
+// Language to write test cases in and the languages of the source documents
+interface GenerationLanguages {
+  target: LanguageCode;
+  sources: LanguageCode[];
+}
+
+interface ChunkBatch {
+  chunk: DocumentChunk;
+  testCases: TestCase[];
+  model: string;
+  usage: LLMUsage;
+}
+
+type TestGenerationStreamEvent =
+  | { type: "testCase"; testCase: TestCase; index: number }
+  | {
+      type: "complete";
+      totalGenerated: number;
+      hasMore: boolean;
+      provider: LLMProviderName;
+      model: string;
+      usage: LLMUsage;
+    }
+  | {
+      // The request's abort signal fired; usage covers only what was consumed
+      type: "cancelled";
+      totalGenerated: number;
+      provider: LLMProviderName;
+      model: string;
+      usage: LLMUsage;
+    };
+
+interface InvalidTestCaseItem {
+  item: unknown;
+  errors: string[];
+}
+
+interface RepairResult {
+  testCases: ValidatedTestCase[];
+  rawOutputs: string[];
+  errors: string[];
+  usage: LLMUsage;
+}
+
+const TEST_CASES_RESPONSE_FORMAT: LLMResponseFormat = {
+  name: "test_cases",
+  schema: TEST_CASES_JSON_SCHEMA,
+};
+
+const RESPONSE_FORMATS: Record<TestCaseFormat, LLMResponseFormat> = {
+  standard: TEST_CASES_RESPONSE_FORMAT,
+  gherkin: { name: "gherkin_test_cases", schema: GHERKIN_TEST_CASES_JSON_SCHEMA },
+};
+
+// Test cases sent to the model per translation request
+const TRANSLATION_BATCH_SIZE = 10;
+
+// Fields of each format that are written in the target language
+const TRANSLATED_FIELDS: Record<TestCaseFormat, string> = {
+  standard: "summary, precondition, steps and expectedResult",
+  gherkin: "feature, scenario, step texts and example values",
+};
+
+// Typical completion size of one test case, used to budget chunks before calling the model
+const COMPLETION_TOKENS_PER_TEST_CASE = 150;
+
+// Range of completion tokens per test case for pre-flight estimates; Gherkin scenarios are wordier
+const ESTIMATED_COMPLETION_TOKENS: Record<TestCaseFormat, { min: number; max: number }> = {
+  standard: { min: 100, max: 200 },
+  gherkin: { min: 150, max: 300 },
+};
+
+const STANDARD_JSON_EXAMPLE = `{"testCases":[{"id":n,"summary":"text","precondition":"text","steps":"1. Action\\n2. Verify","expectedResult":"text","priority":"P1|P2|P3","requirementIds":["REQ-1"]}]}`;
+const GHERKIN_JSON_EXAMPLE = `{"testCases":[{"id":n,"feature":"text","scenario":"text","type":"Scenario|Scenario Outline","tags":["text"],"steps":[{"keyword":"Given|When|Then|And|But","text":"text"}],"examples":null|{"headers":["name"],"rows":[["value"]]},"priority":"P1|P2|P3","requirementIds":["REQ-1"]}]}`;
+
 class OpenAIService {
-  private openai: OpenAI;
-  private model: string;
-  private maxTokens: number;
+  private maxRepairAttempts: number;
+  private maxDocumentChars: number;
+  private tokenBudget: number;
 
   constructor() {
-    const apiKey = getEnvVar("OPENAI_API_KEY");
-    this.model = getEnvVar("OPENAI_MODEL", "gpt-4o-mini");
-    this.maxTokens = parseInt(getEnvVar("OPENAI_MAX_TOKENS", "2000"));
-
-    this.openai = new OpenAI({
-      apiKey: apiKey,
-    });
+    this.maxRepairAttempts = parseInt(getEnvVar("LLM_MAX_REPAIR_ATTEMPTS", "2"));
+    this.maxDocumentChars = parseInt(getEnvVar("DOCUMENT_MAX_CHARS", "200000"));
+    this.tokenBudget = parseInt(getEnvVar("GENERATION_TOKEN_BUDGET", "60000"));
   }
 
   /**
@@ -61,38 +230,38 @@ class OpenAIService {
         fileType,
         count = 10,
         offset = 0,
+        format = "standard",
       } = request;
 
-      // Build the context for OpenAI
-      let context = this.buildContext(prompt, fileContent, fileName, fileType);
+      const provider = this.withRequestOptions(getLLMProvider(request.provider), request);
 
-      // Create the system prompt
-      const systemPrompt = this.createSystemPrompt();
+      // Large documents go through the chunked map-reduce pipeline
+      if (fileContent && documentPipelineService.needsChunking(fileContent)) {
+        return this.prioritizeByRisk(request, await this.refineLowScorers(provider, request, await this.generateFromChunks(provider, request)));
+      }
 
-      // Create the user prompt with specific instructions
-      const userPrompt = this.createUserPrompt(context, count, offset);
+      const requirements = this.getRequirements(request);
+      const languages = this.getLanguages(request);
+      const messages = this.buildMessages(prompt, fileContent, fileName, fileType, count, offset, request.existingSummaries, format, requirements, languages);
 
-      console.log("🤖 Generating test cases with OpenAI...");
-      console.log(`🔑 Using model: ${this.model}`);
-      console.log(`🔑 Max tokens: ${this.maxTokens}`);
+      console.log(`🤖 Generating ${format} test cases with ${provider.name} provider...`);
+      console.log(`🔑 Using model: ${provider.getDefaultModel()}`);
 
-      const completion = await this.openai.chat.completions.create({
-        model: this.model,
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt },
-        ],
-        max_tokens: this.maxTokens,
-        temperature: 0.7,
+      const completion = await provider.generate({
+        messages,
+        responseFormat: RESPONSE_FORMATS[format],
       });
 
-      const response = completion.choices[0]?.message?.content;
+      const response = completion.content;
       if (!response) {
-        throw new Error("No response from OpenAI");
+        throw new Error(`No response from ${provider.name} provider`);
       }
 
-      // Parse the response to extract test cases
-      const testCases = this.parseTestCasesResponse(response, offset);
+      // Validate the reply and repair whatever the model got wrong
+      const validated = await this.validateWithRepair(provider, messages, response, format);
+      const testCases = validated.testCases.map((testCase, index) =>
+        this.toTestCase(testCase, index, offset, requirements, languages.target)
+      );
 
       // Prevent infinite loops by limiting total test cases
       const maxTotalTests = 50; // Reduced limit to save tokens
@@ -101,19 +270,17 @@ class OpenAIService {
       // Token usage is managed by the controller's count limits (1-50)
       // and daily token limits (20,000 tokens per user per day)
 
-      return {
+      return this.prioritizeByRisk(request, await this.refineLowScorers(provider, request, {
         success: true,
         testCases,
         totalGenerated: testCases.length,
         hasMore: testCases.length >= count && currentTotal < maxTotalTests, // More available if we got the requested count and haven't hit the limit
-        usage: {
-          prompt_tokens: completion.usage?.prompt_tokens || 0,
-          completion_tokens: completion.usage?.completion_tokens || 0,
-          total_tokens: completion.usage?.total_tokens || 0,
-        }
-      };
+        provider: provider.name,
+        model: completion.model,
+        usage: this.addUsage(completion.usage, validated.usage)
+      }));
     } catch (error) {
-      console.error("❌ OpenAI API Error:", error);
+      console.error("❌ LLM provider error:", error);
       return {
         success: false,
         testCases: [],
@@ -121,8 +288,1037 @@ class OpenAIService {
         hasMore: false,
         error:
           error instanceof Error ? error.message : "Unknown error occurred",
+        ...(error instanceof ModelOutputError
+          ? { errorCode: error.code, rawOutput: error.rawOutput }
+          : {}),
+      };
+    }
+  }
+
+  /**
+   * Propose a rewrite of a single test case following a natural-language
+   * instruction, e.g. "add a negative path" or "split into smaller steps"
+   */
+  async refineTestCase(request: TestCaseRefinementRequest): Promise<TestCaseRefinementResponse> {
+    try {
+      return await this.requestRefinement(getLLMProvider(request.provider), request);
+    } catch (error) {
+      console.error("❌ LLM provider error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error occurred",
+        ...(error instanceof ModelOutputError
+          ? { errorCode: error.code, rawOutput: error.rawOutput }
+          : {}),
+      };
+    }
+  }
+
+  /**
+   * @throws {ModelOutputError} If the model's reply cannot be repaired
+   */
+  private async requestRefinement(
+    provider: LLMProvider,
+    request: TestCaseRefinementRequest
+  ): Promise<TestCaseRefinementResponse & { testCase: Omit<ValidatedTestCase, "id">; usage: LLMUsage }> {
+    const messages: LLMMessage[] = [
+      { role: "system", content: this.createSystemPrompt() },
+      { role: "user", content: this.createRefinePrompt(request) },
+    ];
+
+    console.log(`✏️ Refining test case with ${provider.name} provider...`);
+
+    const completion = await provider.generate({
+      messages,
+      responseFormat: TEST_CASES_RESPONSE_FORMAT,
+    });
+
+    const validated = await this.validateWithRepair(provider, messages, completion.content);
+    // Requirement links are kept from the original test case, not proposed by the model
+    const { id: _id, requirementIds: _requirementIds, ...refined } = validated.testCases[0]!;
+
+    return {
+      success: true,
+      testCase: refined,
+      provider: provider.name,
+      model: completion.model,
+      usage: this.addUsage(completion.usage, validated.usage),
+    };
+  }
+
+  /**
+   * Rewrite the test cases of a successful generation that the quality
+   * linter scores low, when the request asks for it
+   */
+  private async refineLowScorers(
+    provider: LLMProvider,
+    request: TestGenerationRequest,
+    response: TestGenerationResponse
+  ): Promise<TestGenerationResponse> {
+    if (!request.autoRefine || !response.success) return response;
+
+    const testCases: TestCase[] = [];
+    let usage = response.usage || { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+
+    for (const testCase of response.testCases) {
+      const refined = await this.autoRefineTestCase(provider, request, testCase);
+      testCases.push(refined.testCase);
+      usage = this.addUsage(usage, refined.usage);
+    }
+
+    return { ...response, testCases, usage };
+  }
+
+  private prioritizeByRisk(request: TestGenerationRequest, response: TestGenerationResponse): TestGenerationResponse {
+    if (!request.riskProfile || !response.success) return response;
+
+    return { ...response, testCases: response.testCases.map(testCase => this.applyRiskProfile(request, testCase)) };
+  }
+
+  private applyRiskProfile(request: TestGenerationRequest, testCase: TestCase): TestCase {
+    return request.riskProfile
+      ? { ...testCase, ...riskPrioritizationService.prioritize(testCase, request.riskProfile) }
+      : testCase;
+  }
+
+  /**
+   * Ask the model to fix the issues the linter found in one test case. The
+   * rewrite is kept only if it scores higher; a failed refinement keeps the original.
+   */
+  private async autoRefineTestCase(
+    provider: LLMProvider,
+    request: TestGenerationRequest,
+    testCase: TestCase
+  ): Promise<{ testCase: TestCase; usage: LLMUsage }> {
+    const noUsage: LLMUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+    // Rewrites come back in the standard format, which would drop a Gherkin scenario
+    if (!request.autoRefine || !testCase.quality || testCase.gherkin || !qualityLinterService.needsRefinement(testCase.quality)) {
+      return { testCase, usage: noUsage };
+    }
+
+    try {
+      const { id: _id, quality, source: _source, provenanceId: _provenanceId, requirementIds: _requirementIds, ...current } = testCase;
+      const refinement = await this.requestRefinement(provider, {
+        testCase: current,
+        instruction: qualityLinterService.toRefinementInstruction(quality),
+        rootPrompt: request.prompt,
+      });
+
+      const refinedQuality = qualityLinterService.lint(refinement.testCase);
+      if (refinedQuality.score <= quality.score) {
+        return { testCase, usage: refinement.usage };
+      }
+
+      console.log(`🧹 Auto-refined "${testCase.summary}" (quality ${quality.score} → ${refinedQuality.score})`);
+      return {
+        testCase: { ...testCase, ...refinement.testCase, quality: { ...refinedQuality, refined: true } },
+        usage: refinement.usage,
+      };
+    } catch (error) {
+      console.warn(`⚠️ Auto-refine failed for "${testCase.summary}":`, error instanceof Error ? error.message : error);
+      return { testCase, usage: noUsage };
+    }
+  }
+
+  /**
+   * Generate test cases as a token stream, yielding each test case as soon
+   * as its JSON object has been fully received from the model. With
+   * autoRefine, low-scoring test cases are rewritten before they are yielded;
+   * with a risk profile, they are yielded with their risk-based priority.
+   * @throws {ModelOutputError} If no valid test case could be produced
+   */
+  async *generateTestCasesStream(
+    request: TestGenerationRequest
+  ): AsyncGenerator<TestGenerationStreamEvent> {
+    if (!request.autoRefine && !request.riskProfile) {
+      yield* this.streamTestCases(request);
+      return;
+    }
+
+    const provider = this.withRequestOptions(getLLMProvider(request.provider), request);
+    let refinementUsage: LLMUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+
+    for await (const event of this.streamTestCases(request)) {
+      if (event.type !== "testCase") {
+        yield { ...event, usage: this.addUsage(event.usage, refinementUsage) };
+        continue;
+      }
+
+      const refined = await this.autoRefineTestCase(provider, request, event.testCase);
+      refinementUsage = this.addUsage(refinementUsage, refined.usage);
+      yield { ...event, testCase: this.applyRiskProfile(request, refined.testCase) };
+    }
+  }
+
+  private async *streamTestCases(
+    request: TestGenerationRequest
+  ): AsyncGenerator<TestGenerationStreamEvent> {
+    const {
+      prompt,
+      fileContent,
+      fileName,
+      fileType,
+      count = 10,
+      offset = 0,
+      format = "standard",
+    } = request;
+
+    const provider = this.withRequestOptions(getLLMProvider(request.provider), request);
+
+    // Large documents are generated chunk by chunk; each chunk's test cases
+    // are emitted as soon as that chunk is done
+    if (fileContent && documentPipelineService.needsChunking(fileContent)) {
+      yield* this.streamFromChunks(provider, request);
+      return;
+    }
+
+    const requirements = this.getRequirements(request);
+    const languages = this.getLanguages(request);
+    const messages = this.buildMessages(prompt, fileContent, fileName, fileType, count, offset, request.existingSummaries, format, requirements, languages);
+    const parser = new JsonArrayStreamParser();
+    const invalidItems: InvalidTestCaseItem[] = [];
+    let model = provider.getDefaultModel();
+    let usage: LLMUsage | undefined;
+    let completionText = "";
+    let emitted = 0;
+
+    console.log(`🤖 Streaming ${format} test cases with ${provider.name} provider...`);
+    console.log(`🔑 Using model: ${model}`);
+
+    const stream = provider.stream({
+      messages,
+      responseFormat: RESPONSE_FORMATS[format],
+    });
+
+    try {
+      for await (const chunk of stream) {
+        model = chunk.model || model;
+        if (chunk.usage) {
+          usage = chunk.usage;
+        }
+        if (!chunk.delta) continue;
+
+        completionText += chunk.delta;
+        for (const item of parser.push(chunk.delta)) {
+          const validation = validateTestCaseItem(item, format);
+          if (!validation.isValid || !validation.value) {
+            // Invalid items are repaired once the stream has finished
+            invalidItems.push({ item, errors: validation.errors });
+            continue;
+          }
+
+          yield {
+            type: "testCase",
+            testCase: this.toTestCase(validation.value, emitted, offset, requirements, languages.target),
+            index: emitted + 1,
+          };
+          emitted++;
+        }
+      }
+    } catch (error) {
+      if (!request.signal?.aborted) throw error;
+
+      // The stream ended before usage was reported: count the prompt and what was received
+      yield {
+        type: "cancelled",
+        totalGenerated: emitted,
+        provider: provider.name,
+        model,
+        usage: usage || this.estimateUsage(provider, messages, completionText),
+      };
+      return;
+    }
+
+    // Some OpenAI-compatible servers omit usage on streams; fall back to an estimate
+    const promptTokens = usage?.prompt_tokens ?? 0;
+    const completionTokens = usage?.completion_tokens ?? provider.countTokens(completionText);
+    let totalUsage: LLMUsage = usage || {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+    };
+
+    if (invalidItems.length > 0 || emitted === 0) {
+      const repairPrompt = emitted === 0 && invalidItems.length === 0
+        ? this.createJsonRepairPrompt("no complete test case objects were found")
+        : this.createItemRepairPrompt(invalidItems);
+
+      let repaired: RepairResult;
+      try {
+        repaired = await this.repairTestCases(provider, messages, completionText, repairPrompt, format);
+      } catch (error) {
+        if (!request.signal?.aborted) throw error;
+
+        yield { type: "cancelled", totalGenerated: emitted, provider: provider.name, model, usage: totalUsage };
+        return;
+      }
+      totalUsage = this.addUsage(totalUsage, repaired.usage);
+
+      for (const testCase of repaired.testCases) {
+        yield {
+          type: "testCase",
+          testCase: this.toTestCase(testCase, emitted, offset, requirements, languages.target),
+          index: emitted + 1,
+        };
+        emitted++;
+      }
+
+      if (emitted === 0) {
+        throw new ModelOutputError(
+          `No valid test cases could be produced by the ${provider.name} provider`,
+          [completionText, ...repaired.rawOutputs].join("\n---\n"),
+          repaired.errors
+        );
+      }
+    }
+
+    yield {
+      type: "complete",
+      totalGenerated: emitted,
+      hasMore: emitted >= count && offset + emitted < 50,
+      provider: provider.name,
+      model,
+      usage: totalUsage,
+    };
+  }
+
+  /**
+   * Map-reduce generation for large documents: generate per chunk, then
+   * merge, deduplicate and rank into one suite
+   */
+  private async generateFromChunks(
+    provider: LLMProvider,
+    request: TestGenerationRequest
+  ): Promise<TestGenerationResponse> {
+    const { count = 10, offset = 0 } = request;
+    const batches: TestCase[][] = [];
+    let usage: LLMUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+    let model = provider.getDefaultModel();
+    let totalChunks = 0;
+
+    const pipeline = this.runChunkPipeline(provider, request, total => { totalChunks = total; });
+    for await (const batch of pipeline) {
+      batches.push(batch.testCases);
+      usage = this.addUsage(usage, batch.usage);
+      model = batch.model;
+    }
+
+    const testCases = documentPipelineService
+      .mergeTestCases(batches, count)
+      .map((testCase, index) => ({ ...testCase, id: offset + index + 1 }));
+
+    return {
+      success: true,
+      testCases,
+      totalGenerated: testCases.length,
+      hasMore: testCases.length >= count && offset + testCases.length < 50,
+      provider: provider.name,
+      model,
+      usage,
+      chunksProcessed: batches.length,
+      chunksSkipped: totalChunks - batches.length,
+    };
+  }
+
+  /**
+   * Streaming variant of the chunk pipeline. Test cases are deduplicated
+   * against everything already emitted and stop at the requested count.
+   */
+  private async *streamFromChunks(
+    provider: LLMProvider,
+    request: TestGenerationRequest
+  ): AsyncGenerator<TestGenerationStreamEvent> {
+    const { count = 10, offset = 0, existingSummaries = [] } = request;
+    const emittedSummaries: string[] = [];
+    let usage: LLMUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+    let model = provider.getDefaultModel();
+
+    // The aborted request returned no usage; the pipeline reports an estimate of it instead
+    const pipeline = this.runChunkPipeline(provider, request, undefined, inFlight => { usage = this.addUsage(usage, inFlight); });
+
+    try {
+      for await (const batch of pipeline) {
+        usage = this.addUsage(usage, batch.usage);
+        model = batch.model;
+
+        for (const testCase of batch.testCases) {
+          if (emittedSummaries.length >= count) break;
+          if (deduplicationService.isDuplicate(testCase.summary, [...existingSummaries, ...emittedSummaries])) continue;
+
+          emittedSummaries.push(testCase.summary);
+          yield {
+            type: "testCase",
+            testCase: { ...testCase, id: offset + emittedSummaries.length },
+            index: emittedSummaries.length,
+          };
+        }
+
+        if (emittedSummaries.length >= count) break;
+      }
+    } catch (error) {
+      if (!request.signal?.aborted) throw error;
+
+      // The finished chunks plus an estimate of the chunk that was in flight
+      yield { type: "cancelled", totalGenerated: emittedSummaries.length, provider: provider.name, model, usage };
+      return;
+    }
+
+    yield {
+      type: "complete",
+      totalGenerated: emittedSummaries.length,
+      hasMore: emittedSummaries.length >= count && offset + emittedSummaries.length < 50,
+      provider: provider.name,
+      model,
+      usage,
+    };
+  }
+
+  /**
+   * Generate test cases for each document chunk in order until the
+   * per-request token budget is spent. When the request is aborted mid-chunk,
+   * `onAborted` receives the estimated usage of the chunk in flight.
+   */
+  private async *runChunkPipeline(
+    provider: LLMProvider,
+    request: TestGenerationRequest,
+    onChunked?: (totalChunks: number) => void,
+    onAborted?: (usage: LLMUsage) => void
+  ): AsyncGenerator<ChunkBatch> {
+    const { prompt, fileContent = "", count = 10, offset = 0, format = "standard" } = request;
+    const chunks = documentPipelineService.splitDocument(fileContent);
+    const requirements = this.getRequirements(request);
+    const languages = this.getLanguages(request);
+    onChunked?.(chunks.length);
+
+    const perChunkCount = this.getPerChunkCount(count, chunks.length);
+    const estimatedCompletionTokens = perChunkCount * COMPLETION_TOKENS_PER_TEST_CASE;
+    let spentTokens = 0;
+
+    console.log(`📚 Document split into ${chunks.length} chunks, ${perChunkCount} test cases per chunk`);
+
+    for (const chunk of chunks) {
+      // Only the requirements written in this chunk are offered for linking
+      const chunkRequirements = requirementService.filterMentionedIn(requirements, chunk.content);
+      const messages = this.buildChunkMessages(prompt, chunk, chunks.length, perChunkCount, offset, request.existingSummaries, format, chunkRequirements, languages);
+      const estimatedTokens = provider.countTokens(messages.map(m => m.content).join("\n")) + estimatedCompletionTokens;
+
+      if (spentTokens + estimatedTokens > this.tokenBudget) {
+        console.warn(`⚠️ Token budget of ${this.tokenBudget} reached, skipping ${chunks.length - chunk.index} remaining chunks`);
+        break;
+      }
+
+      let completion: LLMGenerateResult;
+      try {
+        completion = await provider.generate({
+          messages,
+          responseFormat: RESPONSE_FORMATS[format],
+        });
+      } catch (error) {
+        // The provider has already been sent the prompt, so it is charged even though no usage came back
+        if (request.signal?.aborted) onAborted?.(this.estimateUsage(provider, messages, ""));
+        throw error;
+      }
+
+      let validated: RepairResult;
+      try {
+        validated = await this.validateWithRepair(provider, messages, completion.content, format);
+      } catch (error) {
+        // Aborted during a repair: the chunk's completion plus the repair prompt, which resends the messages
+        if (request.signal?.aborted) onAborted?.(this.addUsage(completion.usage, this.estimateUsage(provider, messages, "")));
+        // One unusable chunk should not fail the whole document
+        if (!(error instanceof ModelOutputError)) throw error;
+        console.warn(`⚠️ No valid test cases for ${chunk.id} (${chunk.title}):`, error.validationErrors);
+        validated = { testCases: [], rawOutputs: [], errors: error.validationErrors, usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 } };
+      }
+
+      const usage = this.addUsage(completion.usage, validated.usage);
+      spentTokens += usage.total_tokens || estimatedTokens;
+
+      const source: TestCaseSource = { chunkId: chunk.id, chunkTitle: chunk.title, fileId: chunk.fileId };
+      yield {
+        chunk,
+        testCases: validated.testCases.map((testCase, index) => ({
+          ...this.toTestCase(testCase, index, offset, chunkRequirements, languages.target),
+          source,
+        })),
+        model: completion.model,
+        usage,
+      };
+    }
+  }
+
+  /**
+   * Bind the abort signal and the model and parameter overrides of a
+   * generation to every request made through the provider, including repair
+   * and per-chunk calls, and report each request to `onExchange`
+   */
+  private withRequestOptions(provider: LLMProvider, options: TestGenerationRequest): LLMProvider {
+    const { signal, model, temperature, maxTokens, onExchange } = options;
+    if (!signal && !model && temperature === undefined && maxTokens === undefined && !onExchange) return provider;
+
+    const overrides = {
+      ...(signal ? { signal } : {}),
+      ...(model ? { model } : {}),
+      ...(temperature !== undefined ? { temperature } : {}),
+      ...(maxTokens !== undefined ? { maxTokens } : {}),
+    };
+
+    const bound: LLMProvider = Object.create(provider);
+    bound.getDefaultModel = () => model || provider.getDefaultModel();
+    bound.generate = async request => {
+      const startedAt = Date.now();
+      try {
+        const result = await provider.generate({ ...request, ...overrides });
+        onExchange?.(this.toExchange(request.messages, result.content, result.model, startedAt, result.usage));
+        return result;
+      } catch (error) {
+        onExchange?.(this.toExchange(request.messages, "", bound.getDefaultModel(), startedAt, undefined, error));
+        throw error;
+      }
+    };
+    bound.stream = request => onExchange
+      ? this.recordStream(provider.stream({ ...request, ...overrides }), request.messages, bound.getDefaultModel(), onExchange)
+      : provider.stream({ ...request, ...overrides });
+    return bound;
+  }
+
+  /**
+   * Pass a model stream through, reporting the text received once it ends,
+   * fails or is abandoned by the consumer
+   */
+  private async *recordStream(
+    stream: AsyncIterable<LLMStreamChunk>,
+    messages: LLMMessage[],
+    defaultModel: string,
+    onExchange: (exchange: ProvenanceExchange) => void
+  ): AsyncGenerator<LLMStreamChunk> {
+    const startedAt = Date.now();
+    let content = "";
+    let model = defaultModel;
+    let usage: LLMUsage | undefined;
+    let failure: unknown;
+
+    try {
+      for await (const chunk of stream) {
+        content += chunk.delta;
+        model = chunk.model || model;
+        usage = chunk.usage || usage;
+        yield chunk;
+      }
+    } catch (error) {
+      failure = error;
+      throw error;
+    } finally {
+      onExchange(this.toExchange(messages, content, model, startedAt, usage, failure));
+    }
+  }
+
+  private toExchange(
+    messages: LLMMessage[],
+    response: string,
+    model: string,
+    startedAt: number,
+    usage?: LLMUsage,
+    error?: unknown
+  ): ProvenanceExchange {
+    return {
+      // Only repair requests carry the model's previous reply
+      kind: messages.some(message => message.role === "assistant") ? "repair" : "generation",
+      messages,
+      response,
+      model,
+      usage,
+      latencyMs: Date.now() - startedAt,
+      ...(error ? { error: error instanceof Error ? error.message : String(error) } : {}),
+    };
+  }
+
+  /**
+   * Send recorded model requests again, e.g. to another model, and validate
+   * the replies the same way as the original generation
+   */
+  async replayGeneration(
+    conversations: LLMMessage[][],
+    request: Pick<TestGenerationRequest, "provider" | "model" | "temperature" | "maxTokens" | "format" | "onExchange">
+  ): Promise<TestGenerationResponse> {
+    try {
+      const { format = "standard" } = request;
+      const provider = this.withRequestOptions(getLLMProvider(request.provider), { prompt: "", ...request });
+      const testCases: TestCase[] = [];
+      let usage: LLMUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+      let model = provider.getDefaultModel();
+
+      console.log(`🔁 Replaying ${conversations.length} model requests with ${provider.name}/${model}`);
+
+      for (const messages of conversations) {
+        const completion = await provider.generate({
+          messages,
+          responseFormat: RESPONSE_FORMATS[format],
+        });
+        model = completion.model;
+
+        let validated: RepairResult;
+        try {
+          validated = await this.validateWithRepair(provider, messages, completion.content, format);
+        } catch (error) {
+          // Like a document chunk, one unusable reply should not fail the whole replay
+          if (!(error instanceof ModelOutputError)) throw error;
+          validated = { testCases: [], rawOutputs: [], errors: error.validationErrors, usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 } };
+        }
+
+        usage = this.addUsage(usage, this.addUsage(completion.usage, validated.usage));
+        testCases.push(...validated.testCases.map((testCase, index) => this.toTestCase(testCase, testCases.length + index, 0)));
+      }
+
+      return {
+        success: true,
+        testCases,
+        totalGenerated: testCases.length,
+        hasMore: false,
+        provider: provider.name,
+        model,
+        usage,
+      };
+    } catch (error) {
+      console.error("❌ LLM provider error:", error);
+      return {
+        success: false,
+        testCases: [],
+        totalGenerated: 0,
+        hasMore: false,
+        error: error instanceof Error ? error.message : "Unknown error occurred",
+      };
+    }
+  }
+
+  /**
+   * Translate existing test cases into another language, a batch per model
+   * request. Only the text is sent to the model; ids, hierarchy, priorities,
+   * requirement links and every other field are kept from the originals.
+   */
+  async translateTestCases<T extends TranslatableTestCase>(
+    request: TestCaseTranslationRequest<T>
+  ): Promise<TestCaseTranslationResponse<T>> {
+    try {
+      const { testCases, targetLanguage, sourceLanguage } = request;
+      const provider = getLLMProvider(request.provider);
+      const translations = new Map<T, T>();
+      const rawOutputs: string[] = [];
+      const errors: string[] = [];
+      let usage: LLMUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+      let model = provider.getDefaultModel();
+
+      console.log(`🌐 Translating ${testCases.length} test cases into ${LANGUAGES[targetLanguage].name} with ${provider.name} provider...`);
+
+      // Gherkin scenarios are sent in their own batches so each batch has one reply format
+      for (const format of ["standard", "gherkin"] as const) {
+        const ofFormat = testCases.filter(testCase => Boolean(testCase.gherkin) === (format === "gherkin"));
+
+        for (let start = 0; start < ofFormat.length; start += TRANSLATION_BATCH_SIZE) {
+          const batch = ofFormat.slice(start, start + TRANSLATION_BATCH_SIZE);
+          const messages: LLMMessage[] = [
+            { role: "system", content: this.createSystemPrompt(format) },
+            { role: "user", content: this.createTranslatePrompt(batch, format, targetLanguage, sourceLanguage) },
+          ];
+
+          const completion = await provider.generate({
+            messages,
+            responseFormat: RESPONSE_FORMATS[format],
+          });
+          model = completion.model;
+          usage = this.addUsage(usage, completion.usage);
+
+          let validated: RepairResult;
+          try {
+            validated = await this.validateWithRepair(provider, messages, completion.content, format);
+          } catch (error) {
+            // Like a document chunk, one unusable batch should not fail the whole translation
+            if (!(error instanceof ModelOutputError)) throw error;
+            rawOutputs.push(error.rawOutput);
+            errors.push(...error.validationErrors);
+            continue;
+          }
+          usage = this.addUsage(usage, validated.usage);
+
+          // Batch items are numbered from 1, so the id leads back to the original
+          for (const translation of validated.testCases) {
+            const original = translation.id !== undefined ? batch[translation.id - 1] : undefined;
+            if (!original || translations.has(original)) continue;
+
+            const translated = this.mergeTranslation(original, translation, targetLanguage);
+            if (translated) translations.set(original, translated);
+          }
+        }
+      }
+
+      if (testCases.length > 0 && translations.size === 0) {
+        throw new ModelOutputError(
+          `No test cases could be translated by the ${provider.name} provider`,
+          rawOutputs.join("\n---\n"),
+          errors
+        );
+      }
+
+      const untranslatedIds = testCases.filter(testCase => !translations.has(testCase)).map(testCase => testCase.id);
+      if (untranslatedIds.length > 0) {
+        console.warn(`⚠️ ${untranslatedIds.length} test cases were left untranslated: ${untranslatedIds.join(", ")}`);
+      }
+
+      return {
+        success: true,
+        testCases: testCases.map(testCase => translations.get(testCase) || testCase),
+        untranslatedIds,
+        provider: provider.name,
+        model,
+        usage,
       };
+    } catch (error) {
+      console.error("❌ LLM provider error:", error);
+      return {
+        success: false,
+        testCases: [],
+        untranslatedIds: [],
+        error: error instanceof Error ? error.message : "Unknown error occurred",
+        ...(error instanceof ModelOutputError
+          ? { errorCode: error.code, rawOutput: error.rawOutput }
+          : {}),
+      };
+    }
+  }
+
+  /**
+   * Put the translated text into the original test case. A translated
+   * scenario must keep its keywords and example columns, otherwise it would
+   * describe a different test; such translations are discarded.
+   */
+  private mergeTranslation<T extends TranslatableTestCase>(
+    original: T,
+    translation: ValidatedTestCase,
+    language: LanguageCode
+  ): T | undefined {
+    const relint = (text: Pick<TranslatableTestCase, "summary" | "precondition" | "steps" | "expectedResult">) =>
+      original.quality ? { quality: qualityLinterService.lint(text) } : {};
+
+    if (!original.gherkin) {
+      const { summary, precondition, steps, expectedResult } = translation;
+      const text = { summary, precondition, steps, expectedResult };
+      return { ...original, ...text, ...relint(text) };
+    }
+
+    const scenario = translation.gherkin;
+    const keywords = (gherkin: GherkinScenario) => gherkin.steps.map(step => step.keyword).join(" ");
+    const headers = (gherkin: GherkinScenario) => (gherkin.examples?.headers || []).join("|");
+    if (!scenario || scenario.type !== original.gherkin.type || keywords(scenario) !== keywords(original.gherkin) || headers(scenario) !== headers(original.gherkin)) {
+      return undefined;
+    }
+
+    const gherkin: GherkinScenario = { ...scenario, tags: original.gherkin.tags };
+    const { summary, precondition, steps, expectedResult } = gherkinToTestCaseFields(gherkin, language);
+    const text = { summary, precondition, steps, expectedResult };
+    return { ...original, ...text, gherkin, ...relint(text) };
+  }
+
+  /**
+   * Calculate the cost of a generation using the provider's pricing
+   */
+  calculateCost(providerName: string | undefined, model: string, usage: LLMUsage): number {
+    const pricing = getLLMProvider(providerName).getPricing(model);
+    return (usage.prompt_tokens * pricing.inputCostPerToken) + (usage.completion_tokens * pricing.outputCostPerToken);
+  }
+
+  /**
+   * Project the tokens and cost of a generation request without calling the
+   * model, building exactly the messages generation would send
+   */
+  estimateGeneration(request: TestGenerationRequest): GenerationEstimate {
+    const { prompt, fileContent, fileName, fileType, count = 10, offset = 0, format = "standard" } = request;
+    const provider = this.withRequestOptions(getLLMProvider(request.provider), request);
+    const model = provider.getDefaultModel();
+    const requirements = this.getRequirements(request);
+    const languages = this.getLanguages(request);
+    const perCase = ESTIMATED_COMPLETION_TOKENS[format];
+
+    let promptTokens = 0;
+    let casesRequested = count;
+    let chunksCovered = 1;
+    let chunksSkipped = 0;
+
+    if (fileContent && documentPipelineService.needsChunking(fileContent)) {
+      // Mirror the chunk pipeline, including where the token budget cuts it off
+      const chunks = documentPipelineService.splitDocument(fileContent);
+      const perChunkCount = this.getPerChunkCount(count, chunks.length);
+      let spentTokens = 0;
+      chunksCovered = 0;
+
+      for (const chunk of chunks) {
+        const chunkRequirements = requirementService.filterMentionedIn(requirements, chunk.content);
+        const messages = this.buildChunkMessages(prompt, chunk, chunks.length, perChunkCount, offset, request.existingSummaries, format, chunkRequirements, languages);
+        const chunkPromptTokens = countMessageTokens(messages, model);
+        const estimatedTokens = chunkPromptTokens + perChunkCount * COMPLETION_TOKENS_PER_TEST_CASE;
+
+        if (spentTokens + estimatedTokens > this.tokenBudget) break;
+
+        spentTokens += estimatedTokens;
+        promptTokens += chunkPromptTokens;
+        chunksCovered++;
+      }
+
+      casesRequested = perChunkCount * chunksCovered;
+      chunksSkipped = chunks.length - chunksCovered;
+    } else {
+      const messages = this.buildMessages(prompt, fileContent, fileName, fileType, count, offset, request.existingSummaries, format, requirements, languages);
+      promptTokens = countMessageTokens(messages, model);
     }
+
+    // A max-tokens override caps what each model request can return
+    const completionCap = request.maxTokens !== undefined ? request.maxTokens * chunksCovered : Infinity;
+    const completionTokens = {
+      min: Math.min(casesRequested * perCase.min, completionCap),
+      max: Math.min(casesRequested * perCase.max, completionCap),
+    };
+    const pricing = provider.getPricing(model);
+    const costOf = (completion: number) =>
+      promptTokens * pricing.inputCostPerToken + completion * pricing.outputCostPerToken;
+
+    return {
+      provider: provider.name,
+      model,
+      format,
+      count,
+      promptTokens,
+      completionTokens,
+      totalTokens: { min: promptTokens + completionTokens.min, max: promptTokens + completionTokens.max },
+      cost: { min: costOf(completionTokens.min), max: costOf(completionTokens.max), currency: pricing.currency },
+      chunks: chunksCovered,
+      chunksSkipped,
+    };
+  }
+
+  /**
+   * Over-generate per chunk so deduplication still leaves enough cases
+   */
+  private getPerChunkCount(count: number, totalChunks: number): number {
+    return Math.min(count, Math.max(2, Math.ceil((count * 1.5) / totalChunks)));
+  }
+
+  /**
+   * Validate a complete model reply, asking the model to repair invalid
+   * JSON or invalid items
+   * @throws {ModelOutputError} If no valid test case remains after repair
+   */
+  private async validateWithRepair(
+    provider: LLMProvider,
+    messages: LLMMessage[],
+    response: string,
+    format: TestCaseFormat = "standard"
+  ): Promise<RepairResult> {
+    let items: unknown[] | null = null;
+    let parseError = "";
+
+    try {
+      items = extractTestCaseItems(response);
+    } catch (error) {
+      parseError = error instanceof Error ? error.message : "invalid JSON";
+    }
+
+    const { valid, invalid } = this.partitionItems(items || [], format);
+    const result: RepairResult = {
+      testCases: valid,
+      rawOutputs: [response],
+      errors: invalid.flatMap(i => i.errors),
+      usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+    };
+
+    if (items && invalid.length === 0 && valid.length > 0) {
+      return result;
+    }
+
+    const repairPrompt = invalid.length > 0
+      ? this.createItemRepairPrompt(invalid)
+      : this.createJsonRepairPrompt(parseError || "the reply contained no test cases");
+    const repaired = await this.repairTestCases(provider, messages, response, repairPrompt, format);
+
+    result.testCases.push(...repaired.testCases);
+    result.rawOutputs.push(...repaired.rawOutputs);
+    result.errors = repaired.errors;
+    result.usage = repaired.usage;
+
+    if (result.testCases.length === 0) {
+      throw new ModelOutputError(
+        `No valid test cases could be produced by the ${provider.name} provider`,
+        result.rawOutputs.join("\n---\n"),
+        result.errors
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Bounded repair loop: send the previous reply back with the problems
+   * found and collect every valid test case the model returns
+   */
+  private async repairTestCases(
+    provider: LLMProvider,
+    messages: LLMMessage[],
+    previousOutput: string,
+    repairPrompt: string,
+    format: TestCaseFormat = "standard"
+  ): Promise<RepairResult> {
+    const result: RepairResult = {
+      testCases: [],
+      rawOutputs: [],
+      errors: [],
+      usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+    };
+
+    let lastOutput = previousOutput;
+    let prompt = repairPrompt;
+
+    for (let attempt = 1; attempt <= this.maxRepairAttempts; attempt++) {
+      console.warn(`🔧 Repairing model output (attempt ${attempt}/${this.maxRepairAttempts})`);
+
+      const completion = await provider.generate({
+        messages: [
+          ...messages,
+          { role: "assistant", content: lastOutput },
+          { role: "user", content: prompt },
+        ],
+        responseFormat: RESPONSE_FORMATS[format],
+      });
+
+      result.usage = this.addUsage(result.usage, completion.usage);
+      result.rawOutputs.push(completion.content);
+      lastOutput = completion.content;
+
+      let items: unknown[];
+      try {
+        items = extractTestCaseItems(completion.content);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "invalid JSON";
+        result.errors = [message];
+        prompt = this.createJsonRepairPrompt(message);
+        continue;
+      }
+
+      const { valid, invalid } = this.partitionItems(items, format);
+      result.testCases.push(...valid);
+      result.errors = invalid.flatMap(i => i.errors);
+
+      if (invalid.length === 0) {
+        break;
+      }
+
+      prompt = this.createItemRepairPrompt(invalid);
+    }
+
+    if (result.errors.length > 0) {
+      console.warn(`⚠️ Dropping test cases that are still invalid after repair: ${result.errors.join("; ")}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Split parsed items into valid test cases and items with errors
+   */
+  private partitionItems(
+    items: unknown[],
+    format: TestCaseFormat = "standard"
+  ): { valid: ValidatedTestCase[]; invalid: InvalidTestCaseItem[] } {
+    const valid: ValidatedTestCase[] = [];
+    const invalid: InvalidTestCaseItem[] = [];
+
+    for (const item of items) {
+      const validation = validateTestCaseItem(item, format);
+      if (validation.isValid && validation.value) {
+        valid.push(validation.value);
+      } else {
+        invalid.push({ item, errors: validation.errors });
+      }
+    }
+
+    return { valid, invalid };
+  }
+
+  private createJsonRepairPrompt(problem: string): string {
+    return `Your previous reply could not be used (${problem}).
+Reply again with only the JSON object {"testCases":[...]} in the required format. JSON only, no explanations.`;
+  }
+
+  private createItemRepairPrompt(invalid: InvalidTestCaseItem[]): string {
+    return `These test cases from your previous reply are invalid:
+${JSON.stringify(invalid.map(i => ({ testCase: i.item, errors: i.errors })))}
+Return only the corrected test cases as {"testCases":[...]}, fixing every listed error. JSON only, no explanations.`;
+  }
+
+  /**
+   * Estimate usage from the prompt and the completion text received so far
+   */
+  private estimateUsage(provider: LLMProvider, messages: LLMMessage[], completionText: string): LLMUsage {
+    const promptTokens = provider.countTokens(messages.map(m => m.content).join("\n"));
+    const completionTokens = provider.countTokens(completionText);
+    return {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+    };
+  }
+
+  private addUsage(a: LLMUsage, b: LLMUsage): LLMUsage {
+    return {
+      prompt_tokens: a.prompt_tokens + b.prompt_tokens,
+      completion_tokens: a.completion_tokens + b.completion_tokens,
+      total_tokens: a.total_tokens + b.total_tokens,
+    };
+  }
+
+  /**
+   * Build the chat messages for a generation request
+   */
+  private buildMessages(
+    prompt: string,
+    fileContent: string | undefined,
+    fileName: string | undefined,
+    fileType: string | undefined,
+    count: number,
+    offset: number,
+    existingSummaries: string[] = [],
+    format: TestCaseFormat = "standard",
+    requirements: Requirement[] = [],
+    languages?: GenerationLanguages
+  ): LLMMessage[] {
+    const context = this.buildContext(prompt, fileContent, fileName, fileType);
+
+    return [
+      { role: "system", content: this.createSystemPrompt(format, languages) },
+      { role: "user", content: this.createUserPrompt(context, count, offset, existingSummaries, format, requirements) },
+    ];
+  }
+
+  /**
+   * Build the chat messages for one chunk of a large document
+   */
+  private buildChunkMessages(
+    prompt: string,
+    chunk: DocumentChunk,
+    totalChunks: number,
+    count: number,
+    offset: number,
+    existingSummaries: string[] = [],
+    format: TestCaseFormat = "standard",
+    requirements: Requirement[] = [],
+    languages?: GenerationLanguages
+  ): LLMMessage[] {
+    const context = `Test cases for: ${prompt}
+Document section ${chunk.index + 1} of ${totalChunks}: ${chunk.title}
+Only cover behaviour described in this section.
+${chunk.content}`;
+
+    return [
+      { role: "system", content: this.createSystemPrompt(format, languages) },
+      { role: "user", content: this.createUserPrompt(context, count, offset, existingSummaries, format, requirements) },
+    ];
   }
 
   /**
@@ -136,13 +1332,9 @@ class OpenAIService {
   ): string {
     let context = `Test cases for: ${prompt}`;
 
-    if (fileContent && fileName) {
-      // Truncate file content to save tokens (keep first 2000 chars)
-      const truncatedContent = fileContent.length > 2000 
-        ? fileContent.substring(0, 2000) + "...[truncated]"
-        : fileContent;
-      
-      context += `\nFile: ${fileName} (${fileType || "Unknown"})\n${truncatedContent}`;
+    // Content larger than one chunk never reaches here, see generateFromChunks
+    if (fileContent) {
+      context += `\nFile: ${fileName || "Uploaded files"} (${fileType || "Unknown"})\n${fileContent}`;
     }
 
     return context;
@@ -151,10 +1343,39 @@ class OpenAIService {
   /**
    * Create system prompt for test case generation
    */
-  private createSystemPrompt(): string {
-    return `QA test generator. Return JSON array only.
-Format: [{"id":n,"summary":"text","precondition":"text","steps":"1. Action\\n2. Verify","expectedResult":"text","priority":"P1|P2|P3"}]
-Priorities: P1=critical, P2=important, P3=optional. JSON only, no explanations.`;
+  private createSystemPrompt(format: TestCaseFormat = "standard", languages?: GenerationLanguages): string {
+    const language = languages ? this.createLanguageInstruction(format, languages) : "";
+
+    if (format === "gherkin") {
+      return `QA test generator writing BDD scenarios in Gherkin. Return a JSON object only.
+Format: ${GHERKIN_JSON_EXAMPLE}
+Steps start with Given, When or Then; And/But continue the previous keyword. Every scenario needs at least one When and one Then.
+Use "Scenario Outline" with <placeholders> in the steps and an examples table whose headers match them for data-driven cases, otherwise "Scenario" with examples null.
+Priorities: P1=critical, P2=important, P3=optional. JSON only, no explanations.${language}`;
+    }
+
+    return `QA test generator. Return a JSON object only.
+Format: ${STANDARD_JSON_EXAMPLE}
+Priorities: P1=critical, P2=important, P3=optional. JSON only, no explanations.${language}`;
+  }
+
+  /**
+   * Tell the model which language to write in. English generation from
+   * English documents needs no instruction, so those prompts stay unchanged.
+   */
+  private createLanguageInstruction(format: TestCaseFormat, { target, sources }: GenerationLanguages): string {
+    const foreign = sources.filter(code => code !== target);
+    if (target === "en" && foreign.length === 0) return "";
+
+    const documents = foreign.length > 0
+      ? `The documents are written in ${foreign.map(code => LANGUAGES[code].name).join(" and ")}. `
+      : "";
+    const english = format === "gherkin"
+      ? "JSON keys, the Given/When/Then/And/But keywords and priorities"
+      : "JSON keys and priorities";
+    const keep = target === "en" ? "" : `; keep ${english} in English`;
+
+    return `\n${documents}Write ${TRANSLATED_FIELDS[format]} in ${LANGUAGES[target].name}${keep}.`;
   }
 
   /**
@@ -163,98 +1384,147 @@ Priorities: P1=critical, P2=important, P3=optional. JSON only, no explanations.`
   private createUserPrompt(
     context: string,
     count: number,
-    offset: number
+    offset: number,
+    existingSummaries: string[] = [],
+    format: TestCaseFormat = "standard",
+    requirements: Requirement[] = []
   ): string {
+    const digest = deduplicationService.buildDigest(existingSummaries);
+    const requirementList = requirementService.describeForPrompt(requirements);
+
     return `Generate ${count} test cases (IDs ${offset + 1}-${offset + count}).
 
 ${context}
-
-JSON format: [{"id":n,"summary":"text","precondition":"text","steps":"1. Action\\n2. Verify","expectedResult":"text","priority":"P1|P2|P3"}]
+${requirementList ? `\nRequirements, put the IDs each test case verifies in requirementIds ([] if none):\n${requirementList}\n` : ""}${digest ? `\nAlready covered, do not repeat or rephrase these:\n${digest}\n` : ""}
+JSON format: ${format === "gherkin" ? GHERKIN_JSON_EXAMPLE : STANDARD_JSON_EXAMPLE}
 Focus: P1 first, then P2, then P3.`;
   }
 
   /**
-   * Parse OpenAI response to extract test cases
+   * Create user prompt for refining one test case
    */
-  private parseTestCasesResponse(response: string, offset: number): TestCase[] {
-    try {
-      // Clean the response - remove any markdown formatting or extra text
-      let cleanResponse = response.trim();
-
-      // Remove markdown code blocks if present
-      if (cleanResponse.startsWith("```json")) {
-        cleanResponse = cleanResponse
-          .replace(/^```json\s*/, "")
-          .replace(/\s*```$/, "");
-      } else if (cleanResponse.startsWith("```")) {
-        cleanResponse = cleanResponse
-          .replace(/^```\s*/, "")
-          .replace(/\s*```$/, "");
-      }
+  private createRefinePrompt(request: TestCaseRefinementRequest): string {
+    const { testCase, instruction, rootPrompt, ancestors = [] } = request;
+    const context = [
+      rootPrompt ? `Feature: ${rootPrompt}` : "",
+      ancestors.length > 0 ? `Parent test cases: ${ancestors.join(" > ")}` : "",
+    ].filter(Boolean).join("\n");
 
-      // Try to find JSON array in the response
-      const jsonMatch = cleanResponse.match(/\[[\s\S]*\]/);
-      if (jsonMatch) {
-        cleanResponse = jsonMatch[0];
-      }
+    return `Rewrite this test case following the instruction. Return exactly 1 test case with id 1.
+${context ? `\n${context}\n` : ""}
+Current test case: ${JSON.stringify(testCase)}
+Instruction: ${instruction}
 
-      const testCases = JSON.parse(cleanResponse);
+Keep what the instruction does not ask to change, and write in the language of the current test case.
+JSON format: {"testCases":[{"id":1,"summary":"text","precondition":"text","steps":"1. Action\\n2. Verify","expectedResult":"text","priority":"P1|P2|P3"}]}`;
+  }
 
-      if (!Array.isArray(testCases)) {
-        throw new Error("Response is not an array");
-      }
+  /**
+   * Create user prompt for translating a batch of test cases. Only the text
+   * is sent, numbered by position in the batch.
+   */
+  private createTranslatePrompt(
+    batch: TranslatableTestCase[],
+    format: TestCaseFormat,
+    targetLanguage: LanguageCode,
+    sourceLanguage?: LanguageCode
+  ): string {
+    const items = batch.map((testCase, index) => testCase.gherkin
+      ? {
+          id: index + 1,
+          feature: testCase.gherkin.feature,
+          scenario: testCase.gherkin.name,
+          type: testCase.gherkin.type,
+          tags: testCase.gherkin.tags,
+          steps: testCase.gherkin.steps,
+          examples: testCase.gherkin.examples ?? null,
+          priority: testCase.priority,
+          requirementIds: [],
+        }
+      : {
+          id: index + 1,
+          summary: testCase.summary,
+          precondition: testCase.precondition,
+          steps: testCase.steps,
+          expectedResult: testCase.expectedResult,
+          priority: testCase.priority,
+          requirementIds: [],
+        });
+    const unchanged = format === "gherkin"
+      ? "ids, JSON keys, the Given/When/Then/And/But keywords, tags, <placeholders>, examples headers and priorities"
+      : "ids, JSON keys, priorities and step numbering";
+    const from = sourceLanguage ? `from ${LANGUAGES[sourceLanguage].name} ` : "";
 
-      // Validate and clean test cases
-      return testCases.map((testCase: any, index: number) => ({
-        id: testCase.id || offset + index + 1,
-        summary: testCase.summary || `Test case ${offset + index + 1}`,
-        precondition: testCase.precondition || "No specific preconditions",
-        steps: testCase.steps || "1. Execute test",
-        expectedResult: testCase.expectedResult || "Test should pass",
-        priority: this.validatePriority(testCase.priority) || "P2",
-      }));
-    } catch (error) {
-      console.error("❌ Error parsing OpenAI response:", error);
-      console.error("Raw response:", response);
-
-      // Fallback: create a basic test case
-      return [
-        {
-          id: offset + 1,
-          summary: "Generated test case (parsing failed)",
-          precondition: "System is ready for testing",
-          steps: "1. Execute the test scenario\n2. Verify the results",
-          expectedResult: "Test should complete successfully",
-          priority: "P2" as const,
-        },
-      ];
-    }
+    return `Translate these ${batch.length} test cases ${from}into ${LANGUAGES[targetLanguage].name} (${targetLanguage}). Return every test case.
+Translate the ${TRANSLATED_FIELDS[format]}; keep ${unchanged} unchanged. Keep the meaning, do not add or drop steps.
+Test cases to translate: ${JSON.stringify(items)}
+JSON format: ${format === "gherkin" ? GHERKIN_JSON_EXAMPLE : STANDARD_JSON_EXAMPLE}`;
   }
 
   /**
-   * Validate and normalize priority values
+   * Convert a validated test case into the API shape with a sequential id
    */
-  private validatePriority(priority: any): "P1" | "P2" | "P3" | null {
-    if (typeof priority === "string") {
-      const normalized = priority.toUpperCase().trim();
-      if (normalized === "P1" || normalized === "P2" || normalized === "P3") {
-        return normalized as "P1" | "P2" | "P3";
-      }
-    }
-    return null;
+  private toTestCase(
+    validated: ValidatedTestCase,
+    index: number,
+    offset: number,
+    requirements: Requirement[] = [],
+    language: LanguageCode = "en"
+  ): TestCase {
+    // A scenario without Given steps gets the target language's "no precondition"
+    const testCase = validated.gherkin
+      ? { ...validated, precondition: gherkinToTestCaseFields(validated.gherkin, language).precondition }
+      : validated;
+    const text = [testCase.summary, testCase.precondition, testCase.steps, testCase.expectedResult].join("\n");
+
+    return {
+      id: offset + index + 1,
+      summary: testCase.summary,
+      precondition: testCase.precondition,
+      steps: testCase.steps,
+      expectedResult: testCase.expectedResult,
+      priority: testCase.priority,
+      ...(testCase.gherkin ? { gherkin: testCase.gherkin } : {}),
+      ...(requirements.length > 0
+        ? { requirementIds: requirementService.linkRequirements(testCase.requirementIds, text, requirements) }
+        : {}),
+      quality: qualityLinterService.lint(testCase),
+    };
   }
 
   /**
-   * Optimize extracted content to reduce token usage
+   * Requirements the test cases can be linked to: given by the caller or
+   * found in the uploaded documents
    */
-  private optimizeContent(content: string, maxLength: number = 2000): string {
+  private getRequirements(request: TestGenerationRequest): Requirement[] {
+    return request.requirements ?? requirementService.extract(request.fileContent || "");
+  }
+
+  /**
+   * Language to write in and languages of the documents: given by the
+   * caller or detected in the uploaded content
+   */
+  private getLanguages(request: TestGenerationRequest): GenerationLanguages {
+    const detected = request.sourceLanguages ? undefined : detectLanguage(request.fileContent || "");
+
+    return {
+      target: request.language || "en",
+      sources: request.sourceLanguages ?? (detected ? [detected.code] : []),
+    };
+  }
+
+  /**
+   * Cap extracted content so a single upload cannot exhaust memory.
+   * Token usage is controlled later by the chunked document pipeline.
+   */
+  private optimizeContent(content: string, maxLength: number = this.maxDocumentChars): string {
     if (content.length <= maxLength) {
       return content;
     }
     
     // Truncate and add note about length
     const truncated = content.substring(0, maxLength);
-    return `${truncated}\n\n[Content truncated - original length: ${content.length} characters. Only first ${maxLength} characters shown to optimize token usage.]`;
+    return `${truncated}\n\n[Content truncated - original length: ${content.length} characters. Only first ${maxLength} characters kept.]`;
   }
 
   /**
@@ -272,9 +1542,27 @@ Focus: P1 first, then P2, then P3.`;
         case "txt":
           return this.optimizeContent(buffer.toString("utf-8"));
 
+        case "json":
+        case "yaml":
+        case "yml": {
+          // OpenAPI / Swagger specs are described endpoint by endpoint instead of sent as raw text
+          const raw = buffer.toString("utf-8");
+          const spec = openApiService.parseDocument(raw);
+          return this.optimizeContent(spec ? openApiService.describeSpec(openApiService.getSpecSummary(spec)) : raw);
+        }
+
         case "pdf":
           const pdfParse = require("pdf-parse");
-          const pdfData = await pdfParse(buffer);
+          let pageNumber = 0;
+          // Prefix every page with a marker so the document pipeline can split on pages
+          const pdfData = await pdfParse(buffer, {
+            pagerender: async (pageData: any) => {
+              const textContent = await pageData.getTextContent();
+              const pageText = textContent.items.map((item: any) => item.str).join(" ");
+              pageNumber++;
+              return `=== Page ${pageNumber} ===\n${pageText}`;
+            },
+          });
           return this.optimizeContent(pdfData.text);
 
         case "docx":
@@ -289,7 +1577,7 @@ Focus: P1 first, then P2, then P3.`;
           let text = "";
           workbook.SheetNames.forEach((sheetName: string) => {
             const worksheet = workbook.Sheets[sheetName];
-            text += XLSX.utils.sheet_to_txt(worksheet) + "\n";
+            text += `=== Sheet: ${sheetName} ===\n` + XLSX.utils.sheet_to_txt(worksheet) + "\n";
           });
           return this.optimizeContent(text);
 
@@ -1,3 +1,4 @@
+import mongoose from 'mongoose';
 import OpenAITokenUsage, { IOpenAITokenUsage } from '../models/openaiTokenUsage';
 
 export interface OpenAIUsageData {
@@ -69,6 +70,21 @@ class OpenAITokenService {
         }
     }
 
+    /**
+     * Tokens a user has used since a point in time, e.g. the start of the day
+     */
+    async getUserTokensSince(userId: string, since: Date): Promise<number> {
+        if (!mongoose.Types.ObjectId.isValid(userId)) return 0;
+
+        // Aggregation does not cast, so the ID is converted here
+        const result = await OpenAITokenUsage.aggregate([
+            { $match: { userId: new mongoose.Types.ObjectId(userId), isActive: true, timestamp: { $gte: since } } },
+            { $group: { _id: null, totalTokens: { $sum: '$totalTokens' } } }
+        ]);
+
+        return result[0]?.totalTokens || 0;
+    }
+
     /**
      * Get admin dashboard statistics
      */
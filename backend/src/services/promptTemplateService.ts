@@ -0,0 +1,239 @@
+import mongoose from 'mongoose';
+import PromptTemplateModel, { IPromptTemplate } from '../models/promptTemplate';
+import { createError } from '../middlewares/errorHandler';
+import {
+  PromptTemplate,
+  PromptTemplateInput,
+  PromptTemplateVariable,
+  TemplatePromptRequest,
+  TemplateUser
+} from '../types/promptTemplate';
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z][A-Za-z0-9_]*)\s*\}\}/g;
+const PRESET_PREFIX = 'preset:';
+const MAX_VALUE_LENGTH = 500;
+
+const STANDARD_VARIABLES: PromptTemplateVariable[] = [
+  { name: 'feature', label: 'Feature', required: true },
+  { name: 'persona', label: 'Persona', required: false, defaultValue: 'a typical user' },
+  { name: 'platform', label: 'Platform', required: false, defaultValue: 'web' },
+  { name: 'testType', label: 'Test type', required: false }
+];
+
+const preset = (key: string, name: string, description: string, body: string, testType: string): PromptTemplate => ({
+  id: `${PRESET_PREFIX}${key}`,
+  name,
+  description,
+  body,
+  variables: STANDARD_VARIABLES.map(variable =>
+    variable.name === 'testType' ? { ...variable, defaultValue: testType } : variable
+  ),
+  scope: 'preset'
+});
+
+// Built-in presets, available to everyone without being stored
+const PRESETS: PromptTemplate[] = [
+  preset('functional', 'Functional', 'Main flows, business rules and state changes',
+    '{{testType}} tests for {{feature}} on {{platform}}, performed as {{persona}}. Cover the main user flows, business rules, input validation and the resulting state changes.',
+    'Functional'),
+  preset('negative', 'Negative', 'Invalid input, error handling and recovery',
+    '{{testType}} tests for {{feature}} on {{platform}}, performed as {{persona}}. Cover invalid and missing input, out-of-range values, wrong order of actions, error messages and recovery after a failure.',
+    'Negative'),
+  preset('security', 'Security', 'Authentication, authorization and injection',
+    '{{testType}} tests for {{feature}} on {{platform}}, performed as {{persona}}. Cover authentication, authorization and access to other users\' data, session handling, injection (SQL, script, command) and exposure of sensitive data.',
+    'Security'),
+  preset('accessibility', 'Accessibility', 'WCAG 2.1 AA: keyboard, screen readers, contrast',
+    '{{testType}} tests for {{feature}} on {{platform}}, performed as {{persona}}. Check WCAG 2.1 AA: keyboard-only operation and focus order, screen reader labels and announcements, colour contrast, zoom and text resizing, and error identification.',
+    'Accessibility'),
+  preset('performance', 'Performance', 'Response times, load and resource use',
+    '{{testType}} tests for {{feature}} on {{platform}}, performed as {{persona}}. Cover response times under normal and peak load, concurrent users, large data volumes, and behaviour when limits are reached.',
+    'Performance')
+];
+
+class PromptTemplateService {
+  /**
+   * Presets plus, for a signed-in user, their own templates and those shared with their teams
+   */
+  async listTemplates(user?: TemplateUser): Promise<PromptTemplate[]> {
+    if (!user) return PRESETS;
+
+    const documents = await PromptTemplateModel.find({
+      $or: [
+        { ownerId: user.userId },
+        { scope: 'team', teamId: { $in: user.teams } }
+      ]
+    }).sort({ name: 1 });
+
+    return [...PRESETS, ...documents.map(document => this.toPromptTemplate(document))];
+  }
+
+  /**
+   * @throws {CustomError} 404 if the template does not exist or is not visible to the user
+   */
+  async getTemplate(templateId: string, user?: TemplateUser): Promise<PromptTemplate> {
+    const builtIn = PRESETS.find(template => template.id === templateId);
+    if (builtIn) return builtIn;
+
+    const document = await this.findStored(templateId);
+    if (!document || !this.canRead(document, user)) {
+      throw createError('Prompt template not found', 404, 'TEMPLATE_NOT_FOUND');
+    }
+
+    return this.toPromptTemplate(document);
+  }
+
+  async createTemplate(input: PromptTemplateInput, user: TemplateUser): Promise<PromptTemplate> {
+    const scope = input.scope || 'private';
+    this.checkTeam(scope, input.teamId, user);
+
+    const document = await PromptTemplateModel.create({
+      name: input.name,
+      description: input.description,
+      body: input.body,
+      variables: this.resolveVariables(input.body, input.variables),
+      scope,
+      ...(scope === 'team' ? { teamId: input.teamId } : {}),
+      ownerId: user.userId,
+      ownerEmail: user.userEmail
+    });
+
+    console.log(`📝 Prompt template "${document.name}" created (${scope}${scope === 'team' ? `: ${input.teamId}` : ''})`);
+    return this.toPromptTemplate(document);
+  }
+
+  /**
+   * Change a template; only its owner may do so
+   */
+  async updateTemplate(templateId: string, changes: Partial<PromptTemplateInput>, user: TemplateUser): Promise<PromptTemplate> {
+    const document = await this.findOwned(templateId, user);
+
+    const scope = changes.scope || document.scope;
+    const teamId = changes.teamId ?? document.teamId;
+    this.checkTeam(scope, teamId, user);
+
+    const body = changes.body ?? document.body;
+    if (changes.name !== undefined) document.name = changes.name;
+    if (changes.description !== undefined) document.description = changes.description;
+    document.body = body;
+    document.variables = this.resolveVariables(body, changes.variables ?? (changes.body !== undefined ? undefined : document.variables));
+    document.scope = scope;
+    document.set('teamId', scope === 'team' ? teamId : undefined);
+
+    await document.save();
+    return this.toPromptTemplate(document);
+  }
+
+  async deleteTemplate(templateId: string, user: TemplateUser): Promise<void> {
+    const document = await this.findOwned(templateId, user);
+    await document.deleteOne();
+  }
+
+  /**
+   * Fill in a template's placeholders, using defaults for values not given
+   * @throws {CustomError} 400 if a required variable has no value
+   */
+  render(template: PromptTemplate, values: Record<string, string> = {}): string {
+    const missing = template.variables
+      .filter(variable => variable.required && !values[variable.name]?.trim() && !variable.defaultValue)
+      .map(variable => variable.name);
+
+    if (missing.length > 0) {
+      throw createError(`Missing template variables: ${missing.join(', ')}`, 400, 'TEMPLATE_VARIABLES_MISSING');
+    }
+
+    return template.body
+      .replace(PLACEHOLDER, (_match, name: string) => {
+        const value = values[name]?.trim() || template.variables.find(variable => variable.name === name)?.defaultValue || '';
+        return value.substring(0, MAX_VALUE_LENGTH);
+      })
+      .replace(/[ \t]{2,}/g, ' ')
+      .trim();
+  }
+
+  /**
+   * Resolve a template reference from a generation request into prompt text
+   */
+  async renderRequest(request: TemplatePromptRequest, user?: TemplateUser): Promise<{ template: PromptTemplate; prompt: string }> {
+    const template = await this.getTemplate(request.templateId, user);
+    return { template, prompt: this.render(template, request.variables) };
+  }
+
+  /**
+   * Variables declared for a body; every placeholder must be declared, and
+   * placeholders without a declaration are added as required variables
+   * @throws {CustomError} 400 if a declared variable is not used in the body
+   */
+  private resolveVariables(body: string, declared: PromptTemplateVariable[] = []): PromptTemplateVariable[] {
+    const used = [...new Set([...body.matchAll(PLACEHOLDER)].map(match => match[1]!))];
+    const unused = declared.filter(variable => !used.includes(variable.name)).map(variable => variable.name);
+
+    if (unused.length > 0) {
+      throw createError(`Variables not used in the template body: ${unused.join(', ')}`, 400, 'TEMPLATE_INVALID');
+    }
+
+    return used.map(name =>
+      declared.find(variable => variable.name === name)
+        || STANDARD_VARIABLES.find(variable => variable.name === name)
+        || { name, required: true }
+    );
+  }
+
+  private checkTeam(scope: string, teamId: string | undefined, user: TemplateUser): void {
+    if (scope !== 'team') return;
+
+    if (!teamId) {
+      throw createError('teamId is required to share a template with a team', 400, 'TEMPLATE_INVALID');
+    }
+    if (!user.teams.includes(teamId)) {
+      throw createError(`You are not a member of team "${teamId}"`, 403, 'TEAM_ACCESS_DENIED');
+    }
+  }
+
+  private async findStored(templateId: string): Promise<IPromptTemplate | null> {
+    if (!mongoose.isValidObjectId(templateId)) return null;
+    return PromptTemplateModel.findById(templateId);
+  }
+
+  /**
+   * @throws {CustomError} 404 if not visible to the user, 403 if visible but owned by someone else
+   */
+  private async findOwned(templateId: string, user: TemplateUser): Promise<IPromptTemplate> {
+    if (templateId.startsWith(PRESET_PREFIX)) {
+      throw createError('Built-in presets cannot be changed', 403, 'TEMPLATE_READ_ONLY');
+    }
+
+    const document = await this.findStored(templateId);
+    if (!document || !this.canRead(document, user)) {
+      throw createError('Prompt template not found', 404, 'TEMPLATE_NOT_FOUND');
+    }
+    if (document.ownerId.toString() !== user.userId) {
+      throw createError('Only the owner can change this template', 403, 'TEMPLATE_READ_ONLY');
+    }
+
+    return document;
+  }
+
+  private canRead(document: IPromptTemplate, user?: TemplateUser): boolean {
+    if (!user) return false;
+    return document.ownerId.toString() === user.userId
+      || (document.scope === 'team' && !!document.teamId && user.teams.includes(document.teamId));
+  }
+
+  private toPromptTemplate(document: IPromptTemplate): PromptTemplate {
+    return {
+      id: String(document._id),
+      name: document.name,
+      description: document.description,
+      body: document.body,
+      variables: document.variables,
+      scope: document.scope,
+      teamId: document.teamId,
+      ownerId: document.ownerId.toString(),
+      ownerEmail: document.ownerEmail,
+      createdAt: document.createdAt,
+      updatedAt: document.updatedAt
+    };
+  }
+}
+
+export default new PromptTemplateService();
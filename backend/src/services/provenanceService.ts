@@ -0,0 +1,303 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import GenerationProvenanceModel, { IGenerationProvenance } from '../models/generationProvenance';
+import { getEnvVar } from '../config/envValidator';
+import { createError } from '../middlewares/errorHandler';
+import openaiService from './openaiService';
+import deduplicationService from './deduplicationService';
+import {
+  GenerationProvenance,
+  GenerationProvenanceSummary,
+  ProvenanceContext,
+  ProvenanceExchange,
+  ProvenanceFile,
+  ProvenanceListOptions,
+  ProvenanceOutcome,
+  ProvenanceReplayComparison,
+  ProvenanceReplayRequest,
+  ProvenanceRunSummary
+} from '../types/provenance';
+import { LLMUsage } from '../types/llm';
+
+// A generation being recorded; test cases can be linked to `id` before it is saved
+export interface ProvenanceRecording {
+  id: string;
+  onExchange: (exchange: ProvenanceExchange) => void;
+  finish: (outcome: ProvenanceOutcome) => Promise<void>;
+}
+
+const TRUNCATION_MARKER = '\n[... truncated]';
+
+/**
+ * Persists what went into each generation (prompts, files, model and
+ * parameters) and what came out (raw replies, parsed test cases, usage), and
+ * lets admins replay a generation against another model
+ */
+class ProvenanceService {
+  private retentionDays: number;
+  private maxTextChars: number;
+
+  constructor() {
+    this.retentionDays = parseInt(getEnvVar('GENERATION_PROVENANCE_RETENTION_DAYS', '30'));
+    // Keeps a record of a large chunked document under MongoDB's document size limit
+    this.maxTextChars = parseInt(getEnvVar('GENERATION_PROVENANCE_MAX_TEXT_CHARS', '100000'));
+  }
+
+  /**
+   * Start recording a generation. The record is only written by `finish`,
+   * which never throws: a failed write must not fail the generation.
+   */
+  start(context: ProvenanceContext): ProvenanceRecording {
+    const id = new mongoose.Types.ObjectId().toString();
+    const exchanges: ProvenanceExchange[] = [];
+    const startedAt = Date.now();
+    let finished = false;
+
+    return {
+      id,
+      onExchange: exchange => {
+        exchanges.push(exchange);
+      },
+      // Only the first outcome counts, e.g. a cancellation followed by the error it caused
+      finish: async outcome => {
+        if (finished) return;
+        finished = true;
+
+        try {
+          await GenerationProvenanceModel.create({
+            _id: id,
+            operation: context.operation,
+            status: outcome.status,
+            ...(context.userId ? { userId: context.userId, userEmail: context.userEmail } : {}),
+            provider: context.provider || getEnvVar('LLM_PROVIDER', 'openai'),
+            modelName: outcome.model,
+            parameters: context.parameters,
+            prompt: this.clip(context.prompt),
+            files: context.files,
+            exchanges: exchanges.map(exchange => ({
+              ...exchange,
+              messages: exchange.messages.map(message => ({ role: message.role, content: this.clip(message.content) })),
+              response: this.clip(exchange.response)
+            })),
+            testCases: outcome.testCases || [],
+            usage: outcome.usage,
+            latencyMs: Date.now() - startedAt,
+            error: outcome.error,
+            replayOf: context.replayOf,
+            ...(this.retentionDays > 0 ? { expiresAt: new Date(Date.now() + this.retentionDays * 24 * 60 * 60 * 1000) } : {})
+          });
+        } catch (error) {
+          console.error(`❌ Failed to save provenance record ${id}:`, error);
+        }
+      }
+    };
+  }
+
+  /**
+   * Identify the files a generation used by content hash, so a later change
+   * to a file with the same ID can be told apart
+   */
+  describeFiles(files: Array<{ fileId: string; content?: string | undefined }>): ProvenanceFile[] {
+    return files.map(({ fileId, content }) => content === undefined
+      ? { fileId, size: 0 }
+      : {
+        fileId,
+        sha256: crypto.createHash('sha256').update(content).digest('hex'),
+        size: Buffer.byteLength(content)
+      });
+  }
+
+  async listRecords(options: ProvenanceListOptions = {}): Promise<{
+    records: GenerationProvenanceSummary[];
+    total: number;
+    page: number;
+    totalPages: number;
+  }> {
+    const page = Math.max(1, options.page || 1);
+    const limit = Math.min(100, Math.max(1, options.limit || 20));
+    const query: Record<string, unknown> = {};
+
+    if (options.userId) query.userId = options.userId;
+    if (options.operation) query.operation = options.operation;
+    if (options.status) query.status = options.status;
+    if (options.model) query.modelName = options.model;
+
+    const [documents, total] = await Promise.all([
+      GenerationProvenanceModel.aggregate([
+        { $match: this.toMatch(query) },
+        { $sort: { createdAt: -1 } },
+        { $skip: (page - 1) * limit },
+        { $limit: limit },
+        {
+          $addFields: {
+            exchangeCount: { $size: '$exchanges' },
+            testCaseCount: { $size: { $ifNull: ['$testCases', []] } }
+          }
+        },
+        { $project: { exchanges: 0, testCases: 0 } }
+      ]),
+      GenerationProvenanceModel.countDocuments(query)
+    ]);
+
+    return {
+      records: documents.map(document => ({
+        ...this.toGenerationProvenance(document),
+        exchangeCount: document.exchangeCount,
+        testCaseCount: document.testCaseCount
+      })),
+      total,
+      page,
+      totalPages: Math.ceil(total / limit)
+    };
+  }
+
+  async getRecord(recordId: string): Promise<GenerationProvenance | null> {
+    if (!mongoose.isValidObjectId(recordId)) return null;
+
+    const document = await GenerationProvenanceModel.findById(recordId).lean();
+    return document ? this.toGenerationProvenance(document) : null;
+  }
+
+  /**
+   * Send a record's model requests again, by default to the same provider,
+   * and compare the result with the original. The replay is recorded too.
+   * @throws {CustomError} 404 if the record does not exist, 400 if it made no model requests, 502 if the replay failed
+   */
+  async replay(
+    recordId: string,
+    request: ProvenanceReplayRequest,
+    admin: { userId?: string | undefined; userEmail?: string | undefined } = {}
+  ): Promise<{ record: GenerationProvenance; comparison: ProvenanceReplayComparison }> {
+    const original = await this.getRecord(recordId);
+    if (!original) {
+      throw createError('Provenance record not found', 404, 'PROVENANCE_NOT_FOUND');
+    }
+
+    // Repairs depend on the original replies, so only the first request of each conversation is replayed
+    const conversations = original.exchanges
+      .filter(exchange => exchange.kind === 'generation')
+      .map(exchange => exchange.messages);
+    if (conversations.length === 0) {
+      throw createError('The record has no model requests to replay', 400, 'PROVENANCE_NOT_REPLAYABLE');
+    }
+
+    const provider = request.provider || original.provider;
+    const recording = this.start({
+      operation: 'replay',
+      ...admin,
+      provider,
+      parameters: {
+        ...original.parameters,
+        temperature: request.temperature ?? original.parameters.temperature,
+        maxTokens: request.maxTokens ?? original.parameters.maxTokens
+      },
+      prompt: original.prompt,
+      files: original.files,
+      replayOf: original.id
+    });
+
+    const result = await openaiService.replayGeneration(conversations, {
+      provider,
+      model: request.model,
+      temperature: request.temperature ?? original.parameters.temperature,
+      maxTokens: request.maxTokens ?? original.parameters.maxTokens,
+      format: original.parameters.format,
+      onExchange: recording.onExchange
+    });
+
+    await recording.finish({
+      status: result.success ? 'completed' : 'failed',
+      testCases: result.testCases,
+      model: result.model,
+      usage: result.usage,
+      error: result.error
+    });
+
+    if (!result.success) {
+      throw createError(`Replay failed: ${result.error || 'unknown error'}`, 502, 'REPLAY_FAILED');
+    }
+
+    const replayed = await this.getRecord(recording.id);
+    if (!replayed) {
+      throw createError('The replay could not be saved', 500, 'PROVENANCE_NOT_SAVED');
+    }
+
+    console.log(`🔁 Replayed provenance record ${original.id} with ${provider}/${result.model}: ${result.testCases.length} test cases`);
+    return { record: replayed, comparison: this.compare(original, replayed) };
+  }
+
+  private compare(original: GenerationProvenance, replay: GenerationProvenance): ProvenanceReplayComparison {
+    const originalSummaries = this.getSummaries(original);
+    const replaySummaries = this.getSummaries(replay);
+    const matched = replaySummaries.filter(summary => deduplicationService.isDuplicate(summary, originalSummaries));
+
+    return {
+      original: this.toRunSummary(original),
+      replay: this.toRunSummary(replay),
+      matchingSummaries: matched.length,
+      onlyInOriginal: originalSummaries.filter(summary => !deduplicationService.isDuplicate(summary, replaySummaries)),
+      onlyInReplay: replaySummaries.filter(summary => !matched.includes(summary))
+    };
+  }
+
+  private getSummaries(record: GenerationProvenance): string[] {
+    return record.testCases
+      .map(testCase => testCase.summary)
+      .filter((summary): summary is string => typeof summary === 'string');
+  }
+
+  private toRunSummary(record: GenerationProvenance): ProvenanceRunSummary {
+    return {
+      recordId: record.id,
+      provider: record.provider,
+      model: record.model,
+      testCases: record.testCases.length,
+      usage: record.usage,
+      cost: record.usage && record.model ? openaiService.calculateCost(record.provider, record.model, record.usage) : 0,
+      latencyMs: record.latencyMs
+    };
+  }
+
+  private clip(text: string): string {
+    return text.length > this.maxTextChars ? text.substring(0, this.maxTextChars) + TRUNCATION_MARKER : text;
+  }
+
+  // Aggregation does not cast like find() does, so ID filters are converted here
+  private toMatch(query: Record<string, unknown>): Record<string, unknown> {
+    return typeof query.userId === 'string' && mongoose.isValidObjectId(query.userId)
+      ? { ...query, userId: new mongoose.Types.ObjectId(query.userId) }
+      : query;
+  }
+
+  private toGenerationProvenance(document: Omit<IGenerationProvenance, keyof mongoose.Document> & { _id: unknown }): GenerationProvenance {
+    const usage: LLMUsage | undefined = document.usage
+      ? {
+        prompt_tokens: document.usage.prompt_tokens,
+        completion_tokens: document.usage.completion_tokens,
+        total_tokens: document.usage.total_tokens
+      }
+      : undefined;
+
+    return {
+      id: String(document._id),
+      operation: document.operation,
+      status: document.status,
+      userId: document.userId?.toString(),
+      userEmail: document.userEmail,
+      provider: document.provider,
+      model: document.modelName,
+      parameters: document.parameters,
+      prompt: document.prompt,
+      files: document.files || [],
+      exchanges: document.exchanges || [],
+      testCases: document.testCases || [],
+      usage,
+      latencyMs: document.latencyMs,
+      error: document.error,
+      replayOf: document.replayOf?.toString(),
+      createdAt: document.createdAt
+    };
+  }
+}
+
+export default new ProvenanceService();
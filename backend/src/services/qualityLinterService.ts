@@ -0,0 +1,166 @@
+import { getEnvVar } from '../config/envValidator';
+import { jaccardSimilarity, tokenize } from '../utils/textSimilarity';
+import { isNoPrecondition } from '../utils/language';
+import { LintableTestCase, QualityField, QualityIssue, TestCaseQuality } from '../types/quality';
+
+// Text that stands in for real content: model filler, template leftovers and old parser defaults
+const PLACEHOLDER_TEXT = /^(test should pass|execute (the )?test( case)?|run (the )?test|verify (the )?(functionality|feature|test case|result)|check (the )?result|expected result|steps?|summary|precondition|text|tbd|todo|to be (defined|determined|added)|lorem ipsum.*|\.{3}|-+|n\/?a)\.?$/i;
+
+// Preconditions that say there are none; the placeholders of other languages are checked too
+const EMPTY_PRECONDITION = /^(none|n\/?a|-+|no preconditions?)?\.?$/i;
+
+// Outcomes that cannot be checked: nothing observable is named
+const VAGUE_OUTCOME = /\b(works?|working|should work|as expected|correctly|properly|successfully|without (any )?(errors?|issues?)|no (errors?|issues?)|passes|is fine|is ok)\b/i;
+const MAX_VAGUE_OUTCOME_TOKENS = 6;
+
+const NUMBERED_STEP = /^\s*\d+[.)]\s+\S/;
+
+// An expected result this close to the summary only restates it
+const RESTATEMENT_SIMILARITY = 0.8;
+const DUPLICATE_STEP_SIMILARITY = 0.9;
+
+const PENALTIES: Record<QualityIssue['severity'], number> = {
+  error: 30,
+  warning: 15,
+};
+
+const FIELD_LABELS: Record<QualityField, string> = {
+  summary: 'Summary',
+  precondition: 'Precondition',
+  steps: 'Steps',
+  expectedResult: 'Expected result',
+};
+
+/**
+ * Rule-based quality checks for generated test cases. Each issue lowers a
+ * score of 100; low scorers can be sent back to the model with the issues
+ * as the refinement instruction.
+ */
+class QualityLinterService {
+  private refineThreshold: number;
+
+  constructor() {
+    this.refineThreshold = parseInt(getEnvVar('QUALITY_AUTO_REFINE_THRESHOLD', '70'));
+  }
+
+  lint(testCase: LintableTestCase): TestCaseQuality {
+    const issues: QualityIssue[] = [
+      ...this.checkPlaceholders(testCase),
+      ...this.checkPrecondition(testCase),
+      ...this.checkSteps(testCase),
+      ...this.checkExpectedResult(testCase),
+    ];
+
+    const score = Math.max(0, 100 - issues.reduce((total, issue) => total + PENALTIES[issue.severity], 0));
+
+    return {
+      score,
+      grade: score >= 80 ? 'good' : score >= 50 ? 'fair' : 'poor',
+      issues,
+    };
+  }
+
+  /**
+   * Whether a test case scores low enough for auto-refine to rewrite it
+   */
+  needsRefinement(quality: TestCaseQuality): boolean {
+    return quality.score < this.refineThreshold;
+  }
+
+  /**
+   * Refinement instruction that asks the model to fix exactly the issues found
+   */
+  toRefinementInstruction(quality: TestCaseQuality): string {
+    return `Fix these quality problems: ${quality.issues.map(issue => issue.message).join(' ')} Use concrete, numbered steps and an expected result that names an observable outcome.`;
+  }
+
+  private checkPlaceholders(testCase: LintableTestCase): QualityIssue[] {
+    const fields: QualityField[] = ['summary', 'steps', 'expectedResult'];
+
+    return fields
+      .filter(field => {
+        const lines = this.toLines(testCase[field]).map(line => this.stripNumber(line));
+        return lines.length === 0 || lines.some(line => PLACEHOLDER_TEXT.test(line));
+      })
+      .map(field => ({
+        rule: 'placeholder_text',
+        field,
+        severity: 'error',
+        message: `${FIELD_LABELS[field]} is empty or contains placeholder text.`,
+      }));
+  }
+
+  private checkPrecondition(testCase: LintableTestCase): QualityIssue[] {
+    const precondition = testCase.precondition.trim();
+    if (!EMPTY_PRECONDITION.test(precondition) && !isNoPrecondition(precondition)) return [];
+
+    return [{
+      rule: 'missing_precondition',
+      field: 'precondition',
+      severity: 'warning',
+      message: 'Precondition is missing; state the data, state or role the test starts from.',
+    }];
+  }
+
+  private checkSteps(testCase: LintableTestCase): QualityIssue[] {
+    const lines = this.toLines(testCase.steps);
+    if (lines.length === 0) return [];
+
+    const issues: QualityIssue[] = [];
+
+    if (lines.some(line => !NUMBERED_STEP.test(line))) {
+      issues.push({
+        rule: 'unnumbered_steps',
+        field: 'steps',
+        severity: 'warning',
+        message: 'Steps are not a numbered list with one action per line.',
+      });
+    }
+
+    const actions = lines.map(line => this.stripNumber(line)).filter(action => tokenize(action).size > 0);
+    const repeated = actions.filter((action, index) =>
+      actions.slice(0, index).some(earlier => jaccardSimilarity(earlier, action) >= DUPLICATE_STEP_SIMILARITY)
+    );
+    if (repeated.length > 0) {
+      issues.push({
+        rule: 'duplicate_steps',
+        field: 'steps',
+        severity: 'warning',
+        message: `Steps repeat: "${repeated[0]}".`,
+      });
+    }
+
+    return issues;
+  }
+
+  private checkExpectedResult(testCase: LintableTestCase): QualityIssue[] {
+    const expected = testCase.expectedResult.trim();
+    if (!expected || PLACEHOLDER_TEXT.test(expected)) return []; // already reported as placeholder text
+
+    // Only compare texts that both have words; anything else cannot be a restatement
+    const expectedTokens = tokenize(expected);
+    const restatesSummary = expectedTokens.size > 0 && tokenize(testCase.summary).size > 0
+      && jaccardSimilarity(expected, testCase.summary) >= RESTATEMENT_SIMILARITY;
+    const vague = VAGUE_OUTCOME.test(expected) && expectedTokens.size <= MAX_VAGUE_OUTCOME_TOKENS;
+    if (!restatesSummary && !vague) return [];
+
+    return [{
+      rule: 'unverifiable_expected_result',
+      field: 'expectedResult',
+      severity: 'error',
+      message: restatesSummary
+        ? 'Expected result only restates the summary; describe what the tester can observe.'
+        : `Expected result "${expected}" cannot be verified; name the message, value or state to check.`,
+    }];
+  }
+
+  private toLines(text: string): string[] {
+    return text.split('\n').map(line => line.trim()).filter(Boolean);
+  }
+
+  private stripNumber(line: string): string {
+    return line.replace(/^\d+[.)]\s*/, '').trim();
+  }
+}
+
+export default new QualityLinterService();
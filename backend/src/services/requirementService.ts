@@ -0,0 +1,242 @@
+import RequirementModel, { IRequirement } from "../models/requirement";
+import { Requirement, TraceabilityMatrix, TraceableTestCase } from "../types/requirement";
+
+// Requirement IDs as commonly written in specs: REQ-12, FR-3.1, NFR_2, US-7, [SR-4]
+const ID_PATTERN = "(?:REQ|FR|NFR|BR|UR|SR|RQ|US)[-_]?\\d+(?:\\.\\d+)*";
+const EXPLICIT_ID = new RegExp(`^(?:[-*•]\\s*)?\\[?(${ID_PATTERN})\\]?\\s*[:.)\\-–—]?\\s+(\\S.*)$`);
+const ID_BOUNDARY = new RegExp(`[ \\t]+(?=\\[?${ID_PATTERN}\\]?\\s*[:.)\\-–—]\\s)`, "g");
+
+// "3.2.1 The system shall ..." and "4) Passwords must ..."
+const NUMBERED_STATEMENT = /^(?:[-*•]\s*)?(\d+(?:\.\d+)*)[.)]?\s+(.*\b(?:shall|must|should)\b.*)$/i;
+const USER_STORY = /\bAs an?\s+[^,]+?,?\s+I\s+(?:want|need|would like|can|should be able)\b/i;
+const STORY_BOUNDARY = /([.!?])[ \t]+(?=As an?\s+\w)/g;
+
+// Structure written by extractTextFromFile and processFileContent
+const FILE_MARKER = /^--- File: (.+) ---$/;
+const STRUCTURE_MARKER = /^=== .+ ===$/;
+const HEADING = /^(?:#{1,6}\s+(.+)|(\d+(?:\.\d+)*\.?\s+[A-Z][^.!?]{2,80})|([A-Z][A-Z0-9 &\-/]{3,60}))$/;
+
+const MAX_TEXT_LENGTH = 500;
+const MAX_PROMPT_REQUIREMENTS = 100;
+const PROMPT_TEXT_LENGTH = 160;
+
+class RequirementService {
+  /**
+   * Find numbered requirements and user stories in extracted document text.
+   * IDs written in the document are kept; numbered "shall/must" statements
+   * become REQ-<number> and unnumbered user stories US-<n>.
+   */
+  extract(text: string): Requirement[] {
+    const requirements: Requirement[] = [];
+    const usedIds = new Set<string>();
+    let fileId: string | undefined;
+    let section: string | undefined;
+    let current: Requirement | null = null;
+    let storyCount = 0;
+
+    const uniqueId = (id: string): string => {
+      let candidate = id;
+      for (let suffix = 2; usedIds.has(candidate); suffix++) candidate = `${id}-${suffix}`;
+      usedIds.add(candidate);
+      return candidate;
+    };
+
+    const start = (requirementId: string, body: string): Requirement => {
+      const requirement: Requirement = {
+        requirementId: uniqueId(requirementId),
+        type: USER_STORY.test(body) ? "user_story" : "requirement",
+        text: body.substring(0, MAX_TEXT_LENGTH),
+        section,
+        fileId,
+      };
+      requirements.push(requirement);
+      return requirement;
+    };
+
+    // PDF pages come out as one line each, so break before requirement IDs and stories first
+    const lines = text
+      .replace(ID_BOUNDARY, "\n")
+      .replace(STORY_BOUNDARY, "$1\n")
+      .split("\n");
+
+    for (const rawLine of lines) {
+      const line = rawLine.trim();
+
+      if (!line) {
+        current = null;
+        continue;
+      }
+
+      const fileMatch = line.match(FILE_MARKER);
+      if (fileMatch) {
+        fileId = fileMatch[1];
+        section = undefined;
+        current = null;
+        continue;
+      }
+      if (STRUCTURE_MARKER.test(line)) {
+        current = null;
+        continue;
+      }
+
+      const explicit = line.match(EXPLICIT_ID);
+      if (explicit) {
+        current = start(this.normalizeId(explicit[1]!), explicit[2]!.trim());
+        continue;
+      }
+
+      const numbered = line.match(NUMBERED_STATEMENT);
+      if (numbered) {
+        current = start(`REQ-${numbered[1]}`, numbered[2]!.trim());
+        continue;
+      }
+
+      if (USER_STORY.test(line) && /^(?:[-*•]\s*)?As an?\b/i.test(line)) {
+        storyCount++;
+        current = start(`US-${storyCount}`, line.replace(/^[-*•]\s*/, ""));
+        continue;
+      }
+
+      const heading = line.match(HEADING);
+      if (heading) {
+        section = (heading[1] || heading[2] || heading[3])!.trim();
+        current = null;
+        continue;
+      }
+
+      // Wrapped lines continue the requirement above them
+      if (current && current.text.length < MAX_TEXT_LENGTH) {
+        current.text = `${current.text} ${line}`.substring(0, MAX_TEXT_LENGTH);
+      }
+    }
+
+    return requirements;
+  }
+
+  /**
+   * Requirement list for a generation prompt, one "ID: text" line each
+   */
+  describeForPrompt(requirements: Requirement[]): string {
+    return requirements
+      .slice(0, MAX_PROMPT_REQUIREMENTS)
+      .map(requirement => {
+        const text = requirement.text.length > PROMPT_TEXT_LENGTH
+          ? `${requirement.text.substring(0, PROMPT_TEXT_LENGTH)}...`
+          : requirement.text;
+        return `${requirement.requirementId}: ${text}`;
+      })
+      .join("\n");
+  }
+
+  /**
+   * Requirements whose text appears in a piece of the document, e.g. one chunk
+   */
+  filterMentionedIn(requirements: Requirement[], text: string): Requirement[] {
+    const normalized = text.replace(/\s+/g, " ");
+    return requirements.filter(requirement => normalized.includes(requirement.text.replace(/\s+/g, " ").substring(0, 60)));
+  }
+
+  /**
+   * Resolve the requirement IDs of a generated test case: IDs the model
+   * returned that exist in the document, plus IDs the test case text mentions
+   */
+  linkRequirements(candidateIds: string[] | undefined, testCaseText: string, requirements: Requirement[]): string[] {
+    const byKey = new Map(requirements.map(requirement => [this.normalizeId(requirement.requirementId), requirement.requirementId]));
+    const linked = new Set<string>();
+
+    for (const candidate of candidateIds || []) {
+      const requirementId = byKey.get(this.normalizeId(candidate));
+      if (requirementId) linked.add(requirementId);
+    }
+
+    for (const requirement of requirements) {
+      const escaped = requirement.requirementId.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      if (new RegExp(`\\b${escaped}\\b`, "i").test(testCaseText)) linked.add(requirement.requirementId);
+    }
+
+    return requirements.map(requirement => requirement.requirementId).filter(id => linked.has(id));
+  }
+
+  /**
+   * Coverage matrix: the test cases linked to each requirement, the
+   * requirements without tests and the test cases without requirements
+   */
+  buildMatrix(requirements: Requirement[], testCases: TraceableTestCase[]): TraceabilityMatrix {
+    const knownIds = new Set(requirements.map(requirement => requirement.requirementId));
+
+    const rows = requirements.map(requirement => {
+      const testCaseIds = testCases
+        .filter(testCase => testCase.requirementIds?.includes(requirement.requirementId))
+        .map(testCase => testCase.id);
+      return { requirement, testCaseIds, covered: testCaseIds.length > 0 };
+    });
+
+    const covered = rows.filter(row => row.covered).length;
+
+    return {
+      rows,
+      uncoveredRequirements: rows.filter(row => !row.covered).map(row => row.requirement),
+      unlinkedTestCases: testCases
+        .filter(testCase => !(testCase.requirementIds || []).some(id => knownIds.has(id)))
+        .map(testCase => ({ id: testCase.id, summary: testCase.summary })),
+      coverage: {
+        total: requirements.length,
+        covered,
+        percent: requirements.length > 0 ? Math.round((covered / requirements.length) * 100) : 0,
+      },
+    };
+  }
+
+  /**
+   * Store the requirements extracted from documents attached to a context
+   * window. They replace everything stored before for those documents, so
+   * requirements removed from a document are dropped; requirements of the
+   * window's other documents are kept.
+   */
+  async saveForContextWindow(contextWindowId: string, userId: string, fileIds: string[], requirements: Requirement[]): Promise<void> {
+    await RequirementModel.deleteMany({ contextWindowId, fileId: { $in: fileIds } });
+    if (requirements.length === 0) return;
+
+    await RequirementModel.insertMany(requirements.map(requirement => ({
+      contextWindowId,
+      userId,
+      requirementId: requirement.requirementId,
+      type: requirement.type,
+      text: requirement.text,
+      section: requirement.section,
+      fileId: requirement.fileId
+    })));
+  }
+
+  /**
+   * Requirements of a context window in the order they were found
+   */
+  async getForContextWindow(contextWindowId: string): Promise<Requirement[]> {
+    const documents = await RequirementModel.find({ contextWindowId }).sort({ _id: 1 });
+    return documents.map(document => this.toRequirement(document));
+  }
+
+  /**
+   * Remove the requirements of deleted context windows
+   */
+  async deleteForContextWindows(contextWindowIds: string[]): Promise<void> {
+    if (contextWindowIds.length === 0) return;
+    await RequirementModel.deleteMany({ contextWindowId: { $in: contextWindowIds } });
+  }
+
+  private normalizeId(id: string): string {
+    return id.trim().replace(/^\[|\]$/g, "").replace(/_/g, "-").toUpperCase();
+  }
+
+  private toRequirement(document: IRequirement): Requirement {
+    return {
+      requirementId: document.requirementId,
+      type: document.type,
+      text: document.text,
+      section: document.section,
+      fileId: document.fileId,
+    };
+  }
+}
+
+export default new RequirementService();
@@ -0,0 +1,137 @@
+import { RiskArea, RiskFactors, RiskProfile, TestCasePriority, TestCaseRisk } from '../types/risk';
+
+// Business impact counts most: a rarely used payment flow still outranks a busy settings page
+const FACTOR_WEIGHTS: Record<keyof RiskFactors, number> = {
+  businessImpact: 0.4,
+  usageFrequency: 0.25,
+  changeFrequency: 0.2,
+  defectHistory: 0.15,
+};
+
+const FACTOR_LABELS: Record<keyof RiskFactors, string> = {
+  businessImpact: 'business impact',
+  usageFrequency: 'usage frequency',
+  changeFrequency: 'change frequency',
+  defectHistory: 'defect history',
+};
+
+const P1_MIN_SCORE = 70;
+const P2_MIN_SCORE = 40;
+
+const PRIORITIES: TestCasePriority[] = ['P1', 'P2', 'P3'];
+
+// A match in the summary says more about what a test case covers than one in its steps
+const SUMMARY_MATCH_WEIGHT = 2;
+
+interface PrioritizableTestCase {
+  summary: string;
+  precondition: string;
+  steps: string;
+  expectedResult: string;
+  priority: TestCasePriority;
+  source?: { chunkTitle: string } | undefined;
+  risk?: TestCaseRisk | undefined;
+}
+
+/**
+ * Deterministic test case priorities from per-feature-area risk factors.
+ * The same test case and profile always give the same priority, whatever
+ * the model proposed.
+ */
+class RiskPrioritizationService {
+  /**
+   * Risk score of a feature area from 0 (every factor 1) to 100 (every factor 5)
+   */
+  score(factors: RiskFactors): number {
+    const weighted = (Object.keys(FACTOR_WEIGHTS) as Array<keyof RiskFactors>)
+      .reduce((total, factor) => total + FACTOR_WEIGHTS[factor] * factors[factor], 0);
+
+    return Math.round(((weighted - 1) / 4) * 100);
+  }
+
+  toPriority(score: number): TestCasePriority {
+    return score >= P1_MIN_SCORE ? 'P1' : score >= P2_MIN_SCORE ? 'P2' : 'P3';
+  }
+
+  /**
+   * Priority and rationale of a test case under a risk profile. A test case
+   * that was prioritized before starts again from the model's priority, so
+   * re-prioritizing after the profile changes does not compound.
+   */
+  prioritize(testCase: PrioritizableTestCase, profile: RiskProfile): { priority: TestCasePriority; risk: TestCaseRisk } {
+    const modelPriority = testCase.risk?.modelPriority ?? testCase.priority;
+    const area = this.matchArea(testCase, profile.areas);
+
+    if (!area) {
+      return {
+        priority: modelPriority,
+        risk: {
+          modelPriority,
+          mode: profile.mode,
+          rationale: `No feature area matched; kept the model's ${modelPriority}.`,
+        },
+      };
+    }
+
+    const score = this.score(area);
+    const riskPriority = this.toPriority(score);
+    const priority = profile.mode === 'override' ? riskPriority : this.calibrate(modelPriority, riskPriority);
+
+    const factors = (Object.keys(FACTOR_LABELS) as Array<keyof RiskFactors>)
+      .map(factor => `${FACTOR_LABELS[factor]} ${area[factor]}/5`)
+      .join(', ');
+    const outcome = priority === modelPriority
+      ? `model's ${modelPriority} kept`
+      : `model's ${modelPriority} ${profile.mode === 'override' ? 'overridden' : 'calibrated'} to ${priority}`;
+
+    return {
+      priority,
+      risk: {
+        area: area.name,
+        score,
+        riskPriority,
+        modelPriority,
+        mode: profile.mode,
+        rationale: `${area.name}: ${factors} → risk score ${score} (${riskPriority}); ${outcome}.`,
+      },
+    };
+  }
+
+  /**
+   * The feature area a test case belongs to: the one whose name or keywords
+   * it mentions most, the riskier area on a tie
+   */
+  matchArea(testCase: PrioritizableTestCase, areas: RiskArea[]): RiskArea | undefined {
+    const summary = this.normalize(`${testCase.summary} ${testCase.source?.chunkTitle || ''}`);
+    const body = this.normalize(`${testCase.precondition} ${testCase.steps} ${testCase.expectedResult}`);
+
+    let best: { area: RiskArea; hits: number; score: number } | undefined;
+    for (const area of areas) {
+      const terms = Array.from(new Set([area.name, ...area.keywords].map(term => this.normalize(term)).filter(term => term.trim())));
+      const hits = terms.reduce((total, term) =>
+        total + (summary.includes(term) ? SUMMARY_MATCH_WEIGHT : 0) + (body.includes(term) ? 1 : 0), 0);
+      if (hits === 0) continue;
+
+      const score = this.score(area);
+      if (!best || hits > best.hits || (hits === best.hits && score > best.score)) {
+        best = { area, hits, score };
+      }
+    }
+
+    return best?.area;
+  }
+
+  // Calibration moves the model's priority at most one level towards the risk priority
+  private calibrate(modelPriority: TestCasePriority, riskPriority: TestCasePriority): TestCasePriority {
+    const from = PRIORITIES.indexOf(modelPriority);
+    const to = PRIORITIES.indexOf(riskPriority);
+    return PRIORITIES[from + Math.sign(to - from)]!;
+  }
+
+  // Lowercase words padded with spaces, so terms only match whole words
+  private normalize(text: string): string {
+    return ` ${text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()} `;
+  }
+}
+
+export default new RiskPrioritizationService();
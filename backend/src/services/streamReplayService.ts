@@ -0,0 +1,131 @@
+import { getEnvVar } from '../config/envValidator';
+
+export interface StreamEvent {
+  id: string; // "<streamId>:<sequence>", sent as the SSE id so Last-Event-ID names the stream
+  data: unknown;
+}
+
+// Receives each event as it is emitted, and null once the stream has finished
+type StreamListener = (event: StreamEvent | null) => void;
+
+interface ReplayBuffer {
+  ownerId?: string | undefined;
+  events: StreamEvent[];
+  listeners: Set<StreamListener>;
+  finishedAt?: number | undefined;
+  onAbandoned: () => void;
+  abandonTimer?: NodeJS.Timeout | undefined;
+}
+
+/**
+ * Keeps the events of each streaming generation for a short window so a
+ * client whose connection dropped can reconnect and receive only what it
+ * missed. A stream nobody reconnects to within the window is abandoned.
+ */
+class StreamReplayService {
+  private windowMs: number;
+  private buffers = new Map<string, ReplayBuffer>();
+
+  constructor() {
+    this.windowMs = parseInt(getEnvVar('SSE_REPLAY_WINDOW_MS', '30000'));
+
+    // Drop finished streams once the replay window has passed
+    setInterval(() => {
+      const cutoff = Date.now() - this.windowMs;
+      for (const [streamId, buffer] of this.buffers.entries()) {
+        if (buffer.finishedAt !== undefined && buffer.finishedAt < cutoff) {
+          this.buffers.delete(streamId);
+        }
+      }
+    }, this.windowMs).unref();
+  }
+
+  /**
+   * Start buffering a stream. `onAbandoned` runs when every client has
+   * disconnected and none came back within the replay window. The stream ID
+   * must be unguessable, since anyone who knows it can resume an anonymous
+   * stream.
+   */
+  open(streamId: string, onAbandoned: () => void, ownerId?: string): void {
+    if (this.buffers.has(streamId)) {
+      throw new Error(`Stream ${streamId} is already open`);
+    }
+    this.buffers.set(streamId, { ownerId, events: [], listeners: new Set(), onAbandoned });
+  }
+
+  has(streamId: string): boolean {
+    return this.buffers.has(streamId);
+  }
+
+  getOwner(streamId: string): string | undefined {
+    return this.buffers.get(streamId)?.ownerId;
+  }
+
+  /**
+   * Assign the next event ID, keep the event and send it to connected clients
+   */
+  push(streamId: string, data: unknown): void {
+    const buffer = this.buffers.get(streamId);
+    if (!buffer || buffer.finishedAt !== undefined) return;
+
+    const event: StreamEvent = { id: `${streamId}:${buffer.events.length + 1}`, data };
+    buffer.events.push(event);
+    buffer.listeners.forEach(listener => listener(event));
+  }
+
+  finish(streamId: string): void {
+    const buffer = this.buffers.get(streamId);
+    if (!buffer || buffer.finishedAt !== undefined) return;
+
+    buffer.finishedAt = Date.now();
+    clearTimeout(buffer.abandonTimer);
+    buffer.listeners.forEach(listener => listener(null));
+    buffer.listeners.clear();
+  }
+
+  /**
+   * Replay the events after `afterSequence`, then follow the stream until it
+   * finishes. Returns a function that disconnects the listener.
+   */
+  subscribe(streamId: string, afterSequence: number, listener: StreamListener): () => void {
+    const buffer = this.buffers.get(streamId);
+    if (!buffer) {
+      listener(null);
+      return () => {};
+    }
+
+    buffer.events.slice(afterSequence).forEach(event => listener(event));
+    if (buffer.finishedAt !== undefined) {
+      listener(null);
+      return () => {};
+    }
+
+    clearTimeout(buffer.abandonTimer);
+    buffer.listeners.add(listener);
+
+    return () => {
+      if (!buffer.listeners.delete(listener) || buffer.listeners.size > 0 || buffer.finishedAt !== undefined) return;
+
+      buffer.abandonTimer = setTimeout(() => {
+        buffer.onAbandoned();
+        this.finish(streamId);
+      }, this.windowMs);
+    };
+  }
+
+  /**
+   * Split a Last-Event-ID header into the stream it belongs to and the
+   * sequence number of the last event the client received
+   */
+  parseEventId(eventId: string): { streamId: string; sequence: number } | null {
+    const separator = eventId.lastIndexOf(':');
+    if (separator <= 0) return null;
+
+    const sequence = Number(eventId.slice(separator + 1));
+    if (!Number.isInteger(sequence) || sequence < 0) return null;
+
+    return { streamId: eventId.slice(0, separator), sequence };
+  }
+}
+
+export default new StreamReplayService();
@@ -0,0 +1,82 @@
+import { v4 as uuidv4 } from 'uuid';
+import TestCaseRefinementProposalModel, { ITestCaseRefinementProposal } from '../models/testCaseRefinementProposal';
+import { FieldChange, RefinableFields, TestCaseRefinementProposal } from '../types/contextWindow';
+
+const REFINABLE_FIELDS: Array<keyof RefinableFields> = ['summary', 'precondition', 'steps', 'expectedResult', 'priority'];
+
+class TestCaseRefinementService {
+  private readonly PROPOSAL_EXPIRY = 60 * 60 * 1000; // 1 hour in milliseconds
+
+  /**
+   * Store a refinement proposed by the model until the user accepts or rejects it
+   */
+  async createProposal(
+    proposal: Omit<TestCaseRefinementProposal, 'id' | 'changes' | 'createdAt' | 'expiresAt'>
+  ): Promise<TestCaseRefinementProposal> {
+    const { model, ...fields } = proposal;
+    const document = await TestCaseRefinementProposalModel.create({
+      ...fields,
+      _id: uuidv4(),
+      modelName: model,
+      changes: this.diff(proposal.original, proposal.proposed),
+      expiresAt: new Date(Date.now() + this.PROPOSAL_EXPIRY)
+    });
+
+    return this.toProposal(document);
+  }
+
+  /**
+   * Get a pending proposal, or null when it does not exist or has expired
+   */
+  async getProposal(proposalId: string): Promise<TestCaseRefinementProposal | null> {
+    // The TTL monitor only runs now and then, so expired proposals may still be stored
+    const document = await TestCaseRefinementProposalModel.findOne({ _id: proposalId, expiresAt: { $gt: new Date() } });
+    return document ? this.toProposal(document) : null;
+  }
+
+  /**
+   * Whether the test case still has the content the proposal was based on
+   */
+  isCurrent(proposal: TestCaseRefinementProposal, current: RefinableFields): boolean {
+    return this.diff(proposal.original, current).length === 0;
+  }
+
+  async removeProposal(proposalId: string): Promise<void> {
+    await TestCaseRefinementProposalModel.deleteOne({ _id: proposalId });
+  }
+
+  private diff(from: RefinableFields, to: RefinableFields): FieldChange[] {
+    return REFINABLE_FIELDS
+      .filter(field => from[field] !== to[field])
+      .map(field => ({ field, from: from[field], to: to[field] }));
+  }
+
+  private toProposal(document: ITestCaseRefinementProposal): TestCaseRefinementProposal {
+    return {
+      id: document._id,
+      contextWindowId: document.contextWindowId,
+      testCaseId: document.testCaseId,
+      userId: document.userId,
+      instruction: document.instruction,
+      original: this.toFields(document.original),
+      proposed: this.toFields(document.proposed),
+      changes: document.changes.map(change => ({ field: change.field, from: change.from, to: change.to })),
+      provider: document.provider,
+      model: document.modelName,
+      createdAt: document.createdAt,
+      expiresAt: document.expiresAt
+    };
+  }
+
+  private toFields(fields: RefinableFields): RefinableFields {
+    return {
+      summary: fields.summary,
+      precondition: fields.precondition,
+      steps: fields.steps,
+      expectedResult: fields.expectedResult,
+      priority: fields.priority
+    };
+  }
+}
+
+export default new TestCaseRefinementService();
@@ -0,0 +1,172 @@
+import TestCaseRevisionModel, { ITestCaseRevision } from '../models/testCaseRevision';
+import {
+  FieldChange,
+  RevisionAction,
+  RevisionAuthor,
+  TestCaseRevision,
+  TestCaseSnapshot
+} from '../types/contextWindow';
+
+const TRACKED_FIELDS: Array<keyof TestCaseSnapshot> = [
+  'summary',
+  'precondition',
+  'steps',
+  'expectedResult',
+  'priority',
+  'tags',
+  'requirementIds',
+  'parentId',
+  'level',
+  'order'
+];
+
+type SnapshotSource = TestCaseSnapshot & { id: string };
+
+type RevisionEntry = { testCaseId: string; action: RevisionAction; snapshot: TestCaseSnapshot; changes: FieldChange[] };
+
+// Concurrent edits can allocate the same revision number; the losers retry with fresh numbers
+const MAX_INSERT_ATTEMPTS = 5;
+const DUPLICATE_KEY = 11000;
+
+class TestCaseRevisionService {
+  /**
+   * Take a snapshot of the tracked fields of every test case, keyed by id
+   */
+  snapshotAll(testCases: SnapshotSource[]): Map<string, TestCaseSnapshot> {
+    return new Map(testCases.map(testCase => [testCase.id, this.snapshot(testCase)]));
+  }
+
+  snapshot(testCase: TestCaseSnapshot): TestCaseSnapshot {
+    return {
+      summary: testCase.summary,
+      precondition: testCase.precondition,
+      steps: testCase.steps,
+      expectedResult: testCase.expectedResult,
+      priority: testCase.priority,
+      tags: [...(testCase.tags || [])],
+      // Left out when empty so revisions recorded before requirement links existed compare equal
+      ...(testCase.requirementIds?.length ? { requirementIds: [...testCase.requirementIds] } : {}),
+      parentId: testCase.parentId || undefined,
+      level: testCase.level,
+      order: testCase.order
+    };
+  }
+
+  /**
+   * Field-level diff between two snapshots
+   */
+  diff(from: TestCaseSnapshot | undefined, to: TestCaseSnapshot | undefined): FieldChange[] {
+    return TRACKED_FIELDS
+      .filter(field => JSON.stringify(from?.[field]) !== JSON.stringify(to?.[field]))
+      .map(field => ({
+        field,
+        from: from?.[field] ?? null,
+        to: to?.[field] ?? null
+      }));
+  }
+
+  /**
+   * Record a revision for every test case that was created, changed or
+   * removed between two snapshots of a context window
+   */
+  async recordChanges(
+    contextWindowId: string,
+    before: Map<string, TestCaseSnapshot>,
+    after: Map<string, TestCaseSnapshot>,
+    action: RevisionAction,
+    author: RevisionAuthor
+  ): Promise<void> {
+    const testCaseIds = new Set([...before.keys(), ...after.keys()]);
+    const entries: RevisionEntry[] = [];
+
+    testCaseIds.forEach(testCaseId => {
+      const previous = before.get(testCaseId);
+      const current = after.get(testCaseId);
+      const changes = this.diff(previous, current);
+
+      if (changes.length === 0) return;
+
+      entries.push({
+        testCaseId,
+        action: !previous ? 'create' : !current ? 'delete' : action,
+        snapshot: (current || previous)!,
+        changes
+      });
+    });
+
+    let pending = entries;
+    for (let attempt = 1; pending.length > 0; attempt++) {
+      const conflicts = await this.insertRevisions(contextWindowId, pending, author);
+      if (conflicts.length > 0 && attempt >= MAX_INSERT_ATTEMPTS) {
+        throw new Error(`Could not allocate revision numbers for ${conflicts.length} test cases`);
+      }
+      pending = conflicts;
+    }
+  }
+
+  /**
+   * Insert one revision per entry, numbered after the latest stored one.
+   * Returns the entries whose number was taken in the meantime.
+   */
+  private async insertRevisions(contextWindowId: string, entries: RevisionEntry[], author: RevisionAuthor): Promise<RevisionEntry[]> {
+    const latest = await TestCaseRevisionModel.aggregate<{ _id: string; revision: number }>([
+      { $match: { contextWindowId, testCaseId: { $in: entries.map(entry => entry.testCaseId) } } },
+      { $group: { _id: '$testCaseId', revision: { $max: '$revision' } } }
+    ]);
+    const latestRevisions = new Map(latest.map(item => [item._id, item.revision]));
+
+    try {
+      await TestCaseRevisionModel.insertMany(entries.map(entry => ({
+        contextWindowId,
+        testCaseId: entry.testCaseId,
+        revision: (latestRevisions.get(entry.testCaseId) || 0) + 1,
+        action: entry.action,
+        author,
+        snapshot: entry.snapshot,
+        changes: entry.changes
+      })), { ordered: false });
+      return [];
+    } catch (error: any) {
+      const writeErrors: any[] = error?.writeErrors || [];
+      const conflicts = writeErrors.filter(writeError => (writeError.err?.code ?? writeError.code) === DUPLICATE_KEY);
+      if (conflicts.length === 0 || conflicts.length !== writeErrors.length) throw error;
+      return conflicts.map(conflict => entries[conflict.index]!).filter(Boolean);
+    }
+  }
+
+  /**
+   * List the revisions of a test case, newest first
+   */
+  async listRevisions(contextWindowId: string, testCaseId: string): Promise<TestCaseRevision[]> {
+    const revisions = await TestCaseRevisionModel.find({ contextWindowId, testCaseId }).sort({ revision: -1 });
+    return revisions.map(revision => this.toRevision(revision));
+  }
+
+  async getRevision(contextWindowId: string, testCaseId: string, revision: number): Promise<TestCaseRevision | null> {
+    const document = await TestCaseRevisionModel.findOne({ contextWindowId, testCaseId, revision });
+    return document ? this.toRevision(document) : null;
+  }
+
+  /**
+   * Remove the history of deleted context windows
+   */
+  async deleteForContextWindows(contextWindowIds: string[]): Promise<void> {
+    if (contextWindowIds.length === 0) return;
+    await TestCaseRevisionModel.deleteMany({ contextWindowId: { $in: contextWindowIds } });
+  }
+
+  private toRevision(document: ITestCaseRevision): TestCaseRevision {
+    return {
+      contextWindowId: document.contextWindowId,
+      testCaseId: document.testCaseId,
+      revision: document.revision,
+      action: document.action,
+      author: document.author,
+      snapshot: document.snapshot,
+      changes: document.changes.map(change => ({ field: change.field, from: change.from, to: change.to })),
+      createdAt: document.createdAt
+    };
+  }
+}
+
+export default new TestCaseRevisionService();
@@ -0,0 +1,718 @@
+import { getEnvVar } from "../config/envValidator";
+import { MODERN_REQUIREMENTS } from "../utils/passwordValidation";
+import { EMAIL_MAX_LENGTH, NAME_LENGTH } from "../utils/signUpValidation";
+import { safeTest } from "../utils/regexSafety";
+import { ApiSchema, ApiSpecSummary } from "../types/openapi";
+import {
+  FieldDefinition,
+  FieldTestData,
+  TestDataFieldType,
+  TestDataOptions,
+  TestDataPreset,
+  TestDataRow,
+  TestDataSet,
+  TestDataTable,
+  TestDataTechnique,
+  TestDataValue,
+} from "../types/testData";
+
+const ALL_TECHNIQUES: TestDataTechnique[] = ["boundary", "equivalence", "pairwise"];
+const SPECIAL_CHARACTERS = "!@#$%^&*()_+-=[]{}|;:,.<>?~`";
+const MAX_FIELDS = 20;
+const MAX_ENUM_VALUES = 10;
+const MAX_PAIRWISE_VALUES = 4;
+const DEFAULT_STRING_LENGTH = 10;
+const DEFAULT_DATE = "2025-01-15";
+// Same ceiling as the request validation puts on explicit field lengths
+const MAX_FIELD_LENGTH = 10000;
+
+// Repeated to build strings of a given length; the mixed one has no runs or sequences
+const LETTERS = "Sampletext";
+const MIXED = "Tq4!Wm8#Zr2@Kx6%Hv3&Jn5*Bc7$Pd9^";
+const DIGITS = "1357924680";
+const EMAIL_DOMAIN = "@example.com";
+
+// Leading "REQ-3:", "FR-1.2)" or "3.1" in front of a field rule
+const RULE_PREFIX = /^(?:[-*•]\s*)?(?:\[?[A-Z]{2,4}[-_]?\d+(?:\.\d+)*\]?\s*[:.)\-–—]?\s*|\d+(?:\.\d+)*[.)]?\s+)?/;
+// "Email: required, valid address" and "Age (years) - between 18 and 99"
+const LABELLED_RULE = /^([A-Za-z][A-Za-z0-9 _]{0,40}?)\s*(?:\([^)]*\))?\s*[:\-–]\s+(.+)$/;
+// "The username field must be 3-20 characters"
+const SENTENCE_RULE = /^(?:the\s+)?([A-Za-z][A-Za-z0-9 _]{0,40}?)\s+(?:field\s+|input\s+|value\s+)?(?:must|shall|should|is|has to|may|can)\b\s*(.+)$/i;
+const NOT_A_FIELD = /^(?:system|user|users|application|app|it|this|that|page|form|service|api|server|there|each|all|admin|administrator|note|notes|example)$/i;
+
+const NUMBER = "-?\\d+(?:\\.\\d+)?";
+const UNIT = "(?:characters?|chars?|letters?|digits?)";
+const NOT_LENGTH = `(?![\\d.]|\\s*${UNIT})`;
+
+class TestDataService {
+  private maxRows: number;
+
+  constructor() {
+    this.maxRows = parseInt(getEnvVar("TEST_DATA_MAX_ROWS", "200"));
+  }
+
+  /**
+   * Boundary values and equivalence classes for every field, and a data
+   * table that varies one field at a time plus pairwise combinations of the
+   * valid classes
+   */
+  generate(fields: FieldDefinition[], options: TestDataOptions = {}): TestDataSet {
+    const techniques = options.techniques?.length ? options.techniques : ALL_TECHNIQUES;
+    const maxRows = Math.min(options.maxRows ?? this.maxRows, this.maxRows);
+    const selected = fields.slice(0, MAX_FIELDS);
+    const values = selected.map(field => this.valuesFor(field));
+
+    const nominal: Record<string, unknown> = {};
+    values.forEach(fieldData => {
+      const value = this.nominalOf(fieldData);
+      if (value !== undefined) nominal[fieldData.field] = value;
+    });
+
+    const rows: TestDataRow[] = [{ technique: "equivalence", valid: true, description: "All fields valid", values: { ...nominal } }];
+
+    for (const technique of ["equivalence", "boundary"] as const) {
+      if (!techniques.includes(technique)) continue;
+      for (const fieldData of values) {
+        for (const value of fieldData[technique]) {
+          rows.push({
+            technique,
+            valid: value.valid,
+            description: `${fieldData.field}: ${value.description}`,
+            values: this.withValue(nominal, fieldData.field, value.value),
+          });
+        }
+      }
+    }
+
+    if (techniques.includes("pairwise") && values.length > 1) {
+      this.pairwise(values).forEach((combination, index) => {
+        rows.push({ technique: "pairwise", valid: true, description: `Pairwise combination ${index + 1}`, values: combination });
+      });
+    }
+
+    return {
+      fields: selected,
+      values,
+      table: {
+        fields: selected.map(field => field.name),
+        rows: this.uniqueRows(rows).slice(0, maxRows),
+      },
+    };
+  }
+
+  /**
+   * Field definitions for built-in rule sets, taken from the validation
+   * rules the application itself enforces
+   */
+  presetFields(preset: TestDataPreset): FieldDefinition[] {
+    switch (preset) {
+      case "password":
+        return [this.passwordField("password")];
+      case "signup":
+        return [
+          { name: "firstName", type: "string", required: true, minLength: NAME_LENGTH.min, maxLength: NAME_LENGTH.max, source: "preset" },
+          { name: "lastName", type: "string", required: true, minLength: NAME_LENGTH.min, maxLength: NAME_LENGTH.max, source: "preset" },
+          { name: "emailId", type: "email", required: true, maxLength: EMAIL_MAX_LENGTH, source: "preset" },
+          this.passwordField("password"),
+        ];
+    }
+  }
+
+  /**
+   * Find field rules in document text such as "Username: 3-20 characters,
+   * required" or "Age must be between 18 and 99". Only lines that state a
+   * constraint or a type become fields.
+   */
+  inferFields(text: string): FieldDefinition[] {
+    const fields = new Map<string, FieldDefinition>();
+
+    for (const rawLine of text.split(/\n|(?<=[.;])\s+(?=[A-Z])/)) {
+      const line = rawLine.trim().replace(RULE_PREFIX, "");
+      if (!line || line.startsWith("--- File:")) continue;
+
+      const match = line.match(LABELLED_RULE) || line.match(SENTENCE_RULE);
+      if (!match) continue;
+
+      const label = match[1]!.trim();
+      if (NOT_A_FIELD.test(label) || label.split(/\s+/).length > 4) continue;
+
+      const field = this.parseRule(this.toFieldName(label), label, match[2]!);
+      if (!field) continue;
+
+      const existing = fields.get(field.name);
+      fields.set(field.name, existing ? this.mergeFields(existing, field) : field);
+    }
+
+    return [...fields.values()].slice(0, MAX_FIELDS);
+  }
+
+  /**
+   * Field definitions from the request body properties and query
+   * parameters of an OpenAPI / Swagger spec
+   */
+  fieldsFromSpec(summary: ApiSpecSummary): FieldDefinition[] {
+    const fields = new Map<string, FieldDefinition>();
+
+    const add = (name: string, schema: ApiSchema, required: boolean) => {
+      if (fields.has(name) || fields.size >= MAX_FIELDS) return;
+      const field = this.fromApiSchema(name, schema, required);
+      if (field) fields.set(name, field);
+    };
+
+    for (const operation of summary.operations) {
+      const body = operation.requestBody?.schema;
+      Object.entries(body?.properties || {}).forEach(([name, schema]) => add(name, schema, Boolean(body?.required?.includes(name))));
+      operation.parameters
+        .filter(parameter => parameter.in === "query")
+        .forEach(parameter => add(parameter.name, parameter.schema, parameter.required));
+    }
+
+    return [...fields.values()];
+  }
+
+  /**
+   * The fields a test case talks about, matched by name in its text
+   */
+  fieldsForTestCase(fields: FieldDefinition[], testCaseText: string): FieldDefinition[] {
+    const text = testCaseText.toLowerCase();
+    const generic = new Set(["name", "date", "number", "address", "code", "value", "type", "text", "field"]);
+
+    return fields.filter(field => {
+      const words = this.wordsOf(field.name);
+      if (text.includes(field.name.toLowerCase()) || text.includes(words.join(" "))) return true;
+      return words.some(word => word.length >= 4 && !generic.has(word) && new RegExp(`\\b${word}`).test(text));
+    });
+  }
+
+  /**
+   * Data table as CSV: the case columns first, then one column per field.
+   * Omitted values are left empty.
+   */
+  toCsv(table: TestDataTable): string {
+    const header = ["technique", "valid", "description", ...table.fields];
+    const lines = table.rows.map(row => [
+      row.technique,
+      String(row.valid),
+      row.description,
+      ...table.fields.map(field => this.csvValue(row.values[field])),
+    ]);
+
+    return [header, ...lines].map(cells => cells.map(cell => this.csvCell(cell)).join(",")).join("\n") + "\n";
+  }
+
+  /**
+   * Data table as a JSON fixture: valid and invalid records, each with the
+   * case it represents
+   */
+  toJsonFixture(table: TestDataTable): string {
+    const record = (row: TestDataRow) => ({ _case: row.description, _technique: row.technique, ...row.values });
+
+    return JSON.stringify({
+      fields: table.fields,
+      valid: table.rows.filter(row => row.valid).map(record),
+      invalid: table.rows.filter(row => !row.valid).map(record),
+    }, null, 2);
+  }
+
+  private valuesFor(field: FieldDefinition): FieldTestData {
+    const equivalence = this.equivalenceValues(field);
+    const nominal = equivalence.find(value => value.valid)?.value;
+    const seen = new Set([this.valueKey(nominal)]);
+    const boundary = this.boundaryValues(field).filter(value => {
+      const key = this.valueKey(value.value);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+    return { field: field.name, boundary, equivalence };
+  }
+
+  private equivalenceValues(field: FieldDefinition): TestDataValue[] {
+    const values: TestDataValue[] = [];
+    const valid = (value: unknown, description: string) => values.push({ value, valid: true, technique: "equivalence", description });
+    const invalid = (value: unknown, description: string) => values.push({ value, valid: false, technique: "equivalence", description });
+
+    switch (field.type) {
+      case "string": {
+        const nominal = this.validString(field, this.nominalLength(field));
+        valid(nominal.value, nominal.matches ? "typical value" : `typical value (adjust to match ${field.pattern})`);
+        if (field.pattern) {
+          const mismatch = this.patternMismatch(field);
+          if (mismatch !== undefined) invalid(mismatch, `does not match ${field.pattern}`);
+        }
+        const forbidden = field.forbidden?.[0];
+        if (forbidden) invalid(this.containing(field, forbidden), `contains the forbidden value "${forbidden}"`);
+        if (field.required) {
+          invalid("", "empty");
+          invalid(" ".repeat(Math.max(1, field.minLength ?? 1)), "whitespace only");
+        }
+        break;
+      }
+      case "email":
+        valid(this.emailOfLength(Math.min(field.maxLength ?? 16, Math.max(field.minLength ?? 16, 16))), "well-formed address");
+        invalid("user.example.com", "missing @");
+        invalid("user@", "missing domain");
+        invalid("@example.com", "missing local part");
+        invalid("test user@example.com", "contains a space");
+        if (field.required) invalid("", "empty");
+        break;
+      case "integer":
+      case "number": {
+        const step = this.stepOf(field);
+        const min = this.numberOf(field.min);
+        const max = this.numberOf(field.max);
+        valid(this.middle(field, min, max), "value in range");
+        if (min !== undefined) invalid(this.round(min - 10 * step), `below minimum ${min}`);
+        if (max !== undefined) invalid(this.round(max + 10 * step), `above maximum ${max}`);
+        if (field.type === "integer") invalid(this.round(this.middle(field, min, max) + 0.5), "not a whole number");
+        invalid("abc", "not a number");
+        break;
+      }
+      case "date": {
+        const min = this.dateOf(field.min);
+        const max = this.dateOf(field.max);
+        valid(this.middleDate(min, max), "date in range");
+        if (min) invalid(this.addDays(min, -30), `before ${min}`);
+        if (max) invalid(this.addDays(max, 30), `after ${max}`);
+        invalid("2025-02-30", "impossible date");
+        invalid("not-a-date", "not a date");
+        break;
+      }
+      case "boolean":
+        valid(true, "true");
+        valid(false, "false");
+        invalid("yes", "not a boolean");
+        break;
+      case "enum":
+        (field.enum || []).slice(0, MAX_ENUM_VALUES).forEach(option => valid(option, `option "${option}"`));
+        invalid("not-an-option", "value outside the allowed options");
+        break;
+    }
+
+    if (field.required) {
+      invalid(undefined, "missing");
+    } else {
+      valid(undefined, "omitted (optional)");
+    }
+
+    return values;
+  }
+
+  private boundaryValues(field: FieldDefinition): TestDataValue[] {
+    const values: TestDataValue[] = [];
+    const add = (value: unknown, valid: boolean, description: string) => values.push({ value, valid, technique: "boundary", description });
+
+    if (field.type === "string" || field.type === "email") {
+      const build = (length: number) => field.type === "email" ? this.emailOfLength(length) : this.validString(field, length).value;
+      const { minLength, maxLength } = field;
+      const shortest = field.type === "email" ? EMAIL_DOMAIN.length + 1 : 0;
+
+      if (minLength !== undefined && minLength > shortest) {
+        add(build(minLength - 1), false, `${minLength - 1} characters (one below minimum ${minLength})`);
+        add(build(minLength), true, `${minLength} characters (minimum)`);
+        if (maxLength === undefined || minLength + 1 <= maxLength) add(build(minLength + 1), true, `${minLength + 1} characters (one above minimum)`);
+      }
+      if (maxLength !== undefined) {
+        if (maxLength - 1 >= Math.max(minLength ?? 0, shortest)) add(build(maxLength - 1), true, `${maxLength - 1} characters (one below maximum)`);
+        add(build(maxLength), true, `${maxLength} characters (maximum)`);
+        add(build(maxLength + 1), false, `${maxLength + 1} characters (one above maximum ${maxLength})`);
+      }
+    }
+
+    if (field.type === "integer" || field.type === "number") {
+      const step = this.stepOf(field);
+      const min = this.numberOf(field.min);
+      const max = this.numberOf(field.max);
+
+      if (min !== undefined) {
+        add(this.round(min - step), false, `one step below minimum ${min}`);
+        add(min, true, "minimum");
+        if (max === undefined || min + step <= max) add(this.round(min + step), true, "one step above minimum");
+      }
+      if (max !== undefined) {
+        if (min === undefined || max - step >= min) add(this.round(max - step), true, "one step below maximum");
+        add(max, true, "maximum");
+        add(this.round(max + step), false, `one step above maximum ${max}`);
+      }
+    }
+
+    if (field.type === "date") {
+      const min = this.dateOf(field.min);
+      const max = this.dateOf(field.max);
+
+      if (min) {
+        add(this.addDays(min, -1), false, `day before ${min}`);
+        add(min, true, "earliest date");
+      }
+      if (max) {
+        add(max, true, "latest date");
+        add(this.addDays(max, 1), false, `day after ${max}`);
+      }
+    }
+
+    return values;
+  }
+
+  /**
+   * Rows covering every pair of valid values of two fields, built greedily:
+   * each row starts from an uncovered pair and picks, field by field, the
+   * value that covers the most pairs still missing
+   */
+  private pairwise(values: FieldTestData[]): Array<Record<string, unknown>> {
+    const columns = values.map(fieldData => {
+      const options = new Map<string, unknown>();
+      [...fieldData.equivalence, ...fieldData.boundary]
+        .filter(value => value.valid)
+        .forEach(value => {
+          const key = this.valueKey(value.value);
+          if (!options.has(key) && options.size < MAX_PAIRWISE_VALUES) options.set(key, value.value);
+        });
+      return { field: fieldData.field, options: [...options.values()] };
+    }).filter(column => column.options.length > 0);
+
+    const pairKey = (a: number, i: number, b: number, j: number) => (a < b ? `${a}:${i}|${b}:${j}` : `${b}:${j}|${a}:${i}`);
+    const uncovered = new Map<string, [number, number, number, number]>();
+    for (let a = 0; a < columns.length; a++) {
+      for (let b = a + 1; b < columns.length; b++) {
+        columns[a]!.options.forEach((_, i) => columns[b]!.options.forEach((__, j) => uncovered.set(pairKey(a, i, b, j), [a, i, b, j])));
+      }
+    }
+
+    const combinations: Array<Record<string, unknown>> = [];
+
+    while (uncovered.size > 0 && combinations.length < this.maxRows) {
+      const [a, i, b, j] = uncovered.values().next().value!;
+      const choice = new Map<number, number>([[a, i], [b, j]]);
+
+      columns.forEach((column, c) => {
+        if (choice.has(c)) return;
+        let best = 0;
+        let bestGain = -1;
+        column.options.forEach((_, v) => {
+          const gain = [...choice].filter(([other, chosen]) => uncovered.has(pairKey(c, v, other, chosen))).length;
+          if (gain > bestGain) {
+            best = v;
+            bestGain = gain;
+          }
+        });
+        choice.set(c, best);
+      });
+
+      const chosen = [...choice];
+      chosen.forEach(([c, v]) => chosen.forEach(([other, w]) => uncovered.delete(pairKey(c, v, other, w))));
+
+      const combination: Record<string, unknown> = {};
+      columns.forEach((column, c) => {
+        const value = column.options[choice.get(c)!];
+        if (value !== undefined) combination[column.field] = value;
+      });
+      combinations.push(combination);
+    }
+
+    return combinations;
+  }
+
+  private parseRule(name: string, label: string, rule: string): FieldDefinition | null {
+    const text = rule.replace(/\s+/g, " ");
+    const field: FieldDefinition = { name, type: "string", source: "document" };
+    let constrained = false;
+
+    const lengthRange = text.match(new RegExp(`(?:between\\s+)?(\\d+)\\s*(?:-|–|to|and)\\s*(\\d+)\\s*${UNIT}`, "i"));
+    const exactLength = text.match(new RegExp(`exactly\\s+(\\d+)\\s*${UNIT}`, "i"));
+    const minLength = text.match(new RegExp(`(?:at least|minimum(?: of)?|min\\.?|no (?:less|fewer) than)\\s*(\\d+)\\s*${UNIT}`, "i"));
+    const maxLength = text.match(new RegExp(`(?:at most|maximum(?: of)?|max\\.?|no more than|up to|not exceed(?:ing)?)\\s*(\\d+)\\s*${UNIT}`, "i"));
+
+    if (lengthRange) {
+      field.minLength = parseInt(lengthRange[1]!);
+      field.maxLength = parseInt(lengthRange[2]!);
+    }
+    if (exactLength) field.minLength = field.maxLength = parseInt(exactLength[1]!);
+    if (minLength) field.minLength = parseInt(minLength[1]!);
+    if (maxLength) field.maxLength = parseInt(maxLength[1]!);
+    if (field.minLength !== undefined || field.maxLength !== undefined) {
+      constrained = true;
+      if (/\d\s*digits?\b/i.test(text)) field.pattern = "^\\d+$";
+    }
+
+    const range = text.match(new RegExp(`between\\s+(${NUMBER})\\s+and\\s+(${NUMBER})${NOT_LENGTH}`, "i"));
+    const min = text.match(new RegExp(`(?:at least|minimum(?: of)?|min\\.?|no less than|greater than or equal to|>=)\\s*(${NUMBER})${NOT_LENGTH}`, "i"));
+    const max = text.match(new RegExp(`(?:at most|maximum(?: of)?|max\\.?|no more than|up to|less than or equal to|<=)\\s*(${NUMBER})${NOT_LENGTH}`, "i"));
+
+    if (range) {
+      field.min = parseFloat(range[1]!);
+      field.max = parseFloat(range[2]!);
+    }
+    if (min) field.min = parseFloat(min[1]!);
+    if (max) field.max = parseFloat(max[1]!);
+
+    const fromDate = text.match(/(?:on or after|no earlier than|from|after)\s+(\d{4}-\d{2}-\d{2})/i);
+    const toDate = text.match(/(?:on or before|no later than|until|before)\s+(\d{4}-\d{2}-\d{2})/i);
+    if (fromDate) field.min = fromDate[1];
+    if (toDate) field.max = toDate[1];
+    if (field.min !== undefined || field.max !== undefined) constrained = true;
+
+    const options = text.match(/one of\s*:?\s*\(?([^.;)]+)\)?/i);
+    if (options) {
+      const values = options[1]!
+        .split(/\s*(?:,|\/|\bor\b)\s*/i)
+        .map(value => value.trim().replace(/^["'`]|["'`]$/g, ""))
+        .filter(Boolean);
+      if (values.length > 1) {
+        field.type = "enum";
+        field.enum = values;
+        constrained = true;
+      }
+    }
+
+    const pattern = text.match(/(?:match(?:es|ing)?|pattern|regex|format)\s*:?\s*(?:\/(.+?)\/|`([^`]+)`)/i);
+    if (pattern) {
+      field.pattern = pattern[1] || pattern[2];
+      constrained = true;
+    }
+
+    if (/\b(?:required|mandatory|must be provided|cannot be empty|must not be empty|must be entered)\b/i.test(text)) {
+      field.required = true;
+      constrained = true;
+    } else if (/\boptional\b/i.test(text)) {
+      field.required = false;
+      constrained = true;
+    }
+
+    if (field.type !== "enum") {
+      const stated = this.typeHint(text);
+      if (stated) constrained = true;
+      const type = stated || this.typeHint(label);
+      if (type) {
+        field.type = type;
+      } else if (field.min !== undefined && field.minLength === undefined && field.maxLength === undefined) {
+        field.type = typeof field.min === "string" ? "date" : [field.min, field.max].every(value => value === undefined || Number.isInteger(value)) ? "integer" : "number";
+      }
+    }
+
+    if (!constrained) return null;
+
+    // Length rules on numbers are digit counts, which the string rules cover better
+    if ((field.type === "integer" || field.type === "number") && (field.minLength !== undefined || field.maxLength !== undefined)) {
+      field.type = "string";
+      field.pattern = field.pattern || "^\\d+$";
+    }
+
+    return field;
+  }
+
+  private typeHint(text: string): TestDataFieldType | undefined {
+    if (/e-?mail/i.test(text)) return "email";
+    if (/\bdate\b|birthday|\bdob\b/i.test(text)) return "date";
+    if (/checkbox|true\s*\/\s*false|yes\s*\/\s*no|\bboolean\b|\bflag\b/i.test(text)) return "boolean";
+    if (/\binteger\b|whole number|\bage\b|quantity|\bcount\b|number of/i.test(text)) return "integer";
+    if (/\bnumeric\b|\bnumber\b|amount|price|decimal/i.test(text)) return "number";
+    return undefined;
+  }
+
+  private fromApiSchema(name: string, schema: ApiSchema, required: boolean): FieldDefinition | null {
+    const type = Array.isArray(schema.type) ? schema.type.find(t => t !== "null") : schema.type;
+    const field: FieldDefinition = { name, type: "string", required, source: "openapi" };
+
+    if (schema.enum?.length) {
+      field.type = "enum";
+      field.enum = schema.enum.map(value => String(value));
+      return field;
+    }
+
+    switch (type) {
+      case "string":
+        if (schema.format === "email") field.type = "email";
+        if (schema.format === "date" || schema.format === "date-time") field.type = "date";
+        break;
+      case "integer":
+      case "number":
+      case "boolean":
+        field.type = type;
+        break;
+      default:
+        return null;
+    }
+
+    if (schema.minLength !== undefined) field.minLength = this.clampLength(schema.minLength);
+    if (schema.maxLength !== undefined) field.maxLength = this.clampLength(schema.maxLength);
+    if (schema.minimum !== undefined) field.min = schema.minimum;
+    if (schema.maximum !== undefined) field.max = schema.maximum;
+    if (schema.pattern) field.pattern = schema.pattern;
+
+    return field;
+  }
+
+  private passwordField(name: string): FieldDefinition {
+    const requirements = MODERN_REQUIREMENTS;
+    const special = SPECIAL_CHARACTERS.replace(/[\\\]\[^-]/g, "\\$&");
+    const lookaheads = [
+      requirements.requireUppercase ? "(?=.*[A-Z])" : "",
+      requirements.requireLowercase ? "(?=.*[a-z])" : "",
+      requirements.requireNumbers ? "(?=.*\\d)" : "",
+      requirements.requireSpecialChars ? `(?=.*[${special}])` : "",
+    ];
+
+    return {
+      name,
+      type: "string",
+      required: true,
+      minLength: requirements.minLength,
+      maxLength: requirements.maxLength,
+      pattern: `^${lookaheads.join("")}.*$`,
+      forbidden: requirements.forbiddenPatterns,
+      description: "Password rules enforced at sign-up",
+      source: "preset",
+    };
+  }
+
+  private clampLength(length: number): number {
+    return Math.min(Math.max(0, Math.floor(Number(length) || 0)), MAX_FIELD_LENGTH);
+  }
+
+  private mergeFields(existing: FieldDefinition, next: FieldDefinition): FieldDefinition {
+    const merged: FieldDefinition = { ...existing };
+    const fillIn = <K extends keyof FieldDefinition>(key: K): void => {
+      if (merged[key] === undefined) merged[key] = next[key];
+    };
+    (Object.keys(next) as Array<keyof FieldDefinition>).forEach(fillIn);
+    if (existing.type === "string" && next.type !== "string") merged.type = next.type;
+    return merged;
+  }
+
+  /**
+   * A string of the given length that satisfies the pattern and avoids the
+   * forbidden values, if one of the candidates does
+   */
+  private validString(field: FieldDefinition, length: number): { value: string; matches: boolean } {
+    const candidates = [LETTERS, MIXED, DIGITS].map(seed => this.repeatTo(seed, length));
+    const value = candidates.find(candidate => this.matchesPattern(field, candidate) && !this.isForbidden(field, candidate));
+    return value !== undefined ? { value, matches: true } : { value: candidates[0]!, matches: false };
+  }
+
+  private patternMismatch(field: FieldDefinition): string | undefined {
+    const length = this.nominalLength(field);
+    const candidates = [LETTERS.toLowerCase(), DIGITS, MIXED, "!@#$%^&*()"].map(seed => this.repeatTo(seed, length));
+    return candidates.find(candidate => !this.matchesPattern(field, candidate));
+  }
+
+  private containing(field: FieldDefinition, forbidden: string): string {
+    const length = Math.max(this.nominalLength(field), forbidden.length);
+    const value = forbidden.charAt(0).toUpperCase() + forbidden.slice(1) + this.repeatTo("1!", length - forbidden.length);
+    return this.matchesPattern(field, value) ? value : forbidden;
+  }
+
+  // Patterns that are invalid, could backtrack badly or values too long to test count as a match
+  private matchesPattern(field: FieldDefinition, value: string): boolean {
+    if (!field.pattern) return true;
+    return safeTest(field.pattern, value) ?? true;
+  }
+
+  private isForbidden(field: FieldDefinition, value: string): boolean {
+    const lower = value.toLowerCase();
+    return (field.forbidden || []).some(forbidden => lower.includes(forbidden.toLowerCase()));
+  }
+
+  private nominalLength(field: FieldDefinition): number {
+    return Math.min(Math.max(DEFAULT_STRING_LENGTH, field.minLength ?? 1), field.maxLength ?? Infinity);
+  }
+
+  private emailOfLength(length: number): string {
+    const local = this.repeatTo("testuser", Math.max(1, length - EMAIL_DOMAIN.length));
+    return `${local}${EMAIL_DOMAIN}`;
+  }
+
+  private repeatTo(seed: string, length: number): string {
+    return length > 0 ? seed.repeat(Math.ceil(length / seed.length)).substring(0, length) : "";
+  }
+
+  private nominalOf(fieldData: FieldTestData): unknown {
+    return fieldData.equivalence.find(value => value.valid)?.value;
+  }
+
+  private withValue(values: Record<string, unknown>, field: string, value: unknown): Record<string, unknown> {
+    const row = { ...values };
+    if (value === undefined) {
+      delete row[field];
+    } else {
+      row[field] = value;
+    }
+    return row;
+  }
+
+  private uniqueRows(rows: TestDataRow[]): TestDataRow[] {
+    const seen = new Set<string>();
+    return rows.filter(row => {
+      const key = `${row.technique}|${JSON.stringify(row.values)}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  private valueKey(value: unknown): string {
+    return value === undefined ? "<omitted>" : JSON.stringify(value);
+  }
+
+  private stepOf(field: FieldDefinition): number {
+    return field.type === "integer" ? 1 : 0.01;
+  }
+
+  private numberOf(value: number | string | undefined): number | undefined {
+    if (value === undefined) return undefined;
+    const parsed = typeof value === "number" ? value : parseFloat(value);
+    return Number.isNaN(parsed) ? undefined : parsed;
+  }
+
+  private middle(field: FieldDefinition, min: number | undefined, max: number | undefined): number {
+    if (min !== undefined && max !== undefined) {
+      const middle = (min + max) / 2;
+      return field.type === "integer" ? Math.floor(middle) : this.round(middle);
+    }
+    if (min !== undefined) return this.round(min + 10 * this.stepOf(field));
+    if (max !== undefined) return this.round(max - 10 * this.stepOf(field));
+    return field.type === "integer" ? 42 : 42.5;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  private dateOf(value: number | string | undefined): string | undefined {
+    if (typeof value !== "string" || Number.isNaN(Date.parse(value))) return undefined;
+    return value.substring(0, 10);
+  }
+
+  private middleDate(min: string | undefined, max: string | undefined): string {
+    if (min && max) return new Date((Date.parse(min) + Date.parse(max)) / 2).toISOString().substring(0, 10);
+    if (min) return this.addDays(min, 30);
+    if (max) return this.addDays(max, -30);
+    return DEFAULT_DATE;
+  }
+
+  private addDays(date: string, days: number): string {
+    const result = new Date(`${date}T00:00:00Z`);
+    result.setUTCDate(result.getUTCDate() + days);
+    return result.toISOString().substring(0, 10);
+  }
+
+  private toFieldName(label: string): string {
+    const words = label.toLowerCase().replace(/[^a-z0-9 _]/g, "").split(/[\s_]+/).filter(Boolean);
+    return words.map((word, index) => (index === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1))).join("");
+  }
+
+  private wordsOf(name: string): string[] {
+    return name.replace(/([a-z0-9])([A-Z])/g, "$1 $2").toLowerCase().split(/[\s_-]+/).filter(Boolean);
+  }
+
+  private csvValue(value: unknown): string {
+    if (value === undefined || value === null) return "";
+    return typeof value === "string" ? value : JSON.stringify(value);
+  }
+
+  private csvCell(value: string): string {
+    return /[",\n\r]/.test(value) || /^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+}
+
+export default new TestDataService();
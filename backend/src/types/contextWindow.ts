@@ -1,3 +1,10 @@
+import { TestCaseSource } from './document';
+import { GherkinScenario, TestCaseFormat } from './gherkin';
+import { TestDataTable } from './testData';
+import { TestCaseQuality } from './quality';
+import { RiskProfile, TestCaseRisk } from './risk';
+import { LanguageCode } from './language';
+
 export interface TestCaseContext {
   id: string;
   summary: string;
@@ -6,6 +13,16 @@ export interface TestCaseContext {
   expectedResult: string;
   priority: 'P1' | 'P2' | 'P3';
   parentId?: string | undefined;
+  source?: TestCaseSource | undefined;
+  gherkin?: GherkinScenario | undefined; // structured steps when generated in the Gherkin format
+  level: number; // 0 for root test cases, parent level + 1 for sub-tests
+  order: number; // position among siblings with the same parent
+  tags: string[];
+  requirementIds: string[]; // requirements of the uploaded documents this test case verifies
+  testData?: TestDataTable | undefined; // boundary, equivalence and pairwise values to run it with
+  provenanceId?: string | undefined; // record of the generation that produced it
+  quality?: TestCaseQuality | undefined; // computed when the context window is read, not stored
+  risk?: TestCaseRisk | undefined; // why it has its priority, when a risk profile was applied
   createdAt: Date;
   updatedAt: Date;
 }
@@ -19,10 +36,26 @@ export interface ContextWindow {
   rootPrompt: string;
   fileIds: string[];
   testCases: TestCaseContext[];
+  riskProfile?: RiskProfile | undefined;
+  language?: LanguageCode | undefined; // set by generation and translation, used for later generations
+  currentLevel: number;
+  maxLevel: number;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface ContextNavigation {
+  currentLevel: number;
+  maxLevel: number;
+  canGoBack: boolean;
+  canGoForward: boolean;
+  breadcrumb: Array<{
+    level: number;
+    testCaseId: string;
+    summary: string;
+  }>;
+}
+
 export interface ContextWindowRequest {
   prompt: string;
   fileIds?: string[];
@@ -30,12 +63,127 @@ export interface ContextWindowRequest {
   parentTestCaseId?: string;
   contextWindowId?: string;
   sessionId?: string;
+  provider?: string;
+  dedupe?: 'merge' | 'flag';
+  format?: TestCaseFormat;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  templateId?: string;
+  variables?: Record<string, string>;
+  autoRefine?: boolean;
+  riskProfile?: RiskProfile; // saved on the context window and used for its later generations
+  language?: LanguageCode; // likewise; the window's language when not given
+}
+
+export interface TestCaseUpdate {
+  summary?: string | undefined;
+  precondition?: string | undefined;
+  steps?: string | undefined;
+  expectedResult?: string | undefined;
+  priority?: 'P1' | 'P2' | 'P3' | undefined;
+  tags?: string[] | undefined;
+  requirementIds?: string[] | undefined;
+}
+
+// Translated text of a test case; everything else about it stays as it is
+export interface TestCaseTranslation {
+  id: string;
+  summary: string;
+  precondition: string;
+  steps: string;
+  expectedResult: string;
+  gherkin?: GherkinScenario | undefined;
+}
+
+export interface TestCaseBulkUpdate {
+  priority?: 'P1' | 'P2' | 'P3' | undefined;
+  tags?: string[] | undefined; // replaces existing tags
+  addTags?: string[] | undefined;
+  removeTags?: string[] | undefined;
+}
+
+// Who made a change: a user editing by hand, or the model generating from a prompt
+export type RevisionAuthor =
+  | { type: 'user'; userId: string }
+  | { type: 'model'; userId?: string | undefined; provider: string; model: string; prompt: string };
+
+export type RevisionAction = 'create' | 'update' | 'move' | 'reorder' | 'delete' | 'restore';
+
+// Fields of a test case that are tracked in its revision history
+export interface TestCaseSnapshot {
+  summary: string;
+  precondition: string;
+  steps: string;
+  expectedResult: string;
+  priority: 'P1' | 'P2' | 'P3';
+  tags: string[];
+  requirementIds?: string[] | undefined;
+  parentId?: string | undefined;
+  level: number;
+  order: number;
+}
+
+export interface FieldChange {
+  field: keyof TestCaseSnapshot;
+  from: unknown;
+  to: unknown;
+}
+
+export interface TestCaseRevision {
+  contextWindowId: string;
+  testCaseId: string;
+  revision: number;
+  action: RevisionAction;
+  author: RevisionAuthor;
+  snapshot: TestCaseSnapshot;
+  changes: FieldChange[];
+  createdAt: Date;
+}
+
+// Content fields the model may rewrite when refining a test case
+export interface RefinableFields {
+  summary: string;
+  precondition: string;
+  steps: string;
+  expectedResult: string;
+  priority: 'P1' | 'P2' | 'P3';
+}
+
+export interface TestCaseRefinementProposal {
+  id: string;
+  contextWindowId: string;
+  testCaseId: string;
+  userId: string;
+  instruction: string;
+  original: RefinableFields;
+  proposed: RefinableFields;
+  changes: FieldChange[];
+  provider: string;
+  model: string;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export interface ContextWindowListOptions {
+  page?: number | undefined;
+  limit?: number | undefined;
+}
+
+export interface ContextWindowPagination {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
 }
 
 export interface ContextWindowResponse {
   success: boolean;
   contextWindow?: ContextWindow;
   testCases?: TestCaseContext[];
+  pagination?: ContextWindowPagination;
+  revisions?: TestCaseRevision[];
+  changes?: FieldChange[];
   message?: string;
   error?: string;
 }
@@ -43,5 +191,8 @@ export interface ContextWindowResponse {
 
 export interface ContextWindowStats {
   totalTestCases: number;
+  levelsCount: number;
+  testCasesByLevel: Record<number, number>;
   testCasesByPriority: Record<string, number>;
+  averageTestCasesPerLevel: number;
 }
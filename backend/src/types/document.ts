@@ -0,0 +1,20 @@
+export interface DocumentSection {
+  title: string;
+  content: string;
+}
+
+export interface DocumentChunk {
+  id: string;
+  fileId?: string | undefined;
+  title: string;
+  index: number;
+  content: string;
+  tokenEstimate: number;
+}
+
+// Pointer from a generated test case back to the document chunk it came from
+export interface TestCaseSource {
+  chunkId: string;
+  chunkTitle: string;
+  fileId?: string | undefined;
+}
@@ -0,0 +1,21 @@
+import { LLMProviderName } from './llm';
+import { TestCaseFormat } from './gherkin';
+
+export interface EstimateRange {
+  min: number;
+  max: number;
+}
+
+// Pre-flight projection of what a generation request will consume
+export interface GenerationEstimate {
+  provider: LLMProviderName;
+  model: string;
+  format: TestCaseFormat;
+  count: number;
+  promptTokens: number; // counted with the model's tokenizer
+  completionTokens: EstimateRange; // projected from the number of test cases requested
+  totalTokens: EstimateRange;
+  cost: EstimateRange & { currency: 'USD' };
+  chunks: number; // model requests the document needs; 1 when it fits in a single prompt
+  chunksSkipped: number; // chunks past the per-request token budget, which will not be covered
+}
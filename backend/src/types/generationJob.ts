@@ -0,0 +1,89 @@
+import { TestCaseSource } from './document';
+import { GherkinScenario, TestCaseFormat } from './gherkin';
+import { LLMUsage } from './llm';
+import { ProvenanceFile } from './provenance';
+import { TestCaseQuality } from './quality';
+import { RiskProfile, TestCaseRisk } from './risk';
+import { LanguageCode } from './language';
+
+export type GenerationJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+// Everything needed to (re)start a job; file content is resolved when the job is created
+export interface GenerationJobRequest {
+  prompt: string;
+  fileIds: string[];
+  fileContent: string;
+  count: number;
+  offset: number;
+  provider?: string | undefined;
+  format: TestCaseFormat;
+  dedupe: 'merge' | 'flag';
+  existingSummaries: string[];
+  model?: string | undefined; // overrides, checked against the model allow-list when the job was created
+  temperature?: number | undefined;
+  maxTokens?: number | undefined;
+  files: ProvenanceFile[]; // hashed when the job was created, for the provenance record
+  templateId?: string | undefined;
+  autoRefine?: boolean | undefined;
+  riskProfile?: RiskProfile | undefined;
+  language?: LanguageCode | undefined;
+  sourceLanguages?: LanguageCode[] | undefined; // detected in the uploaded files when the job was created
+}
+
+// A test case as stored on a job, in the shape POST /generate returns it
+export interface GenerationJobTestCase {
+  id: number;
+  summary: string;
+  precondition: string;
+  steps: string;
+  expectedResult: string;
+  priority: 'P1' | 'P2' | 'P3';
+  source?: TestCaseSource | undefined;
+  gherkin?: GherkinScenario | undefined;
+  requirementIds?: string[] | undefined;
+  duplicateOf?: { summary: string; similarity: number } | undefined;
+  provenanceId?: string | undefined;
+  quality?: TestCaseQuality | undefined;
+  risk?: TestCaseRisk | undefined;
+}
+
+export interface GenerationJobProgress {
+  generated: number;
+  requested: number;
+  percent: number;
+}
+
+// Job as returned by the status endpoints (results are fetched separately)
+export interface GenerationJob {
+  id: string;
+  userId?: string | undefined;
+  status: GenerationJobStatus;
+  prompt: string;
+  format: TestCaseFormat;
+  progress: GenerationJobProgress;
+  hasMore: boolean;
+  duplicates: number;
+  provider?: string | undefined;
+  model?: string | undefined;
+  usage?: LLMUsage | undefined;
+  error?: string | undefined;
+  cancelRequested: boolean;
+  attempts: number;
+  createdAt: Date;
+  startedAt?: Date | undefined;
+  finishedAt?: Date | undefined;
+}
+
+export interface GenerationJobListOptions {
+  userId?: string | undefined;
+  status?: GenerationJobStatus | undefined;
+  page?: number | undefined;
+  limit?: number | undefined;
+}
+
+export interface GenerationJobStats {
+  total: number;
+  byStatus: Record<GenerationJobStatus, number>;
+  active: number;
+  totalTokens: number;
+}
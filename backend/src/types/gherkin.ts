@@ -0,0 +1,23 @@
+export type TestCaseFormat = 'standard' | 'gherkin';
+
+export type GherkinKeyword = 'Given' | 'When' | 'Then' | 'And' | 'But';
+
+export interface GherkinStep {
+  keyword: GherkinKeyword;
+  text: string;
+}
+
+// Data table for a Scenario Outline; header names match the <placeholders> in the steps
+export interface GherkinExamples {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface GherkinScenario {
+  feature: string;
+  name: string;
+  type: 'Scenario' | 'Scenario Outline';
+  tags: string[];
+  steps: GherkinStep[];
+  examples?: GherkinExamples | undefined;
+}
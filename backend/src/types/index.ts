@@ -1,6 +1,13 @@
 import { Request, Response, NextFunction } from 'express';
 import { Document } from 'mongoose';
 import { IUser } from '../models/user';
+import { TestCaseSource } from './document';
+import { GherkinScenario, TestCaseFormat } from './gherkin';
+import { OpenApiVersion } from './openapi';
+import { TestDataTable } from './testData';
+import { TestCaseQuality } from './quality';
+import { TestCaseRisk } from './risk';
+import { DetectedLanguage } from './language';
 
 // File upload types
 export interface UploadedFile {
@@ -13,6 +20,13 @@ export interface UploadedFile {
   url: string;
   uploadedAt: string;
   extractedContent?: string;
+  openApi?: {
+    version: OpenApiVersion;
+    title: string;
+    apiVersion: string;
+    operations: number;
+  } | undefined;
+  language?: DetectedLanguage | undefined; // detected in the extracted content
 }
 
 export interface FileCacheData {
@@ -22,6 +36,7 @@ export interface FileCacheData {
   size: number;
   type: 'image' | 'file';
   uploadedAt: string;
+  language?: DetectedLanguage | undefined;
 }
 
 // API response types
@@ -164,6 +179,41 @@ export interface EnvironmentVariables {
   OPENAI_API_KEY?: string;
   OPENAI_MODEL?: string;
   OPENAI_MAX_TOKENS?: string;
+  OPENAI_BASE_URL?: string;
+
+  // LLM Provider Configuration
+  LLM_PROVIDER?: string;
+  LOCAL_LLM_BASE_URL?: string;
+  LOCAL_LLM_MODEL?: string;
+  LOCAL_LLM_API_KEY?: string;
+  AZURE_OPENAI_ENDPOINT?: string;
+  AZURE_OPENAI_API_KEY?: string;
+  AZURE_OPENAI_DEPLOYMENT?: string;
+  AZURE_OPENAI_API_VERSION?: string;
+  ANTHROPIC_API_KEY?: string;
+  ANTHROPIC_MODEL?: string;
+  ANTHROPIC_BASE_URL?: string;
+  LLM_FIXTURE_PATH?: string;
+  LLM_MAX_REPAIR_ATTEMPTS?: string;
+  GENERATION_JOB_RETENTION_DAYS?: string;
+  GENERATION_JOB_HEARTBEAT_MS?: string;
+  SSE_HEARTBEAT_MS?: string;
+  SSE_REPLAY_WINDOW_MS?: string;
+
+  // Large Document Configuration
+  DOCUMENT_MAX_CHARS?: string;
+  DOCUMENT_CHUNK_TOKENS?: string;
+  GENERATION_TOKEN_BUDGET?: string;
+  DUPLICATE_SIMILARITY_THRESHOLD?: string;
+  SUMMARY_DIGEST_MAX_ENTRIES?: string;
+
+  // Test Design Configuration
+  OPENAPI_MAX_TESTS_PER_ENDPOINT?: string;
+  TEST_DATA_MAX_ROWS?: string;
+
+  // Context Window Configuration
+  CONTEXT_WINDOW_RETENTION_DAYS?: string;
+  CONTEXT_WINDOW_CLEANUP_CRON?: string;
   
   // Development Configuration
   DEBUG?: string;
@@ -178,6 +228,13 @@ export interface TestCase {
   steps: string;
   expectedResult: string;
   priority: 'P1' | 'P2' | 'P3';
+  source?: TestCaseSource | undefined;
+  gherkin?: GherkinScenario | undefined;
+  requirementIds?: string[] | undefined; // requirements of the uploaded files this test case verifies
+  testData?: TestDataTable | undefined;
+  provenanceId?: string | undefined; // record of the generation that produced it
+  quality?: TestCaseQuality | undefined;
+  risk?: TestCaseRisk | undefined; // why it has its priority, when a risk profile was applied
 }
 
 export interface TestGenerationRequest {
@@ -186,6 +243,10 @@ export interface TestGenerationRequest {
   count?: number;
   offset?: number;
   requestId?: string;
+  provider?: string;
+  existingSummaries?: string[];
+  dedupe?: 'merge' | 'flag';
+  format?: TestCaseFormat;
 }
 
 export interface TestGenerationResponse {
@@ -198,4 +259,46 @@ export interface TestGenerationResponse {
 }
 
 // Re-export context window types
-export * from './contextWindow';
\ No newline at end of file
+export * from './contextWindow';
+
+// Re-export LLM provider types
+export * from './llm';
+
+// Re-export Gherkin output types
+export * from './gherkin';
+
+// Re-export document pipeline types
+export * from './document';
+
+// Re-export OpenAPI ingestion types
+export * from './openapi';
+
+// Re-export requirement traceability types
+export * from './requirement';
+
+// Re-export test data generation types
+export * from './testData';
+
+// Re-export asynchronous generation job types
+export * from './generationJob';
+
+// Re-export pre-flight estimate types
+export * from './estimate';
+
+// Re-export model allow-list types
+export * from './modelPolicy';
+
+// Re-export prompt template types
+export * from './promptTemplate';
+
+// Re-export generation provenance types
+export * from './provenance';
+
+// Re-export test case quality types
+export * from './quality';
+
+// Re-export risk-based prioritization types
+export * from './risk';
+
+// Re-export language types
+export * from './language';
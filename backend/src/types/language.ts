@@ -0,0 +1,15 @@
+// Languages test cases can be generated in and translated to
+export type LanguageCode = 'en' | 'de' | 'es' | 'fr' | 'it' | 'pt' | 'nl' | 'ja' | 'zh' | 'ko';
+
+export interface LanguageInfo {
+  code: LanguageCode;
+  name: string; // English name, as used in model prompts
+  nativeName: string;
+  noPrecondition: string; // precondition of a Gherkin scenario without Given steps
+}
+
+// Language of a document as detected from its extracted text
+export interface DetectedLanguage {
+  code: LanguageCode;
+  confidence: number; // 0-1
+}
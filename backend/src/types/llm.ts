@@ -0,0 +1,53 @@
+export type LLMProviderName = 'openai' | 'azure' | 'anthropic' | 'local' | 'fixture';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface LLMPricing {
+  inputCostPerToken: number;
+  outputCostPerToken: number;
+  currency: 'USD';
+}
+
+export interface LLMResponseFormat {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface LLMGenerateRequest {
+  messages: LLMMessage[];
+  responseFormat?: LLMResponseFormat | undefined;
+  model?: string | undefined;
+  maxTokens?: number | undefined;
+  temperature?: number | undefined;
+  signal?: AbortSignal | undefined; // aborts the in-flight model request
+}
+
+export interface LLMGenerateResult {
+  content: string;
+  model: string;
+  usage: LLMUsage;
+}
+
+export interface LLMStreamChunk {
+  delta: string;
+  model: string;
+  usage?: LLMUsage | undefined;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  getDefaultModel(): string;
+  generate(request: LLMGenerateRequest): Promise<LLMGenerateResult>;
+  stream(request: LLMGenerateRequest): AsyncIterable<LLMStreamChunk>;
+  countTokens(text: string): number;
+  getPricing(model: string): LLMPricing;
+}
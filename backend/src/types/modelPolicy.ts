@@ -0,0 +1,50 @@
+import { LLMProviderName } from './llm';
+
+export type UserRole = 'user' | 'admin' | 'superadmin';
+
+// What one role may do with a model; a role without an entry cannot select the model
+export interface ModelRoleLimit {
+  role: UserRole;
+  maxTokens: number;
+  minTemperature: number;
+  maxTemperature: number;
+}
+
+// Admin-managed allow-list entry for a model of one provider
+export interface ModelPolicy {
+  id: string;
+  provider: LLMProviderName;
+  model: string;
+  enabled: boolean;
+  description?: string | undefined;
+  roleLimits: ModelRoleLimit[];
+  updatedBy?: string | undefined;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ModelPolicyInput {
+  provider: LLMProviderName;
+  model: string;
+  enabled?: boolean | undefined;
+  description?: string | undefined;
+  roleLimits: ModelRoleLimit[];
+}
+
+// Per-request overrides accepted by the generation endpoints
+export interface GenerationOverrides {
+  model?: string | undefined;
+  temperature?: number | undefined;
+  maxTokens?: number | undefined;
+}
+
+// A model a role may select, with that role's limits
+export interface AvailableModel {
+  provider: LLMProviderName;
+  model: string;
+  description?: string | undefined;
+  isDefault: boolean;
+  maxTokens: number;
+  minTemperature: number;
+  maxTemperature: number;
+}
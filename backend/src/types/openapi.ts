@@ -0,0 +1,116 @@
+export type OpenApiVersion = 'openapi3' | 'swagger2';
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete' | 'head' | 'options';
+
+export type ApiTestCategory = 'positive' | 'negative' | 'auth' | 'boundary';
+
+// JSON schema subset used to build example values
+export interface ApiSchema {
+  type?: string | string[];
+  format?: string;
+  enum?: unknown[];
+  example?: unknown;
+  default?: unknown;
+  properties?: Record<string, ApiSchema>;
+  required?: string[];
+  items?: ApiSchema;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  pattern?: string;
+  nullable?: boolean;
+  allOf?: ApiSchema[];
+  oneOf?: ApiSchema[];
+  anyOf?: ApiSchema[];
+}
+
+export interface ApiParameter {
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  required: boolean;
+  schema: ApiSchema;
+}
+
+export interface ApiResponse {
+  status: string;
+  description: string;
+  schema?: ApiSchema | undefined;
+}
+
+// One HTTP operation of the spec with every $ref resolved
+export interface ApiOperation {
+  method: HttpMethod;
+  path: string;
+  operationId?: string | undefined;
+  summary?: string | undefined;
+  tags: string[];
+  parameters: ApiParameter[];
+  requestBody?: {
+    contentType: string;
+    required: boolean;
+    schema: ApiSchema;
+  } | undefined;
+  responses: ApiResponse[];
+  security: string[]; // names of the security schemes that apply, empty when public
+  deprecated: boolean;
+}
+
+export interface ApiSecurityScheme {
+  type: string; // http, apiKey, oauth2, openIdConnect (basic for Swagger 2)
+  scheme?: string | undefined; // bearer or basic for http schemes
+  in?: string | undefined; // header, query or cookie for apiKey schemes
+  name?: string | undefined;
+}
+
+export interface ApiSpecSummary {
+  version: OpenApiVersion;
+  title: string;
+  apiVersion: string;
+  operations: ApiOperation[];
+  securitySchemes: Record<string, ApiSecurityScheme>;
+}
+
+export interface ApiTestSuiteOptions {
+  categories?: ApiTestCategory[] | undefined;
+  operations?: string[] | undefined; // "GET /users/{id}" or operationId
+  maxPerEndpoint?: number | undefined;
+}
+
+export interface ApiTestRequest {
+  method: string;
+  path: string;
+  headers: Record<string, string>;
+  query: Record<string, unknown>;
+  body?: unknown;
+}
+
+export interface ApiTestCaseDetails {
+  operationId?: string | undefined;
+  method: string;
+  path: string;
+  category: ApiTestCategory;
+  request: ApiTestRequest;
+  expectedStatus: string;
+  expectedBody?: unknown;
+}
+
+export interface ApiTestCase {
+  id: number;
+  summary: string;
+  precondition: string;
+  steps: string;
+  expectedResult: string;
+  priority: 'P1' | 'P2' | 'P3';
+  api: ApiTestCaseDetails;
+}
+
+export interface ApiEndpointTestSuite {
+  method: string;
+  path: string;
+  operationId?: string | undefined;
+  summary?: string | undefined;
+  testCases: ApiTestCase[];
+}
@@ -0,0 +1,45 @@
+// Who can see a template: built-in presets are visible to everyone
+export type PromptTemplateScope = 'preset' | 'private' | 'team';
+
+export interface PromptTemplateVariable {
+  name: string; // referenced in the body as {{name}}
+  label?: string | undefined;
+  required: boolean;
+  defaultValue?: string | undefined;
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  description?: string | undefined;
+  body: string;
+  variables: PromptTemplateVariable[];
+  scope: PromptTemplateScope;
+  teamId?: string | undefined; // set when scope is 'team'
+  ownerId?: string | undefined;
+  ownerEmail?: string | undefined;
+  createdAt?: Date | undefined;
+  updatedAt?: Date | undefined;
+}
+
+export interface PromptTemplateInput {
+  name: string;
+  description?: string | undefined;
+  body: string;
+  variables?: PromptTemplateVariable[] | undefined;
+  scope?: 'private' | 'team' | undefined;
+  teamId?: string | undefined;
+}
+
+// The signed-in user a template operation is done for
+export interface TemplateUser {
+  userId: string;
+  userEmail?: string | undefined;
+  teams: string[];
+}
+
+// A generation request that references a template instead of raw prompt text
+export interface TemplatePromptRequest {
+  templateId: string;
+  variables?: Record<string, string> | undefined;
+}
@@ -0,0 +1,114 @@
+import { TestCaseFormat } from './gherkin';
+import { LLMMessage, LLMUsage } from './llm';
+
+export type ProvenanceOperation = 'generate' | 'stream' | 'job' | 'context' | 'replay';
+
+export type ProvenanceStatus = 'completed' | 'failed' | 'cancelled';
+
+// One request to the model and its raw reply; repairs are follow-ups sent after an invalid reply
+export interface ProvenanceExchange {
+  kind: 'generation' | 'repair';
+  messages: LLMMessage[];
+  response: string;
+  model: string;
+  usage?: LLMUsage | undefined;
+  latencyMs: number;
+  error?: string | undefined;
+}
+
+export interface ProvenanceFile {
+  fileId: string;
+  sha256?: string | undefined; // missing when the file content was no longer available
+  size: number;
+}
+
+export interface ProvenanceParameters {
+  format: TestCaseFormat;
+  count: number;
+  offset: number;
+  temperature?: number | undefined;
+  maxTokens?: number | undefined;
+  templateId?: string | undefined;
+}
+
+// Everything that went into a generation and what came out of it
+export interface GenerationProvenance {
+  id: string;
+  operation: ProvenanceOperation;
+  status: ProvenanceStatus;
+  userId?: string | undefined;
+  userEmail?: string | undefined;
+  provider: string;
+  model?: string | undefined;
+  parameters: ProvenanceParameters;
+  prompt: string; // the prompt as given, before it was built into model messages
+  files: ProvenanceFile[];
+  exchanges: ProvenanceExchange[];
+  testCases: Record<string, unknown>[]; // parsed output as returned to the client
+  usage?: LLMUsage | undefined;
+  latencyMs: number;
+  error?: string | undefined;
+  replayOf?: string | undefined;
+  createdAt: Date;
+}
+
+// What a generation is recorded with before it starts
+export interface ProvenanceContext {
+  operation: ProvenanceOperation;
+  userId?: string | undefined;
+  userEmail?: string | undefined;
+  provider?: string | undefined; // LLM_PROVIDER when not given
+  parameters: ProvenanceParameters;
+  prompt: string;
+  files: ProvenanceFile[];
+  replayOf?: string | undefined;
+}
+
+export interface ProvenanceOutcome {
+  status: ProvenanceStatus;
+  testCases?: object[] | undefined;
+  model?: string | undefined;
+  usage?: LLMUsage | undefined;
+  error?: string | undefined;
+}
+
+export interface ProvenanceListOptions {
+  userId?: string | undefined;
+  operation?: ProvenanceOperation | undefined;
+  status?: ProvenanceStatus | undefined;
+  model?: string | undefined;
+  page?: number | undefined;
+  limit?: number | undefined;
+}
+
+// Record as listed, without prompts, raw responses and test cases
+export type GenerationProvenanceSummary = Omit<GenerationProvenance, 'exchanges' | 'testCases'> & {
+  exchangeCount: number;
+  testCaseCount: number;
+};
+
+export interface ProvenanceReplayRequest {
+  provider?: string | undefined;
+  model?: string | undefined;
+  temperature?: number | undefined;
+  maxTokens?: number | undefined;
+}
+
+export interface ProvenanceRunSummary {
+  recordId: string;
+  provider: string;
+  model?: string | undefined;
+  testCases: number;
+  usage?: LLMUsage | undefined;
+  cost: number;
+  latencyMs: number;
+}
+
+// Side-by-side result of sending a record's model requests again
+export interface ProvenanceReplayComparison {
+  original: ProvenanceRunSummary;
+  replay: ProvenanceRunSummary;
+  matchingSummaries: number; // replayed test cases that are near-duplicates of an original one
+  onlyInOriginal: string[];
+  onlyInReplay: string[];
+}
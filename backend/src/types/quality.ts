@@ -0,0 +1,31 @@
+export type QualityRule =
+  | 'placeholder_text'
+  | 'missing_precondition'
+  | 'unnumbered_steps'
+  | 'unverifiable_expected_result'
+  | 'duplicate_steps';
+
+export type QualityField = 'summary' | 'precondition' | 'steps' | 'expectedResult';
+
+export interface QualityIssue {
+  rule: QualityRule;
+  field: QualityField;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+// Linter result for one test case; the score starts at 100 and drops per issue
+export interface TestCaseQuality {
+  score: number;
+  grade: 'good' | 'fair' | 'poor';
+  issues: QualityIssue[];
+  refined?: boolean | undefined; // rewritten by auto-refine because the original scored low
+}
+
+// The fields of a test case the linter looks at
+export interface LintableTestCase {
+  summary: string;
+  precondition: string;
+  steps: string;
+  expectedResult: string;
+}
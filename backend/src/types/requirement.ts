@@ -0,0 +1,34 @@
+export type RequirementType = 'requirement' | 'user_story';
+
+// A numbered requirement or user story found in an uploaded document
+export interface Requirement {
+  requirementId: string; // ID as written in the document (REQ-012, FR-3.1) or assigned (REQ-1, US-1)
+  type: RequirementType;
+  text: string;
+  section?: string | undefined;
+  fileId?: string | undefined;
+}
+
+// The parts of a test case the traceability matrix needs
+export interface TraceableTestCase {
+  id: string | number;
+  summary: string;
+  requirementIds?: string[] | undefined;
+}
+
+export interface TraceabilityRow {
+  requirement: Requirement;
+  testCaseIds: Array<string | number>;
+  covered: boolean;
+}
+
+export interface TraceabilityMatrix {
+  rows: TraceabilityRow[];
+  uncoveredRequirements: Requirement[];
+  unlinkedTestCases: Array<{ id: string | number; summary: string }>;
+  coverage: {
+    total: number;
+    covered: number;
+    percent: number;
+  };
+}
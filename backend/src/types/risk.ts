@@ -0,0 +1,33 @@
+export type TestCasePriority = 'P1' | 'P2' | 'P3';
+
+// How the risk-derived priority is combined with the one the model proposed
+export type RiskMode = 'override' | 'calibrate';
+
+// Each factor is rated from 1 (low) to 5 (high)
+export interface RiskFactors {
+  businessImpact: number;
+  usageFrequency: number;
+  changeFrequency: number;
+  defectHistory: number;
+}
+
+// A feature area and its risk; test cases are matched to it by keyword
+export interface RiskArea extends RiskFactors {
+  name: string;
+  keywords: string[]; // the name itself always matches too
+}
+
+export interface RiskProfile {
+  areas: RiskArea[];
+  mode: RiskMode;
+}
+
+// Why a test case has the priority it has
+export interface TestCaseRisk {
+  area?: string | undefined; // missing when no feature area matched
+  score?: number | undefined; // 0-100
+  riskPriority?: TestCasePriority | undefined;
+  modelPriority: TestCasePriority; // kept so a later re-prioritization starts from it again
+  mode: RiskMode;
+  rationale: string;
+}
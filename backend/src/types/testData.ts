@@ -0,0 +1,63 @@
+export type TestDataFieldType = 'string' | 'email' | 'integer' | 'number' | 'date' | 'boolean' | 'enum';
+
+export type TestDataTechnique = 'boundary' | 'equivalence' | 'pairwise';
+
+export type TestDataPreset = 'password' | 'signup';
+
+// Where a field definition came from
+export type FieldDefinitionSource = 'explicit' | 'document' | 'openapi' | 'preset';
+
+// Constraints of one input field, in the terms validation rules are written in
+export interface FieldDefinition {
+  name: string;
+  type: TestDataFieldType;
+  required?: boolean | undefined;
+  minLength?: number | undefined;
+  maxLength?: number | undefined;
+  min?: number | string | undefined; // number, or ISO date for date fields
+  max?: number | string | undefined;
+  pattern?: string | undefined;
+  enum?: string[] | undefined;
+  forbidden?: string[] | undefined; // values that satisfy the other rules but must still be rejected
+  description?: string | undefined;
+  source?: FieldDefinitionSource | undefined;
+}
+
+// A single value chosen for a field and the class or boundary it represents
+export interface TestDataValue {
+  value: unknown; // undefined means the field is left out
+  valid: boolean;
+  technique: Exclude<TestDataTechnique, 'pairwise'>;
+  description: string;
+}
+
+export interface FieldTestData {
+  field: string;
+  boundary: TestDataValue[];
+  equivalence: TestDataValue[];
+}
+
+// One row of a data table: a value for every field
+export interface TestDataRow {
+  technique: TestDataTechnique;
+  valid: boolean;
+  description: string;
+  values: Record<string, unknown>;
+}
+
+// Data table attached to a test case and exported as a fixture
+export interface TestDataTable {
+  fields: string[];
+  rows: TestDataRow[];
+}
+
+export interface TestDataSet {
+  fields: FieldDefinition[];
+  values: FieldTestData[];
+  table: TestDataTable;
+}
+
+export interface TestDataOptions {
+  techniques?: TestDataTechnique[] | undefined;
+  maxRows?: number | undefined;
+}
@@ -384,6 +384,43 @@ export const getAdminUser = async (userId: string): Promise<AdminUserResponse> =
   }
 };
 
+/**
+ * Set the teams a user belongs to
+ * Team membership decides which shared prompt templates the user can see
+ */
+export const updateUserTeams = async (
+  userId: string,
+  teams: string[]
+): Promise<{ success: boolean; user?: { _id: unknown; emailId: string; teams: string[] }; error?: string }> => {
+  try {
+    const user = await User.findById(userId);
+    if (!user) {
+      return {
+        success: false,
+        error: 'User not found'
+      };
+    }
+
+    user.teams = [...new Set(teams.map(team => team.trim()).filter(Boolean))];
+    await user.save();
+
+    return {
+      success: true,
+      user: {
+        _id: user._id,
+        emailId: user.emailId,
+        teams: user.teams
+      }
+    };
+  } catch (error) {
+    console.error('❌ Failed to update user teams:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+};
+
 /**
  * Add Permission to Admin User
  */
@@ -0,0 +1,155 @@
+/**
+ * Utility functions for Gherkin (BDD) test cases: deriving the standard
+ * test case fields from scenarios and writing .feature files
+ */
+
+import { GherkinKeyword, GherkinScenario, GherkinStep } from '../types/gherkin';
+import { LanguageCode } from '../types/language';
+import { LANGUAGES, isNoPrecondition } from './language';
+
+interface StandardTestCaseFields {
+  summary: string;
+  precondition: string;
+  steps: string;
+  expectedResult: string;
+  priority?: 'P1' | 'P2' | 'P3' | undefined;
+  gherkin?: GherkinScenario | undefined;
+}
+
+const PLACEHOLDER = /<([^<>]+)>/g;
+const INDENT = '  ';
+
+/**
+ * Resolve And/But to the keyword they continue (Given, When or Then)
+ * @returns {Array<{ keyword: GherkinKeyword; text: string }>} Steps with their effective keyword
+ */
+function resolveKeywords(steps: GherkinStep[]): Array<{ keyword: GherkinKeyword; text: string }> {
+  let current: GherkinKeyword = 'Given';
+
+  return steps.map(step => {
+    if (step.keyword !== 'And' && step.keyword !== 'But') {
+      current = step.keyword;
+    }
+    return { keyword: current, text: step.text };
+  });
+}
+
+/**
+ * Derive summary, precondition, steps and expected result from a scenario so
+ * Gherkin test cases still work everywhere the standard fields are used
+ * @param {GherkinScenario} scenario - Structured scenario
+ * @param {LanguageCode} [language] - Language the scenario is written in
+ * @returns {StandardTestCaseFields} Standard test case fields
+ */
+export function gherkinToTestCaseFields(scenario: GherkinScenario, language: LanguageCode = 'en'): StandardTestCaseFields {
+  const resolved = resolveKeywords(scenario.steps);
+  const textsFor = (keyword: GherkinKeyword) => resolved.filter(step => step.keyword === keyword).map(step => step.text);
+
+  const given = textsFor('Given');
+  const when = textsFor('When');
+  const then = textsFor('Then');
+
+  return {
+    summary: scenario.name,
+    precondition: given.length > 0 ? given.join('\n') : LANGUAGES[language].noPrecondition,
+    steps: when.map((text, index) => `${index + 1}. ${text}`).join('\n'),
+    expectedResult: then.join('\n'),
+  };
+}
+
+/**
+ * Build a scenario from the standard fields of a test case that was not
+ * generated in the Gherkin format
+ * @param {StandardTestCaseFields} testCase - Test case to convert
+ * @param {string} feature - Feature the scenario belongs to
+ * @returns {GherkinScenario} Plain scenario
+ */
+export function testCaseToGherkin(testCase: StandardTestCaseFields, feature: string): GherkinScenario {
+  if (testCase.gherkin) {
+    return testCase.gherkin;
+  }
+
+  const lines = (text: string) => text
+    .split('\n')
+    .map(line => line.replace(/^\s*(\d+[.)]|[-*])\s*/, '').trim())
+    .filter(Boolean);
+
+  const toSteps = (keyword: GherkinKeyword, texts: string[]): GherkinStep[] =>
+    texts.map((text, index) => ({ keyword: index === 0 ? keyword : 'And', text }));
+
+  const precondition = lines(testCase.precondition).filter(line => !isNoPrecondition(line));
+
+  return {
+    feature,
+    name: testCase.summary,
+    type: 'Scenario',
+    tags: [],
+    steps: [
+      ...toSteps('Given', precondition),
+      ...toSteps('When', lines(testCase.steps)),
+      ...toSteps('Then', lines(testCase.expectedResult)),
+    ],
+  };
+}
+
+/**
+ * Placeholders used in the steps of a Scenario Outline that have no column
+ * in its Examples table
+ * @returns {string[]} Unknown placeholder names
+ */
+export function findUnknownPlaceholders(scenario: GherkinScenario): string[] {
+  const headers = new Set(scenario.examples?.headers || []);
+  const unknown = new Set<string>();
+
+  for (const step of scenario.steps) {
+    for (const match of step.text.matchAll(PLACEHOLDER)) {
+      if (!headers.has(match[1]!)) unknown.add(match[1]!);
+    }
+  }
+
+  return Array.from(unknown);
+}
+
+/**
+ * Render test cases as the content of a single .feature file. Gherkin allows
+ * one Feature per file, so every scenario is written under `featureName`
+ * (defaulting to the feature of the first scenario).
+ * @param {StandardTestCaseFields[]} testCases - Test cases in file order
+ * @param {string} [featureName] - Feature title for the file
+ * @returns {string} .feature file content
+ */
+export function formatFeatureFile(testCases: StandardTestCaseFields[], featureName?: string): string {
+  const feature = featureName || testCases.find(testCase => testCase.gherkin)?.gherkin?.feature || 'Generated test cases';
+  const scenarios = testCases.map(testCase => ({
+    scenario: testCaseToGherkin(testCase, feature),
+    priority: testCase.priority,
+  }));
+
+  const lines: string[] = [`Feature: ${feature}`];
+
+  for (const { scenario, priority } of scenarios) {
+    const tags = [...(priority ? [priority] : []), ...scenario.tags].map(tag => `@${tag}`);
+
+    lines.push('');
+    if (tags.length > 0) lines.push(`${INDENT}${tags.join(' ')}`);
+    lines.push(`${INDENT}${scenario.type}: ${scenario.name}`);
+    scenario.steps.forEach(step => lines.push(`${INDENT}${INDENT}${step.keyword} ${step.text}`));
+
+    if (scenario.type === 'Scenario Outline' && scenario.examples) {
+      lines.push('', `${INDENT}${INDENT}Examples:`);
+      lines.push(...formatTable([scenario.examples.headers, ...scenario.examples.rows], INDENT.repeat(3)));
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Format a data table with aligned columns, escaping pipes in cell values
+ */
+function formatTable(rows: string[][], indent: string): string[] {
+  const escaped = rows.map(row => row.map(cell => cell.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\n/g, '\\n')));
+  const widths = escaped[0]!.map((_, column) => Math.max(...escaped.map(row => (row[column] || '').length)));
+
+  return escaped.map(row => `${indent}| ${widths.map((width, column) => (row[column] || '').padEnd(width)).join(' | ')} |`);
+}
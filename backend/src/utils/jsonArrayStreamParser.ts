@@ -0,0 +1,77 @@
+/**
+ * Incremental parser for a JSON array of objects arriving in chunks
+ * (e.g. streamed model output). Each top-level object is returned as soon
+ * as its closing brace has been received; any text before the opening "["
+ * (such as a markdown code fence) is ignored.
+ */
+export class JsonArrayStreamParser {
+  private arrayStarted = false;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private current = '';
+
+  /**
+   * Feed the next chunk of text
+   * @returns {any[]} Objects completed by this chunk, in order
+   */
+  push(chunk: string): any[] {
+    const completed: any[] = [];
+
+    for (const char of chunk) {
+      if (!this.arrayStarted) {
+        if (char === '[') {
+          this.arrayStarted = true;
+        }
+        continue;
+      }
+
+      if (this.depth === 0) {
+        // Between array items: only an object opens a new item
+        if (char === '{') {
+          this.depth = 1;
+          this.current = char;
+        }
+        continue;
+      }
+
+      this.current += char;
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        this.inString = true;
+      } else if (char === '{' || char === '[') {
+        this.depth++;
+      } else if (char === '}' || char === ']') {
+        this.depth--;
+        if (this.depth === 0) {
+          try {
+            completed.push(JSON.parse(this.current));
+          } catch (error) {
+            console.warn('⚠️ Skipping malformed streamed JSON object:', this.current.substring(0, 200));
+          }
+          this.current = '';
+        }
+      }
+    }
+
+    return completed;
+  }
+
+  /**
+   * Whether an object is currently only partially received
+   */
+  hasPendingObject(): boolean {
+    return this.depth > 0;
+  }
+}
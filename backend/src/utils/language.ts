@@ -0,0 +1,93 @@
+/**
+ * Utility functions for the languages test cases are written in: the
+ * supported languages and a lightweight detector for source documents
+ */
+
+import { DetectedLanguage, LanguageCode, LanguageInfo } from '../types/language';
+
+export const LANGUAGES: Record<LanguageCode, LanguageInfo> = {
+  en: { code: 'en', name: 'English', nativeName: 'English', noPrecondition: 'None' },
+  de: { code: 'de', name: 'German', nativeName: 'Deutsch', noPrecondition: 'Keine' },
+  es: { code: 'es', name: 'Spanish', nativeName: 'Español', noPrecondition: 'Ninguna' },
+  fr: { code: 'fr', name: 'French', nativeName: 'Français', noPrecondition: 'Aucune' },
+  it: { code: 'it', name: 'Italian', nativeName: 'Italiano', noPrecondition: 'Nessuna' },
+  pt: { code: 'pt', name: 'Portuguese', nativeName: 'Português', noPrecondition: 'Nenhuma' },
+  nl: { code: 'nl', name: 'Dutch', nativeName: 'Nederlands', noPrecondition: 'Geen' },
+  ja: { code: 'ja', name: 'Japanese', nativeName: '日本語', noPrecondition: 'なし' },
+  zh: { code: 'zh', name: 'Chinese', nativeName: '中文', noPrecondition: '无' },
+  ko: { code: 'ko', name: 'Korean', nativeName: '한국어', noPrecondition: '없음' },
+};
+
+export const LANGUAGE_CODES = Object.keys(LANGUAGES) as LanguageCode[];
+
+// Frequent function words that rarely occur in the other languages' text
+const STOP_WORDS: Partial<Record<LanguageCode, Set<string>>> = {
+  en: new Set(['the', 'and', 'is', 'are', 'of', 'to', 'with', 'that', 'this', 'be', 'should', 'will', 'when', 'from', 'which', 'not']),
+  de: new Set(['der', 'die', 'das', 'und', 'ist', 'nicht', 'mit', 'ein', 'eine', 'für', 'auf', 'werden', 'wird', 'dem', 'den', 'sich', 'zu', 'von', 'muss', 'soll']),
+  es: new Set(['el', 'los', 'las', 'y', 'que', 'en', 'es', 'por', 'para', 'con', 'una', 'del', 'se', 'debe', 'cuando', 'está']),
+  fr: new Set(['le', 'les', 'des', 'et', 'est', 'une', 'pour', 'dans', 'avec', 'du', 'pas', 'doit', 'sur', 'il', 'être', 'lorsque']),
+  it: new Set(['il', 'che', 'di', 'e', 'non', 'per', 'una', 'con', 'sono', 'della', 'deve', 'gli', 'è', 'quando', 'viene']),
+  pt: new Set(['o', 'os', 'que', 'não', 'para', 'com', 'uma', 'um', 'do', 'da', 'deve', 'em', 'é', 'quando', 'são']),
+  nl: new Set(['de', 'het', 'een', 'en', 'van', 'is', 'niet', 'met', 'voor', 'dat', 'op', 'moet', 'wordt', 'zijn', 'wanneer']),
+};
+
+// Detection only looks at the start of a document; that is plenty to tell the language
+const SAMPLE_CHARS = 20000;
+const MIN_LETTERS = 20;
+const MIN_STOP_WORD_HITS = 3;
+// Share of letters in CJK scripts above which a text is treated as Chinese, Japanese or Korean
+const MIN_CJK_SHARE = 0.3;
+
+/**
+ * Whether a value is one of the supported language codes
+ */
+export function isSupportedLanguage(value: unknown): value is LanguageCode {
+  return typeof value === 'string' && LANGUAGE_CODES.includes(value as LanguageCode);
+}
+
+/**
+ * Whether a precondition is the "no precondition" placeholder of any supported language
+ */
+export function isNoPrecondition(text: string): boolean {
+  const normalized = text.trim().replace(/\.$/, '').toLowerCase();
+  return LANGUAGE_CODES.some(code => LANGUAGES[code].noPrecondition.toLowerCase() === normalized);
+}
+
+/**
+ * Detect the language of a document from its script (Chinese, Japanese,
+ * Korean) or from the function words it uses (European languages)
+ * @param {string} text - Extracted document text
+ * @returns {DetectedLanguage | undefined} Best guess, undefined when the text is too short or unknown
+ */
+export function detectLanguage(text: string): DetectedLanguage | undefined {
+  const sample = text.slice(0, SAMPLE_CHARS);
+  const letters = (sample.match(/\p{L}/gu) || []).length;
+  if (letters < MIN_LETTERS) return undefined;
+
+  const kana = (sample.match(/[\u3040-\u30ff]/g) || []).length;
+  const hangul = (sample.match(/[\uac00-\ud7af\u1100-\u11ff]/g) || []).length;
+  const han = (sample.match(/[\u4e00-\u9fff]/g) || []).length;
+  const cjk = kana + hangul + han;
+
+  if (cjk / letters >= MIN_CJK_SHARE) {
+    // Japanese mixes kana into Han text; Chinese is Han only
+    const code: LanguageCode = hangul >= kana + han ? 'ko' : kana > 0 && kana >= han * 0.1 ? 'ja' : 'zh';
+    return { code, confidence: round(cjk / letters) };
+  }
+
+  const words = sample.toLowerCase().match(/\p{L}+/gu) || [];
+  const hits = (Object.keys(STOP_WORDS) as LanguageCode[]).map(code => ({
+    code,
+    count: words.filter(word => STOP_WORDS[code]!.has(word)).length,
+  }));
+  const total = hits.reduce((sum, hit) => sum + hit.count, 0);
+  const best = hits.reduce((a, b) => (b.count > a.count ? b : a));
+
+  if (best.count < MIN_STOP_WORD_HITS) return undefined;
+
+  return { code: best.code, confidence: round(best.count / total) };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,81 @@
+/**
+ * Utility functions for running regular expressions that come from users
+ * or uploaded specs without risking catastrophic backtracking
+ */
+
+export const MAX_PATTERN_LENGTH = 500;
+// Longer values are not tested; even polynomial backtracking gets slow past this
+export const MAX_PATTERN_INPUT_LENGTH = 256;
+
+interface GroupState {
+  repeats: boolean; // contains a variable quantifier, directly or in a nested group
+  alternates: boolean;
+}
+
+/**
+ * Whether a pattern is free of the constructs that backtrack exponentially:
+ * a group repeated a variable number of times that itself repeats or
+ * alternates ("(a+)+", "(a|ab)*"), and backreferences
+ */
+export function isSafePattern(pattern: string): boolean {
+  if (pattern.length > MAX_PATTERN_LENGTH) return false;
+
+  const groups: GroupState[] = [{ repeats: false, alternates: false }];
+  const current = (): GroupState => groups[groups.length - 1]!;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '\\') {
+      if (/[1-9k]/.test(pattern[i + 1] || '')) return false;
+      i++;
+    } else if (char === '[') {
+      // Skip the character class; its contents cannot nest
+      i++;
+      while (i < pattern.length && pattern[i] !== ']') {
+        if (pattern[i] === '\\') i++;
+        i++;
+      }
+    } else if (char === '(') {
+      groups.push({ repeats: false, alternates: false });
+      continue;
+    } else if (char === ')') {
+      const group = groups.length > 1 ? groups.pop()! : { repeats: false, alternates: false };
+      const variable = isVariableQuantifier(pattern, i + 1);
+      if (variable && (group.repeats || group.alternates)) return false;
+      if (variable || group.repeats) current().repeats = true;
+      continue;
+    } else if (char === '|') {
+      current().alternates = true;
+      continue;
+    }
+
+    if (isVariableQuantifier(pattern, i + 1)) current().repeats = true;
+  }
+
+  return true;
+}
+
+/**
+ * Test a value against a pattern, or return undefined when the pattern is
+ * invalid, unsafe or the value too long to test
+ */
+export function safeTest(pattern: string, value: string): boolean | undefined {
+  if (value.length > MAX_PATTERN_INPUT_LENGTH || !isSafePattern(pattern)) return undefined;
+  try {
+    return new RegExp(pattern).test(value);
+  } catch {
+    return undefined;
+  }
+}
+
+// "*", "+", "{2,}" and "{1,5}" repeat a variable number of times; "?" and "{3}" do not
+function isVariableQuantifier(pattern: string, index: number): boolean {
+  const char = pattern[index];
+  if (char === '*' || char === '+') return true;
+  if (char !== '{') return false;
+
+  const match = pattern.slice(index).match(/^\{(\d+)(,(\d*))?\}/);
+  if (!match || !match[2]) return false;
+  return match[3] === '' || Number(match[3]) > Number(match[1]);
+}
@@ -1,15 +1,19 @@
 import validator from "validator";
 import { Request } from 'express';
 
+// Length limits of the sign-up fields
+const NAME_LENGTH = { min: 2, max: 30 };
+const EMAIL_MAX_LENGTH = 100;
+
 // DRY: Common validation functions
-const validateFieldLength = (field: string, fieldName: string, minLength: number = 2, maxLength: number = 30): void => {
+const validateFieldLength = (field: string, fieldName: string, minLength: number = NAME_LENGTH.min, maxLength: number = NAME_LENGTH.max): void => {
     if (field.length < minLength || field.length > maxLength) {
         throw new Error(`${fieldName} must be between ${minLength} and ${maxLength} characters`);
     }
 };
 
 const validateEmailLength = (email: string): void => {
-    if (email.length > 100) {
+    if (email.length > EMAIL_MAX_LENGTH) {
         throw new Error("Email is too long");
     }
 };
@@ -33,4 +37,4 @@ const validateSignUpData = (req: Request): void => {
     validateEmailLength(emailId);
 }
 
-export { validateSignUpData };
+export { validateSignUpData, NAME_LENGTH, EMAIL_MAX_LENGTH };
@@ -0,0 +1,260 @@
+import Joi from 'joi';
+import { GherkinScenario, TestCaseFormat } from '../types/gherkin';
+import { gherkinToTestCaseFields, findUnknownPlaceholders } from './gherkin';
+
+export interface ValidatedTestCase {
+  id?: number;
+  summary: string;
+  precondition: string;
+  steps: string;
+  expectedResult: string;
+  priority: 'P1' | 'P2' | 'P3';
+  gherkin?: GherkinScenario | undefined;
+  requirementIds?: string[] | undefined;
+}
+
+export interface TestCaseValidationResult {
+  isValid: boolean;
+  errors: string[];
+  value?: ValidatedTestCase;
+}
+
+// JSON schema sent to the model as structured output. Strict mode requires
+// an object root and every property to be listed as required.
+export const TEST_CASES_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    testCases: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer' },
+          summary: { type: 'string' },
+          precondition: { type: 'string' },
+          steps: { type: 'string' },
+          expectedResult: { type: 'string' },
+          priority: { type: 'string', enum: ['P1', 'P2', 'P3'] },
+          requirementIds: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['id', 'summary', 'precondition', 'steps', 'expectedResult', 'priority', 'requirementIds'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['testCases'],
+  additionalProperties: false,
+};
+
+// Structured output schema for the Gherkin format. Examples are null for a
+// plain Scenario and hold the data table for a Scenario Outline.
+export const GHERKIN_TEST_CASES_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    testCases: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer' },
+          feature: { type: 'string' },
+          scenario: { type: 'string' },
+          type: { type: 'string', enum: ['Scenario', 'Scenario Outline'] },
+          tags: { type: 'array', items: { type: 'string' } },
+          steps: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                keyword: { type: 'string', enum: ['Given', 'When', 'Then', 'And', 'But'] },
+                text: { type: 'string' },
+              },
+              required: ['keyword', 'text'],
+              additionalProperties: false,
+            },
+          },
+          examples: {
+            anyOf: [
+              {
+                type: 'object',
+                properties: {
+                  headers: { type: 'array', items: { type: 'string' } },
+                  rows: { type: 'array', items: { type: 'array', items: { type: 'string' } } },
+                },
+                required: ['headers', 'rows'],
+                additionalProperties: false,
+              },
+              { type: 'null' },
+            ],
+          },
+          priority: { type: 'string', enum: ['P1', 'P2', 'P3'] },
+          requirementIds: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['id', 'feature', 'scenario', 'type', 'tags', 'steps', 'examples', 'priority', 'requirementIds'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['testCases'],
+  additionalProperties: false,
+};
+
+const testCaseItemSchema = Joi.object({
+  id: Joi.number().integer().min(1).optional(),
+  summary: Joi.string().trim().min(5).required(),
+  precondition: Joi.string().trim().min(1).required(),
+  steps: Joi.string().trim().min(1).required(),
+  expectedResult: Joi.string().trim().min(1).required(),
+  priority: Joi.string().trim().uppercase().valid('P1', 'P2', 'P3').required(),
+  requirementIds: Joi.array().items(Joi.string().trim().min(1)).optional(),
+});
+
+const gherkinStepSchema = Joi.object({
+  keyword: Joi.string().trim().valid('Given', 'When', 'Then', 'And', 'But').required(),
+  text: Joi.string().trim().min(1).required(),
+});
+
+const gherkinItemSchema = Joi.object({
+  id: Joi.number().integer().min(1).optional(),
+  feature: Joi.string().trim().min(1).required(),
+  scenario: Joi.string().trim().min(5).required(),
+  type: Joi.string().trim().valid('Scenario', 'Scenario Outline').required(),
+  tags: Joi.array().items(Joi.string().trim().replace(/^@/, '').pattern(/^\S+$/)).default([]),
+  steps: Joi.array().items(gherkinStepSchema).min(2).required()
+    .custom((steps: Array<{ keyword: string }>, helpers) => {
+      if (steps[0]!.keyword === 'And' || steps[0]!.keyword === 'But') {
+        return helpers.message({ custom: '"steps" must not start with And or But' });
+      }
+      if (!steps.some(step => step.keyword === 'When') || !steps.some(step => step.keyword === 'Then')) {
+        return helpers.message({ custom: '"steps" must contain at least one When and one Then step' });
+      }
+      return steps;
+    }),
+  examples: Joi.when('type', {
+    is: 'Scenario Outline',
+    then: Joi.object({
+      headers: Joi.array().items(Joi.string().trim().min(1)).min(1).unique().required(),
+      rows: Joi.array().items(Joi.array().items(Joi.string().allow(''))).min(1).required(),
+    }).required(),
+    otherwise: Joi.any().valid(null).strip(),
+  }),
+  priority: Joi.string().trim().uppercase().valid('P1', 'P2', 'P3').required(),
+  requirementIds: Joi.array().items(Joi.string().trim().min(1)).optional(),
+});
+
+/**
+ * Validate a single test case object returned by the model
+ * @param {unknown} item - Raw item from the parsed model output
+ * @param {TestCaseFormat} format - Output format the model was asked for
+ * @returns {TestCaseValidationResult} Validation result with the cleaned value
+ */
+export function validateTestCaseItem(item: unknown, format: TestCaseFormat = 'standard'): TestCaseValidationResult {
+  if (format === 'gherkin') {
+    return validateGherkinItem(item);
+  }
+
+  const { error, value } = testCaseItemSchema.validate(item, {
+    abortEarly: false,
+    stripUnknown: true,
+    convert: true,
+  });
+
+  if (error) {
+    return {
+      isValid: false,
+      errors: error.details.map(detail => detail.message),
+    };
+  }
+
+  return { isValid: true, errors: [], value };
+}
+
+/**
+ * Validate a Gherkin scenario returned by the model and derive the standard
+ * test case fields from its steps
+ */
+function validateGherkinItem(item: unknown): TestCaseValidationResult {
+  const { error, value } = gherkinItemSchema.validate(item, {
+    abortEarly: false,
+    stripUnknown: true,
+    convert: true,
+  });
+
+  if (error) {
+    return {
+      isValid: false,
+      errors: error.details.map(detail => detail.message),
+    };
+  }
+
+  const scenario: GherkinScenario = {
+    feature: value.feature,
+    name: value.scenario,
+    type: value.type,
+    tags: value.tags,
+    steps: value.steps,
+    ...(value.examples ? { examples: value.examples } : {}),
+  };
+
+  const errors: string[] = [];
+  if (scenario.examples) {
+    const width = scenario.examples.headers.length;
+    if (scenario.examples.rows.some(row => row.length !== width)) {
+      errors.push(`"examples.rows" must each have ${width} values to match "examples.headers"`);
+    }
+    const unknown = findUnknownPlaceholders(scenario);
+    if (unknown.length > 0) {
+      errors.push(`"steps" use placeholders missing from "examples.headers": ${unknown.join(', ')}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    return { isValid: false, errors };
+  }
+
+  return {
+    isValid: true,
+    errors: [],
+    value: {
+      ...(value.id !== undefined ? { id: value.id } : {}),
+      ...gherkinToTestCaseFields(scenario),
+      priority: value.priority,
+      gherkin: scenario,
+      ...(value.requirementIds ? { requirementIds: value.requirementIds } : {}),
+    },
+  };
+}
+
+/**
+ * Extract the list of test case items from a model reply. Accepts either
+ * the structured {"testCases": [...]} object or a bare JSON array, with or
+ * without markdown code fences.
+ * @throws {Error} If no JSON payload with test cases can be found
+ */
+export function extractTestCaseItems(response: string): unknown[] {
+  let cleanResponse = response.trim()
+    .replace(/^```(?:json)?\s*/, '')
+    .replace(/\s*```$/, '');
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(cleanResponse);
+  } catch {
+    // Fall back to the outermost JSON array embedded in surrounding text
+    const jsonMatch = cleanResponse.match(/\[[\s\S]*\]/);
+    if (!jsonMatch) {
+      throw new Error('Response does not contain JSON');
+    }
+    parsed = JSON.parse(jsonMatch[0]);
+  }
+
+  if (Array.isArray(parsed)) {
+    return parsed;
+  }
+
+  if (parsed && typeof parsed === 'object' && Array.isArray((parsed as any).testCases)) {
+    return (parsed as any).testCases;
+  }
+
+  throw new Error('Response is not a test case array');
+}
@@ -0,0 +1,61 @@
+/**
+ * Utility functions for comparing short texts such as test case summaries
+ */
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'with', 'is', 'are', 'be', 'that', 'this',
+]);
+
+// Chinese and Japanese are written without spaces (Korean often joins
+// particles to words), so runs of these scripts are compared by character pairs
+const CJK_RUN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}ー]+/gu;
+
+/**
+ * Split text into a set of lowercase word tokens without stop words;
+ * letters of every script count, so "Überweisung" stays one word, and
+ * Chinese, Japanese and Korean text becomes character bigrams
+ * @param {string} text - Text to tokenize
+ * @returns {Set<string>} Unique tokens
+ */
+export function tokenize(text: string): Set<string> {
+  const bigrams: string[] = [];
+  const words = text
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\s]/gu, ' ')
+    .replace(CJK_RUN, run => {
+      bigrams.push(...toBigrams(run));
+      return ' ';
+    })
+    .split(/\s+/)
+    .filter(token => token.length > 0 && !STOP_WORDS.has(token));
+
+  return new Set([...words, ...bigrams]);
+}
+
+function toBigrams(run: string): string[] {
+  const chars = Array.from(run);
+  if (chars.length === 1) return chars;
+  return chars.slice(1).map((char, index) => chars[index] + char);
+}
+
+/**
+ * Jaccard similarity of the token sets of two texts
+ * @returns {number} Similarity between 0 (disjoint or no words) and 1 (identical)
+ */
+export function jaccardSimilarity(a: string, b: string): number {
+  const tokensA = tokenize(a);
+  const tokensB = tokenize(b);
+
+  // Texts without any words say nothing about each other
+  if (tokensA.size === 0 || tokensB.size === 0) {
+    return 0;
+  }
+
+  let intersection = 0;
+  tokensA.forEach(token => {
+    if (tokensB.has(token)) intersection++;
+  });
+
+  return intersection / (tokensA.size + tokensB.size - intersection);
+}
@@ -0,0 +1,35 @@
+/**
+ * BPE token counting with the encodings OpenAI chat models use, so
+ * estimates match what the API will bill rather than a characters-per-token guess
+ */
+
+import { encode as encodeCl100k } from 'gpt-tokenizer/encoding/cl100k_base';
+import { encode as encodeO200k } from 'gpt-tokenizer/encoding/o200k_base';
+import { LLMMessage } from '../types/llm';
+
+// Every chat message is wrapped in role/separator tokens, and the reply is primed with a few more
+const TOKENS_PER_MESSAGE = 3;
+const TOKENS_PER_REPLY = 3;
+
+// GPT-4 and GPT-3.5 models use cl100k_base; newer ones (gpt-4o, gpt-4.1, o-series) use o200k_base
+const CL100K_MODEL_PATTERN = /^(gpt-4(?![o.])|gpt-3\.5)/;
+
+/**
+ * Count the tokens of a piece of text. Models the tokenizer does not know
+ * (e.g. self-hosted ones) are counted with o200k_base
+ */
+export function countTextTokens(text: string, model: string): number {
+  if (!text) return 0;
+  const encode = CL100K_MODEL_PATTERN.test(model) ? encodeCl100k : encodeO200k;
+  return encode(text, { disallowedSpecial: new Set() }).length;
+}
+
+/**
+ * Count the prompt tokens of a chat request, including per-message overhead
+ */
+export function countMessageTokens(messages: LLMMessage[], model: string): number {
+  return messages.reduce(
+    (total, message) => total + TOKENS_PER_MESSAGE + countTextTokens(message.role, model) + countTextTokens(message.content, model),
+    TOKENS_PER_REPLY
+  );
+}
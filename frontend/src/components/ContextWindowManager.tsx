@@ -113,12 +113,16 @@ const ContextWindowManager: React.FC<ContextWindowManagerProps> = ({
 
   const getTestCasesByLevel = (level: number) => {
     if (!currentContextWindow) return [];
-    return currentContextWindow.testCases.filter(tc => tc.level === level);
+    return currentContextWindow.testCases
+      .filter(tc => tc.level === level)
+      .sort((a, b) => a.order - b.order);
   };
 
   const getTestCasesByParent = (parentId: string) => {
     if (!currentContextWindow) return [];
-    return currentContextWindow.testCases.filter(tc => tc.parentId === parentId);
+    return currentContextWindow.testCases
+      .filter(tc => tc.parentId === parentId)
+      .sort((a, b) => a.order - b.order);
   };
 
   if (loading) {
@@ -234,7 +238,7 @@ const ContextWindowManager: React.FC<ContextWindowManagerProps> = ({
                         onClick={() => onTestCaseSelect(testCase)}
                       >
                         <div className="font-medium text-sm">{testCase.summary}</div>
-                        <div className="text-xs text-gray-500 mt-1">
+                        <div className="text-xs text-gray-500 mt-1" title={testCase.risk?.rationale}>
                           Priority: {testCase.priority} • Level: {testCase.level}
                         </div>
                         
@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { useTheme } from '../contexts/ThemeContext';
+import { RiskArea, RiskFactor, RiskProfile } from '../types';
+
+interface RiskProfileModalProps {
+  profile: RiskProfile | null;
+  onSave: (profile: RiskProfile | null) => void;
+  onClose: () => void;
+}
+
+// Keywords are edited as one comma-separated string per area
+type DraftArea = Omit<RiskArea, 'keywords'> & { keywords: string };
+
+const FACTOR_LABELS: Record<RiskFactor, string> = {
+  businessImpact: 'Business impact',
+  usageFrequency: 'Usage frequency',
+  changeFrequency: 'Change frequency',
+  defectHistory: 'Defect history',
+};
+
+const RATINGS = [1, 2, 3, 4, 5];
+
+const emptyArea = (): DraftArea => ({
+  name: '',
+  keywords: '',
+  businessImpact: 3,
+  usageFrequency: 3,
+  changeFrequency: 3,
+  defectHistory: 3,
+});
+
+const RiskProfileModal: React.FC<RiskProfileModalProps> = ({ profile, onSave, onClose }) => {
+  const { theme } = useTheme();
+  const [mode, setMode] = useState<RiskProfile['mode']>(profile?.mode || 'override');
+  const [areas, setAreas] = useState<DraftArea[]>(
+    profile ? profile.areas.map(area => ({ ...area, keywords: area.keywords.join(', ') })) : [emptyArea()]
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const updateArea = (index: number, changes: Partial<DraftArea>): void => {
+    setAreas(prev => prev.map((area, i) => (i === index ? { ...area, ...changes } : area)));
+  };
+
+  const save = (): void => {
+    const named = areas.filter(area => area.name.trim());
+    const names = named.map(area => area.name.trim().toLowerCase());
+    if (new Set(names).size !== names.length) {
+      setError('Feature area names must be unique');
+      return;
+    }
+
+    onSave(named.length > 0
+      ? {
+        mode,
+        areas: named.map(area => ({
+          ...area,
+          name: area.name.trim(),
+          keywords: Array.from(new Set(area.keywords.split(',').map(keyword => keyword.trim()).filter(Boolean))),
+        })),
+      }
+      : null);
+    onClose();
+  };
+
+  const cellBorder = theme === 'light' ? 'border-gray-200' : 'border-gray-700';
+  const mutedText = theme === 'light' ? 'text-gray-500' : 'text-gray-400';
+  const inputClass = `px-2 py-1 rounded text-sm border ${
+    theme === 'light' ? 'bg-white border-gray-300 text-gray-700' : 'bg-gray-700 border-gray-600 text-gray-200'
+  }`;
+  const buttonClass = `px-3 py-1.5 rounded-lg text-sm transition-colors cursor-pointer ${
+    theme === 'light' ? 'bg-gray-100 hover:bg-gray-200 text-gray-700' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+  }`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50">
+      <div className={`rounded-lg p-6 max-w-6xl w-full max-h-[90vh] overflow-auto border ${
+        theme === 'light' ? 'bg-white border-gray-200 text-gray-900' : 'bg-gray-800 border-gray-700 text-white'
+      }`}>
+        <div className="flex items-center justify-between mb-1">
+          <h3 className="text-xl font-semibold">Risk Areas</h3>
+          <button onClick={onClose} className={`${mutedText} hover:text-teal-400 transition-colors cursor-pointer`}>
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+        <p className={`text-sm mb-4 ${mutedText}`}>
+          Rate each feature area from 1 (low) to 5 (high). Test cases that mention an area's name or keywords get
+          their priority from its risk score; the reason is shown on the priority badge.
+        </p>
+
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <select value={mode} onChange={(e) => setMode(e.target.value as RiskProfile['mode'])} className={inputClass}>
+            <option value="override">Override the model's priority</option>
+            <option value="calibrate">Calibrate the model's priority (one level at most)</option>
+          </select>
+          <div className="flex-1" />
+          <button onClick={() => setAreas(prev => [...prev, emptyArea()])} className={buttonClass}>Add area</button>
+        </div>
+
+        {error && (
+          <div className="bg-red-900/20 border border-red-500 rounded-lg p-4 text-red-400 text-sm mb-4">{error}</div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="text-sm border-collapse w-full">
+            <thead>
+              <tr>
+                <th className={`px-3 py-2 text-left text-xs font-medium uppercase border ${cellBorder}`}>Feature area</th>
+                <th className={`px-3 py-2 text-left text-xs font-medium uppercase border ${cellBorder}`}>Keywords</th>
+                {(Object.keys(FACTOR_LABELS) as RiskFactor[]).map(factor => (
+                  <th key={factor} className={`px-3 py-2 text-left text-xs font-medium uppercase border ${cellBorder}`}>
+                    {FACTOR_LABELS[factor]}
+                  </th>
+                ))}
+                <th className={`px-3 py-2 border ${cellBorder}`} />
+              </tr>
+            </thead>
+            <tbody>
+              {areas.map((area, index) => (
+                <tr key={index}>
+                  <td className={`px-3 py-2 border ${cellBorder}`}>
+                    <input
+                      value={area.name}
+                      onChange={(e) => updateArea(index, { name: e.target.value })}
+                      placeholder="Checkout"
+                      className={`${inputClass} w-32`}
+                    />
+                  </td>
+                  <td className={`px-3 py-2 border ${cellBorder}`}>
+                    <input
+                      value={area.keywords}
+                      onChange={(e) => updateArea(index, { keywords: e.target.value })}
+                      placeholder="payment, cart, order"
+                      className={`${inputClass} w-48`}
+                    />
+                  </td>
+                  {(Object.keys(FACTOR_LABELS) as RiskFactor[]).map(factor => (
+                    <td key={factor} className={`px-3 py-2 border ${cellBorder}`}>
+                      <select
+                        value={area[factor]}
+                        onChange={(e) => updateArea(index, { [factor]: Number(e.target.value) })}
+                        className={inputClass}
+                      >
+                        {RATINGS.map(rating => (
+                          <option key={rating} value={rating}>{rating}</option>
+                        ))}
+                      </select>
+                    </td>
+                  ))}
+                  <td className={`px-3 py-2 border ${cellBorder}`}>
+                    <button
+                      onClick={() => setAreas(prev => prev.filter((_, i) => i !== index))}
+                      title="Remove area"
+                      className={`${mutedText} hover:text-red-400 transition-colors cursor-pointer`}
+                    >
+                      <XMarkIcon className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex justify-end gap-2 mt-4">
+          <button onClick={() => { onSave(null); onClose(); }} disabled={!profile} className={`${buttonClass} disabled:opacity-50 disabled:cursor-not-allowed`}>
+            Clear
+          </button>
+          <button onClick={save} className="px-3 py-1.5 rounded-lg text-sm transition-colors cursor-pointer bg-teal-500 hover:bg-teal-600 text-white">
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RiskProfileModal;
@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import LoadingSpinner from './LoadingSpinner';
+import { useTheme } from '../contexts/ThemeContext';
+import { TestCase, TestDataPreset, TestDataTable } from '../types';
+import { API_ENDPOINTS } from '../config/api';
+
+type FieldSource = 'documents' | TestDataPreset;
+
+interface TestDataModalProps {
+  testCase: TestCase;
+  fileIds: string[];
+  onGenerated: (testData: TestDataTable) => void;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<FieldSource, string> = {
+  documents: 'Uploaded documents',
+  signup: 'Sign-up rules',
+  password: 'Password rules',
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined) return '(omitted)';
+  if (typeof value === 'string') return value === '' ? '(empty)' : value;
+  return JSON.stringify(value);
+};
+
+const TestDataModal: React.FC<TestDataModalProps> = ({ testCase, fileIds, onGenerated, onClose }) => {
+  const { theme } = useTheme();
+  const [source, setSource] = useState<FieldSource>(fileIds.length > 0 ? 'documents' : 'signup');
+  const [table, setTable] = useState<TestDataTable | null>(testCase.testData || null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const generate = async (fieldSource: FieldSource): Promise<void> => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch(API_ENDPOINTS.TEST_DATA, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(fieldSource === 'documents'
+          ? { fileIds, testCases: [testCase] }
+          : { presets: [fieldSource] }),
+      });
+
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to generate test data');
+      }
+
+      // Document fields are narrowed to the ones this test case mentions
+      const generated: TestDataTable | undefined = fieldSource === 'documents' ? data.testCases[0]?.testData : data.table;
+      if (!generated) {
+        throw new Error('None of the fields found in the documents are mentioned by this test case');
+      }
+
+      setTable(generated);
+      onGenerated(generated);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate test data');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const download = async (format: 'csv' | 'json'): Promise<void> => {
+    if (!table) return;
+
+    try {
+      const response = await fetch(API_ENDPOINTS.TEST_DATA_EXPORT, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ table, format }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const blob = await response.blob();
+      const blobUrl = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = blobUrl;
+      a.download = `test-data-${testCase.id}.${format}`;
+      a.click();
+      window.URL.revokeObjectURL(blobUrl);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export test data');
+    }
+  };
+
+  const cellBorder = theme === 'light' ? 'border-gray-200' : 'border-gray-700';
+  const mutedText = theme === 'light' ? 'text-gray-500' : 'text-gray-400';
+  const buttonClass = `px-3 py-1.5 rounded-lg text-sm transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed ${
+    theme === 'light' ? 'bg-gray-100 hover:bg-gray-200 text-gray-700' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+  }`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50">
+      <div className={`rounded-lg p-6 max-w-6xl w-full max-h-[90vh] overflow-auto border ${
+        theme === 'light' ? 'bg-white border-gray-200 text-gray-900' : 'bg-gray-800 border-gray-700 text-white'
+      }`}>
+        <div className="flex items-center justify-between mb-1">
+          <h3 className="text-xl font-semibold">Test Data</h3>
+          <button onClick={onClose} className={`${mutedText} hover:text-teal-400 transition-colors cursor-pointer`}>
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+        <p className={`text-sm mb-4 ${mutedText}`}>{testCase.summary}</p>
+
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <select
+            value={source}
+            onChange={(e) => setSource(e.target.value as FieldSource)}
+            className={`px-3 py-1.5 rounded-lg text-sm border ${
+              theme === 'light' ? 'bg-white border-gray-300 text-gray-700' : 'bg-gray-700 border-gray-600 text-gray-200'
+            }`}
+          >
+            {(Object.keys(SOURCE_LABELS) as FieldSource[])
+              .filter(option => option !== 'documents' || fileIds.length > 0)
+              .map(option => (
+                <option key={option} value={option}>{SOURCE_LABELS[option]}</option>
+              ))}
+          </select>
+          <button onClick={() => generate(source)} disabled={loading} className={buttonClass}>
+            {table ? 'Regenerate' : 'Generate'}
+          </button>
+          <div className="flex-1" />
+          <button onClick={() => download('csv')} disabled={!table} className={buttonClass}>Download CSV</button>
+          <button onClick={() => download('json')} disabled={!table} className={buttonClass}>Download JSON</button>
+        </div>
+
+        {loading && (
+          <div className="flex items-center justify-center p-8">
+            <LoadingSpinner text="Generating test data..." />
+          </div>
+        )}
+
+        {!table && !loading && !error && (
+          <p className={`text-sm ${mutedText}`}>
+            Choose where the field rules come from and generate boundary, equivalence-class and pairwise values.
+          </p>
+        )}
+
+        {error && (
+          <div className="bg-red-900/20 border border-red-500 rounded-lg p-4 text-red-400 text-sm mb-4">{error}</div>
+        )}
+
+        {table && !loading && (
+          <div className="overflow-x-auto">
+            <table className="text-sm border-collapse w-full">
+              <thead>
+                <tr>
+                  <th className={`px-3 py-2 text-left text-xs font-medium uppercase border ${cellBorder}`}>Case</th>
+                  <th className={`px-3 py-2 text-left text-xs font-medium uppercase border ${cellBorder}`}>Technique</th>
+                  {table.fields.map(field => (
+                    <th key={field} className={`px-3 py-2 text-left text-xs font-medium border ${cellBorder}`}>{field}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {table.rows.map((row, index) => (
+                  <tr key={index} className={row.valid ? '' : 'bg-red-500/10'}>
+                    <td className={`px-3 py-2 border ${cellBorder}`}>
+                      <span className={`mr-2 text-xs font-semibold ${row.valid ? 'text-teal-500' : 'text-red-400'}`}>
+                        {row.valid ? 'VALID' : 'INVALID'}
+                      </span>
+                      {row.description}
+                    </td>
+                    <td className={`px-3 py-2 border ${cellBorder} ${mutedText}`}>{row.technique}</td>
+                    {table.fields.map(field => (
+                      <td
+                        key={field}
+                        title={formatValue(row.values[field])}
+                        className={`px-3 py-2 border ${cellBorder} font-mono text-xs max-w-xs truncate ${
+                          field in row.values ? '' : mutedText
+                        }`}
+                      >
+                        {formatValue(row.values[field])}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TestDataModal;
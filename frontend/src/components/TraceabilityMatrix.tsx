@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import LoadingSpinner from './LoadingSpinner';
+import { useTheme } from '../contexts/ThemeContext';
+import { TestCase, TraceabilityMatrix as Matrix } from '../types';
+import { API_ENDPOINTS } from '../config/api';
+
+interface TraceabilityMatrixProps {
+  fileIds: string[];
+  testCases: TestCase[];
+  onClose: () => void;
+}
+
+const TraceabilityMatrix: React.FC<TraceabilityMatrixProps> = ({ fileIds, testCases, onClose }) => {
+  const { theme } = useTheme();
+  const [matrix, setMatrix] = useState<Matrix | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadMatrix = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(API_ENDPOINTS.TRACEABILITY, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({
+            fileIds,
+            testCases: testCases.map(({ id, summary, requirementIds }) => ({ id, summary, requirementIds: requirementIds || [] })),
+          }),
+        });
+
+        const data = await response.json();
+        if (!response.ok || !data.success) {
+          throw new Error(data.error || 'Failed to load traceability matrix');
+        }
+        setMatrix(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load traceability matrix');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadMatrix();
+  }, [fileIds, testCases]);
+
+  const cellBorder = theme === 'light' ? 'border-gray-200' : 'border-gray-700';
+  const mutedText = theme === 'light' ? 'text-gray-500' : 'text-gray-400';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50">
+      <div className={`rounded-lg p-6 max-w-6xl w-full max-h-[90vh] overflow-auto border ${
+        theme === 'light' ? 'bg-white border-gray-200 text-gray-900' : 'bg-gray-800 border-gray-700 text-white'
+      }`}>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-semibold">Requirement Traceability</h3>
+          <button onClick={onClose} className={`${mutedText} hover:text-teal-400 transition-colors cursor-pointer`}>
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        {loading && (
+          <div className="flex items-center justify-center p-8">
+            <LoadingSpinner text="Building matrix..." />
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-900/20 border border-red-500 rounded-lg p-4 text-red-400 text-sm">{error}</div>
+        )}
+
+        {matrix && !loading && (
+          <div className="space-y-6">
+            {matrix.coverage.total === 0 ? (
+              <p className={`text-sm ${mutedText}`}>
+                No numbered requirements or user stories were found in the uploaded files.
+              </p>
+            ) : (
+              <>
+                {/* Coverage summary */}
+                <div>
+                  <div className="flex items-center justify-between text-sm mb-1">
+                    <span>{matrix.coverage.covered} of {matrix.coverage.total} requirements covered</span>
+                    <span className="font-semibold">{matrix.coverage.percent}%</span>
+                  </div>
+                  <div className={`h-2 rounded-full ${theme === 'light' ? 'bg-gray-200' : 'bg-gray-700'}`}>
+                    <div className="h-2 rounded-full bg-teal-500" style={{ width: `${matrix.coverage.percent}%` }} />
+                  </div>
+                </div>
+
+                {/* Requirement x test case matrix */}
+                <div className="overflow-x-auto">
+                  <table className="text-sm border-collapse">
+                    <thead>
+                      <tr>
+                        <th className={`px-3 py-2 text-left text-xs font-medium uppercase border ${cellBorder}`}>Requirement</th>
+                        {testCases.map(testCase => (
+                          <th
+                            key={testCase.id}
+                            title={testCase.summary}
+                            className={`px-2 py-2 text-xs font-medium border ${cellBorder}`}
+                          >
+                            {testCase.id}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {matrix.rows.map(row => (
+                        <tr key={row.requirement.requirementId} className={row.covered ? '' : 'bg-red-500/10'}>
+                          <td className={`px-3 py-2 border ${cellBorder} max-w-sm`} title={row.requirement.text}>
+                            <div className="font-medium">
+                              {row.requirement.requirementId}
+                              {row.requirement.type === 'user_story' && (
+                                <span className={`ml-2 text-xs ${mutedText}`}>user story</span>
+                              )}
+                            </div>
+                            <div className={`text-xs truncate ${mutedText}`}>{row.requirement.text}</div>
+                          </td>
+                          {testCases.map(testCase => (
+                            <td key={testCase.id} className={`px-2 py-2 text-center border ${cellBorder}`}>
+                              {row.testCaseIds.includes(testCase.id) && <span className="text-teal-500 font-bold">✓</span>}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {/* Gaps */}
+                {matrix.uncoveredRequirements.length > 0 && (
+                  <div>
+                    <h4 className="font-semibold mb-2 text-red-400">
+                      Requirements without tests ({matrix.uncoveredRequirements.length})
+                    </h4>
+                    <ul className="space-y-1 text-sm">
+                      {matrix.uncoveredRequirements.map(requirement => (
+                        <li key={requirement.requirementId}>
+                          <span className="font-medium">{requirement.requirementId}</span>
+                          <span className={`ml-2 ${mutedText}`}>{requirement.text}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </>
+            )}
+
+            {matrix.unlinkedTestCases.length > 0 && matrix.coverage.total > 0 && (
+              <div>
+                <h4 className="font-semibold mb-2">
+                  Test cases not linked to a requirement ({matrix.unlinkedTestCases.length})
+                </h4>
+                <ul className={`space-y-1 text-sm ${mutedText}`}>
+                  {matrix.unlinkedTestCases.map(testCase => (
+                    <li key={testCase.id}>{testCase.id}. {testCase.summary}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TraceabilityMatrix;
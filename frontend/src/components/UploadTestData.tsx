@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import {
   ArrowUpTrayIcon,
   ArrowsPointingOutIcon,
@@ -8,11 +8,15 @@ import {
 } from '@heroicons/react/24/outline';
 import ShimmerLoader from './ShimmerLoader';
 import LoadingButton from './LoadingButton';
+import TraceabilityMatrix from './TraceabilityMatrix';
+import TestDataModal from './TestDataModal';
+import RiskProfileModal from './RiskProfileModal';
 import { useTheme } from '../contexts/ThemeContext';
 import { 
   UploadTestDataProps, 
   UploadedFile, 
   TestCase, 
+  TestDataTable,
   FileChangeHandler, 
   FileRemoveHandler, 
   FileOpenHandler, 
@@ -21,15 +25,182 @@ import {
   ExportHandler,
   UploadResponse,
   TestGenerationRequest,
+  GenerationEstimateResponse,
+  AvailableModel,
+  PromptTemplate,
+  TestCaseQuality,
+  RiskProfile,
+  TestCaseFormat,
+  AutomationFramework,
+  LanguageCode,
+  TestCaseTranslationResponse,
 } from '../types';
 import { API_ENDPOINTS } from '../config/api';
+import { useNetworkStatus } from '../hooks/useNetworkStatus';
+
+const MAX_STREAM_RECONNECTS = 5;
+const RISK_PROFILE_STORAGE_KEY = 'riskProfile';
+const ESTIMATE_DEBOUNCE_MS = 500;
+
+// Native names, so every user finds their own language in the list
+const LANGUAGE_NAMES: Record<LanguageCode, string> = {
+  en: 'English',
+  de: 'Deutsch',
+  es: 'Español',
+  fr: 'Français',
+  it: 'Italiano',
+  pt: 'Português',
+  nl: 'Nederlands',
+  ja: '日本語',
+  zh: '中文',
+  ko: '한국어',
+};
+
+const formatCost = (value: number): string => {
+  if (value === 0) return '$0';
+  return value < 0.01 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
+};
+
+interface GenerationStreamOptions {
+  // Resolves once the browser is back online
+  waitForNetwork: () => Promise<void>;
+  onReconnecting?: (reconnecting: boolean) => void;
+}
+
+// Read a test generation stream. When the connection drops, reconnect with the
+// ID of the last event received so the server replays only the missed events.
+const readGenerationStream = async (
+  request: TestGenerationRequest,
+  onEvent: (data: any) => void,
+  { waitForNetwork, onReconnecting }: GenerationStreamOptions
+): Promise<void> => {
+  let lastEventId: string | null = null;
+  let reconnects = 0;
+
+  while (true) {
+    let finished = false;
+
+    try {
+      const response = await fetch(API_ENDPOINTS.TEST_GENERATION, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(lastEventId ? { 'Last-Event-ID': lastEventId } : {}),
+        },
+        // Signed-in users get their own templates, model policy and usage limits
+        credentials: 'include',
+        body: JSON.stringify(request),
+      });
+
+      if (response.status === 410) {
+        throw new Error('The connection was lost for too long and the stream expired. Please generate again.');
+      }
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const reader = response.body?.getReader();
+      if (!reader) {
+        throw new Error('No response body reader available');
+      }
+
+      if (reconnects > 0) {
+        console.log(`🔁 Stream resumed after event ${lastEventId}`);
+        onReconnecting?.(false);
+      }
+
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let eventId: string | null = null;
+
+      while (true) {
+        let chunk: ReadableStreamReadResult<Uint8Array>;
+        try {
+          chunk = await reader.read();
+        } catch (readError) {
+          console.warn('⚠️ Stream connection lost:', readError);
+          break;
+        }
+        if (chunk.done) break;
+
+        buffer += decoder.decode(chunk.value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || ''; // Keep incomplete line in buffer
+
+        for (const line of lines) {
+          if (line.startsWith('id: ')) {
+            eventId = line.slice(4);
+            continue;
+          }
+          if (!line.startsWith('data: ')) continue;
+
+          let data: any;
+          try {
+            data = JSON.parse(line.slice(6));
+          } catch (parseError) {
+            console.warn('Failed to parse streaming data:', line);
+            continue;
+          }
+
+          // Only count an event as received once it has been handled
+          lastEventId = eventId ?? lastEventId;
+          if (data.type === 'error') {
+            throw new Error(data.error);
+          }
+          onEvent(data);
+          if (data.type === 'complete') {
+            finished = true;
+          }
+        }
+      }
+    } catch (error) {
+      // fetch rejects with a TypeError when the network is unreachable
+      if (!(error instanceof TypeError) || !lastEventId) {
+        onReconnecting?.(false);
+        throw error;
+      }
+      console.warn('⚠️ Stream request failed:', error);
+    }
+
+    if (finished) return;
+
+    // Nothing was received, so there is no stream on the server to resume
+    if (!lastEventId || reconnects >= MAX_STREAM_RECONNECTS) {
+      onReconnecting?.(false);
+      throw new Error('Connection lost while streaming test cases');
+    }
+
+    reconnects++;
+    const backoffMs = 1000 * reconnects;
+    onReconnecting?.(true);
+    await waitForNetwork();
+    await new Promise(resolve => setTimeout(resolve, backoffMs));
+  }
+};
 
 const UploadTestData: React.FC<UploadTestDataProps> = () => {
   const { theme } = useTheme();
   const [testData, setTestData] = useState<string>('');
   const [isRealTime, setIsRealTime] = useState<boolean>(true);
+  const [outputFormat, setOutputFormat] = useState<TestCaseFormat>('standard');
+  const [availableModels, setAvailableModels] = useState<AvailableModel[]>([]);
+  const [selectedModel, setSelectedModel] = useState<string>('');
+  const [autoRefine, setAutoRefine] = useState<boolean>(false);
+  const [language, setLanguage] = useState<LanguageCode>('en');
+  const [isTranslating, setIsTranslating] = useState<boolean>(false);
+  // Risk ratings describe the product rather than one generation, so they are kept between visits
+  const [riskProfile, setRiskProfile] = useState<RiskProfile | null>(() => {
+    const saved = localStorage.getItem(RISK_PROFILE_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : null;
+  });
+  const [showRiskProfile, setShowRiskProfile] = useState<boolean>(false);
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string>('');
+  const [templateVariables, setTemplateVariables] = useState<Record<string, string>>({});
   const [selectedTests, setSelectedTests] = useState<Set<number>>(new Set());
   const [showExportDropdown, setShowExportDropdown] = useState<boolean>(false);
+  const [showTraceability, setShowTraceability] = useState<boolean>(false);
+  const [testDataFor, setTestDataFor] = useState<TestCase | null>(null);
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
   const [isUploading, setIsUploading] = useState<boolean>(false);
   const [selectedFile, setSelectedFile] = useState<UploadedFile | null>(null);
@@ -50,7 +221,14 @@ const UploadTestData: React.FC<UploadTestDataProps> = () => {
   
   // Streaming state
   const [isStreaming, setIsStreaming] = useState<boolean>(false);
+  const [isReconnectingStream, setIsReconnectingStream] = useState<boolean>(false);
+  const [generationEstimate, setGenerationEstimate] = useState<GenerationEstimateResponse | null>(null);
   // Always use streaming mode
+
+  // Dropped streams are resumed once the network is back
+  const { isOnline } = useNetworkStatus();
+  const isOnlineRef = useRef<boolean>(isOnline);
+  const onlineWaitersRef = useRef<Array<() => void>>([]);
   
   // Dropdown state for sub test generation
   const [openDropdown, setOpenDropdown] = useState<number | null>(null);
@@ -63,6 +241,105 @@ const UploadTestData: React.FC<UploadTestDataProps> = () => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const dropZoneRef = useRef<HTMLDivElement>(null);
 
+  useEffect(() => {
+    isOnlineRef.current = isOnline;
+    if (isOnline) {
+      onlineWaitersRef.current.forEach(resolve => resolve());
+      onlineWaitersRef.current = [];
+    }
+  }, [isOnline]);
+
+  const waitForNetwork = useCallback((): Promise<void> => new Promise(resolve => {
+    if (isOnlineRef.current) {
+      resolve();
+    } else {
+      onlineWaitersRef.current.push(resolve);
+    }
+  }), []);
+
+  useEffect(() => {
+    if (riskProfile) {
+      localStorage.setItem(RISK_PROFILE_STORAGE_KEY, JSON.stringify(riskProfile));
+    } else {
+      localStorage.removeItem(RISK_PROFILE_STORAGE_KEY);
+    }
+  }, [riskProfile]);
+
+  // Stable list for the traceability matrix, which reloads when it changes
+  const uploadedFileIds = useMemo(() => uploadedFiles.map(file => file.id), [uploadedFiles]);
+
+  // Models the admin allow-list offers this user; the selector stays hidden when there are none
+  useEffect(() => {
+    fetch(API_ENDPOINTS.MODELS, { credentials: 'include' })
+      .then(response => response.json())
+      .then(result => setAvailableModels(result.success ? result.models : []))
+      .catch(error => console.error('❌ Failed to load models:', error));
+  }, []);
+
+  // Presets plus the user's own and team-shared prompt templates
+  useEffect(() => {
+    fetch(API_ENDPOINTS.TEMPLATES, { credentials: 'include' })
+      .then(response => response.json())
+      .then(result => setPromptTemplates(result.success ? result.templates : []))
+      .catch(error => console.error('❌ Failed to load prompt templates:', error));
+  }, []);
+
+  const selectedTemplate = useMemo(
+    () => promptTemplates.find(template => template.id === selectedTemplateId),
+    [promptTemplates, selectedTemplateId]
+  );
+
+  // With a template selected the textarea only adds to the rendered template, so it may stay empty
+  const promptFields = useMemo(() => selectedTemplate
+    ? { prompt: testData.trim(), templateId: selectedTemplate.id, variables: templateVariables }
+    : { prompt: testData.trim() || 'Generate test cases from the uploaded files' },
+  [testData, selectedTemplate, templateVariables]);
+
+  const missingTemplateVariables = useMemo(() => (selectedTemplate?.variables || [])
+    .filter(variable => variable.required && !variable.defaultValue && !templateVariables[variable.name]?.trim())
+    .map(variable => variable.label || variable.name),
+  [selectedTemplate, templateVariables]);
+
+  // Show what the next generation will cost while the user edits the prompt or files
+  useEffect(() => {
+    if ((!testData.trim() && uploadedFileIds.length === 0 && !selectedTemplate) || missingTemplateVariables.length > 0) {
+      setGenerationEstimate(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(API_ENDPOINTS.ESTIMATE, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          signal: controller.signal,
+          body: JSON.stringify({
+            ...promptFields,
+            fileIds: uploadedFileIds,
+            count: 10,
+            format: outputFormat,
+            ...(selectedModel ? { model: selectedModel } : {}),
+            ...(language !== 'en' ? { language } : {})
+          })
+        });
+        const result: GenerationEstimateResponse = await response.json();
+        setGenerationEstimate(result.success ? result : null);
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('❌ Estimate error:', error);
+          setGenerationEstimate(null);
+        }
+      }
+    }, ESTIMATE_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [testData, uploadedFileIds, outputFormat, selectedModel, language, selectedTemplate, missingTemplateVariables, promptFields]);
+
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent): void => {
       if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
@@ -139,92 +416,129 @@ const UploadTestData: React.FC<UploadTestDataProps> = () => {
     setShowExportDropdown(false);
   };
 
-  // Generate sub-test cases with streaming
-  const generateSubTests = async (parentTestCase: TestCase, count: number) => {
-    try {
-      setIsGeneratingSubTests(true);
-      setSubTestGenerationError(null);
-      setOpenDropdown(null);
+  const attachTestData = (testCaseId: number, testData: TestDataTable): void => {
+    setGeneratedTestCases(prev => prev.map(test => (test.id === testCaseId ? { ...test, testData } : test)));
+  };
 
-      console.log(`🚀 Starting sub-test generation for: ${parentTestCase.summary}`);
+  // Download a file the backend builds from the selected test cases
+  const downloadExport = async (url: string, body: object, fallbackName: string): Promise<void> => {
+    const selectedTestCases = testCases.filter(test => selectedTests.has(test.id));
+    setShowExportDropdown(false);
+    if (selectedTestCases.length === 0) return;
 
-      // Use streaming endpoint for sub-test generation
-      const response = await fetch(API_ENDPOINTS.TEST_GENERATION, {
+    try {
+      const response = await fetch(url, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        credentials: 'include',
-        body: JSON.stringify({
-          prompt: `Generate ${count} detailed sub-test cases for: ${parentTestCase.summary}`,
-          fileIds: [],
-          count: count,
-          offset: 0,
-          requestId: `subtest-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
-        })
+        body: JSON.stringify({ ...body, testCases: selectedTestCases }),
       });
 
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
 
-      const reader = response.body?.getReader();
-      if (!reader) {
-        throw new Error('No response body reader available');
+      const fileName = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || fallbackName;
+      const blob = await response.blob();
+      const blobUrl = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = blobUrl;
+      a.download = fileName;
+      a.click();
+      window.URL.revokeObjectURL(blobUrl);
+    } catch (error) {
+      console.error('❌ Export error:', error);
+      setGenerationError(error instanceof Error ? error.message : 'Failed to export test cases');
+    }
+  };
+
+  // The backend writes the .feature file so Gherkin scenarios and converted
+  // standard test cases are formatted the same way everywhere
+  const exportAsFeature = (): Promise<void> =>
+    downloadExport(API_ENDPOINTS.EXPORT_FEATURE, {}, 'test-cases.feature');
+
+  const exportAsAutomation = (framework: AutomationFramework): Promise<void> =>
+    downloadExport(API_ENDPOINTS.EXPORT_AUTOMATION, { framework }, `${framework}-tests.zip`);
+
+  // Translate the whole suite; ids, priorities and test data stay as they are
+  const translateTestCases = async (targetLanguage: LanguageCode): Promise<void> => {
+    if (generatedTestCases.length === 0) return;
+
+    try {
+      setIsTranslating(true);
+      setGenerationError(null);
+
+      const response = await fetch(API_ENDPOINTS.TRANSLATE, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ testCases: generatedTestCases, targetLanguage }),
+      });
+      const result: TestCaseTranslationResponse = await response.json();
+
+      if (!response.ok || !result.success || !result.testCases) {
+        throw new Error(result.error || `HTTP error! status: ${response.status}`);
       }
 
-      const decoder = new TextDecoder();
-      let buffer = '';
-      const subTestCases: TestCase[] = [];
+      setGeneratedTestCases(result.testCases);
+      setLanguage(targetLanguage);
+      if (result.untranslatedIds && result.untranslatedIds.length > 0) {
+        setGenerationError(`${result.message}. Test cases ${result.untranslatedIds.join(', ')} were left unchanged.`);
+      }
+      console.log(`🌐 ${result.message}`);
+    } catch (error) {
+      console.error('❌ Translation error:', error);
+      setGenerationError(error instanceof Error ? error.message : 'Failed to translate test cases');
+    } finally {
+      setIsTranslating(false);
+    }
+  };
 
-      // Stream sub-test cases
-      while (true) {
-        const { done, value } = await reader.read();
-        
-        if (done) break;
+  // Generate sub-test cases with streaming
+  const generateSubTests = async (parentTestCase: TestCase, count: number) => {
+    try {
+      setIsGeneratingSubTests(true);
+      setSubTestGenerationError(null);
+      setOpenDropdown(null);
 
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
+      console.log(`🚀 Starting sub-test generation for: ${parentTestCase.summary}`);
 
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6));
-              
-              switch (data.type) {
-                case 'connection':
-                  console.log('🔗 Connected to sub-test streaming');
-                  break;
-                  
-                case 'testCase':
-                  // Add sub-test case with parent reference
-                  const subTestCase = {
-                    ...data.testCase,
-                    parentId: parentTestCase.id,
-                    isSubTest: true
-                  };
-                  subTestCases.push(subTestCase);
-                  
-                  // Add to main list immediately for streaming effect
-                  setGeneratedTestCases(prev => [...prev, subTestCase]);
-                  
-                  console.log(`✅ Generated sub-test case ${data.index}/${data.total}: ${data.testCase.summary}`);
-                  break;
-                  
-                case 'complete':
-                  console.log('🎉 Sub-test generation complete');
-                  break;
-                  
-                case 'error':
-                  throw new Error(data.error);
-              }
-            } catch (parseError) {
-              console.warn('Failed to parse sub-test streaming data:', line);
-            }
-          }
+      const subTestCases: TestCase[] = [];
+
+      // Use streaming endpoint for sub-test generation
+      await readGenerationStream({
+        prompt: `Generate ${count} detailed sub-test cases for: ${parentTestCase.summary}`,
+        fileIds: [],
+        count: count,
+        offset: 0,
+        requestId: `subtest-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+      }, data => {
+        switch (data.type) {
+          case 'connection':
+            console.log('🔗 Connected to sub-test streaming');
+            break;
+            
+          case 'testCase':
+            // Add sub-test case with parent reference
+            const subTestCase = {
+              ...data.testCase,
+              parentId: parentTestCase.id,
+              isSubTest: true
+            };
+            subTestCases.push(subTestCase);
+            
+            // Add to main list immediately for streaming effect
+            setGeneratedTestCases(prev => [...prev, subTestCase]);
+            
+            console.log(`✅ Generated sub-test case ${data.index}/${data.total}: ${data.testCase.summary}`);
+            break;
+            
+          case 'complete':
+            console.log('🎉 Sub-test generation complete');
+            break;
         }
-      }
+      }, { waitForNetwork, onReconnecting: setIsReconnectingStream });
 
       console.log(`✅ Generated ${subTestCases.length} sub-test cases for: ${parentTestCase.summary}`);
     } catch (error) {
@@ -387,10 +701,23 @@ const UploadTestData: React.FC<UploadTestDataProps> = () => {
     }
   };
 
+  const getQualityColor = (grade: TestCaseQuality['grade']): string => {
+    switch (grade) {
+      case 'good': return theme === 'light' ? 'bg-green-100 text-green-800' : 'bg-green-900/40 text-green-300';
+      case 'fair': return theme === 'light' ? 'bg-yellow-100 text-yellow-800' : 'bg-yellow-900/40 text-yellow-300';
+      default: return theme === 'light' ? 'bg-red-100 text-red-800' : 'bg-red-900/40 text-red-300';
+    }
+  };
+
   // Streaming test generation function
   const generateTestCasesStreaming = useCallback(async (isLoadMore: boolean = false): Promise<void> => {
-    if (!testData.trim() && uploadedFiles.length === 0) {
-      setGenerationError('Please enter a prompt for test case generation or upload files');
+    if (!testData.trim() && uploadedFiles.length === 0 && !selectedTemplate) {
+      setGenerationError('Please enter a prompt for test case generation, choose a template or upload files');
+      return;
+    }
+
+    if (missingTemplateVariables.length > 0) {
+      setGenerationError(`Please fill in the template fields: ${missingTemplateVariables.join(', ')}`);
       return;
     }
 
@@ -419,88 +746,46 @@ const UploadTestData: React.FC<UploadTestDataProps> = () => {
       const uniqueRequestId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
       
       const request: TestGenerationRequest = {
-        prompt: testData.trim() || 'Generate test cases from the uploaded files',
+        ...promptFields,
         fileIds: uploadedFiles.map(file => file.id),
         count: 10, // Always generate exactly 10 test cases
         offset: isLoadMore ? currentOffset : 0,
-        requestId: uniqueRequestId
+        requestId: uniqueRequestId,
+        format: outputFormat,
+        ...(selectedModel ? { model: selectedModel } : {}),
+        ...(autoRefine ? { autoRefine } : {}),
+        ...(riskProfile ? { riskProfile } : {}),
+        ...(language !== 'en' ? { language } : {}),
+        // Let the backend steer away from cases that are already on screen
+        existingSummaries: isLoadMore ? generatedTestCases.map(testCase => testCase.summary) : []
       };
 
       // Use fetch with streaming for Server-Sent Events
-      const response = await fetch(API_ENDPOINTS.TEST_GENERATION, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(request),
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const reader = response.body?.getReader();
-      if (!reader) {
-        throw new Error('No response body reader available');
-      }
-
-      const decoder = new TextDecoder();
-      let buffer = '';
-
-      // Initialize streaming
-
-      while (true) {
-        const { done, value } = await reader.read();
-        
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || ''; // Keep incomplete line in buffer
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6));
-              
-              switch (data.type) {
-                case 'connection':
-                  console.log('🔗 Connected to streaming:', data.message);
-                  break;
-                  
-                case 'testCase':
-                  // Add new test case to the list
-                  setGeneratedTestCases(prev => {
-                    if (isLoadMore) {
-                      return [...prev, data.testCase];
-                    } else {
-                      return [...prev, data.testCase];
-                    }
-                  });
-                  
-                  // Update total count
-                  setTotalGenerated(prev => prev + 1);
-                  
-                  console.log(`✅ Received test case ${data.index}/${data.total}: ${data.testCase.summary}`);
-                  break;
-                  
-                case 'complete':
-                  setHasMoreTests(data.hasMore);
-                  if (!isLoadMore) {
-                    setHasInitialGeneration(true);
-                  }
-                  console.log('🎉 Streaming complete:', data.message);
-                  break;
-                  
-                case 'error':
-                  throw new Error(data.error);
-              }
-            } catch (parseError) {
-              console.warn('Failed to parse streaming data:', line);
+      await readGenerationStream(request, data => {
+        switch (data.type) {
+          case 'connection':
+            console.log('🔗 Connected to streaming:', data.message);
+            break;
+            
+          case 'testCase':
+            // Add new test case to the list
+            setGeneratedTestCases(prev => [...prev, data.testCase]);
+            
+            // Update total count
+            setTotalGenerated(prev => prev + 1);
+            
+            console.log(`✅ Received test case ${data.index}/${data.total}: ${data.testCase.summary}`);
+            break;
+            
+          case 'complete':
+            setHasMoreTests(data.hasMore);
+            if (!isLoadMore) {
+              setHasInitialGeneration(true);
             }
-          }
+            console.log('🎉 Streaming complete:', data.message);
+            break;
         }
-      }
+      }, { waitForNetwork, onReconnecting: setIsReconnectingStream });
 
     } catch (error) {
       let errorMessage = 'Failed to generate test cases';
@@ -516,7 +801,7 @@ const UploadTestData: React.FC<UploadTestDataProps> = () => {
       setIsGeneratingMore(false);
       console.log('🏁 Streaming generation finished');
     }
-  }, [testData, uploadedFiles, isGenerating, isStreaming, currentOffset]);
+  }, [testData, uploadedFiles, isGenerating, isStreaming, currentOffset, generatedTestCases, outputFormat, selectedModel, autoRefine, riskProfile, language, selectedTemplate, missingTemplateVariables, promptFields, waitForNetwork]);
 
 
   // Load more test cases - only available after initial generation
@@ -586,11 +871,59 @@ const UploadTestData: React.FC<UploadTestDataProps> = () => {
           : 'bg-gray-800 border-gray-700'
       }`}>
         <div className="space-y-4">
+          {promptTemplates.length > 0 && (
+            <div className="space-y-2">
+              <label className={`block text-sm font-medium ${
+                theme === 'light' ? 'text-gray-700' : 'text-gray-300'
+              }`}>
+                Prompt Template
+              </label>
+              <select
+                value={selectedTemplateId}
+                onChange={(e) => {
+                  setSelectedTemplateId(e.target.value);
+                  setTemplateVariables({});
+                }}
+                className={`w-full rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-teal-500 ${
+                  theme === 'light'
+                    ? 'bg-white border border-gray-300 text-gray-700'
+                    : 'bg-gray-700 border border-gray-600 text-gray-300'
+                }`}
+              >
+                <option value="">No template</option>
+                {promptTemplates.map(template => (
+                  <option key={template.id} value={template.id} title={template.description}>
+                    {template.name}{template.scope === 'team' ? ` (team: ${template.teamId})` : template.scope === 'private' ? ' (mine)' : ''}
+                  </option>
+                ))}
+              </select>
+              {selectedTemplate && selectedTemplate.variables.length > 0 && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {selectedTemplate.variables.map(variable => (
+                    <input
+                      key={variable.name}
+                      type="text"
+                      value={templateVariables[variable.name] || ''}
+                      onChange={(e) => setTemplateVariables(prev => ({ ...prev, [variable.name]: e.target.value }))}
+                      aria-label={variable.label || variable.name}
+                      placeholder={`${variable.label || variable.name}${variable.defaultValue ? ` (${variable.defaultValue})` : variable.required ? ' *' : ''}`}
+                      className={`rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-teal-500 ${
+                        theme === 'light'
+                          ? 'bg-white border border-gray-300 text-gray-900 placeholder-gray-500'
+                          : 'bg-gray-700 border border-gray-600 text-white placeholder-gray-400'
+                      }`}
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
           <div>
             <label className={`block text-sm font-medium mb-2 ${
               theme === 'light' ? 'text-gray-700' : 'text-gray-300'
             }`}>
-              Test Data Content
+              {selectedTemplate ? 'Additional Instructions' : 'Test Data Content'}
             </label>
             <textarea
               value={testData}
@@ -627,7 +960,80 @@ const UploadTestData: React.FC<UploadTestDataProps> = () => {
                   theme === 'light' ? 'text-gray-600' : 'text-gray-300'
                 }`}>Real-time</span>
               </div>
-              
+              <select
+                value={outputFormat}
+                onChange={(e) => setOutputFormat(e.target.value as TestCaseFormat)}
+                className={`rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-teal-500 ${
+                  theme === 'light'
+                    ? 'bg-white border border-gray-300 text-gray-700'
+                    : 'bg-gray-700 border border-gray-600 text-gray-300'
+                }`}
+              >
+                <option value="standard">Standard steps</option>
+                <option value="gherkin">Gherkin (BDD)</option>
+              </select>
+              <select
+                value={language}
+                onChange={(e) => setLanguage(e.target.value as LanguageCode)}
+                title="Language the test cases are written in"
+                className={`rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-teal-500 ${
+                  theme === 'light'
+                    ? 'bg-white border border-gray-300 text-gray-700'
+                    : 'bg-gray-700 border border-gray-600 text-gray-300'
+                }`}
+              >
+                {(Object.keys(LANGUAGE_NAMES) as LanguageCode[]).map(code => (
+                  <option key={code} value={code}>{LANGUAGE_NAMES[code]}</option>
+                ))}
+              </select>
+              {availableModels.length > 0 && (
+                <select
+                  value={selectedModel}
+                  onChange={(e) => setSelectedModel(e.target.value)}
+                  title="Model used for generation"
+                  className={`rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-teal-500 ${
+                    theme === 'light'
+                      ? 'bg-white border border-gray-300 text-gray-700'
+                      : 'bg-gray-700 border border-gray-600 text-gray-300'
+                  }`}
+                >
+                  <option value="">Default model</option>
+                  {availableModels.map(model => (
+                    <option key={model.model} value={model.model} title={model.description}>
+                      {model.model}{model.isDefault ? ' (default)' : ''}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <label
+                title="Send test cases with a low quality score back to the model for a rewrite"
+                className={`flex items-center gap-1.5 text-sm cursor-pointer ${
+                  theme === 'light' ? 'text-gray-600' : 'text-gray-300'
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={autoRefine}
+                  onChange={(e) => setAutoRefine(e.target.checked)}
+                  className={`rounded text-teal-500 focus:ring-teal-500 ${
+                    theme === 'light' ? 'border-gray-300 bg-white' : 'border-gray-600 bg-gray-700'
+                  }`}
+                />
+                Auto-refine low scorers
+              </label>
+              <button
+                onClick={() => setShowRiskProfile(true)}
+                title="Rate feature areas by risk to set test case priorities"
+                className={`rounded-lg px-3 py-1.5 text-sm transition-colors cursor-pointer ${
+                  riskProfile
+                    ? 'bg-teal-500 hover:bg-teal-600 text-white'
+                    : theme === 'light'
+                      ? 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+                      : 'bg-gray-700 border border-gray-600 text-gray-300 hover:bg-gray-600'
+                }`}
+              >
+                Risk areas{riskProfile ? ` (${riskProfile.areas.length})` : ''}
+              </button>
             </div>
           </div>
 
@@ -678,7 +1084,7 @@ const UploadTestData: React.FC<UploadTestDataProps> = () => {
                 <p className={`text-xs mt-1 ${
                   theme === 'light' ? 'text-gray-500' : 'text-gray-400'
                 }`}>
-                  Supports: .txt, .docx, .png, .jpg, .jpeg, .img, .pdf, .doc, .xls, .xlsx, .ppt, .pptx, .zip, .rar
+                  Supports: .txt, .json, .yaml, .yml (OpenAPI / Swagger), .docx, .png, .jpg, .jpeg, .img, .pdf, .doc, .xls, .xlsx, .ppt, .pptx, .zip, .rar
                 </p>
               </div>
               
@@ -686,7 +1092,7 @@ const UploadTestData: React.FC<UploadTestDataProps> = () => {
                 ref={fileInputRef}
                 type="file"
                 multiple
-                accept=".txt,.docx,.png,.jpg,.jpeg,.img,.pdf,.doc,.xls,.xlsx,.ppt,.pptx,.zip,.rar"
+                accept=".txt,.json,.yaml,.yml,.docx,.png,.jpg,.jpeg,.img,.pdf,.doc,.xls,.xlsx,.ppt,.pptx,.zip,.rar"
                 onChange={handleFileChange}
                 disabled={isUploading}
                 className={`absolute inset-0 w-full h-full opacity-0 ${
@@ -718,6 +1124,24 @@ const UploadTestData: React.FC<UploadTestDataProps> = () => {
                       >
                         {file.originalName}
                       </button>
+                      {file.openApi && (
+                        <span
+                          className="px-1.5 py-0.5 rounded bg-teal-600 text-white text-xs font-medium flex-shrink-0"
+                          title={`${file.openApi.title}${file.openApi.apiVersion ? ` v${file.openApi.apiVersion}` : ''}: ${file.openApi.operations} endpoints`}
+                        >
+                          {file.openApi.version === 'swagger2' ? 'Swagger' : 'OpenAPI'} · {file.openApi.operations}
+                        </span>
+                      )}
+                      {file.language && (
+                        <span
+                          className={`px-1.5 py-0.5 rounded text-xs font-medium uppercase flex-shrink-0 ${
+                            theme === 'light' ? 'bg-gray-200 text-gray-700' : 'bg-gray-600 text-gray-200'
+                          }`}
+                          title={`Detected language: ${LANGUAGE_NAMES[file.language.code]} (${Math.round(file.language.confidence * 100)}% confidence)`}
+                        >
+                          {file.language.code}
+                        </span>
+                      )}
                       <button
                         onClick={() => removeFile(file.id)}
                         className={`hover:text-red-400 transition-colors ml-1 flex-shrink-0 cursor-pointer ${
@@ -744,7 +1168,35 @@ const UploadTestData: React.FC<UploadTestDataProps> = () => {
           >
             Process Data
           </LoadingButton>
+
+          {generationEstimate?.estimate && (
+            <div className={`mt-2 text-xs ${theme === 'light' ? 'text-gray-600' : 'text-gray-400'}`}>
+              <p>
+                Estimated {generationEstimate.estimate.totalTokens.min.toLocaleString()}–{generationEstimate.estimate.totalTokens.max.toLocaleString()} tokens
+                {' '}({generationEstimate.estimate.promptTokens.toLocaleString()} prompt) ·{' '}
+                {formatCost(generationEstimate.estimate.cost.min)}–{formatCost(generationEstimate.estimate.cost.max)} on {generationEstimate.estimate.model}
+              </p>
+              {generationEstimate.estimate.chunksSkipped > 0 && (
+                <p className="text-orange-400">
+                  The document is too large for one request: {generationEstimate.estimate.chunksSkipped} of {generationEstimate.estimate.chunks + generationEstimate.estimate.chunksSkipped} sections will not be covered.
+                </p>
+              )}
+              {generationEstimate.dailyLimit?.exceeded && (
+                <p className="text-orange-400">
+                  This may exceed your remaining daily allowance of {generationEstimate.dailyLimit.remaining.toLocaleString()} tokens.
+                </p>
+              )}
+            </div>
+          )}
           
+          {isReconnectingStream && (
+            <div className="mt-4 p-4 bg-orange-900/20 border border-orange-500/50 rounded-lg">
+              <p className="text-orange-400 text-sm">
+                {isOnline ? 'Connection lost. Reconnecting and resuming the stream...' : 'You are offline. The stream will resume when the connection is back.'}
+              </p>
+            </div>
+          )}
+
           {generationError && (
             <div className="mt-4 p-4 bg-red-900/20 border border-red-500/50 rounded-lg">
               <p className="text-red-400 text-sm">{generationError}</p>
@@ -819,6 +1271,36 @@ const UploadTestData: React.FC<UploadTestDataProps> = () => {
               }`}>
                 <option>Select project key *</option>
               </select>
+              {uploadedFiles.length > 0 && (
+                <button
+                  onClick={() => setShowTraceability(true)}
+                  className={`px-4 py-2 rounded-lg transition-colors cursor-pointer ${
+                    theme === 'light'
+                      ? 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+                      : 'bg-gray-700 border border-gray-600 text-gray-300 hover:bg-gray-600'
+                  }`}
+                >
+                  Traceability
+                </button>
+              )}
+              {generatedTestCases.length > 0 && (
+                <select
+                  value=""
+                  onChange={(e) => translateTestCases(e.target.value as LanguageCode)}
+                  disabled={isTranslating || isGenerating || isStreaming}
+                  title="Translate all test cases into another language"
+                  className={`px-4 py-2 rounded-lg cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed ${
+                    theme === 'light'
+                      ? 'bg-white border border-gray-300 text-gray-700'
+                      : 'bg-gray-700 border border-gray-600 text-gray-300'
+                  }`}
+                >
+                  <option value="" disabled>{isTranslating ? 'Translating...' : 'Translate to...'}</option>
+                  {(Object.keys(LANGUAGE_NAMES) as LanguageCode[]).map(code => (
+                    <option key={code} value={code}>{LANGUAGE_NAMES[code]}</option>
+                  ))}
+                </select>
+              )}
               <div className="relative" ref={dropdownRef}>
                 <button 
                   onClick={() => setShowExportDropdown(!showExportDropdown)}
@@ -833,7 +1315,7 @@ const UploadTestData: React.FC<UploadTestDataProps> = () => {
                 </button>
                 
                 {showExportDropdown && (
-                  <div className={`absolute right-0 mt-2 w-48 rounded-lg shadow-lg z-10 ${
+                  <div className={`absolute right-0 mt-2 w-56 rounded-lg shadow-lg z-10 ${
                     theme === 'light'
                       ? 'bg-white border border-gray-200'
                       : 'bg-gray-800 border border-gray-700'
@@ -858,6 +1340,33 @@ const UploadTestData: React.FC<UploadTestDataProps> = () => {
                     >
                       Export as JSON
                     </button>
+                    <button
+                      onClick={exportAsFeature}
+                      className={`w-full px-4 py-2 text-left transition-colors last:rounded-b-lg cursor-pointer ${
+                        theme === 'light'
+                          ? 'text-gray-700 hover:bg-gray-100'
+                          : 'text-gray-300 hover:bg-gray-700'
+                      }`}
+                    >
+                      Export as .feature
+                    </button>
+                    {([
+                      ['playwright', 'Playwright scripts (.zip)'],
+                      ['cypress', 'Cypress scripts (.zip)'],
+                      ['jest-supertest', 'Jest + Supertest (.zip)'],
+                    ] as Array<[AutomationFramework, string]>).map(([framework, label]) => (
+                      <button
+                        key={framework}
+                        onClick={() => exportAsAutomation(framework)}
+                        className={`w-full px-4 py-2 text-left transition-colors last:rounded-b-lg cursor-pointer ${
+                          theme === 'light'
+                            ? 'text-gray-700 hover:bg-gray-100'
+                            : 'text-gray-300 hover:bg-gray-700'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
                   </div>
                 )}
               </div>
@@ -952,6 +1461,30 @@ const UploadTestData: React.FC<UploadTestDataProps> = () => {
                           {test.summary}
                         </span>
                       </div>
+                      {test.requirementIds && test.requirementIds.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {test.requirementIds.map(requirementId => (
+                            <span
+                              key={requirementId}
+                              className={`px-1.5 py-0.5 rounded text-xs ${
+                                theme === 'light' ? 'bg-teal-50 text-teal-700' : 'bg-teal-900/30 text-teal-300'
+                              }`}
+                            >
+                              {requirementId}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                      {test.testData && (
+                        <button
+                          onClick={() => setTestDataFor(test)}
+                          className={`mt-1 px-1.5 py-0.5 rounded text-xs cursor-pointer ${
+                            theme === 'light' ? 'bg-gray-100 text-gray-600 hover:bg-gray-200' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                          }`}
+                        >
+                          {test.testData.rows.length} data rows
+                        </button>
+                      )}
                     </div>
                   </td>
                   <td className={`px-6 py-4 text-sm max-w-xs ${
@@ -988,9 +1521,22 @@ const UploadTestData: React.FC<UploadTestDataProps> = () => {
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getPriorityColor(test.priority)}`}>
+                    <span
+                      title={test.risk?.rationale}
+                      className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getPriorityColor(test.priority)} ${test.risk ? 'cursor-help' : ''}`}
+                    >
                       {test.priority}
                     </span>
+                    {test.quality && (
+                      <span
+                        title={test.quality.issues.length > 0
+                          ? test.quality.issues.map(issue => `• ${issue.message}`).join('\n')
+                          : 'No quality issues found'}
+                        className={`mt-1 flex w-fit items-center px-2 py-0.5 rounded text-xs font-medium cursor-help ${getQualityColor(test.quality.grade)}`}
+                      >
+                        Quality {test.quality.score}{test.quality.refined ? ' · refined' : ''}
+                      </span>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                     <div className="relative">
@@ -1063,6 +1609,22 @@ const UploadTestData: React.FC<UploadTestDataProps> = () => {
                             >
                               Custom Count...
                             </button>
+                            <div className={`border-t my-1 ${
+                              theme === 'light' ? 'border-gray-200' : 'border-gray-600'
+                            }`}></div>
+                            <button 
+                              onClick={() => {
+                                setTestDataFor(test);
+                                setOpenDropdown(null);
+                              }}
+                              className={`block w-full text-left px-4 py-2 text-sm transition-colors ${
+                                theme === 'light'
+                                  ? 'text-gray-700 hover:bg-gray-100 hover:text-gray-900'
+                                  : 'text-gray-300 hover:bg-gray-700 hover:text-white'
+                              }`}
+                            >
+                              {test.testData ? 'View Test Data' : 'Generate Test Data...'}
+                            </button>
                           </div>
                         </div>
                       )}
@@ -1154,6 +1716,31 @@ const UploadTestData: React.FC<UploadTestDataProps> = () => {
         )}
       </div>
 
+      {showTraceability && (
+        <TraceabilityMatrix
+          fileIds={uploadedFileIds}
+          testCases={generatedTestCases}
+          onClose={() => setShowTraceability(false)}
+        />
+      )}
+
+      {testDataFor && (
+        <TestDataModal
+          testCase={testDataFor}
+          fileIds={uploadedFileIds}
+          onGenerated={(testData: TestDataTable) => attachTestData(testDataFor.id, testData)}
+          onClose={() => setTestDataFor(null)}
+        />
+      )}
+
+      {showRiskProfile && (
+        <RiskProfileModal
+          profile={riskProfile}
+          onSave={setRiskProfile}
+          onClose={() => setShowRiskProfile(false)}
+        />
+      )}
+
       {/* File Preview Modal */}
       {showPreview && selectedFile && (
         <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50">
@@ -7,6 +7,15 @@ const API_BASE_URL = process.env.REACT_APP_API_URL ||
 export const API_ENDPOINTS = {
   UPLOAD: `${API_BASE_URL}/upload`,
   TEST_GENERATION: `${API_BASE_URL}/api/test-generation/generate-streaming`,
+  ESTIMATE: `${API_BASE_URL}/api/test-generation/estimate`,
+  MODELS: `${API_BASE_URL}/api/test-generation/models`,
+  TEMPLATES: `${API_BASE_URL}/api/test-generation/templates`,
+  EXPORT_FEATURE: `${API_BASE_URL}/api/test-generation/export/feature`,
+  EXPORT_AUTOMATION: `${API_BASE_URL}/api/test-generation/export/automation`,
+  TRACEABILITY: `${API_BASE_URL}/api/test-generation/traceability`,
+  TEST_DATA: `${API_BASE_URL}/api/test-generation/test-data`,
+  TEST_DATA_EXPORT: `${API_BASE_URL}/api/test-generation/test-data/export`,
+  TRANSLATE: `${API_BASE_URL}/api/test-generation/translate`,
   HEALTH: `${API_BASE_URL}/health`,
   FILES: `${API_BASE_URL}/files`,
   DELETE_FILE: (filename: string) => `${API_BASE_URL}/delete/${filename}`,
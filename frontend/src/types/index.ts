@@ -9,6 +9,63 @@ export interface UploadedFile {
   url: string;
   uploadedAt: string;
   extractedContent?: string;
+  openApi?: {
+    version: 'openapi3' | 'swagger2';
+    title: string;
+    apiVersion: string;
+    operations: number;
+  };
+  language?: DetectedLanguage;
+}
+
+// Languages test cases can be generated in and translated to
+export type LanguageCode = 'en' | 'de' | 'es' | 'fr' | 'it' | 'pt' | 'nl' | 'ja' | 'zh' | 'ko';
+
+// Language of an uploaded document as detected from its extracted text
+export interface DetectedLanguage {
+  code: LanguageCode;
+  confidence: number; // 0-1
+}
+
+// Requirement traceability types
+export interface Requirement {
+  requirementId: string;
+  type: 'requirement' | 'user_story';
+  text: string;
+  section?: string;
+  fileId?: string;
+}
+
+export interface TraceabilityMatrix {
+  rows: Array<{
+    requirement: Requirement;
+    testCaseIds: Array<string | number>;
+    covered: boolean;
+  }>;
+  uncoveredRequirements: Requirement[];
+  unlinkedTestCases: Array<{ id: string | number; summary: string }>;
+  coverage: {
+    total: number;
+    covered: number;
+    percent: number;
+  };
+}
+
+// Test data types
+export type TestDataTechnique = 'boundary' | 'equivalence' | 'pairwise';
+
+export type TestDataPreset = 'password' | 'signup';
+
+export interface TestDataRow {
+  technique: TestDataTechnique;
+  valid: boolean;
+  description: string;
+  values: Record<string, unknown>;
+}
+
+export interface TestDataTable {
+  fields: string[];
+  rows: TestDataRow[];
 }
 
 // Test case types
@@ -19,6 +76,88 @@ export interface TestCase {
   steps: string;
   expectedResult: string;
   priority: 'P1' | 'P2' | 'P3';
+  source?: TestCaseSource;
+  gherkin?: GherkinScenario;
+  requirementIds?: string[];
+  testData?: TestDataTable;
+  duplicateOf?: {
+    summary: string;
+    similarity: number;
+  };
+  provenanceId?: string; // record of the generation that produced it, for admins to inspect
+  quality?: TestCaseQuality;
+  risk?: TestCaseRisk; // why it has its priority, when a risk profile was applied
+}
+
+// Rule-based quality check of a generated test case
+export interface TestCaseQualityIssue {
+  rule: 'placeholder_text' | 'missing_precondition' | 'unnumbered_steps' | 'unverifiable_expected_result' | 'duplicate_steps';
+  field: 'summary' | 'precondition' | 'steps' | 'expectedResult';
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface TestCaseQuality {
+  score: number; // 0-100
+  grade: 'good' | 'fair' | 'poor';
+  issues: TestCaseQualityIssue[];
+  refined?: boolean; // rewritten by auto-refine because the original scored low
+}
+
+// Risk-based prioritization: factors are rated from 1 (low) to 5 (high)
+export interface RiskArea {
+  name: string;
+  keywords: string[];
+  businessImpact: number;
+  usageFrequency: number;
+  changeFrequency: number;
+  defectHistory: number;
+}
+
+export type RiskFactor = 'businessImpact' | 'usageFrequency' | 'changeFrequency' | 'defectHistory';
+
+export interface RiskProfile {
+  areas: RiskArea[];
+  mode: 'override' | 'calibrate';
+}
+
+export interface TestCaseRisk {
+  area?: string;
+  score?: number; // 0-100
+  riskPriority?: 'P1' | 'P2' | 'P3';
+  modelPriority: 'P1' | 'P2' | 'P3';
+  mode: RiskProfile['mode'];
+  rationale: string;
+}
+
+// Pointer from a test case back to the document section it was generated from
+export interface TestCaseSource {
+  chunkId: string;
+  chunkTitle: string;
+  fileId?: string;
+}
+
+// Target frameworks for generated automation script skeletons
+export type AutomationFramework = 'playwright' | 'cypress' | 'jest-supertest';
+
+// Gherkin (BDD) output
+export type TestCaseFormat = 'standard' | 'gherkin';
+
+export interface GherkinStep {
+  keyword: 'Given' | 'When' | 'Then' | 'And' | 'But';
+  text: string;
+}
+
+export interface GherkinScenario {
+  feature: string;
+  name: string;
+  type: 'Scenario' | 'Scenario Outline';
+  tags: string[];
+  steps: GherkinStep[];
+  examples?: {
+    headers: string[];
+    rows: string[][];
+  };
 }
 
 // Component prop types
@@ -98,6 +237,23 @@ export interface TestGenerationRequest {
   count?: number;
   offset?: number;
   requestId?: string;
+  existingSummaries?: string[];
+  dedupe?: 'merge' | 'flag';
+  format?: TestCaseFormat;
+  model?: string;
+  templateId?: string;
+  variables?: Record<string, string>;
+  autoRefine?: boolean;
+  riskProfile?: RiskProfile;
+  language?: LanguageCode;
+}
+
+export interface TestCaseTranslationResponse {
+  success: boolean;
+  testCases?: TestCase[];
+  untranslatedIds?: number[];
+  message?: string;
+  error?: string;
 }
 
 export interface TestGenerationResponse {
@@ -109,6 +265,67 @@ export interface TestGenerationResponse {
   error?: string;
 }
 
+export interface PromptTemplateVariable {
+  name: string;
+  label?: string;
+  required: boolean;
+  defaultValue?: string;
+}
+
+// A reusable prompt with {{variable}} placeholders: a built-in preset, the user's own or one shared with their team
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  body: string;
+  variables: PromptTemplateVariable[];
+  scope: 'preset' | 'private' | 'team';
+  teamId?: string;
+  ownerEmail?: string;
+}
+
+// A model the user's role may select for generation
+export interface AvailableModel {
+  provider: string;
+  model: string;
+  description?: string;
+  isDefault: boolean;
+  maxTokens: number;
+  minTemperature: number;
+  maxTemperature: number;
+}
+
+export interface EstimateRange {
+  min: number;
+  max: number;
+}
+
+// Pre-flight projection returned by /estimate before a generation runs
+export interface GenerationEstimate {
+  provider: string;
+  model: string;
+  format: TestCaseFormat;
+  count: number;
+  promptTokens: number;
+  completionTokens: EstimateRange;
+  totalTokens: EstimateRange;
+  cost: EstimateRange & { currency: 'USD' };
+  chunks: number;
+  chunksSkipped: number;
+}
+
+export interface GenerationEstimateResponse {
+  success: boolean;
+  estimate?: GenerationEstimate;
+  dailyLimit?: {
+    limit: number;
+    used: number;
+    remaining: number;
+    exceeded: boolean;
+  };
+  error?: string;
+}
+
 // Context Window Types
 export interface TestCaseContext {
   id: string;
@@ -118,7 +335,14 @@ export interface TestCaseContext {
   expectedResult: string;
   priority: 'P1' | 'P2' | 'P3';
   parentId?: string | undefined;
+  source?: TestCaseSource;
+  gherkin?: GherkinScenario;
   level: number;
+  order: number;
+  tags: string[];
+  requirementIds: string[];
+  testData?: TestDataTable;
+  risk?: TestCaseRisk;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -132,6 +356,8 @@ export interface ContextWindow {
   rootPrompt: string;
   fileIds: string[];
   testCases: TestCaseContext[];
+  riskProfile?: RiskProfile;
+  language?: LanguageCode;
   currentLevel: number;
   maxLevel: number;
   createdAt: Date;